@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getCalendarFeed } from "@/lib/calendar-feed"
+
+// GET /api/calendar/<token>.ics - feed iCalendar assinado pelo Google/Apple/Outlook
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+
+  try {
+    const calendar = await getCalendarFeed(token.replace(/\.ics$/, ""))
+    if (!calendar) {
+      return NextResponse.json({ error: "Calendar not found" }, { status: 404 })
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="plantoes.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    })
+  } catch (error) {
+    return NextResponse.json({ error: "Failed to build calendar" }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getRequestUser } from "@/lib/firebase-admin"
+import { recordPunch } from "@/lib/punch-service"
+import {
+  AttendanceError,
+  FaceCheckError,
+  GeofenceError,
+  LocationAccuracyError,
+  PunchError,
+  type PunchInput,
+  type PunchRejection,
+} from "@/lib/attendance-log"
+
+const PUNCH_KINDS = ["in", "out", "break_start", "break_end"]
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+// Corpo da marcação vindo do navegador; null se faltar algo ou vier em outro formato
+const readPunchInput = (body: Record<string, unknown> | null): PunchInput | null => {
+  if (!body || !PUNCH_KINDS.includes(body.kind as string)) return null
+
+  const position = body.position as Record<string, unknown> | undefined
+  if (!isFiniteNumber(position?.latitude) || !isFiniteNumber(position?.longitude)) return null
+  if (!isFiniteNumber(position?.accuracy) || position.accuracy < 0) return null
+
+  const { verificationId } = body
+  if (verificationId !== undefined && (typeof verificationId !== "string" || !verificationId)) return null
+
+  return {
+    kind: body.kind as PunchInput["kind"],
+    ...(body.final === true && { final: true }),
+    position: { latitude: position.latitude, longitude: position.longitude, accuracy: position.accuracy },
+    ...(typeof verificationId === "string" && { verificationId }),
+  }
+}
+
+const toPunchRejection = (error: unknown): PunchRejection | null => {
+  if (error instanceof PunchError) return { type: "punch", state: error.state, kind: error.kind }
+  if (error instanceof AttendanceError) {
+    return { type: "attendance", violation: error.violation, boundary: error.boundary.toISOString() }
+  }
+  if (error instanceof GeofenceError) {
+    return { type: "geofence", distanceMeters: error.distanceMeters, radiusMeters: error.radiusMeters }
+  }
+  if (error instanceof LocationAccuracyError) {
+    return { type: "accuracy", accuracyMeters: error.accuracyMeters, radiusMeters: error.radiusMeters }
+  }
+  if (error instanceof FaceCheckError) return { type: "face", reason: error.reason }
+  return null
+}
+
+// POST /api/contracts/<id>/punches { kind, final?, position, verificationId? } - marcação de ponto do médico
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const input = readPunchInput(await request.json().catch(() => null))
+  if (!input) {
+    return NextResponse.json({ error: "Invalid punch" }, { status: 400 })
+  }
+
+  try {
+    await recordPunch(user.uid, id, input)
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    const rejection = toPunchRejection(error)
+    if (rejection) {
+      return NextResponse.json({ error: "Punch rejected", rejection }, { status: 422 })
+    }
+    return NextResponse.json({ error: "Failed to record punch" }, { status: 500 })
+  }
+}
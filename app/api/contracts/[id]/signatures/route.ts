@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getRequestUser } from "@/lib/firebase-admin"
+import { signContract } from "@/lib/contract-signing"
+import { SignatureError } from "@/lib/contract-document"
+
+// POST /api/contracts/<id>/signatures { documentHash } - assinatura do médico ou do hospital sobre o contrato.
+// O IP e o navegador registrados como evidência são os da requisição
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { id } = await params
+  const documentHash = (await request.json().catch(() => null))?.documentHash
+  if (typeof documentHash !== "string" || !documentHash) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 })
+  }
+
+  // Atrás do proxy, o primeiro endereço de x-forwarded-for é o do cliente
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+  const context = {
+    ipAddress: forwarded || request.headers.get("x-real-ip") || "",
+    userAgent: request.headers.get("user-agent") || "",
+  }
+
+  try {
+    const party = await signContract(user.uid, id, documentHash, context)
+    return NextResponse.json({ party })
+  } catch (error) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: "Signature rejected", reason: error.reason }, { status: 422 })
+    }
+    return NextResponse.json({ error: "Failed to sign contract" }, { status: 500 })
+  }
+}
@@ -0,0 +1,163 @@
+import { lookup, type LookupAddress } from "node:dns"
+import { request as httpsRequest } from "node:https"
+import type { IncomingMessage } from "node:http"
+import { BlockList, isIP, type LookupFunction } from "node:net"
+import { NextResponse, type NextRequest } from "next/server"
+import { getRequestUser } from "@/lib/firebase-admin"
+
+export const runtime = "nodejs"
+
+// Agendas maiores que isso são recusadas
+const MAX_CALENDAR_BYTES = 2 * 1024 * 1024
+const FETCH_TIMEOUT_MS = 10000
+const MAX_REDIRECTS = 3
+
+// Endereços locais/privados/reservados: a rota não pode servir de proxy para a rede interna. IPv6 mapeado
+// (::ffff:a.b.c.d) já é comparado com as faixas IPv4
+const blockedAddresses = new BlockList()
+;[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, "ipv4"))
+;[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, "ipv6"))
+
+const isBlockedAddress = (address: string): boolean => {
+  const family = isIP(address)
+  return family === 0 || blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+}
+
+class BlockedAddressError extends Error {
+  constructor(address: string) {
+    super(`Blocked address ${address}`)
+    this.name = "BlockedAddressError"
+  }
+}
+
+class ResponseTooLargeError extends Error {
+  constructor() {
+    super("Response too large")
+    this.name = "ResponseTooLargeError"
+  }
+}
+
+// Resolve o nome e recusa a conexão se algum endereço for privado; é o IP usado no socket que vale, não o hostname
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, "", 0)
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address))
+    if (blocked) return callback(new BlockedAddressError(blocked.address), "", 0)
+
+    if (options.all) return (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+const get = (url: URL, signal: AbortSignal): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    // IP literal não passa pelo lookup
+    const hostname = url.hostname.replace(/^\[|\]$/g, "")
+    if (isIP(hostname) && isBlockedAddress(hostname)) return reject(new BlockedAddressError(hostname))
+
+    const req = httpsRequest(url, { headers: { Accept: "text/calendar" }, lookup: publicLookup, signal }, resolve)
+    req.on("error", reject)
+    req.end()
+  })
+
+// Lê o corpo até o limite, abortando o download se passar dele
+const readBody = async (response: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of response) {
+    size += chunk.length
+    if (size > MAX_CALENDAR_BYTES) {
+      response.destroy()
+      throw new ResponseTooLargeError()
+    }
+    chunks.push(chunk)
+  }
+
+  return Buffer.concat(chunks).toString("utf-8")
+}
+
+// Segue os redirecionamentos manualmente, validando protocolo e endereço a cada salto
+const fetchCalendar = async (url: URL, signal: AbortSignal): Promise<IncomingMessage | null> => {
+  let current = url
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await get(current, signal)
+    const location = response.headers.location
+    if (!response.statusCode || response.statusCode < 300 || response.statusCode >= 400 || !location) {
+      return response
+    }
+
+    response.resume()
+    current = new URL(location, current)
+    if (current.protocol !== "https:") return null
+  }
+
+  return null
+}
+
+// POST /api/external-calendar { url } - baixa um .ics externo (webcal/https) para importação
+export async function POST(request: NextRequest) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const rawUrl = typeof body?.url === "string" ? body.url.trim().replace(/^webcal:\/\//i, "https://") : ""
+
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    return NextResponse.json({ error: "Invalid URL" }, { status: 400 })
+  }
+  if (url.protocol !== "https:") {
+    return NextResponse.json({ error: "Only public https calendars are supported" }, { status: 400 })
+  }
+
+  try {
+    const response = await fetchCalendar(url, AbortSignal.timeout(FETCH_TIMEOUT_MS))
+    if (!response || response.statusCode !== 200) {
+      response?.resume()
+      return NextResponse.json({ error: "Calendar could not be fetched" }, { status: 502 })
+    }
+
+    const declaredLength = Number(response.headers["content-length"])
+    if (declaredLength > MAX_CALENDAR_BYTES) {
+      response.destroy()
+      return NextResponse.json({ error: "Calendar too large" }, { status: 413 })
+    }
+
+    const text = await readBody(response)
+    if (!text.includes("BEGIN:VCALENDAR")) {
+      return NextResponse.json({ error: "Not an iCalendar file" }, { status: 422 })
+    }
+
+    return new NextResponse(text, { headers: { "Content-Type": "text/calendar; charset=utf-8" } })
+  } catch (error) {
+    if (error instanceof ResponseTooLargeError) {
+      return NextResponse.json({ error: "Calendar too large" }, { status: 413 })
+    }
+    if (error instanceof BlockedAddressError) {
+      return NextResponse.json({ error: "Only public https calendars are supported" }, { status: 400 })
+    }
+    return NextResponse.json({ error: "Calendar could not be fetched" }, { status: 502 })
+  }
+}
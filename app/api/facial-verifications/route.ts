@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getRequestUser } from "@/lib/firebase-admin"
+import { recordFaceVerification, type FaceVerificationInput } from "@/lib/face-verification"
+import { FACE_EMBEDDING_DIMENSIONS } from "@/lib/face-match"
+
+// Corpo da verificação vindo do navegador; null se faltar algo ou vier em outro formato
+const readVerificationInput = (body: Record<string, unknown> | null, uid: string): FaceVerificationInput | null => {
+  if (!body) return null
+
+  const { contractId, embedding, imagePath } = body
+  if (contractId !== undefined && contractId !== null && typeof contractId !== "string") return null
+  if (typeof imagePath !== "string" || !imagePath.startsWith(`facialVerifications/${uid}/`)) return null
+  if (
+    embedding !== null &&
+    (!Array.isArray(embedding) ||
+      embedding.length !== FACE_EMBEDDING_DIMENSIONS ||
+      !embedding.every((value) => typeof value === "number" && Number.isFinite(value)))
+  ) {
+    return null
+  }
+
+  return {
+    contractId: (contractId as string | null | undefined) || null,
+    embedding: embedding as number[] | null,
+    imagePath,
+  }
+}
+
+// POST /api/facial-verifications { contractId?, embedding, imagePath } - compara a captura com as fotos de
+// referência do médico e registra a tentativa; só o servidor grava em facialVerifications
+export async function POST(request: NextRequest) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const input = readVerificationInput(await request.json().catch(() => null), user.uid)
+  if (!input) {
+    return NextResponse.json({ error: "Invalid verification" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await recordFaceVerification(user.uid, input))
+  } catch (error) {
+    return NextResponse.json({ error: "Failed to verify face" }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { flagMissingCheckOuts } from "@/lib/jobs/flag-missing-check-outs"
+
+// GET|POST /api/jobs/flag-missing-check-outs[?dryRun=1] - chamado periodicamente pelo agendador (cron)
+// Protegido pelo cabeçalho "Authorization: Bearer $CRON_SECRET"
+const handler = async (request: NextRequest) => {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const dryRun = request.nextUrl.searchParams.get("dryRun") === "1"
+    return NextResponse.json(await flagMissingCheckOuts({ dryRun }))
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Job failed" }, { status: 500 })
+  }
+}
+
+export { handler as GET, handler as POST }
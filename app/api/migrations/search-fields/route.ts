@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { migrateSearchFields } from "@/lib/migrations/search-fields"
+
+// POST /api/migrations/search-fields[?dryRun=1]
+// Protegido pelo cabeçalho "Authorization: Bearer $MIGRATION_SECRET"
+export async function POST(request: NextRequest) {
+  const secret = process.env.MIGRATION_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const dryRun = request.nextUrl.searchParams.get("dryRun") === "1"
+    return NextResponse.json(await migrateSearchFields({ dryRun }))
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Migration failed" }, { status: 500 })
+  }
+}
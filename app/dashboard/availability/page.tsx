@@ -8,25 +8,79 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
 import { Badge } from "@/components/ui/badge"
-import { Clock, Plus, Trash2, X, RotateCcw } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Clock, Pencil, Plus, Repeat, Trash2, X, RotateCcw } from "lucide-react"
 import {
   getTimeSlots,
+  getAvailabilityRules,
   addTimeSlot,
+  addAvailabilityRule,
   deleteTimeSlot,
+  deleteAvailabilityRule,
+  deleteAvailabilityOccurrence,
+  expandAvailabilityRule,
+  updateAvailabilityOccurrence,
+  updateAvailabilityRule,
   medicalSpecialties,
+  type AvailabilityRule,
   type TimeSlot,
 } from "@/lib/availability-service"
+import {
+  findBusyConflicts,
+  getExternalCalendars,
+  type BusyConflict,
+  type ExternalCalendar,
+} from "@/lib/external-calendar-service"
+import { addDays, describeWeeklyRecurrence } from "@/lib/recurrence"
+import { getSlotWindow, windowsOverlap } from "@/lib/shift-timing"
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { ExternalCalendars } from "@/components/external-calendars"
 import { cn } from "@/lib/utils"
 import { Check } from "lucide-react"
 
+const weekdayOptions = [
+  { value: "1", label: "Seg" },
+  { value: "2", label: "Ter" },
+  { value: "3", label: "Qua" },
+  { value: "4", label: "Qui" },
+  { value: "5", label: "Sex" },
+  { value: "6", label: "Sáb" },
+  { value: "0", label: "Dom" },
+]
+
+// Período usado para conferir conflitos de uma nova série com a disponibilidade existente
+const CONFLICT_CHECK_DAYS = 180
+
+// Edição de horários de uma ocorrência isolada ou da série inteira
+type EditTarget = { kind: "occurrence"; slot: TimeSlot } | { kind: "series"; rule: AvailabilityRule }
+
 export default function AvailabilityPage() {
   const { toast } = useToast()
   const [dates, setDates] = useState<Date[]>([])
   const [startTime, setStartTime] = useState("08:00")
   const [endTime, setEndTime] = useState("18:00")
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([])
+  const [rules, setRules] = useState<AvailabilityRule[]>([])
+  const [externalCalendars, setExternalCalendars] = useState<ExternalCalendar[]>([])
+  const [mode, setMode] = useState<"dates" | "recurring">("dates")
+  const [weekdays, setWeekdays] = useState<string[]>([])
+  const [intervalWeeks, setIntervalWeeks] = useState("1")
+  const [seriesStart, setSeriesStart] = useState("")
+  const [seriesUntil, setSeriesUntil] = useState("")
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null)
+  const [editStartTime, setEditStartTime] = useState("")
+  const [editEndTime, setEditEndTime] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [isLoadingTimeSlots, setIsLoadingTimeSlots] = useState(true)
   const [open, setOpen] = useState(false)
@@ -34,11 +88,25 @@ export default function AvailabilityPage() {
   const [searchValue, setSearchValue] = useState("")
   const [timeError, setTimeError] = useState<string | null>(null)
 
+  const loadAvailability = async () => {
+    const [slots, fetchedRules, calendars] = await Promise.all([
+      getTimeSlots(),
+      getAvailabilityRules(),
+      getExternalCalendars(),
+    ])
+    setTimeSlots(slots.sort((a, b) => a.date.getTime() - b.date.getTime()))
+    setRules(fetchedRules)
+    setExternalCalendars(calendars)
+  }
+
+  const loadExternalCalendars = async () => {
+    setExternalCalendars(await getExternalCalendars())
+  }
+
   useEffect(() => {
     const fetchTimeSlots = async () => {
       try {
-        const slots = await getTimeSlots();
-        setTimeSlots(slots.sort((a, b) => a.date.getTime() - b.date.getTime()));
+        await loadAvailability();
       } catch (error) {
         console.error("Error fetching time slots:", error);
         toast({
@@ -53,19 +121,155 @@ export default function AvailabilityPage() {
     fetchTimeSlots()
   }, [toast])
 
-  const checkTimeConflict = (newDate: Date, newStart: string, newEnd: string) => {
+  // Compara as janelas reais, inclusive as que atravessam a meia-noite
+  const checkTimeConflict = (newDate: Date, newStart: string, newEnd: string, ignoreId?: string) => {
+    const newWindow = getSlotWindow(newDate, newStart, newEnd)
+    if (!newWindow) return false
+
     return timeSlots.some((slot) => {
-      const slotDate = slot.date.toDateString()
-      const newDateStr = newDate.toDateString()
-      if (slotDate !== newDateStr) return false
-      return (
-        (newStart >= slot.startTime && newStart < slot.endTime) ||
-        (newEnd > slot.startTime && newEnd <= slot.endTime) ||
-        (newStart <= slot.startTime && newEnd >= slot.endTime)
-      )
+      if (slot.id === ignoreId) return false
+      const window = getSlotWindow(slot.date, slot.startTime, slot.endTime)
+      return !!window && windowsOverlap(window, newWindow)
     })
   }
 
+  // Compromissos importados de outras agendas que coincidem com o horário
+  const checkBusyConflict = (newDate: Date, newStart: string, newEnd: string) => {
+    const newWindow = getSlotWindow(newDate, newStart, newEnd)
+    if (!newWindow) return undefined
+
+    return findBusyConflicts(externalCalendars, newWindow.start, newWindow.end)[0]
+  }
+
+  const busyConflictMessage = (date: Date, conflict: BusyConflict) =>
+    `${date.toLocaleDateString("pt-BR")}: "${conflict.block.summary}" (${conflict.calendarName})`
+
+  const handleAddAvailability = async () => {
+    if (startTime === endTime) {
+      setTimeError("O início e o término não podem ser iguais.")
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      if (mode === "dates") {
+        if (dates.length === 0) {
+          toast({
+            title: "Selecione as datas",
+            description: "Escolha ao menos uma data no calendário.",
+            variant: "destructive",
+          })
+          return
+        }
+
+        const conflicting = dates.filter((date) => checkTimeConflict(date, startTime, endTime))
+        if (conflicting.length > 0) {
+          toast({
+            title: "Conflito de horários",
+            description: `Já existe disponibilidade em ${conflicting
+              .map((date) => date.toLocaleDateString("pt-BR"))
+              .join(", ")}.`,
+            variant: "destructive",
+          })
+          return
+        }
+
+        const busy = dates.flatMap((date) => {
+          const conflict = checkBusyConflict(date, startTime, endTime)
+          return conflict ? [busyConflictMessage(date, conflict)] : []
+        })
+        if (busy.length > 0) {
+          toast({
+            title: "Horário ocupado em outra agenda",
+            description: busy.join("; "),
+            variant: "destructive",
+          })
+          return
+        }
+
+        await Promise.all(
+          dates.map((date) => addTimeSlot({ date, startTime, endTime, specialties: selectedSpecialties })),
+        )
+      } else {
+        if (weekdays.length === 0 || !seriesStart) {
+          toast({
+            title: "Dados incompletos",
+            description: "Informe os dias da semana e a data de início da recorrência.",
+            variant: "destructive",
+          })
+          return
+        }
+
+        if (seriesUntil && seriesUntil < seriesStart) {
+          toast({
+            title: "Datas inválidas",
+            description: "O término deve ser posterior ao início.",
+            variant: "destructive",
+          })
+          return
+        }
+
+        const input = {
+          weekdays: weekdays.map(Number),
+          intervalWeeks: Number(intervalWeeks),
+          startDate: seriesStart,
+          until: seriesUntil || null,
+          startTime,
+          endTime,
+          specialties: selectedSpecialties,
+        }
+        const occurrences = expandAvailabilityRule(
+          { ...input, doctorId: "", exceptions: {} },
+          seriesStart,
+          addDays(seriesStart, CONFLICT_CHECK_DAYS),
+        )
+        const conflicting = occurrences.filter((slot) => checkTimeConflict(slot.date, startTime, endTime))
+        if (conflicting.length > 0) {
+          toast({
+            title: "Conflito de horários",
+            description: `A série coincide com disponibilidade já cadastrada em ${conflicting
+              .slice(0, 3)
+              .map((slot) => slot.date.toLocaleDateString("pt-BR"))
+              .join(", ")}${conflicting.length > 3 ? "..." : ""}.`,
+            variant: "destructive",
+          })
+          return
+        }
+
+        const busy = occurrences.flatMap((slot) => {
+          const conflict = checkBusyConflict(slot.date, startTime, endTime)
+          return conflict ? [busyConflictMessage(slot.date, conflict)] : []
+        })
+        if (busy.length > 0) {
+          toast({
+            title: "Horário ocupado em outra agenda",
+            description: `${busy.slice(0, 3).join("; ")}${busy.length > 3 ? "..." : ""}`,
+            variant: "destructive",
+          })
+          return
+        }
+
+        await addAvailabilityRule(input)
+      }
+
+      await loadAvailability()
+      resetForm()
+      toast({
+        title: "Disponibilidade adicionada",
+        description: "Seus horários foram salvos com sucesso.",
+      })
+    } catch (error) {
+      console.error("Error adding availability:", error)
+      toast({
+        title: "Erro ao adicionar",
+        description: "Falha ao salvar disponibilidade.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleSelectDate = (newDate: Date) => {
     if (dates.length === 0) {
       // Se nenhuma data estiver selecionada, adiciona a primeira data
@@ -93,11 +297,16 @@ export default function AvailabilityPage() {
     }
   }
 
-  const handleRemoveTimeSlot = async (id: string) => {
+  // Ocorrências de uma série são removidas individualmente; a série continua
+  const handleRemoveTimeSlot = async (slot: TimeSlot) => {
     setIsLoading(true)
     try {
-      await deleteTimeSlot(id)
-      setTimeSlots(timeSlots.filter((slot) => slot.id !== id))
+      if (slot.ruleId && slot.occurrenceDate) {
+        await deleteAvailabilityOccurrence(slot.ruleId, slot.occurrenceDate)
+      } else if (slot.id) {
+        await deleteTimeSlot(slot.id)
+      }
+      setTimeSlots(timeSlots.filter((item) => item.id !== slot.id))
       toast({
         title: "Disponibilidade removida",
         description: "Removida com sucesso.",
@@ -114,6 +323,106 @@ export default function AvailabilityPage() {
     }
   }
 
+  const handleRemoveRule = async (rule: AvailabilityRule) => {
+    if (!rule.id) return
+
+    setIsLoading(true)
+    try {
+      await deleteAvailabilityRule(rule.id)
+      setRules(rules.filter((item) => item.id !== rule.id))
+      setTimeSlots(timeSlots.filter((slot) => slot.ruleId !== rule.id))
+      toast({
+        title: "Recorrência removida",
+        description: "Todas as ocorrências da série foram removidas.",
+      })
+    } catch (error) {
+      console.error("Error removing availability rule:", error)
+      toast({
+        title: "Erro ao remover",
+        description: "Falha ao remover a recorrência.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openEdit = (target: EditTarget) => {
+    const source = target.kind === "occurrence" ? target.slot : target.rule
+    setEditTarget(target)
+    setEditStartTime(source.startTime)
+    setEditEndTime(source.endTime)
+  }
+
+  const handleSaveEdit = async () => {
+    if (!editTarget || editStartTime === editEndTime) return
+
+    setIsLoading(true)
+    try {
+      if (editTarget.kind === "occurrence") {
+        const { slot } = editTarget
+        if (checkTimeConflict(slot.date, editStartTime, editEndTime, slot.id)) {
+          toast({
+            title: "Conflito de horários",
+            description: "O novo horário coincide com outra disponibilidade.",
+            variant: "destructive",
+          })
+          return
+        }
+        const busy = checkBusyConflict(slot.date, editStartTime, editEndTime)
+        if (busy) {
+          toast({
+            title: "Horário ocupado em outra agenda",
+            description: busyConflictMessage(slot.date, busy),
+            variant: "destructive",
+          })
+          return
+        }
+        await updateAvailabilityOccurrence(slot.ruleId!, slot.occurrenceDate!, {
+          startTime: editStartTime,
+          endTime: editEndTime,
+        })
+      } else {
+        const { rule } = editTarget
+        const today = new Date().toISOString().slice(0, 10)
+        const busy = expandAvailabilityRule(
+          { ...rule, startTime: editStartTime, endTime: editEndTime },
+          today,
+          addDays(today, CONFLICT_CHECK_DAYS),
+        ).flatMap((slot) => {
+          const conflict = checkBusyConflict(slot.date, slot.startTime, slot.endTime)
+          return conflict ? [busyConflictMessage(slot.date, conflict)] : []
+        })
+        if (busy.length > 0) {
+          toast({
+            title: "Horário ocupado em outra agenda",
+            description: `${busy.slice(0, 3).join("; ")}${busy.length > 3 ? "..." : ""}`,
+            variant: "destructive",
+          })
+          return
+        }
+        await updateAvailabilityRule(rule.id!, { startTime: editStartTime, endTime: editEndTime })
+      }
+
+      await loadAvailability()
+      setEditTarget(null)
+      toast({
+        title: "Disponibilidade atualizada",
+        description:
+          editTarget.kind === "occurrence" ? "Apenas esta ocorrência foi alterada." : "Todas as ocorrências foram alteradas.",
+      })
+    } catch (error) {
+      console.error("Error updating availability:", error)
+      toast({
+        title: "Erro ao atualizar",
+        description: "Falha ao salvar a alteração.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleSelectSpecialty = (specialty: string) => {
     if (!selectedSpecialties.includes(specialty)) {
       setSelectedSpecialties([...selectedSpecialties, specialty])
@@ -127,6 +436,10 @@ export default function AvailabilityPage() {
 
   const resetForm = () => {
     setDates([])
+    setWeekdays([])
+    setIntervalWeeks("1")
+    setSeriesStart("")
+    setSeriesUntil("")
     setStartTime("08:00")
     setEndTime("18:00")
     setSelectedSpecialties([])
@@ -175,17 +488,79 @@ export default function AvailabilityPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div>
-              <Label className="text-gray-700 text-sm sm:text-base">Datas</Label>
-              <div className="overflow-x-auto">
-                <Calendar
-                  mode="multiple"
-                  selected={dates}
-                  onSelect={(newDates) => setDates(newDates || [])}
-                  className="border-blue-200 rounded-md p-3 bg-white w-full sm:w-auto text-sm"
-                />
+            <Tabs value={mode} onValueChange={(value) => setMode(value as "dates" | "recurring")}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="dates">Datas específicas</TabsTrigger>
+                <TabsTrigger value="recurring">Recorrente</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {mode === "dates" ? (
+              <div>
+                <Label className="text-gray-700 text-sm sm:text-base">Datas</Label>
+                <div className="overflow-x-auto">
+                  <Calendar
+                    mode="multiple"
+                    selected={dates}
+                    onSelect={(newDates) => setDates(newDates || [])}
+                    className="border-blue-200 rounded-md p-3 bg-white w-full sm:w-auto text-sm"
+                  />
+                </div>
               </div>
-            </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label className="text-gray-700 text-sm sm:text-base">Dias da semana</Label>
+                  <ToggleGroup
+                    type="multiple"
+                    value={weekdays}
+                    onValueChange={setWeekdays}
+                    className="flex flex-wrap justify-start"
+                  >
+                    {weekdayOptions.map((day) => (
+                      <ToggleGroupItem key={day.value} value={day.value} className="text-xs sm:text-sm">
+                        {day.label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="interval-weeks" className="text-gray-700 text-sm sm:text-base">Frequência</Label>
+                  <Select value={intervalWeeks} onValueChange={setIntervalWeeks}>
+                    <SelectTrigger id="interval-weeks" className="border-blue-200 focus:ring-blue-500 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">Toda semana</SelectItem>
+                      <SelectItem value="2">Semana sim, semana não</SelectItem>
+                      <SelectItem value="3">A cada 3 semanas</SelectItem>
+                      <SelectItem value="4">A cada 4 semanas</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="series-start" className="text-gray-700 text-sm sm:text-base">A partir de</Label>
+                    <Input
+                      id="series-start"
+                      type="date"
+                      value={seriesStart}
+                      onChange={(e) => setSeriesStart(e.target.value)}
+                      className="border-blue-200 text-sm"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="series-until" className="text-gray-700 text-sm sm:text-base">Até (opcional)</Label>
+                    <Input
+                      id="series-until"
+                      type="date"
+                      value={seriesUntil}
+                      onChange={(e) => setSeriesUntil(e.target.value)}
+                      className="border-blue-200 text-sm"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
             <div className="space-y-2">
               <Label className="text-gray-700 text-sm sm:text-base">Horários Rápidos</Label>
               <div className="flex flex-wrap gap-2">
@@ -220,8 +595,7 @@ export default function AvailabilityPage() {
                 <Label htmlFor="start-time" className="text-gray-700 text-sm sm:text-base">Início</Label>
                 <Select value={startTime} onValueChange={(val) => {
                   setStartTime(val)
-                  if (val >= endTime) setTimeError("O início deve ser anterior ao término.")
-                  else setTimeError(null)
+                  setTimeError(null)
                 }}>
                   <SelectTrigger id="start-time" className={cn("border-blue-200 focus:ring-blue-500 text-sm", timeError && "border-red-500")}>
                     <SelectValue placeholder="Selecione" />
@@ -239,8 +613,7 @@ export default function AvailabilityPage() {
                 <Label htmlFor="end-time" className="text-gray-700 text-sm sm:text-base">Término</Label>
                 <Select value={endTime} onValueChange={(val) => {
                   setEndTime(val)
-                  if (startTime >= val) setTimeError("O início deve ser anterior ao término.")
-                  else setTimeError(null)
+                  setTimeError(null)
                 }}>
                   <SelectTrigger id="end-time" className={cn("border-blue-200 focus:ring-blue-500 text-sm", timeError && "border-red-500")}>
                     <SelectValue placeholder="Selecione" />
@@ -255,6 +628,11 @@ export default function AvailabilityPage() {
                 </Select>
               </div>
               {timeError && <p className="text-red-600 text-xs sm:text-sm col-span-1 sm:col-span-2">{timeError}</p>}
+              {!timeError && endTime < startTime && (
+                <p className="text-gray-600 text-xs sm:text-sm col-span-1 sm:col-span-2">
+                  Término no dia seguinte (plantão noturno).
+                </p>
+              )}
             </div>
             <div className="space-y-2">
               <Label className="text-gray-700 text-sm sm:text-base">Especialidades</Label>
@@ -329,6 +707,7 @@ export default function AvailabilityPage() {
               <Button
                 type="button"
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white flex items-center gap-2 text-sm sm:text-base"
+                onClick={handleAddAvailability}
                 disabled={isLoading || !!timeError}
               >
                 {isLoading ? (
@@ -381,6 +760,7 @@ export default function AvailabilityPage() {
                       <div className="flex items-center gap-1 text-xs sm:text-sm text-gray-600 mt-1">
                         <Clock className="h-3 w-3" />
                         {slot.startTime} - {slot.endTime}
+                        {slot.ruleId && <Repeat className="h-3 w-3 ml-1 text-blue-600" aria-label="Recorrente" />}
                       </div>
                       {slot.specialties && slot.specialties.length > 0 && (
                         <div className="flex flex-wrap gap-1 mt-1">
@@ -392,15 +772,30 @@ export default function AvailabilityPage() {
                         </div>
                       )}
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => slot.id && handleRemoveTimeSlot(slot.id)}
-                      disabled={isLoading}
-                      className="text-gray-600 hover:text-red-600 mt-2 sm:mt-0"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="flex mt-2 sm:mt-0">
+                      {slot.ruleId && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Alterar só esta ocorrência"
+                          onClick={() => openEdit({ kind: "occurrence", slot })}
+                          disabled={isLoading}
+                          className="text-gray-600 hover:text-blue-600"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={slot.ruleId ? "Remover só esta ocorrência" : "Remover"}
+                        onClick={() => handleRemoveTimeSlot(slot)}
+                        disabled={isLoading}
+                        className="text-gray-600 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
                 ))
               )}
@@ -409,6 +804,110 @@ export default function AvailabilityPage() {
         </Card>
       </div>
 
+      {/* Recorrências */}
+      {rules.length > 0 && (
+        <Card className="border-blue-100">
+          <CardHeader>
+            <CardTitle className="text-gray-900 text-lg sm:text-xl">Recorrências</CardTitle>
+            <CardDescription className="text-gray-600 text-sm">
+              Alterações aqui valem para todas as ocorrências da série
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between border-b border-blue-100 pb-3 last:border-0 last:pb-0"
+              >
+                <div>
+                  <p className="font-medium text-gray-900 text-sm sm:text-base">{describeWeeklyRecurrence(rule)}</p>
+                  <p className="text-xs sm:text-sm text-gray-600">
+                    {rule.startTime} - {rule.endTime} · desde {rule.startDate.split("-").reverse().join("/")}
+                  </p>
+                </div>
+                <div className="flex">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Alterar a série"
+                    onClick={() => openEdit({ kind: "series", rule })}
+                    disabled={isLoading}
+                    className="text-gray-600 hover:text-blue-600"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Remover a série"
+                    onClick={() => handleRemoveRule(rule)}
+                    disabled={isLoading}
+                    className="text-gray-600 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <ExternalCalendars calendars={externalCalendars} onChange={loadExternalCalendars} />
+
+      <Dialog open={!!editTarget} onOpenChange={(isOpen) => !isOpen && setEditTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editTarget?.kind === "series" ? "Alterar a série" : "Alterar ocorrência"}</DialogTitle>
+            <DialogDescription>
+              {editTarget?.kind === "series"
+                ? "O novo horário vale para todas as ocorrências, exceto as alteradas individualmente."
+                : `Somente ${editTarget?.slot.date.toLocaleDateString("pt-BR")} será alterado; o restante da série continua igual.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-start-time">Início</Label>
+              <Select value={editStartTime} onValueChange={setEditStartTime}>
+                <SelectTrigger id="edit-start-time">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeOptions.map((time) => (
+                    <SelectItem key={`edit-start-${time}`} value={time}>
+                      {time}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-end-time">Término</Label>
+              <Select value={editEndTime} onValueChange={setEditEndTime}>
+                <SelectTrigger id="edit-end-time">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeOptions.map((time) => (
+                    <SelectItem key={`edit-end-${time}`} value={time}>
+                      {time}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTarget(null)} disabled={isLoading}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={isLoading || editStartTime === editEndTime}>
+              {isLoading ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Resumo de Disponibilidade */}
       <Card className="border-blue-100">
         <CardHeader>
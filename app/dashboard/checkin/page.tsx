@@ -1,13 +1,54 @@
 "use client"
 
 import { useState, useRef, useEffect } from "react"
+import Link from "next/link"
 import { useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
 import { Camera, Check, MapPin } from "lucide-react"
-import { getContract, recordCheckIn, recordCheckOut } from "@/lib/contract-service"
-import { verifyFacialRecognition } from "@/lib/facial-recognition-service"
+import {
+  AttendanceError,
+  FaceCheckError,
+  GeofenceError,
+  LocationAccuracyError,
+  PunchError,
+  getContract,
+  recordPunch,
+  type Contract,
+} from "@/lib/contract-service"
+import { getAttendanceState, type AttendanceState, type PunchKind } from "@/lib/attendance-log"
+import type { CapturedPosition } from "@/lib/geo"
+import { verifyFacialRecognition, type FaceVerificationResult } from "@/lib/facial-recognition-service"
+import { CameraCapture, type CameraCaptureHandle } from "@/components/camera-capture"
+import { formatShiftDate, formatShiftTime } from "@/lib/shift-timing"
+
+// Marcação escolhida pelo médico; a saída pode ser temporária ou encerrar o plantão
+interface PunchAction {
+  kind: PunchKind
+  final?: boolean
+}
+
+const punchActions: Record<AttendanceState, PunchAction[]> = {
+  not_started: [{ kind: "in" }],
+  working: [{ kind: "break_start" }, { kind: "out" }, { kind: "out", final: true }],
+  on_break: [{ kind: "break_end" }],
+  away: [{ kind: "in" }, { kind: "out", final: true }],
+  finished: [],
+}
+
+const actionLabel = (action: PunchAction, state: AttendanceState): string => {
+  switch (action.kind) {
+    case "in":
+      return state === "not_started" ? "Check-in" : "Retorno"
+    case "break_start":
+      return "Início de intervalo"
+    case "break_end":
+      return "Fim de intervalo"
+    case "out":
+      return action.final ? "Check-out" : "Saída temporária"
+  }
+}
 
 export default function CheckinPage() {
   const router = useRouter()
@@ -16,14 +57,22 @@ export default function CheckinPage() {
   const { toast } = useToast()
   const [isLoading, setIsLoading] = useState(false)
   const [isLoadingContract, setIsLoadingContract] = useState(true)
-  const [step, setStep] = useState<"camera" | "location" | "success">("camera")
-  const [stream, setStream] = useState<MediaStream | null>(null)
-  const videoRef = useRef<HTMLVideoElement>(null)
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null)
+  const [step, setStep] = useState<"choose" | "camera" | "location" | "success">("camera")
+  const cameraRef = useRef<CameraCaptureHandle>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [faceResult, setFaceResult] = useState<FaceVerificationResult | null>(null)
+  const [location, setLocation] = useState<CapturedPosition | null>(null)
   const [locationError, setLocationError] = useState<string | null>(null)
-  const [contract, setContract] = useState<any>(null)
-  const [isCheckIn, setIsCheckIn] = useState(true)
+  const [contract, setContract] = useState<Contract | null>(null)
+  const [action, setAction] = useState<PunchAction>({ kind: "in" })
+
+  const attendanceState: AttendanceState = contract
+    ? contract.status === "upcoming"
+      ? getAttendanceState(contract.punches)
+      : "finished"
+    : "not_started"
+  const label = actionLabel(action, attendanceState)
+  const labelLower = label.toLowerCase()
 
   useEffect(() => {
     const fetchContract = async () => {
@@ -36,9 +85,11 @@ export default function CheckinPage() {
         const fetchedContract = await getContract(contractId)
         setContract(fetchedContract)
 
-        // Determine if this is a check-in or check-out
-        if (fetchedContract && fetchedContract.checkInTime && !fetchedContract.checkOutTime) {
-          setIsCheckIn(false)
+        // Com mais de uma marcação possível, o médico escolhe antes da verificação facial
+        if (fetchedContract) {
+          const state = fetchedContract.status === "upcoming" ? getAttendanceState(fetchedContract.punches) : "finished"
+          if (punchActions[state].length === 1) setAction(punchActions[state][0])
+          else setStep("choose")
         }
       } catch (error) {
         console.error("Error fetching contract:", error)
@@ -55,88 +106,36 @@ export default function CheckinPage() {
     fetchContract()
   }, [contractId, toast])
 
-  useEffect(() => {
-    if (step === "camera") {
-      startCamera()
-    } else {
-      stopCamera()
-    }
-
-    return () => {
-      stopCamera()
-    }
-  }, [step])
+  const captureImage = async () => {
+    setIsVerifying(true)
+    setFaceResult(null)
 
-  const startCamera = async () => {
     try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: "user" },
-      })
-      setStream(mediaStream)
-      if (videoRef.current) {
-        videoRef.current.srcObject = mediaStream
+      const blob = await cameraRef.current?.capture()
+      if (!blob) throw new Error("Failed to capture image from camera")
+
+      // Verify facial recognition
+      const result = await verifyFacialRecognition(blob, { contractId: contractId || undefined })
+      setFaceResult(result)
+
+      if (result.verified) {
+        setStep("location")
+      } else {
+        toast({
+          title: "Verificação facial falhou",
+          description: faceFailureMessages[result.reason],
+          variant: "destructive",
+        })
       }
     } catch (error) {
-      console.error("Error accessing camera:", error)
+      console.error("Error processing image:", error)
       toast({
-        title: "Erro ao acessar câmera",
-        description: "Verifique se você concedeu permissão para acessar a câmera.",
+        title: "Erro ao processar imagem",
+        description: "Ocorreu um erro ao processar sua imagem. Tente novamente.",
         variant: "destructive",
       })
-    }
-  }
-
-  const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach((track) => track.stop())
-      setStream(null)
-    }
-  }
-
-  const captureImage = async () => {
-    if (videoRef.current && canvasRef.current) {
-      const video = videoRef.current
-      const canvas = canvasRef.current
-      const context = canvas.getContext("2d")
-
-      if (context) {
-        canvas.width = video.videoWidth
-        canvas.height = video.videoHeight
-        context.drawImage(video, 0, 0, canvas.width, canvas.height)
-
-        try {
-          // Convert canvas to blob
-          const blob = await new Promise<Blob>((resolve) => {
-            canvas.toBlob((blob) => {
-              if (blob) {
-                resolve(blob)
-              } else {
-                throw new Error("Failed to create blob from canvas")
-              }
-            }, "image/png")
-          })
-
-          // Verify facial recognition
-          const isVerified = await verifyFacialRecognition(blob)
-
-          if (isVerified) {
-            setStep("location")
-          } else {
-            toast({
-              title: "Verificação facial falhou",
-              description: "Não foi possível verificar sua identidade. Tente novamente.",
-              variant: "destructive",
-            })
-          }
-        } catch (error) {
-          console.error("Error processing image:", error)
-          toast({
-            title: "Erro ao processar imagem",
-            description: "Ocorreu um erro ao processar sua imagem. Tente novamente.",
-            variant: "destructive",
-          })
-        }
-      }
+    } finally {
+      setIsVerifying(false)
     }
   }
 
@@ -150,48 +149,82 @@ export default function CheckinPage() {
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        setLocation({
+        const captured: CapturedPosition = {
           latitude: position.coords.latitude,
           longitude: position.coords.longitude,
-        })
+          accuracy: position.coords.accuracy,
+        }
+        setLocation(captured)
 
-        // In a real app, you would validate if the location is close to the hospital
-        // For this demo, we'll just proceed to the next step
-        handleCheckin()
+        // A distância até o hospital é validada no servidor, em recordPunch
+        handleCheckin(captured)
       },
       (error) => {
         console.error("Error getting location:", error)
         setLocationError("Não foi possível obter sua localização. Verifique se você concedeu permissão.")
       },
+      { enableHighAccuracy: true, timeout: 15000 },
     )
   }
 
-  const handleCheckin = async () => {
+  const handleCheckin = async (position: CapturedPosition) => {
     if (!contractId) return
 
     setIsLoading(true)
 
     try {
-      if (isCheckIn) {
-        await recordCheckIn(contractId)
+      await recordPunch(contractId, {
+        ...action,
+        position,
+        ...(faceResult?.verificationId && { verificationId: faceResult.verificationId }),
+      })
+      toast({
+        title: "Ponto registrado",
+        description: `Sua marcação de ${labelLower} foi registrada com sucesso.`,
+      })
+
+      setStep("success")
+    } catch (error) {
+      console.error("Error recording punch:", error)
+      if (error instanceof GeofenceError) {
+        setLocationError(
+          `Você está a ${formatDistance(error.distanceMeters)} do local do plantão. ` +
+            `O ${labelLower} só é permitido a até ${formatDistance(error.radiusMeters)}.`,
+        )
+        return
+      }
+      if (error instanceof LocationAccuracyError) {
+        setLocationError(
+          `A precisão da sua localização (${formatDistance(error.accuracyMeters)}) não permite confirmar que você ` +
+            `está no local do plantão. Ative o GPS ou vá para um local aberto e tente novamente.`,
+        )
+        return
+      }
+      if (error instanceof FaceCheckError) {
+        // A verificação não vale mais: o médico refaz a captura
+        setFaceResult(null)
+        setStep("camera")
         toast({
-          title: "Check-in realizado com sucesso",
-          description: "Seu check-in foi registrado com sucesso.",
+          title: "Verificação facial necessária",
+          description: faceCheckMessages[error.reason],
+          variant: "destructive",
         })
-      } else {
-        await recordCheckOut(contractId)
+        return
+      }
+      if (error instanceof AttendanceError) {
         toast({
-          title: "Check-out realizado com sucesso",
-          description: "Seu check-out foi registrado com sucesso.",
+          title: `${label} fora do horário`,
+          description: attendanceErrorMessage(error),
+          variant: "destructive",
         })
+        return
       }
-
-      setStep("success")
-    } catch (error) {
-      console.error("Error recording check-in/out:", error)
       toast({
-        title: `Erro ao realizar ${isCheckIn ? "check-in" : "check-out"}`,
-        description: `Ocorreu um erro ao realizar o ${isCheckIn ? "check-in" : "check-out"}.`,
+        title: `Erro ao registrar ${labelLower}`,
+        description:
+          error instanceof PunchError
+            ? "O ponto deste plantão mudou. Recarregue a página para ver as marcações atuais."
+            : `Ocorreu um erro ao registrar a marcação de ${labelLower}.`,
         variant: "destructive",
       })
     } finally {
@@ -238,37 +271,69 @@ export default function CheckinPage() {
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold">{isCheckIn ? "Check-in" : "Check-out"}</h1>
-        <p className="text-muted-foreground">
-          Realize o {isCheckIn ? "check-in" : "check-out"} para seu plantão no {contract.hospital}
-        </p>
+        <h1 className="text-3xl font-bold">{step === "choose" ? "Registrar ponto" : label}</h1>
+        <p className="text-muted-foreground">Registre o ponto do seu plantão no {contract.hospital}</p>
       </div>
 
       <Card>
         <CardHeader>
           <CardTitle>
-            {step === "camera" &&
-              (isCheckIn ? "Reconhecimento facial para Check-in" : "Reconhecimento facial para Check-out")}
+            {step === "choose" && "Qual marcação deseja registrar?"}
+            {step === "camera" && `Reconhecimento facial para ${label}`}
             {step === "location" && "Verificação de localização"}
-            {step === "success" && (isCheckIn ? "Check-in realizado" : "Check-out realizado")}
+            {step === "success" && "Ponto registrado"}
           </CardTitle>
           <CardDescription>
+            {step === "choose" && "Cada marcação passa pela verificação facial"}
             {step === "camera" && "Posicione seu rosto na câmera para verificação"}
             {step === "location" && "Verificando sua localização"}
-            {step === "success" && `Seu ${isCheckIn ? "check-in" : "check-out"} foi registrado com sucesso`}
+            {step === "success" && `Sua marcação de ${labelLower} foi registrada com sucesso`}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {step === "choose" && (
+            <div className="flex flex-col items-center gap-2">
+              {punchActions[attendanceState].map((option) => (
+                <Button
+                  key={`${option.kind}-${option.final ? "final" : ""}`}
+                  variant={option.final ? "default" : "outline"}
+                  className="w-full max-w-xs"
+                  onClick={() => {
+                    setAction(option)
+                    setStep("camera")
+                  }}
+                >
+                  {actionLabel(option, attendanceState)}
+                </Button>
+              ))}
+              {punchActions[attendanceState].length === 0 && (
+                <p className="text-muted-foreground">O ponto deste plantão já foi encerrado.</p>
+              )}
+            </div>
+          )}
+
           {step === "camera" && (
             <div className="flex flex-col items-center">
-              <div className="relative w-full max-w-md h-64 bg-gray-100 rounded-lg overflow-hidden mb-4">
-                <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
-              </div>
-              <canvas ref={canvasRef} className="hidden" />
+              <CameraCapture ref={cameraRef} active={step === "camera"} />
+              {faceResult && !faceResult.verified && (
+                <div className="bg-red-50 text-red-700 p-3 rounded-md mb-4 text-sm text-center">
+                  <p>{faceFailureMessages[faceResult.reason]}</p>
+                  {faceResult.reason === "below_threshold" && (
+                    <p className="text-xs mt-1">
+                      Similaridade: {Math.round(faceResult.score * 100)}% (mínimo {Math.round(faceResult.threshold * 100)}%)
+                    </p>
+                  )}
+                  {faceResult.reason === "not_enrolled" && (
+                    <Link href="/dashboard/face-enrollment" className="underline font-medium">
+                      Cadastrar meu rosto
+                    </Link>
+                  )}
+                </div>
+              )}
               <div className="text-center text-sm text-muted-foreground mb-4">
                 <p>Plantão: {contract.hospital}</p>
-                <p>Data: {contract.date.toLocaleDateString()}</p>
-                <p>Horário: {contract.time}</p>
+                <p>Data: {formatShiftDate(contract)}</p>
+                <p>Horário: {formatShiftTime(contract)}</p>
               </div>
             </div>
           )}
@@ -290,6 +355,13 @@ export default function CheckinPage() {
                 <p>Local do plantão:</p>
                 <p className="font-medium">{contract.location}</p>
               </div>
+
+              {location && (
+                <p className="text-xs text-muted-foreground">
+                  Sua posição: {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)} (precisão de{" "}
+                  {formatDistance(location.accuracy)})
+                </p>
+              )}
             </div>
           )}
 
@@ -300,9 +372,9 @@ export default function CheckinPage() {
               </div>
 
               <div className="text-center mb-6">
-                <p className="font-medium text-lg">{isCheckIn ? "Check-in" : "Check-out"} realizado com sucesso!</p>
+                <p className="font-medium text-lg">Ponto registrado com sucesso!</p>
                 <p className="text-sm text-muted-foreground">
-                  Seu {isCheckIn ? "check-in" : "check-out"} foi registrado às {new Date().toLocaleTimeString()}
+                  Marcação de {labelLower} registrada às {new Date().toLocaleTimeString()}
                 </p>
               </div>
 
@@ -313,14 +385,14 @@ export default function CheckinPage() {
                 </div>
                 <div className="flex justify-between mb-2">
                   <span className="text-sm text-muted-foreground">Data:</span>
-                  <span className="font-medium">{contract.date.toLocaleDateString()}</span>
+                  <span className="font-medium">{formatShiftDate(contract)}</span>
                 </div>
                 <div className="flex justify-between mb-2">
                   <span className="text-sm text-muted-foreground">Horário:</span>
-                  <span className="font-medium">{contract.time}</span>
+                  <span className="font-medium">{formatShiftTime(contract)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-sm text-muted-foreground">{isCheckIn ? "Check-in" : "Check-out"}:</span>
+                  <span className="text-sm text-muted-foreground">{label}:</span>
                   <span className="font-medium">{new Date().toLocaleTimeString()}</span>
                 </div>
               </div>
@@ -329,9 +401,9 @@ export default function CheckinPage() {
         </CardContent>
         <CardFooter className="flex justify-center">
           {step === "camera" && (
-            <Button onClick={captureImage} className="gap-2">
+            <Button onClick={captureImage} disabled={isVerifying} className="gap-2">
               <Camera className="h-4 w-4" />
-              Capturar imagem
+              {isVerifying ? "Verificando..." : "Capturar imagem"}
             </Button>
           )}
 
@@ -348,3 +420,30 @@ export default function CheckinPage() {
   )
 }
 
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`
+}
+
+function attendanceErrorMessage(error: AttendanceError): string {
+  const boundary = `${error.boundary.toLocaleDateString()} às ${error.boundary.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`
+
+  if (error.violation === "too_early") return `O check-in só é liberado a partir de ${boundary}.`
+  if (error.violation === "too_late") return `O prazo para check-in terminou em ${boundary}. Procure o hospital.`
+  return `O check-out só é permitido a partir de ${boundary}.`
+}
+
+const faceCheckMessages: Record<FaceCheckError["reason"], string> = {
+  missing: "A entrada e a saída final exigem a verificação facial. Faça a captura novamente.",
+  invalid: "A verificação facial não vale para este plantão. Faça a captura novamente.",
+  expired: "A verificação facial expirou. Faça a captura novamente.",
+}
+
+const faceFailureMessages: Record<FaceVerificationResult["reason"], string> = {
+  match: "",
+  below_threshold: "Seu rosto não corresponde às fotos cadastradas. Tente novamente com boa iluminação.",
+  no_face_detected: "Nenhum rosto foi detectado. Posicione seu rosto no centro da câmera.",
+  not_enrolled: "Você ainda não cadastrou suas fotos de referência para o reconhecimento facial.",
+}
@@ -7,14 +7,36 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { useToast } from "@/hooks/use-toast"
-import { Building, Calendar, Clock, MapPin } from "lucide-react"
-import { getContract, updateContractStatus, type Contract } from "@/lib/contract-service"
+import { AlertTriangle, Building, Calendar, Clock, MapPin } from "lucide-react"
+import {
+  getContract,
+  isCanceledStatus,
+  isReviewStatus,
+  type Contract,
+  type ContractStatus,
+  type LocationEvidence,
+} from "@/lib/contract-service"
+import { reviewStatusLabels } from "@/lib/timesheet-service"
+import { describeCancellationPolicy } from "@/lib/cancellation-policy"
 import Link from "next/link"
+import { Forbidden } from "@/components/forbidden"
+import { ContractSwap } from "@/components/contract-swap"
+import { CancelContractDialog, CancellationSummary } from "@/components/contract-cancellation"
+import { ContractSignaturesCard } from "@/components/contract-document"
+import { ContractAmendments } from "@/components/contract-amendments"
+import { Timesheet } from "@/components/timesheet"
+import { ContractPayment } from "@/components/contract-payment"
+import { ContractRpa } from "@/components/contract-rpa"
+import { useAuth } from "@/components/auth-provider"
+import { locationStatusLabels } from "@/lib/attendance-log"
+import { evaluateCheckOut, getCheckInWindow, resolveAttendancePolicy } from "@/lib/attendance-policy"
+import { formatDuration, formatShiftDate, formatShiftTime, getHourlyRate, getShiftHours } from "@/lib/shift-timing"
 
 export default function ContractDetailPage({ params }: { params: { id: string } }) {
   const router = useRouter()
   const { toast } = useToast()
-  const [isLoading, setIsLoading] = useState(false)
+  const { user } = useAuth()
+  const [showCancelDialog, setShowCancelDialog] = useState(false)
   const [isLoadingContract, setIsLoadingContract] = useState(true)
   const [contract, setContract] = useState<Contract | null>(null)
 
@@ -38,30 +60,8 @@ export default function ContractDetailPage({ params }: { params: { id: string }
     fetchContract()
   }, [params.id, toast])
 
-  const handleCancelContract = async () => {
-    if (!contract?.id) return
-
-    setIsLoading(true)
-
-    try {
-      await updateContractStatus(contract.id, "canceled")
-
-      toast({
-        title: "Contrato cancelado",
-        description: "O contrato foi cancelado com sucesso.",
-      })
-
-      router.push("/dashboard/contracts")
-    } catch (error) {
-      console.error("Error canceling contract:", error)
-      toast({
-        title: "Erro ao cancelar contrato",
-        description: "Ocorreu um erro ao cancelar o contrato.",
-        variant: "destructive",
-      })
-    } finally {
-      setIsLoading(false)
-    }
+  const refreshContract = async () => {
+    setContract(await getContract(params.id))
   }
 
   if (isLoadingContract) {
@@ -95,6 +95,14 @@ export default function ContractDetailPage({ params }: { params: { id: string }
     )
   }
 
+  if (contract.doctorId !== user?.uid) {
+    return <Forbidden description="Este contrato pertence a outro médico." homeHref="/dashboard/contracts" />
+  }
+
+  const policy = resolveAttendancePolicy(contract.attendancePolicy)
+  const checkInWindow = getCheckInWindow(contract, policy)
+  const checkOutTiming = evaluateCheckOut(contract, policy, new Date())
+
   return (
     <div className="space-y-6">
       <div>
@@ -120,12 +128,12 @@ export default function ContractDetailPage({ params }: { params: { id: string }
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
                     <Calendar className="h-4 w-4 text-muted-foreground" />
-                    <span>Data: {contract.date.toLocaleDateString()}</span>
+                    <span>Data: {formatShiftDate(contract)}</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <Clock className="h-4 w-4 text-muted-foreground" />
                     <span>
-                      Horário: {contract.time} ({contract.duration})
+                      Horário: {formatShiftTime(contract)} ({formatDuration(getShiftHours(contract))})
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
@@ -140,9 +148,11 @@ export default function ContractDetailPage({ params }: { params: { id: string }
               <div>
                 <h3 className="font-medium mb-2">Valor</h3>
                 <p className="text-lg font-bold">R$ {contract.value.toFixed(2)}</p>
-                <p className="text-sm text-muted-foreground">
-                  Valor por hora: R$ {(contract.value / Number.parseInt(contract.duration)).toFixed(2)}
-                </p>
+                {getHourlyRate(contract) !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    Valor por hora: R$ {getHourlyRate(contract)!.toFixed(2)}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -157,6 +167,15 @@ export default function ContractDetailPage({ params }: { params: { id: string }
                     </span>
                   </div>
 
+                  {contract.status === "upcoming" && !contract.checkInTime && checkInWindow && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">Check-in permitido:</span>
+                      <span className="text-sm text-right">
+                        {formatDateTime(checkInWindow.start)} até {formatDateTime(checkInWindow.end)}
+                      </span>
+                    </div>
+                  )}
+
                   {contract.checkInTime && (
                     <div className="flex items-center justify-between">
                       <span className="text-sm">Check-in realizado em:</span>
@@ -166,6 +185,17 @@ export default function ContractDetailPage({ params }: { params: { id: string }
                     </div>
                   )}
 
+                  {contract.lateMinutes !== undefined && contract.lateMinutes > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">Atraso no check-in:</span>
+                      <span className={contract.late ? "text-red-600 font-medium" : undefined}>
+                        {contract.lateMinutes} min{contract.late ? "" : " (dentro da tolerância)"}
+                      </span>
+                    </div>
+                  )}
+
+                  {contract.checkInLocation && <LocationRow label="Local do check-in" evidence={contract.checkInLocation} />}
+
                   {contract.checkOutTime && (
                     <div className="flex items-center justify-between">
                       <span className="text-sm">Check-out realizado em:</span>
@@ -175,23 +205,55 @@ export default function ContractDetailPage({ params }: { params: { id: string }
                     </div>
                   )}
 
-                  {contract.status === "completed" && (
+                  {contract.checkOutLocation && (
+                    <LocationRow label="Local do check-out" evidence={contract.checkOutLocation} />
+                  )}
+
+                  {checkOutTiming.violation === "too_soon" && !contract.checkOutTime && (
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Contrato concluído em:</span>
+                      <span className="text-sm">Check-out liberado a partir de:</span>
+                      <span className="text-sm">{formatDateTime(checkOutTiming.boundary!)}</span>
+                    </div>
+                  )}
+
+                  {contract.checkOutMissing && (
+                    <div className="flex items-start gap-2 rounded-md bg-red-50 p-2 text-sm text-red-700">
+                      <AlertTriangle className="h-4 w-4 mt-0.5" />
                       <span>
-                        {contract.updatedAt?.toLocaleDateString()} às {contract.updatedAt?.toLocaleTimeString()}
+                        {contract.checkOutTime
+                          ? "Check-out registrado após o prazo do plantão."
+                          : "Plantão encerrado sem check-out. O hospital foi sinalizado para conferência."}
                       </span>
                     </div>
                   )}
 
-                  {contract.status === "canceled" && (
+                  {contract.locationFlagged && (
+                    <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-2 text-sm text-yellow-800">
+                      <AlertTriangle className="h-4 w-4 mt-0.5" />
+                      <span>Localização sinalizada para conferência pelo hospital.</span>
+                    </div>
+                  )}
+
+                  {contract.status === "completed" && (
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Contrato cancelado em:</span>
+                      <span className="text-sm">Contrato concluído em:</span>
                       <span>
                         {contract.updatedAt?.toLocaleDateString()} às {contract.updatedAt?.toLocaleTimeString()}
                       </span>
                     </div>
                   )}
+
+                  {isCanceledStatus(contract.status) &&
+                    (contract.cancellation ? (
+                      <CancellationSummary contract={contract} />
+                    ) : (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm">Contrato cancelado em:</span>
+                        <span>
+                          {contract.updatedAt?.toLocaleDateString()} às {contract.updatedAt?.toLocaleTimeString()}
+                        </span>
+                      </div>
+                    ))}
                 </div>
               </div>
 
@@ -207,6 +269,21 @@ export default function ContractDetailPage({ params }: { params: { id: string }
                 </div>
                 <p className="text-sm text-muted-foreground">{contract.location}</p>
               </div>
+
+              {contract.status === "upcoming" && contract.cancellationPolicy && (
+                <>
+                  <Separator />
+
+                  <div>
+                    <h3 className="font-medium mb-2">Política de cancelamento</h3>
+                    <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                      {describeCancellationPolicy(contract.cancellationPolicy).map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </CardContent>
@@ -218,30 +295,50 @@ export default function ContractDetailPage({ params }: { params: { id: string }
                   Check-in
                 </Button>
               </Link>
-              <Button variant="destructive" className="flex-1" onClick={handleCancelContract} disabled={isLoading}>
-                {isLoading ? "Cancelando..." : "Cancelar contrato"}
+              <Button variant="destructive" className="flex-1" onClick={() => setShowCancelDialog(true)}>
+                Cancelar contrato
               </Button>
             </>
           )}
 
           {contract.status === "upcoming" && contract.checkInTime && !contract.checkOutTime && (
             <Link href={`/dashboard/checkin?contract=${contract.id}`} className="flex-1">
-              <Button className="w-full">Check-out</Button>
+              <Button className="w-full">Registrar ponto</Button>
             </Link>
           )}
 
-          {(contract.status === "completed" || contract.status === "canceled") && (
+          {contract.status !== "upcoming" && (
             <Button variant="outline" className="flex-1" onClick={() => router.push("/dashboard/contracts")}>
               Voltar para contratos
             </Button>
           )}
         </CardFooter>
       </Card>
+
+      <Timesheet contract={contract} party="doctor" onChange={refreshContract} />
+
+      <ContractPayment contract={contract} party="doctor" onChange={refreshContract} />
+
+      <ContractRpa contract={contract} party="doctor" onChange={refreshContract} />
+
+      <ContractAmendments contract={contract} party="doctor" onChange={refreshContract} />
+
+      <ContractSignaturesCard contract={contract} party="doctor" onSigned={refreshContract} />
+
+      <ContractSwap contract={contract} onChange={refreshContract} />
+
+      <CancelContractDialog
+        contract={contract}
+        party="doctor"
+        open={showCancelDialog}
+        onOpenChange={setShowCancelDialog}
+        onCanceled={refreshContract}
+      />
     </div>
   )
 }
 
-function StatusBadge({ status }: { status: string }) {
+function StatusBadge({ status }: { status: ContractStatus }) {
   if (status === "upcoming") {
     return (
       <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
@@ -258,10 +355,36 @@ function StatusBadge({ status }: { status: string }) {
     )
   }
 
+  if (isReviewStatus(status)) {
+    return (
+      <Badge variant="outline" className="bg-yellow-50 text-yellow-800 border-yellow-200">
+        {reviewStatusLabels[status]}
+      </Badge>
+    )
+  }
+
   return (
     <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
-      Cancelado
+      {status === "canceled_by_hospital" ? "Cancelado pelo hospital" : "Cancelado"}
     </Badge>
   )
 }
 
+function formatDateTime(date: Date): string {
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+}
+
+function LocationRow({ label, evidence }: { label: string; evidence: LocationEvidence }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-sm">{label}:</span>
+      <span className="text-sm text-right">
+        {evidence.distanceMeters !== undefined && `${Math.round(evidence.distanceMeters)} m · `}
+        {locationStatusLabels[evidence.status]}
+        <span className="block text-xs text-muted-foreground">
+          {evidence.latitude.toFixed(5)}, {evidence.longitude.toFixed(5)} (±{Math.round(evidence.accuracy)} m)
+        </span>
+      </span>
+    </div>
+  )
+}
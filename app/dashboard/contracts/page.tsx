@@ -1,53 +1,29 @@
 "use client"
 
-import { useState, useEffect } from "react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { Calendar, Clock, MapPin } from "lucide-react"
-import { getContracts, type Contract, type ContractStatus } from "@/lib/contract-service"
-import { useToast } from "@/hooks/use-toast"
+import { getContractPage, isReviewStatus, type Contract, type ContractStatus } from "@/lib/contract-service"
+import { reviewStatusLabels } from "@/lib/timesheet-service"
+import { usePagedList } from "@/hooks/use-paged-list"
+import { ListFiltersBar } from "@/components/list-filters-bar"
+import { formatDuration, formatShiftDate, formatShiftTime, getShiftHours } from "@/lib/shift-timing"
+import { CalendarSync } from "@/components/calendar-sync"
+
+const statuses = ["upcoming", "awaiting_approval", "completed", "canceled"] as const
+
+const emptyMessages: Record<(typeof statuses)[number], string> = {
+  upcoming: "Você não tem contratos próximos no momento.",
+  awaiting_approval: "Você não tem horas aguardando aprovação no momento.",
+  completed: "Você não tem contratos concluídos no momento.",
+  canceled: "Você não tem contratos cancelados no momento.",
+}
 
 export default function ContractsPage() {
-  const [contracts, setContracts] = useState<Contract[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const { toast } = useToast()
-
-  useEffect(() => {
-    const fetchContracts = async () => {
-      try {
-        const fetchedContracts = await getContracts()
-        setContracts(fetchedContracts)
-      } catch (error) {
-        console.error("Error fetching contracts:", error)
-        toast({
-          title: "Erro ao carregar contratos",
-          description: "Não foi possível carregar seus contratos. Tente novamente.",
-          variant: "destructive",
-        })
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    fetchContracts()
-  }, [toast])
-
-  if (isLoading) {
-    return (
-      <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold">Contratos</h1>
-          <p className="text-muted-foreground">Gerencie seus contratos de plantão médico</p>
-        </div>
-        <div className="flex justify-center items-center h-64">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
-        </div>
-      </div>
-    )
-  }
+  const list = usePagedList({ fetchPage: getContractPage, statuses, errorTitle: "Erro ao carregar contratos" })
 
   return (
     <div className="space-y-6">
@@ -56,62 +32,42 @@ export default function ContractsPage() {
         <p className="text-muted-foreground">Gerencie seus contratos de plantão médico</p>
       </div>
 
-      <Tabs defaultValue="upcoming" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+      <CalendarSync />
+
+      <ListFiltersBar key={list.queryString} filters={list.filters} onApply={list.applyFilters} />
+
+      <Tabs value={list.status} onValueChange={list.setStatus} className="w-full">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="upcoming">Próximos</TabsTrigger>
+          <TabsTrigger value="awaiting_approval">Em aprovação</TabsTrigger>
           <TabsTrigger value="completed">Concluídos</TabsTrigger>
           <TabsTrigger value="canceled">Cancelados</TabsTrigger>
         </TabsList>
 
-        <TabsContent value="upcoming">
-          <div className="grid gap-4">
-            {contracts
-              .filter((contract) => contract.status === "upcoming")
-              .map((contract) => (
-                <ContractCard key={contract.id} contract={contract} />
-              ))}
-            {contracts.filter((contract) => contract.status === "upcoming").length === 0 && (
-              <Card>
-                <CardContent className="flex flex-col items-center justify-center py-10">
-                  <p className="text-muted-foreground mb-4">Você não tem contratos próximos no momento.</p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </TabsContent>
-
-        <TabsContent value="completed">
-          <div className="grid gap-4">
-            {contracts
-              .filter((contract) => contract.status === "completed")
-              .map((contract) => (
-                <ContractCard key={contract.id} contract={contract} />
-              ))}
-            {contracts.filter((contract) => contract.status === "completed").length === 0 && (
-              <Card>
-                <CardContent className="flex flex-col items-center justify-center py-10">
-                  <p className="text-muted-foreground mb-4">Você não tem contratos concluídos no momento.</p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </TabsContent>
-
-        <TabsContent value="canceled">
-          <div className="grid gap-4">
-            {contracts
-              .filter((contract) => contract.status === "canceled")
-              .map((contract) => (
+        <TabsContent value={list.status}>
+          {list.isLoading ? (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="grid gap-4">
+              {list.items.map((contract) => (
                 <ContractCard key={contract.id} contract={contract} />
               ))}
-            {contracts.filter((contract) => contract.status === "canceled").length === 0 && (
-              <Card>
-                <CardContent className="flex flex-col items-center justify-center py-10">
-                  <p className="text-muted-foreground mb-4">Você não tem contratos cancelados no momento.</p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
+              {list.items.length === 0 && (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-10">
+                    <p className="text-muted-foreground mb-4">{emptyMessages[list.status]}</p>
+                  </CardContent>
+                </Card>
+              )}
+              {list.hasMore && (
+                <Button variant="outline" onClick={list.loadMore} disabled={list.isLoadingMore}>
+                  {list.isLoadingMore ? "Carregando..." : "Carregar mais"}
+                </Button>
+              )}
+            </div>
+          )}
         </TabsContent>
       </Tabs>
     </div>
@@ -134,12 +90,12 @@ function ContractCard({ contract }: { contract: Contract }) {
         <div className="space-y-2">
           <div className="flex items-center gap-2 text-sm">
             <Calendar className="h-4 w-4 text-muted-foreground" />
-            <span>{contract.date.toLocaleDateString()}</span>
+            <span>{formatShiftDate(contract)}</span>
           </div>
           <div className="flex items-center gap-2 text-sm">
             <Clock className="h-4 w-4 text-muted-foreground" />
             <span>
-              {contract.time} ({contract.duration})
+              {formatShiftTime(contract)} ({formatDuration(getShiftHours(contract))})
             </span>
           </div>
           <div className="flex items-center gap-2 text-sm">
@@ -166,7 +122,7 @@ function ContractCard({ contract }: { contract: Contract }) {
             </div>
           )}
 
-          {contract.status === "completed" && (
+          {(contract.status === "completed" || isReviewStatus(contract.status)) && (
             <div className="flex gap-2 mt-4">
               <Link href={`/dashboard/contracts/${contract.id}`} className="flex-1">
                 <Button className="w-full">Ver detalhes</Button>
@@ -196,9 +152,17 @@ function StatusBadge({ status }: { status: ContractStatus }) {
     )
   }
 
+  if (isReviewStatus(status)) {
+    return (
+      <Badge variant="outline" className="bg-yellow-50 text-yellow-800 border-yellow-200">
+        {reviewStatusLabels[status]}
+      </Badge>
+    )
+  }
+
   return (
     <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
-      Cancelado
+      {status === "canceled_by_hospital" ? "Cancelado pelo hospital" : "Cancelado"}
     </Badge>
   )
 }
@@ -0,0 +1,129 @@
+"use client"
+
+import { useState, useRef, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { Camera, Check } from "lucide-react"
+import { CameraCapture, type CameraCaptureHandle } from "@/components/camera-capture"
+import { enrollFace, isFaceEnrolled } from "@/lib/facial-recognition-service"
+
+// Quantidade de fotos de referência capturadas no cadastro
+const REQUIRED_PHOTOS = 3
+
+export default function FaceEnrollmentPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const cameraRef = useRef<CameraCaptureHandle>(null)
+  const [photos, setPhotos] = useState<Blob[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isEnrolled, setIsEnrolled] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+
+  useEffect(() => {
+    isFaceEnrolled()
+      .then(setIsEnrolled)
+      .catch((error) => console.error("Error checking face enrollment:", error))
+  }, [])
+
+  const handleCapture = async () => {
+    const blob = await cameraRef.current?.capture()
+    if (blob) {
+      setPhotos((current) => [...current, blob])
+    }
+  }
+
+  const handleEnroll = async () => {
+    setIsLoading(true)
+
+    try {
+      const enrolled = await enrollFace(photos)
+
+      toast({
+        title: "Rosto cadastrado",
+        description: `${enrolled} foto(s) de referência salvas para o reconhecimento facial.`,
+      })
+
+      setIsDone(true)
+    } catch (error) {
+      console.error("Error enrolling face:", error)
+      toast({
+        title: "Erro ao cadastrar rosto",
+        description: "Não detectamos um rosto nas fotos. Capture novamente com boa iluminação.",
+        variant: "destructive",
+      })
+      setPhotos([])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Reconhecimento facial</h1>
+        <p className="text-muted-foreground">Cadastre as fotos usadas para confirmar sua identidade no check-in</p>
+      </div>
+
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>{isDone ? "Cadastro concluído" : "Fotos de referência"}</CardTitle>
+              <CardDescription>
+                {isDone
+                  ? "Você já pode realizar check-in e check-out com reconhecimento facial"
+                  : `Capture ${REQUIRED_PHOTOS} fotos do seu rosto, variando levemente o ângulo`}
+              </CardDescription>
+            </div>
+            {isEnrolled && !isDone && (
+              <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                Já cadastrado
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isDone ? (
+            <div className="flex flex-col items-center py-6">
+              <div className="bg-green-100 p-6 rounded-full">
+                <Check className="h-12 w-12 text-green-600" />
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center">
+              <CameraCapture ref={cameraRef} active={!isDone} />
+              <p className="text-sm text-muted-foreground">
+                {photos.length} de {REQUIRED_PHOTOS} fotos capturadas
+              </p>
+              {isEnrolled && (
+                <p className="text-xs text-muted-foreground mt-1">As novas fotos substituem as cadastradas anteriormente.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center gap-2">
+          {isDone ? (
+            <Button onClick={() => router.push("/dashboard/contracts")}>Ver contratos</Button>
+          ) : photos.length < REQUIRED_PHOTOS ? (
+            <Button onClick={handleCapture} className="gap-2">
+              <Camera className="h-4 w-4" />
+              Capturar foto
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setPhotos([])} disabled={isLoading}>
+                Refazer
+              </Button>
+              <Button onClick={handleEnroll} disabled={isLoading}>
+                {isLoading ? "Processando..." : "Salvar cadastro"}
+              </Button>
+            </>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,388 @@
+"use client"
+
+import { useState, useEffect, useMemo, useCallback } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { useTaxSettings } from "@/hooks/use-tax-settings"
+import { Download } from "lucide-react"
+import { getCurrentUserData } from "@/lib/auth-service"
+import {
+  estimateLedgerTaxes,
+  filterLedger,
+  formatLedgerMonth,
+  getLedgerMonth,
+  ledgerKindLabels,
+  ledgerStatusLabels,
+  ledgerToCsv,
+  renderLedgerStatement,
+  sumLedger,
+  summarizeLedgerByMonth,
+  type LedgerEntry,
+  type LedgerFilters,
+  type LedgerStatus,
+} from "@/lib/ledger"
+import { getDoctorLedger, recordLedgerPayment } from "@/lib/ledger-service"
+import { taxRegimeLabels } from "@/lib/tax-calculator"
+import { ledgerStatusClassNames, paymentErrorMessage } from "@/components/contract-payment"
+
+const ALL = "all"
+
+const LEDGER_STATUSES: LedgerStatus[] = ["due", "overdue", "paid"]
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2)}`
+
+const download = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Extrato do médico: lançamentos com vencimento e situação, totais por competência e exportação para o contador
+export default function FinancialPage() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<LedgerEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [payingId, setPayingId] = useState<string | null>(null)
+  const tax = useTaxSettings()
+
+  // Filtros na query string, como nas listagens de propostas e contratos
+  const queryString = searchParams.toString()
+  const filters = useMemo((): LedgerFilters => {
+    const params = new URLSearchParams(queryString)
+    const status = params.get("status") as LedgerStatus | null
+    return {
+      ...(params.get("hospital") && { hospitalId: params.get("hospital")! }),
+      ...(status && LEDGER_STATUSES.includes(status) && { status }),
+      ...(params.get("from") && { from: params.get("from")! }),
+      ...(params.get("to") && { to: params.get("to")! }),
+    }
+  }, [queryString])
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      setEntries(await getDoctorLedger())
+    } catch (error) {
+      console.error("Error fetching ledger:", error)
+      toast({
+        title: "Erro ao carregar extrato",
+        description: "Não foi possível carregar seus lançamentos. Tente novamente.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchLedger()
+  }, [fetchLedger])
+
+  const setFilter = (name: string, value: string) => {
+    const params = new URLSearchParams(queryString)
+    if (value && value !== ALL) params.set(name, value)
+    else params.delete(name)
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  const hospitals = useMemo(
+    () => Array.from(new Map(entries.map((entry) => [entry.hospitalId, entry.hospital]))),
+    [entries],
+  )
+  const filtered = filterLedger(entries, filters)
+  const totals = sumLedger(filtered)
+  const months = summarizeLedgerByMonth(filtered)
+  const taxes = estimateLedgerTaxes(filtered, tax.settings)
+  const monthNet = (month: string) =>
+    estimateLedgerTaxes(filtered.filter((entry) => getLedgerMonth(entry) === month), tax.settings).net
+
+  const period =
+    filters.from || filters.to
+      ? `${filters.from ? formatLedgerMonth(filters.from) : "início"} a ` +
+        (filters.to ? formatLedgerMonth(filters.to) : "hoje")
+      : "todo o histórico"
+
+  const handleExportCsv = () => {
+    download(ledgerToCsv(filtered), "text/csv;charset=utf-8", "extrato.csv")
+  }
+
+  const handleExportPdf = async () => {
+    const userData = await getCurrentUserData().catch(() => null)
+    download(
+      renderLedgerStatement(filtered, { doctorName: userData?.name || "", period }),
+      "application/pdf",
+      "extrato.pdf",
+    )
+  }
+
+  const handleConfirmPayment = async (entry: LedgerEntry) => {
+    setPayingId(entry.id)
+    try {
+      await recordLedgerPayment(entry)
+      await fetchLedger()
+      toast({ title: "Recebimento confirmado", description: "O lançamento foi marcado como pago." })
+    } catch (error) {
+      toast({ title: "Erro ao registrar pagamento", description: paymentErrorMessage(error), variant: "destructive" })
+    } finally {
+      setPayingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Financeiro</h1>
+        <p className="text-muted-foreground">Acompanhe o que você tem a receber e exporte o extrato</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="ledger-hospital">Hospital</Label>
+              <Select value={filters.hospitalId || ALL} onValueChange={(value) => setFilter("hospital", value)}>
+                <SelectTrigger id="ledger-hospital">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {hospitals.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ledger-status">Situação</Label>
+              <Select value={filters.status || ALL} onValueChange={(value) => setFilter("status", value)}>
+                <SelectTrigger id="ledger-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas</SelectItem>
+                  {LEDGER_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {ledgerStatusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ledger-from">De (competência)</Label>
+              <Input
+                id="ledger-from"
+                type="month"
+                value={filters.from || ""}
+                onChange={(e) => setFilter("from", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ledger-to">Até (competência)</Label>
+              <Input
+                id="ledger-to"
+                type="month"
+                value={filters.to || ""}
+                onChange={(e) => setFilter("to", e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Plantões e compensações</CardDescription>
+                <CardTitle>{formatMoney(totals.earned)}</CardTitle>
+                <p className="text-xs text-muted-foreground">Líquido estimado: {formatMoney(taxes.net)}</p>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Recebido</CardDescription>
+                <CardTitle>{formatMoney(totals.paid)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>A receber</CardDescription>
+                <CardTitle>{formatMoney(totals.outstanding)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Em atraso</CardDescription>
+                <CardTitle className={totals.overdue > 0 ? "text-red-600" : undefined}>
+                  {formatMoney(totals.overdue)}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Bruto x líquido</CardTitle>
+              <CardDescription>
+                Retenções estimadas como {taxRegimeLabels[tax.settings.regime]}, sobre o total de cada hospital
+                no mês.{" "}
+                {tax.configured ? (
+                  "Os valores retidos de fato constam dos RPAs e notas fiscais."
+                ) : (
+                  <>
+                    Informe seu regime em{" "}
+                    <Link href="/dashboard/profile" className="underline">
+                      Perfil
+                    </Link>
+                    .
+                  </>
+                )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 text-sm sm:grid-cols-5">
+                <div>
+                  <p className="text-muted-foreground">Bruto</p>
+                  <p className="font-medium">{formatMoney(taxes.gross)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">INSS</p>
+                  <p className="font-medium">{formatMoney(taxes.inss)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">IRRF</p>
+                  <p className="font-medium">{formatMoney(taxes.irrf)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">ISS</p>
+                  <p className="font-medium">{formatMoney(taxes.iss)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Líquido estimado</p>
+                  <p className="font-medium">{formatMoney(taxes.net)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap justify-between items-start gap-2">
+                <div>
+                  <CardTitle>Totais por competência</CardTitle>
+                  <CardDescription>Período: {period}</CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={filtered.length === 0}>
+                    <Download className="mr-2 h-4 w-4" />
+                    CSV
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleExportPdf} disabled={filtered.length === 0}>
+                    <Download className="mr-2 h-4 w-4" />
+                    PDF
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {months.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum lançamento no período.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 font-medium">Competência</th>
+                        <th className="py-2 font-medium text-right">Ganhos</th>
+                        <th className="py-2 font-medium text-right">Líquido est.</th>
+                        <th className="py-2 font-medium text-right">Multas</th>
+                        <th className="py-2 font-medium text-right">Recebido</th>
+                        <th className="py-2 font-medium text-right">A receber</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {months.map((month) => (
+                        <tr key={month.month} className="border-b last:border-0">
+                          <td className="py-2">{formatLedgerMonth(month.month)}</td>
+                          <td className="py-2 text-right">{formatMoney(month.earned)}</td>
+                          <td className="py-2 text-right">{formatMoney(monthNet(month.month))}</td>
+                          <td className="py-2 text-right">{formatMoney(month.penalties)}</td>
+                          <td className="py-2 text-right">{formatMoney(month.paid)}</td>
+                          <td className={`py-2 text-right ${month.overdue > 0 ? "text-red-600" : ""}`}>
+                            {formatMoney(month.outstanding)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Lançamentos</CardTitle>
+              <CardDescription>Vencimentos pelo prazo de pagamento de cada hospital</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {filtered.map((entry) => (
+                <div key={entry.id} className="flex flex-wrap items-center justify-between gap-2 border-b pb-3 text-sm">
+                  <div>
+                    <Link href={`/dashboard/contracts/${entry.contractId}`} className="font-medium hover:underline">
+                      {entry.hospital}
+                    </Link>
+                    <p className="text-muted-foreground">
+                      {ledgerKindLabels[entry.kind]} · {entry.shiftDate.toLocaleDateString("pt-BR")} · vence em{" "}
+                      {entry.dueAt.toLocaleDateString("pt-BR")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={`font-medium ${entry.amount < 0 ? "text-red-600" : ""}`}>
+                      {formatMoney(entry.amount)}
+                    </span>
+                    <Badge variant="outline" className={ledgerStatusClassNames[entry.status]}>
+                      {ledgerStatusLabels[entry.status]}
+                    </Badge>
+                    {!entry.payment && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleConfirmPayment(entry)}
+                        disabled={payingId === entry.id}
+                      >
+                        {entry.amount < 0 ? "Marcar como quitada" : "Confirmar recebimento"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {filtered.length === 0 && <p className="text-sm text-muted-foreground">Nenhum lançamento encontrado.</p>}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Calendar, Clock, Gavel, MapPin, Timer, Zap } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useTaxSettings } from "@/hooks/use-tax-settings"
+import { NetValue } from "@/components/net-value"
+import {
+  filterOpenShifts,
+  getMyBids,
+  getOpenShifts,
+  sortOpenShifts,
+  type Bid,
+  type MarketplaceSort,
+} from "@/lib/marketplace-service"
+import type { AssignmentMode, Proposal } from "@/lib/proposal-service"
+import { formatDuration, formatShiftDate, formatShiftTime, getHourlyRate, getShiftHours } from "@/lib/shift-timing"
+import { formatTimeLeft } from "@/lib/proposal-expiry"
+import type { TaxSettings } from "@/lib/tax-calculator"
+
+const ALL = "all"
+
+export default function MarketplacePage() {
+  const { toast } = useToast()
+  const [shifts, setShifts] = useState<Proposal[]>([])
+  const [bids, setBids] = useState<Bid[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [specialty, setSpecialty] = useState(ALL)
+  const [mode, setMode] = useState(ALL)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [minValue, setMinValue] = useState("")
+  const [search, setSearch] = useState("")
+  const [sort, setSort] = useState<MarketplaceSort>("date")
+  const { settings: taxSettings } = useTaxSettings()
+
+  useEffect(() => {
+    const fetchShifts = async () => {
+      try {
+        // Sem os lances a lista ainda é útil; o selo de "lance enviado" só não aparece
+        const [fetchedShifts, fetchedBids] = await Promise.all([
+          getOpenShifts(),
+          getMyBids().catch(() => [] as Bid[]),
+        ])
+        setShifts(fetchedShifts)
+        setBids(fetchedBids)
+      } catch (error) {
+        console.error("Error fetching open shifts:", error)
+        toast({
+          title: "Erro ao carregar plantões",
+          description: "Não foi possível carregar os plantões abertos. Tente novamente.",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchShifts()
+  }, [toast])
+
+  const specialties = useMemo(() => [...new Set(shifts.map((shift) => shift.specialty))].sort(), [shifts])
+
+  const visibleShifts = useMemo(() => {
+    const filtered = filterOpenShifts(shifts, {
+      specialty: specialty === ALL ? undefined : specialty,
+      assignmentMode: mode === ALL ? undefined : (mode as AssignmentMode),
+      from: from ? new Date(`${from}T00:00`) : undefined,
+      // Data final inclusiva
+      to: to ? new Date(new Date(`${to}T00:00`).getTime() + 24 * 60 * 60 * 1000) : undefined,
+      minValue: Number(minValue) || undefined,
+      search,
+    })
+    return sortOpenShifts(filtered, sort)
+  }, [shifts, specialty, mode, from, to, minValue, search, sort])
+
+  const bidFor = (proposalId?: string) => bids.find((bid) => bid.proposalId === proposalId && bid.status === "open")
+
+  const clearFilters = () => {
+    setSpecialty(ALL)
+    setMode(ALL)
+    setFrom("")
+    setTo("")
+    setMinValue("")
+    setSearch("")
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Plantões abertos</h1>
+        <p className="text-muted-foreground">Plantões publicados pelos hospitais nas suas especialidades</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="filter-specialty">Especialidade</Label>
+              <Select value={specialty} onValueChange={setSpecialty}>
+                <SelectTrigger id="filter-specialty">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas</SelectItem>
+                  {specialties.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {item}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-mode">Preenchimento</Label>
+              <Select value={mode} onValueChange={setMode}>
+                <SelectTrigger id="filter-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  <SelectItem value="first_come">Primeiro a assinar</SelectItem>
+                  <SelectItem value="bidding">Por lances</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-from">De</Label>
+              <Input id="filter-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-to">Até</Label>
+              <Input id="filter-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-value">Valor mínimo (R$)</Label>
+              <Input
+                id="filter-value"
+                type="number"
+                min="0"
+                value={minValue}
+                onChange={(e) => setMinValue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="filter-search">Hospital ou local</Label>
+              <Input
+                id="filter-search"
+                placeholder="Buscar por nome do hospital, bairro ou cidade"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-sort">Ordenar por</Label>
+              <Select value={sort} onValueChange={(value) => setSort(value as MarketplaceSort)}>
+                <SelectTrigger id="filter-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="date">Data do plantão</SelectItem>
+                  <SelectItem value="value">Maior valor</SelectItem>
+                  <SelectItem value="hourly_rate">Maior valor/hora</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : visibleShifts.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-10">
+            <p className="text-muted-foreground mb-4">
+              {shifts.length === 0
+                ? "Nenhum plantão aberto nas especialidades do seu perfil no momento."
+                : "Nenhum plantão corresponde aos filtros selecionados."}
+            </p>
+            {shifts.length > 0 && (
+              <Button variant="outline" onClick={clearFilters}>
+                Limpar filtros
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {visibleShifts.map((shift) => (
+            <OpenShiftCard key={shift.id} shift={shift} bid={bidFor(shift.id)} taxSettings={taxSettings} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function OpenShiftCard({ shift, bid, taxSettings }: { shift: Proposal; bid?: Bid; taxSettings: TaxSettings }) {
+  const hourlyRate = getHourlyRate(shift)
+  const bidding = shift.assignmentMode === "bidding"
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>{shift.hospital}</CardTitle>
+            <CardDescription>{shift.specialty}</CardDescription>
+          </div>
+          {bidding ? (
+            <Badge variant="outline" className="gap-1 bg-purple-50 text-purple-700 border-purple-200">
+              <Gavel className="h-3 w-3" />
+              Lances
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="gap-1 bg-blue-50 text-blue-700 border-blue-200">
+              <Zap className="h-3 w-3" />
+              Primeiro a assinar
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+            <span>{formatShiftDate(shift)}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <Clock className="h-4 w-4 text-muted-foreground" />
+            <span>
+              {formatShiftTime(shift)} ({formatDuration(getShiftHours(shift))})
+            </span>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <MapPin className="h-4 w-4 text-muted-foreground" />
+            <span>{shift.location}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Timer className="h-4 w-4" />
+            <span>Aberto por mais {formatTimeLeft(shift.expiresAt)}</span>
+          </div>
+
+          <p className="text-sm pt-2">
+            <span className="font-bold text-lg">R$ {shift.value.toFixed(2)}</span>
+            {hourlyRate !== null && <span className="text-muted-foreground"> (R$ {hourlyRate.toFixed(2)}/hora)</span>}
+            {bidding && <span className="text-muted-foreground"> · valor de referência</span>}
+          </p>
+          <NetValue gross={shift.value} date={shift.startAt} settings={taxSettings} />
+          {bid && <p className="text-sm text-purple-700">Seu lance: R$ {bid.value.toFixed(2)}</p>}
+
+          <Link href={`/dashboard/proposals/${shift.id}`} className="block mt-4">
+            <Button className="w-full">{bidding ? (bid ? "Ver meu lance" : "Dar lance") : "Ver e assumir"}</Button>
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,12 +2,18 @@
 
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Calendar, Clock, FileText, MessageSquare } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { Activity, Calendar, Clock, FileText, MessageSquare, ShieldCheck } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { getTimeSlots } from "@/lib/availability-service"
 import { getProposals } from "@/lib/proposal-service"
-import { getContracts } from "@/lib/contract-service"
+import { getContracts, isCanceledStatus } from "@/lib/contract-service"
+import { getDoctorReliability, type DoctorReliability } from "@/lib/cancellation-service"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import { formatDuration, formatShiftDate, formatShiftTime, getShiftHours } from "@/lib/shift-timing"
+import { DEFAULT_WORK_LIMITS, evaluateWorkLimits, getRollingWeekHours } from "@/lib/work-limits"
+
+const WEEK = 7 * 24 * 60 * 60 * 1000
 
 export default function DashboardPage() {
   const [isLoading, setIsLoading] = useState(true)
@@ -18,14 +24,18 @@ export default function DashboardPage() {
     hoursWorked: 0,
     upcomingShifts: [],
     recentProposals: [],
-    monthlyHours: [] // Dados para o gráfico
+    monthlyHours: [], // Dados para o gráfico
+    weeklyLoad: { lastWeek: 0, nextWeek: 0, shortRests: 0 },
   })
+  const [reliability, setReliability] = useState<DoctorReliability | null>(null)
   const { toast } = useToast()
 
   useEffect(() => {
     const fetchDashboardData = async () => {
       try {
         const [timeSlots, proposals, contracts] = await Promise.all([getTimeSlots(), getProposals(), getContracts()])
+        // Sem as métricas de cancelamento o restante do dashboard ainda é útil
+        setReliability(await getDoctorReliability().catch(() => null))
 
         // Métricas do dashboard
         const availableDays = timeSlots.length
@@ -38,12 +48,16 @@ export default function DashboardPage() {
         contracts
           .filter((c) => c.status === "completed")
           .forEach((contract) => {
-            const hours = Number.parseInt(contract.duration) || 0
-            if (!isNaN(hours)) {
-              hoursWorked += hours
-              const month = contract.date.toLocaleString("default", { month: "short", year: "numeric" })
-              monthlyHoursMap.set(month, (monthlyHoursMap.get(month) || 0) + hours)
-            }
+            // Horas aprovadas pelo hospital; contratos concluídos antes da aprovação contam o previsto
+            const hours =
+              contract.approvedMinutes !== undefined ? contract.approvedMinutes / 60 : getShiftHours(contract)
+            hoursWorked += hours
+            const month = contract.startAt.toLocaleString("default", {
+              month: "short",
+              year: "numeric",
+              timeZone: contract.timeZone,
+            })
+            monthlyHoursMap.set(month, (monthlyHoursMap.get(month) || 0) + hours)
           })
 
         // Dados para o gráfico (últimos 6 meses como exemplo)
@@ -52,13 +66,31 @@ export default function DashboardPage() {
         // Próximos plantões
         const upcomingShifts = contracts
           .filter((c) => c.status === "upcoming")
-          .sort((a, b) => a.date.getTime() - b.date.getTime())
+          .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
           .slice(0, 2)
 
+        // Carga semanal: 7 dias corridos antes e depois de agora, e descansos curtos entre os próximos plantões
+        const now = new Date()
+        const workedShifts = contracts.filter((c) => !isCanceledStatus(c.status))
+        const scheduled = workedShifts
+          .filter((c) => c.status === "upcoming")
+          .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+        const weeklyLoad = {
+          lastWeek: getRollingWeekHours(workedShifts, new Date(now.getTime() - WEEK)),
+          nextWeek: getRollingWeekHours(workedShifts, now),
+          shortRests: scheduled.filter(
+            (contract, index) =>
+              index > 0 &&
+              evaluateWorkLimits([scheduled[index - 1]], contract, DEFAULT_WORK_LIMITS).some(
+                (issue) => issue.kind === "rest",
+              ),
+          ).length,
+        }
+
         // Propostas recentes
         const recentProposals = proposals
           .filter((p) => p.status === "pending")
-          .sort((a, b) => b.date.getTime() - a.date.getTime())
+          .sort((a, b) => b.startAt.getTime() - a.startAt.getTime())
           .slice(0, 3)
 
         setDashboardData({
@@ -69,6 +101,7 @@ export default function DashboardPage() {
           upcomingShifts,
           recentProposals,
           monthlyHours,
+          weeklyLoad,
         })
       } catch (error) {
         console.error("Error fetching dashboard data:", error)
@@ -141,12 +174,52 @@ export default function DashboardPage() {
             <Clock className="h-4 w-4 text-blue-600" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-gray-900">{dashboardData.hoursWorked}h</div>
+            <div className="text-2xl font-bold text-gray-900">{formatDuration(dashboardData.hoursWorked)}</div>
             <p className="text-xs text-gray-600">Horas trabalhadas este mês</p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Carga semanal */}
+      <Card className="border-blue-100">
+        <CardHeader className="flex flex-row items-center justify-between pb-2">
+          <div>
+            <CardTitle className="text-sm font-medium text-gray-700">Carga semanal</CardTitle>
+            <CardDescription>
+              Referência: até {DEFAULT_WORK_LIMITS.maxWeeklyHours}h em 7 dias e {DEFAULT_WORK_LIMITS.minRestHours}h de
+              descanso entre plantões
+            </CardDescription>
+          </div>
+          <Activity className="h-4 w-4 text-blue-600" />
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          {[
+            { label: "Últimos 7 dias", hours: dashboardData.weeklyLoad.lastWeek },
+            { label: "Próximos 7 dias", hours: dashboardData.weeklyLoad.nextWeek },
+          ].map(({ label, hours }) => (
+            <div key={label} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">{label}</span>
+                <span
+                  className={
+                    hours > DEFAULT_WORK_LIMITS.maxWeeklyHours ? "font-medium text-red-600" : "font-medium text-gray-900"
+                  }
+                >
+                  {formatDuration(hours)} / {DEFAULT_WORK_LIMITS.maxWeeklyHours}h
+                </span>
+              </div>
+              <Progress value={Math.min(100, (hours / DEFAULT_WORK_LIMITS.maxWeeklyHours) * 100)} />
+            </div>
+          ))}
+          {dashboardData.weeklyLoad.shortRests > 0 && (
+            <p className="text-sm text-yellow-700 md:col-span-2">
+              {dashboardData.weeklyLoad.shortRests} plantão(ões) agendado(s) com menos de{" "}
+              {DEFAULT_WORK_LIMITS.minRestHours}h de descanso após o anterior.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Gráfico e Listas */}
       <div className="grid gap-6 md:grid-cols-2">
         {/* Gráfico de Horas Trabalhadas */}
@@ -192,8 +265,8 @@ export default function DashboardPage() {
                       <p className="text-sm text-gray-600">{shift.specialty}</p>
                     </div>
                     <div className="text-right">
-                      <p className="font-medium text-gray-900">{shift.date.toLocaleDateString()}</p>
-                      <p className="text-sm text-gray-600">{shift.time}</p>
+                      <p className="font-medium text-gray-900">{formatShiftDate(shift)}</p>
+                      <p className="text-sm text-gray-600">{formatShiftTime(shift)}</p>
                     </div>
                   </div>
                 ))
@@ -223,8 +296,8 @@ export default function DashboardPage() {
                       <p className="text-sm text-gray-600">{proposal.specialty}</p>
                     </div>
                     <div className="text-right">
-                      <p className="font-medium text-gray-900">{proposal.date.toLocaleDateString()}</p>
-                      <p className="text-sm text-gray-600">{proposal.duration} (plantão)</p>
+                      <p className="font-medium text-gray-900">{formatShiftDate(proposal)}</p>
+                      <p className="text-sm text-gray-600">{formatDuration(getShiftHours(proposal))} (plantão)</p>
                     </div>
                   </div>
                 ))
@@ -234,6 +307,47 @@ export default function DashboardPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Confiabilidade */}
+        {reliability && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <div>
+                <CardTitle className="text-gray-900">Confiabilidade</CardTitle>
+                <CardDescription>Plantões cumpridos e cancelamentos, visíveis aos hospitais</CardDescription>
+              </div>
+              <ShieldCheck className="h-4 w-4 text-blue-600" />
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Plantões cumpridos</span>
+                  <span className="font-medium text-gray-900">
+                    {reliability.completionRate === null ? "—" : `${Math.round(reliability.completionRate * 100)}%`}
+                  </span>
+                </div>
+                <Progress value={(reliability.completionRate ?? 1) * 100} />
+              </div>
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-600">Cancelados por você</p>
+                  <p className="font-medium text-gray-900">
+                    {reliability.canceledByDoctor}
+                    {reliability.lateCancellations > 0 && ` (${reliability.lateCancellations} com multa)`}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Multas</p>
+                  <p className="font-medium text-red-600">R$ {reliability.penalties.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Compensações</p>
+                  <p className="font-medium text-green-700">R$ {reliability.compensations.toFixed(2)}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   )
@@ -15,6 +15,15 @@ import { collection, addDoc, getDoc, doc } from "firebase/firestore"
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage"
 import { onAuthStateChanged } from "firebase/auth" // Para monitorar o usuário autenticado
 import { getCurrentUserData } from "@/lib/auth-service" // Importar função para pegar dados do usuário
+import { getDoctorProfile, updateTaxSettings } from "@/lib/profile-service"
+import {
+  DEFAULT_TAX_SETTINGS,
+  resolveTaxSettings,
+  taxRegimeLabels,
+  type TaxRegime,
+  type TaxSettings,
+} from "@/lib/tax-calculator"
+import { getTaxTable } from "@/lib/tax-tables"
 import { CheckCircle, XCircle } from "lucide-react" // Ícones para feedback
 import { motion, AnimatePresence } from "framer-motion" // Para animações
 
@@ -63,6 +72,11 @@ export default function ProfilePage() {
     pix: "",
   })
 
+  // Regime tributário, para as estimativas de valor líquido; ISS vazio usa a alíquota padrão da tabela
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS)
+  const [issRate, setIssRate] = useState("")
+  const issLimits = getTaxTable(new Date()).iss
+
   // Document upload state
   const [documents, setDocuments] = useState(() => {
     const saved = localStorage.getItem("hapvida-documents")
@@ -112,6 +126,13 @@ export default function ProfilePage() {
               cnpj: userData.cnpj || "",
             }))
           }
+
+          const profile = await getDoctorProfile(user.uid)
+          if (profile?.tax) {
+            const settings = resolveTaxSettings(profile.tax)
+            setTaxSettings(settings)
+            setIssRate(settings.issRate !== undefined ? String(settings.issRate) : "")
+          }
         } catch (error) {
           console.error("Error fetching user data:", error)
           toast({
@@ -200,6 +221,34 @@ export default function ProfilePage() {
     }
   }
 
+  const handleSaveTaxSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      const rate = Number.parseFloat(issRate.replace(",", "."))
+      await updateTaxSettings({
+        regime: taxSettings.regime,
+        dependents: taxSettings.dependents,
+        ...(!Number.isNaN(rate) && { issRate: rate }),
+      })
+
+      toast({
+        title: "Regime tributário salvo",
+        description: "As estimativas de valor líquido passam a usar o seu regime.",
+      })
+    } catch (error) {
+      console.error("Error saving tax settings:", error)
+      toast({
+        title: "Erro ao salvar",
+        description: "Ocorreu um erro ao salvar suas informações.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleSaveFinancialInfo = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -758,6 +807,74 @@ export default function ProfilePage() {
               </CardFooter>
             </form>
           </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Regime tributário</CardTitle>
+              <CardDescription>
+                Como você recebe pelos plantões; usado para estimar INSS, IRRF e ISS retidos e o valor líquido
+              </CardDescription>
+            </CardHeader>
+            <form onSubmit={handleSaveTaxSettings}>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="tax-regime">Regime</Label>
+                    <Select
+                      value={taxSettings.regime}
+                      onValueChange={(value) => setTaxSettings({ ...taxSettings, regime: value as TaxRegime })}
+                    >
+                      <SelectTrigger id="tax-regime">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(taxRegimeLabels) as TaxRegime[]).map((regime) => (
+                          <SelectItem key={regime} value={regime}>
+                            {taxRegimeLabels[regime]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="iss-rate">Alíquota de ISS do município (%)</Label>
+                    <Input
+                      id="iss-rate"
+                      type="number"
+                      min={issLimits.minRate}
+                      max={issLimits.maxRate}
+                      step="0.01"
+                      placeholder={`Padrão: ${issLimits.defaultRate}%`}
+                      value={issRate}
+                      onChange={(e) => setIssRate(e.target.value)}
+                    />
+                  </div>
+                  {taxSettings.regime === "pf" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="tax-dependents">Dependentes para o IRRF</Label>
+                      <Input
+                        id="tax-dependents"
+                        type="number"
+                        min="0"
+                        value={taxSettings.dependents}
+                        onChange={(e) =>
+                          setTaxSettings({
+                            ...taxSettings,
+                            dependents: Math.max(0, Number.parseInt(e.target.value) || 0),
+                          })
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+              <CardFooter>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? "Salvando..." : "Salvar regime"}
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
         </TabsContent>
 
         <TabsContent value="documents">
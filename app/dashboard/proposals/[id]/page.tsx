@@ -5,6 +5,16 @@ import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import {
   Dialog,
   DialogContent,
@@ -15,23 +25,50 @@ import {
 } from "@/components/ui/dialog"
 import { Separator } from "@/components/ui/separator"
 import { useToast } from "@/hooks/use-toast"
-import { Building, Calendar, Clock, MapPin, User } from "lucide-react"
+import { useTaxSettings } from "@/hooks/use-tax-settings"
+import { AlertTriangle, Building, Calendar, Clock, MapPin, User } from "lucide-react"
 import { getProposal, updateProposalStatus, type Proposal } from "@/lib/proposal-service"
-import { createContract } from "@/lib/contract-service"
+import { AcceptanceError, WorkLimitError, createContract } from "@/lib/contract-service"
+import { findBusyConflicts, getExternalCalendars, type BusyConflict } from "@/lib/external-calendar-service"
+import { Forbidden } from "@/components/forbidden"
+import { ProposalNegotiation } from "@/components/proposal-negotiation"
+import { BidPanel } from "@/components/shift-bids"
+import { useAuth } from "@/components/auth-provider"
+import { formatDuration, formatShiftDate, formatShiftTime, getHourlyRate, getShiftHours } from "@/lib/shift-timing"
+import { describeWorkLimitIssue, type WorkLimitIssue } from "@/lib/work-limits"
+import { prepareContractDocument, type ContractDocument } from "@/lib/signature-service"
+import { ContractDocumentView } from "@/components/contract-document"
+import { NetValue } from "@/components/net-value"
 
 export default function ProposalDetailPage({ params }: { params: { id: string } }) {
   const router = useRouter()
   const { toast } = useToast()
+  const { user } = useAuth()
+  const tax = useTaxSettings()
   const [isLoading, setIsLoading] = useState(false)
   const [isLoadingProposal, setIsLoadingProposal] = useState(true)
   const [showContractDialog, setShowContractDialog] = useState(false)
+  const [showBusyDialog, setShowBusyDialog] = useState(false)
+  const [busyConflicts, setBusyConflicts] = useState<BusyConflict[]>([])
+  const [workLimitWarnings, setWorkLimitWarnings] = useState<WorkLimitIssue[]>([])
   const [proposal, setProposal] = useState<Proposal | null>(null)
+  const [contractDocument, setContractDocument] = useState<ContractDocument | null>(null)
+
+  // Compromissos importados de outras agendas no horário do plantão
+  const loadBusyConflicts = async (shift: Proposal) => {
+    const calendars = await getExternalCalendars().catch((error) => {
+      console.error("Error fetching external calendars:", error)
+      return []
+    })
+    setBusyConflicts(findBusyConflicts(calendars, shift.startAt, shift.endAt))
+  }
 
   useEffect(() => {
     const fetchProposal = async () => {
       try {
         const fetchedProposal = await getProposal(params.id)
         setProposal(fetchedProposal)
+        if (fetchedProposal) await loadBusyConflicts(fetchedProposal)
       } catch (error) {
         console.error("Error fetching proposal:", error)
         toast({
@@ -47,7 +84,38 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
     fetchProposal()
   }, [params.id, toast])
 
+  // Após uma etapa da negociação os termos podem ter mudado
+  const reloadProposal = async () => {
+    const fetchedProposal = await getProposal(params.id)
+    setProposal(fetchedProposal)
+    if (fetchedProposal) await loadBusyConflicts(fetchedProposal)
+  }
+
+  // O documento é gerado com o perfil atual do médico e do hospital sempre que o contrato é aberto
+  useEffect(() => {
+    if (!showContractDialog || !proposal) return
+    setContractDocument(null)
+    prepareContractDocument(proposal)
+      .then(setContractDocument)
+      .catch(() =>
+        toast({
+          title: "Erro ao gerar contrato",
+          description: "Não foi possível gerar o documento do contrato. Tente novamente.",
+          variant: "destructive",
+        }),
+      )
+  }, [showContractDialog, proposal, toast])
+
   const handleAccept = () => {
+    if (busyConflicts.length > 0) {
+      setShowBusyDialog(true)
+      return
+    }
+    setShowContractDialog(true)
+  }
+
+  const handleAcceptDespiteConflicts = () => {
+    setShowBusyDialog(false)
     setShowContractDialog(true)
   }
 
@@ -75,12 +143,13 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
     }
   }
 
-  const handleSignContract = async () => {
+  const handleSignContract = async (acknowledgeWorkLimits = false) => {
+    if (!contractDocument) return
     setIsLoading(true)
 
     try {
-      // Create contract from proposal
-      await createContract(params.id)
+      // O aceite é a assinatura do médico sobre o documento exibido
+      await createContract(params.id, { acknowledgeWorkLimits, documentHash: contractDocument.documentHash })
 
       toast({
         title: "Contrato assinado",
@@ -88,14 +157,35 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
       })
 
       setShowContractDialog(false)
+      setWorkLimitWarnings([])
       router.push("/dashboard/contracts")
     } catch (error) {
+      // Limites de jornada em modo aviso: o médico pode confirmar o aceite
+      if (error instanceof WorkLimitError && !error.blocking) {
+        setShowContractDialog(false)
+        setWorkLimitWarnings(error.issues)
+        return
+      }
+
       console.error("Error signing contract:", error)
       toast({
         title: "Erro ao assinar contrato",
-        description: "Ocorreu um erro ao assinar o contrato.",
+        description:
+          error instanceof AcceptanceError
+            ? acceptanceErrorMessage(error)
+            : error instanceof WorkLimitError
+              ? `O hospital não permite este aceite. ${error.issues.map(describeWorkLimitIssue).join(" ")}`
+              : "Ocorreu um erro ao assinar o contrato.",
         variant: "destructive",
       })
+      // Com os termos alterados, o documento é gerado de novo para o médico reler
+      if (error instanceof AcceptanceError && error.reason === "document_changed") {
+        setShowContractDialog(true)
+        setProposal(await getProposal(params.id).catch(() => null))
+      } else if (error instanceof AcceptanceError && error.reason !== "overlap") {
+        setShowContractDialog(false)
+        setProposal(await getProposal(params.id).catch(() => null))
+      }
     } finally {
       setIsLoading(false)
     }
@@ -132,6 +222,14 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
     )
   }
 
+  // Propostas sem médico definido ficam visíveis para qualquer médico
+  if (proposal.doctorId && proposal.doctorId !== user?.uid) {
+    return <Forbidden description="Esta proposta foi enviada a outro médico." homeHref="/dashboard/proposals" />
+  }
+
+  // Plantão aberto por lances: o médico envia um lance em vez de aceitar
+  const openBidding = proposal.assignmentMode === "bidding" && !proposal.doctorId
+
   return (
     <div className="space-y-6">
       <div>
@@ -154,12 +252,12 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <Calendar className="h-4 w-4 text-muted-foreground" />
-                <span>{proposal.date.toLocaleDateString()}</span>
+                <span>{formatShiftDate(proposal)}</span>
               </div>
               <div className="flex items-center gap-2">
                 <Clock className="h-4 w-4 text-muted-foreground" />
                 <span>
-                  {proposal.time} ({proposal.duration})
+                  {formatShiftTime(proposal)} ({formatDuration(getShiftHours(proposal))})
                 </span>
               </div>
               <div className="flex items-center gap-2">
@@ -168,6 +266,16 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
               </div>
             </div>
 
+            {busyConflicts.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md bg-yellow-50 p-2 text-sm text-yellow-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5" />
+                <div>
+                  <p>Este plantão coincide com compromissos das suas outras agendas:</p>
+                  <BusyConflictList conflicts={busyConflicts} />
+                </div>
+              </div>
+            )}
+
             <Separator />
 
             <div>
@@ -184,21 +292,32 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
               <h3 className="font-medium mb-2">Valor</h3>
               <p className="text-sm">
                 <span className="font-bold text-lg">R$ {proposal.value.toFixed(2)}</span>
-                <span className="text-muted-foreground">
-                  {" "}
-                  (R$ {(proposal.value / Number.parseInt(proposal.duration)).toFixed(2)}/hora)
-                </span>
+                {getHourlyRate(proposal) !== null && (
+                  <span className="text-muted-foreground"> (R$ {getHourlyRate(proposal)!.toFixed(2)}/hora)</span>
+                )}
               </p>
+              <div className="mt-3 max-w-sm">
+                <NetValue
+                  gross={proposal.value}
+                  date={proposal.startAt}
+                  settings={tax.settings}
+                  configured={tax.configured}
+                  detailed
+                />
+              </div>
             </div>
           </CardContent>
-          {proposal.status === "pending" && (
+          {proposal.status === "pending" && !openBidding && (
             <CardFooter className="flex gap-2">
               <Button className="flex-1" onClick={handleAccept} disabled={isLoading}>
-                Aceitar proposta
-              </Button>
-              <Button variant="outline" className="flex-1" onClick={handleReject} disabled={isLoading}>
-                Recusar proposta
+                {proposal.doctorId ? "Aceitar proposta" : "Assumir plantão"}
               </Button>
+              {/* Recusar um plantão aberto o retiraria de todos os médicos */}
+              {proposal.doctorId && (
+                <Button variant="outline" className="flex-1" onClick={handleReject} disabled={isLoading}>
+                  Recusar proposta
+                </Button>
+              )}
             </CardFooter>
           )}
         </Card>
@@ -246,95 +365,83 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
         </Card>
       </div>
 
+      {openBidding && <BidPanel proposal={proposal} onChange={reloadProposal} />}
+
+      <ProposalNegotiation
+        proposal={proposal}
+        party="doctor"
+        onChange={reloadProposal}
+        onAgreed={() => setShowContractDialog(true)}
+      />
+
+      <AlertDialog open={showBusyDialog} onOpenChange={setShowBusyDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Conflito com outra agenda</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div>
+                <p>O plantão coincide com os compromissos abaixo. Deseja aceitar mesmo assim?</p>
+                <BusyConflictList conflicts={busyConflicts} />
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleAcceptDespiteConflicts}>Aceitar mesmo assim</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={workLimitWarnings.length > 0} onOpenChange={(open) => !open && setWorkLimitWarnings([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Limite de jornada</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div>
+                <p>Com este plantão, sua jornada ultrapassa os limites recomendados pelo hospital:</p>
+                <ul className="mt-1 list-disc pl-5">
+                  {workLimitWarnings.map((issue) => (
+                    <li key={issue.kind}>{describeWorkLimitIssue(issue)}</li>
+                  ))}
+                </ul>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleSignContract(true)} disabled={isLoading}>
+              {isLoading ? "Processando..." : "Assinar mesmo assim"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Dialog open={showContractDialog} onOpenChange={setShowContractDialog}>
         <DialogContent className="max-w-3xl">
           <DialogHeader>
             <DialogTitle>Contrato Digital</DialogTitle>
             <DialogDescription>Leia atentamente os termos e condições antes de assinar o contrato</DialogDescription>
           </DialogHeader>
-          <div className="max-h-[60vh] overflow-y-auto border rounded-md p-4 text-sm">
-            <h3 className="font-bold text-lg mb-4">CONTRATO DE PRESTAÇÃO DE SERVIÇOS MÉDICOS</h3>
-
-            <p className="mb-4">
-              <strong>CONTRATANTE:</strong> {proposal.hospital}, inscrito no CNPJ sob o nº 00.000.000/0001-00, com sede
-              na
-              {proposal.location}, neste ato representado por seu diretor, Sr. José Silva.
-            </p>
-
-            <p className="mb-4">
-              <strong>CONTRATADO:</strong> Dr. João Silva, médico, inscrito no CRM/SP sob o nº 12345, CPF nº
-              123.456.789-00, residente e domiciliado na Rua Exemplo, 123, São Paulo, SP.
-            </p>
-
-            <h4 className="font-bold mt-6 mb-2">CLÁUSULA PRIMEIRA - OBJETO</h4>
-            <p className="mb-4">
-              O presente contrato tem por objeto a prestação de serviços médicos pelo CONTRATADO ao CONTRATANTE, na
-              especialidade de {proposal.specialty}, na modalidade de plantão médico, a ser realizado no dia{" "}
-              {proposal.date.toLocaleDateString()}, das
-              {proposal.time}, com duração total de {proposal.duration}.
-            </p>
-
-            <h4 className="font-bold mt-6 mb-2">CLÁUSULA SEGUNDA - VALOR E FORMA DE PAGAMENTO</h4>
-            <p className="mb-4">
-              Pelos serviços prestados, o CONTRATANTE pagará ao CONTRATADO o valor total de R${" "}
-              {proposal.value.toFixed(2)} ({valorPorExtenso(proposal.value)}), correspondente a R${" "}
-              {(proposal.value / Number.parseInt(proposal.duration)).toFixed(2)} por hora trabalhada.
-            </p>
-            <p className="mb-4">
-              O pagamento será realizado em até 5 (cinco) dias úteis após a conclusão do plantão, mediante depósito
-              bancário na conta indicada pelo CONTRATADO.
-            </p>
-
-            <h4 className="font-bold mt-6 mb-2">CLÁUSULA TERCEIRA - OBRIGAÇÕES DO CONTRATADO</h4>
-            <p className="mb-4">São obrigações do CONTRATADO:</p>
-            <ul className="list-disc pl-6 mb-4 space-y-2">
-              <li>Comparecer ao local de trabalho no dia e horário estabelecidos;</li>
-              <li>Realizar o check-in e check-out através do aplicativo, utilizando a leitura facial;</li>
-              <li>Prestar os serviços médicos com zelo, diligência e ética profissional;</li>
-              <li>Cumprir as normas e regulamentos internos do CONTRATANTE;</li>
-              <li>Preencher corretamente os prontuários e documentos médicos;</li>
-              <li>Utilizar os equipamentos de proteção individual fornecidos pelo CONTRATANTE;</li>
-            </ul>
-
-            <h4 className="font-bold mt-6 mb-2">CLÁUSULA QUARTA - OBRIGAÇÕES DO CONTRATANTE</h4>
-            <p className="mb-4">São obrigações do CONTRATANTE:</p>
-            <ul className="list-disc pl-6 mb-4 space-y-2">
-              <li>Fornecer as condições necessárias para a prestação dos serviços;</li>
-              <li>Fornecer os equipamentos de proteção individual;</li>
-              <li>Efetuar o pagamento na forma e prazo estabelecidos;</li>
-              <li>Fornecer alimentação durante o período de plantão;</li>
-            </ul>
-
-            <h4 className="font-bold mt-6 mb-2">CLÁUSULA QUINTA - RESCISÃO</h4>
-            <p className="mb-4">
-              O presente contrato poderá ser rescindido por qualquer das partes, mediante comunicação prévia de 24
-              (vinte e quatro) horas, sem prejuízo do pagamento proporcional pelos serviços já prestados.
-            </p>
-
-            <h4 className="font-bold mt-6 mb-2">CLÁUSULA SEXTA - DISPOSIÇÕES GERAIS</h4>
-            <p className="mb-4">
-              O presente contrato não estabelece vínculo empregatício entre as partes, sendo o CONTRATADO responsável
-              pelo recolhimento dos tributos incidentes sobre os valores recebidos.
-            </p>
-
-            <h4 className="font-bold mt-6 mb-2">CLÁUSULA SÉTIMA - FORO</h4>
-            <p className="mb-4">
-              Fica eleito o foro da Comarca de São Paulo para dirimir quaisquer dúvidas ou controvérsias oriundas do
-              presente contrato.
-            </p>
-
-            <p className="mt-8 mb-4">
-              E, por estarem assim justas e contratadas, as partes assinam o presente contrato eletronicamente, para que
-              produza seus efeitos legais.
-            </p>
-
-            <p className="mb-4">São Paulo, {new Date().toLocaleDateString("pt-BR")}</p>
+          <div className="max-h-[60vh] overflow-y-auto border rounded-md p-4">
+            {contractDocument ? (
+              <ContractDocumentView terms={contractDocument.terms} />
+            ) : (
+              <div className="flex justify-center py-10">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            )}
           </div>
+          {contractDocument && (
+            <p className="break-all text-xs text-muted-foreground">
+              SHA-256 do documento: {contractDocument.documentHash}. Ao assinar, registramos data e hora, IP e
+              navegador junto a este código.
+            </p>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowContractDialog(false)} disabled={isLoading}>
               Cancelar
             </Button>
-            <Button onClick={handleSignContract} disabled={isLoading}>
+            <Button onClick={() => handleSignContract()} disabled={isLoading || !contractDocument}>
               {isLoading ? "Processando..." : "Assinar contrato digitalmente"}
             </Button>
           </DialogFooter>
@@ -344,6 +451,45 @@ export default function ProposalDetailPage({ params }: { params: { id: string }
   )
 }
 
+function BusyConflictList({ conflicts }: { conflicts: BusyConflict[] }) {
+  return (
+    <ul className="mt-1 list-disc pl-5">
+      {conflicts.map(({ calendarName, block }) => (
+        <li key={`${calendarName}-${block.start.getTime()}`}>
+          {block.summary} ({calendarName}) ·{" "}
+          {block.start.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })} -{" "}
+          {block.end.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function acceptanceErrorMessage(error: AcceptanceError): string {
+  switch (error.reason) {
+    case "not_found":
+      return "Esta proposta não existe mais."
+    case "not_pending":
+      return "Esta proposta não está mais disponível para aceite."
+    case "expired":
+      return "O prazo para responder a esta proposta terminou."
+    case "assigned":
+      return "Outro médico já aceitou esta proposta."
+    case "bidding":
+      return "Este plantão é preenchido por lances. Envie um lance para o hospital avaliar."
+    case "not_eligible":
+      return "Este plantão é de uma especialidade que não consta no seu perfil."
+    case "document_changed":
+      return "Os termos do contrato mudaram desde que você o abriu. Leia o documento atualizado antes de assinar."
+    case "overlap": {
+      const conflict = error.conflict!
+      const start = conflict.startAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })
+      const end = conflict.endAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })
+      return `Você já tem um plantão em ${conflict.hospital} de ${start} a ${end}, no mesmo horário.`
+    }
+  }
+}
+
 function StatusBadge({ status }: { status: string }) {
   if (status === "pending") {
     return (
@@ -353,6 +499,22 @@ function StatusBadge({ status }: { status: string }) {
     )
   }
 
+  if (status === "expired") {
+    return (
+      <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+        Expirada
+      </Badge>
+    )
+  }
+
+  if (status === "negotiating") {
+    return (
+      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+        Em negociação
+      </Badge>
+    )
+  }
+
   if (status === "accepted") {
     return (
       <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
@@ -367,20 +529,3 @@ function StatusBadge({ status }: { status: string }) {
     </Badge>
   )
 }
-
-// Função auxiliar para converter valor numérico em texto por extenso (simplificada)
-function valorPorExtenso(valor: number): string {
-  const valorInteiro = Math.floor(valor)
-  const centavos = Math.round((valor - valorInteiro) * 100)
-
-  if (valorInteiro === 1200) {
-    return "mil e duzentos reais"
-  } else if (valorInteiro === 800) {
-    return "oitocentos reais"
-  } else if (valorInteiro === 1500) {
-    return "mil e quinhentos reais"
-  } else {
-    return `${valorInteiro} reais${centavos > 0 ? ` e ${centavos} centavos` : ""}`
-  }
-}
-
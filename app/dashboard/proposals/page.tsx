@@ -6,48 +6,53 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
-import { Calendar, Clock, MapPin } from "lucide-react"
-import { getProposals, type Proposal, type ProposalStatus } from "@/lib/proposal-service"
-import { useToast } from "@/hooks/use-toast"
+import { Calendar, Clock, MapPin, Sparkles, Timer } from "lucide-react"
+import { getProposalPage, type Proposal, type ProposalStatus } from "@/lib/proposal-service"
+import { getRecommendedProposals, type ProposalMatch } from "@/lib/matching-service"
+import { usePagedList } from "@/hooks/use-paged-list"
+import { useTaxSettings } from "@/hooks/use-tax-settings"
+import { ListFiltersBar } from "@/components/list-filters-bar"
+import { NetValue } from "@/components/net-value"
+import { formatDuration, formatShiftDate, formatShiftTime, getShiftHours } from "@/lib/shift-timing"
+import { formatTimeLeft, isProposalExpired } from "@/lib/proposal-expiry"
+import type { TaxSettings } from "@/lib/tax-calculator"
+
+// Abaixo disso o prazo de resposta é destacado como urgente
+const URGENT_HOURS = 24
+
+const statuses = ["pending", "negotiating", "accepted", "rejected", "expired"] as const
+
+const emptyMessages: Record<(typeof statuses)[number], string> = {
+  pending: "Você não tem propostas pendentes no momento.",
+  negotiating: "Você não tem negociações em andamento.",
+  accepted: "Você não tem propostas aceitas no momento.",
+  rejected: "Você não tem propostas recusadas no momento.",
+  expired: "Nenhuma proposta expirada.",
+}
 
 export default function ProposalsPage() {
-  const [proposals, setProposals] = useState<Proposal[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const { toast } = useToast()
+  const [recommended, setRecommended] = useState<ProposalMatch[]>([])
+  const [now, setNow] = useState(() => new Date())
+  const list = usePagedList({ fetchPage: getProposalPage, statuses, errorTitle: "Erro ao carregar propostas" })
+  const { settings: taxSettings } = useTaxSettings()
 
+  // Atualiza as contagens regressivas a cada minuto
   useEffect(() => {
-    const fetchProposals = async () => {
-      try {
-        const fetchedProposals = await getProposals()
-        setProposals(fetchedProposals)
-      } catch (error) {
-        console.error("Error fetching proposals:", error)
-        toast({
-          title: "Erro ao carregar propostas",
-          description: "Não foi possível carregar suas propostas. Tente novamente.",
-          variant: "destructive",
-        })
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    fetchProposals()
-  }, [toast])
-
-  if (isLoading) {
-    return (
-      <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold">Propostas</h1>
-          <p className="text-muted-foreground">Gerencie as propostas de trabalho que você recebeu</p>
-        </div>
-        <div className="flex justify-center items-center h-64">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
-        </div>
-      </div>
-    )
-  }
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Propostas que vencem com a página aberta aparecem como expiradas
+  const statusOf = (proposal: Proposal): ProposalStatus =>
+    isProposalExpired(proposal, now) ? "expired" : proposal.status
+
+  useEffect(() => {
+    // Falha nas recomendações não deve impedir a listagem das propostas recebidas
+    getRecommendedProposals()
+      .catch(() => [] as ProposalMatch[])
+      // Propostas já direcionadas ao médico aparecem nas abas; aqui ficam só as abertas
+      .then((matches) => setRecommended(matches.filter((match) => !match.proposal.doctorId)))
+  }, [])
 
   return (
     <div className="space-y-6">
@@ -56,69 +61,92 @@ export default function ProposalsPage() {
         <p className="text-muted-foreground">Gerencie as propostas de trabalho que você recebeu</p>
       </div>
 
-      <Tabs defaultValue="pending" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+      {recommended.length > 0 && (
+        <Card className="border-blue-100">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="h-5 w-5 text-blue-600" />
+              Recomendadas para você
+            </CardTitle>
+            <CardDescription>Plantões em aberto que cabem na sua disponibilidade e especialidades</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4">
+              {recommended.slice(0, 5).map((match) => (
+                <ProposalCard
+                  key={match.proposal.id}
+                  proposal={match.proposal}
+                  status={statusOf(match.proposal)}
+                  now={now}
+                  taxSettings={taxSettings}
+                />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <ListFiltersBar key={list.queryString} filters={list.filters} onApply={list.applyFilters} />
+
+      <Tabs value={list.status} onValueChange={list.setStatus} className="w-full">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="pending">Pendentes</TabsTrigger>
+          <TabsTrigger value="negotiating">Em negociação</TabsTrigger>
           <TabsTrigger value="accepted">Aceitas</TabsTrigger>
           <TabsTrigger value="rejected">Recusadas</TabsTrigger>
+          <TabsTrigger value="expired">Expiradas</TabsTrigger>
         </TabsList>
 
-        <TabsContent value="pending">
-          <div className="grid gap-4">
-            {proposals
-              .filter((proposal) => proposal.status === "pending")
-              .map((proposal) => (
-                <ProposalCard key={proposal.id} proposal={proposal} />
-              ))}
-            {proposals.filter((proposal) => proposal.status === "pending").length === 0 && (
-              <Card>
-                <CardContent className="flex flex-col items-center justify-center py-10">
-                  <p className="text-muted-foreground mb-4">Você não tem propostas pendentes no momento.</p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </TabsContent>
-
-        <TabsContent value="accepted">
-          <div className="grid gap-4">
-            {proposals
-              .filter((proposal) => proposal.status === "accepted")
-              .map((proposal) => (
-                <ProposalCard key={proposal.id} proposal={proposal} />
-              ))}
-            {proposals.filter((proposal) => proposal.status === "accepted").length === 0 && (
-              <Card>
-                <CardContent className="flex flex-col items-center justify-center py-10">
-                  <p className="text-muted-foreground mb-4">Você não tem propostas aceitas no momento.</p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
-        </TabsContent>
-
-        <TabsContent value="rejected">
-          <div className="grid gap-4">
-            {proposals
-              .filter((proposal) => proposal.status === "rejected")
-              .map((proposal) => (
-                <ProposalCard key={proposal.id} proposal={proposal} />
+        <TabsContent value={list.status}>
+          {list.isLoading ? (
+            <div className="flex justify-center items-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="grid gap-4">
+              {list.items.map((proposal) => (
+                <ProposalCard
+                  key={proposal.id}
+                  proposal={proposal}
+                  status={statusOf(proposal)}
+                  now={now}
+                  taxSettings={taxSettings}
+                />
               ))}
-            {proposals.filter((proposal) => proposal.status === "rejected").length === 0 && (
-              <Card>
-                <CardContent className="flex flex-col items-center justify-center py-10">
-                  <p className="text-muted-foreground mb-4">Você não tem propostas recusadas no momento.</p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
+              {list.items.length === 0 && (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-10">
+                    <p className="text-muted-foreground mb-4">{emptyMessages[list.status]}</p>
+                  </CardContent>
+                </Card>
+              )}
+              {list.hasMore && (
+                <Button variant="outline" onClick={list.loadMore} disabled={list.isLoadingMore}>
+                  {list.isLoadingMore ? "Carregando..." : "Carregar mais"}
+                </Button>
+              )}
+            </div>
+          )}
         </TabsContent>
       </Tabs>
     </div>
   )
 }
 
-function ProposalCard({ proposal }: { proposal: Proposal }) {
+function ProposalCard({
+  proposal,
+  status,
+  now,
+  taxSettings,
+}: {
+  proposal: Proposal
+  status: ProposalStatus
+  now: Date
+  taxSettings: TaxSettings
+}) {
+  const open = status === "pending" || status === "negotiating"
+  const urgent = proposal.expiresAt.getTime() - now.getTime() < URGENT_HOURS * 60 * 60 * 1000
+
   return (
     <Card>
       <CardHeader className="pb-2">
@@ -127,27 +155,41 @@ function ProposalCard({ proposal }: { proposal: Proposal }) {
             <CardTitle>{proposal.hospital}</CardTitle>
             <CardDescription>{proposal.specialty}</CardDescription>
           </div>
-          <StatusBadge status={proposal.status} />
+          <StatusBadge status={status} />
         </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-2">
           <div className="flex items-center gap-2 text-sm">
             <Calendar className="h-4 w-4 text-muted-foreground" />
-            <span>{proposal.date.toLocaleDateString()}</span>
+            <span>{formatShiftDate(proposal)}</span>
           </div>
           <div className="flex items-center gap-2 text-sm">
             <Clock className="h-4 w-4 text-muted-foreground" />
             <span>
-              {proposal.time} ({proposal.duration})
+              {formatShiftTime(proposal)} ({formatDuration(getShiftHours(proposal))})
             </span>
           </div>
           <div className="flex items-center gap-2 text-sm">
             <MapPin className="h-4 w-4 text-muted-foreground" />
             <span>{proposal.location}</span>
           </div>
+          <div className="flex flex-wrap items-baseline gap-x-3 text-sm">
+            <span className="font-bold">R$ {proposal.value.toFixed(2)} bruto</span>
+            <NetValue gross={proposal.value} date={proposal.startAt} settings={taxSettings} />
+          </div>
+
+          {open && (
+            <div className={`flex items-center gap-2 text-sm ${urgent ? "text-red-600 font-medium" : "text-gray-600"}`}>
+              <Timer className="h-4 w-4" />
+              <span>
+                Responda em {formatTimeLeft(proposal.expiresAt, now)} (até{" "}
+                {proposal.expiresAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })})
+              </span>
+            </div>
+          )}
 
-          {proposal.status === "pending" && (
+          {open && (
             <div className="flex gap-2 mt-4">
               <Link href={`/dashboard/proposals/${proposal.id}`} className="flex-1">
                 <Button className="w-full">Ver detalhes</Button>
@@ -169,6 +211,22 @@ function StatusBadge({ status }: { status: ProposalStatus }) {
     )
   }
 
+  if (status === "negotiating") {
+    return (
+      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+        Em negociação
+      </Badge>
+    )
+  }
+
+  if (status === "expired") {
+    return (
+      <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+        Expirada
+      </Badge>
+    )
+  }
+
   if (status === "accepted") {
     return (
       <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
@@ -0,0 +1,253 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Calendar, Clock, MapPin } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth-provider"
+import { swapErrorMessage, swapStatusLabels } from "@/components/contract-swap"
+import { WorkLimitError } from "@/lib/contract-service"
+import { claimSwap, declineSwap, getMySwaps, getSwapOffers, type ShiftSwap } from "@/lib/swap-service"
+import { describeWorkLimitIssue, type WorkLimitIssue } from "@/lib/work-limits"
+import { formatDuration, formatShiftDate, formatShiftTime, getShiftHours } from "@/lib/shift-timing"
+
+export default function SwapsPage() {
+  const { toast } = useToast()
+  const { user } = useAuth()
+  const [offers, setOffers] = useState<ShiftSwap[]>([])
+  const [mySwaps, setMySwaps] = useState<ShiftSwap[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busySwapId, setBusySwapId] = useState<string | null>(null)
+  // Troca aguardando confirmação dos avisos de jornada
+  const [pendingClaim, setPendingClaim] = useState<{ swapId: string; issues: WorkLimitIssue[] } | null>(null)
+
+  const fetchSwaps = useCallback(async () => {
+    try {
+      const [fetchedOffers, fetchedSwaps] = await Promise.all([getSwapOffers(), getMySwaps()])
+      setOffers(fetchedOffers)
+      setMySwaps(fetchedSwaps)
+    } catch (error) {
+      console.error("Error fetching swaps:", error)
+      toast({
+        title: "Erro ao carregar trocas",
+        description: "Não foi possível carregar as trocas de plantão. Tente novamente.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchSwaps()
+  }, [fetchSwaps])
+
+  const handleClaim = async (swapId: string, acknowledgeWorkLimits = false) => {
+    setBusySwapId(swapId)
+    try {
+      const status = await claimSwap(swapId, { acknowledgeWorkLimits })
+      setPendingClaim(null)
+      toast({
+        title: status === "completed" ? "Plantão assumido" : "Troca aceita",
+        description:
+          status === "completed"
+            ? "O contrato agora está no seu nome."
+            : "O hospital precisa aprovar a troca antes de o contrato passar para você.",
+      })
+      await fetchSwaps()
+    } catch (error) {
+      // Limites de jornada em modo aviso: o médico pode confirmar
+      if (error instanceof WorkLimitError && !error.blocking) {
+        setPendingClaim({ swapId, issues: error.issues })
+        return
+      }
+
+      setPendingClaim(null)
+      toast({ title: "Erro ao assumir plantão", description: swapErrorMessage(error), variant: "destructive" })
+      await fetchSwaps()
+    } finally {
+      setBusySwapId(null)
+    }
+  }
+
+  const handleDecline = async (swapId: string) => {
+    setBusySwapId(swapId)
+    try {
+      await declineSwap(swapId)
+      toast({ title: "Troca recusada", description: "O colega foi avisado de que você não pode assumir." })
+      await fetchSwaps()
+    } catch (error) {
+      toast({ title: "Erro ao recusar troca", description: swapErrorMessage(error), variant: "destructive" })
+    } finally {
+      setBusySwapId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Trocas de plantão</h1>
+        <p className="text-muted-foreground">Assuma plantões oferecidos por colegas e acompanhe suas trocas</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold">Ofertas para você</h2>
+            {offers.length === 0 ? (
+              <Card>
+                <CardContent className="py-10 text-center text-muted-foreground">
+                  Nenhum colega está oferecendo plantões nas suas especialidades no momento.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                {offers.map((swap) => (
+                  <SwapCard key={swap.id} swap={swap}>
+                    <p className="text-sm">
+                      <span className="font-medium">{swap.fromDoctorName || "Um colega"}</span>{" "}
+                      ofereceu este plantão {swap.toDoctorId ? "a você." : "à especialidade."}
+                    </p>
+                    {swap.message && <p className="text-sm text-muted-foreground">&ldquo;{swap.message}&rdquo;</p>}
+                    {swap.requiresApproval && (
+                      <p className="text-sm text-muted-foreground">O hospital precisa aprovar esta troca.</p>
+                    )}
+                    <div className="flex gap-2 pt-2">
+                      {swap.toDoctorId && (
+                        <Button
+                          variant="outline"
+                          className="flex-1"
+                          onClick={() => handleDecline(swap.id)}
+                          disabled={busySwapId === swap.id}
+                        >
+                          Recusar
+                        </Button>
+                      )}
+                      <Button className="flex-1" onClick={() => handleClaim(swap.id)} disabled={busySwapId === swap.id}>
+                        {busySwapId === swap.id ? "Processando..." : "Assumir plantão"}
+                      </Button>
+                    </div>
+                  </SwapCard>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold">Minhas trocas</h2>
+            {mySwaps.length === 0 ? (
+              <Card>
+                <CardContent className="py-10 text-center text-muted-foreground">
+                  Você ainda não ofereceu nem assumiu plantões de colegas.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2">
+                {mySwaps.map((swap) => {
+                  const offeredByMe = swap.fromDoctorId === user?.uid
+                  return (
+                    <SwapCard key={swap.id} swap={swap}>
+                      <p className="text-sm">
+                        {offeredByMe
+                          ? `Oferecido a ${swap.toDoctorId ? swap.toDoctorName || "um colega" : "toda a especialidade"}`
+                          : `Recebido de ${swap.fromDoctorName || "um colega"}`}
+                        {offeredByMe && swap.claimedByName && ` · aceito por ${swap.claimedByName}`}
+                      </p>
+                      {/* Só quem oferece pode abrir o contrato enquanto a troca não termina */}
+                      {(offeredByMe ? swap.status !== "completed" : swap.status === "completed") && (
+                        <Link href={`/dashboard/contracts/${swap.contractId}`} className="block pt-2">
+                          <Button variant="outline" className="w-full">
+                            Ver contrato
+                          </Button>
+                        </Link>
+                      )}
+                    </SwapCard>
+                  )
+                })}
+              </div>
+            )}
+          </section>
+        </>
+      )}
+
+      <AlertDialog open={!!pendingClaim} onOpenChange={(open) => !open && setPendingClaim(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Limite de jornada</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div>
+                <p>Com este plantão, sua jornada ultrapassa os limites recomendados pelo hospital:</p>
+                <ul className="mt-1 list-disc pl-5">
+                  {pendingClaim?.issues.map((issue) => (
+                    <li key={issue.kind}>{describeWorkLimitIssue(issue)}</li>
+                  ))}
+                </ul>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={!!busySwapId}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingClaim && handleClaim(pendingClaim.swapId, true)}
+              disabled={!!busySwapId}
+            >
+              {busySwapId ? "Processando..." : "Assumir mesmo assim"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+function SwapCard({ swap, children }: { swap: ShiftSwap; children: React.ReactNode }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>{swap.hospital}</CardTitle>
+            <CardDescription>{swap.specialty}</CardDescription>
+          </div>
+          <Badge variant="outline">{swapStatusLabels[swap.status]}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Calendar className="h-4 w-4 text-muted-foreground" />
+          <span>{formatShiftDate(swap)}</span>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <Clock className="h-4 w-4 text-muted-foreground" />
+          <span>
+            {formatShiftTime(swap)} ({formatDuration(getShiftHours(swap))})
+          </span>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <MapPin className="h-4 w-4 text-muted-foreground" />
+          <span>{swap.location}</span>
+        </div>
+        <p className="text-sm font-bold">R$ {swap.value.toFixed(2)}</p>
+        {children}
+      </CardContent>
+    </Card>
+  )
+}
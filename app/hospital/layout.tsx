@@ -0,0 +1,22 @@
+"use client"
+
+import type React from "react"
+import { ArrowLeftRight, Building, Home, MessageSquare, PlusCircle } from "lucide-react"
+import { DashboardShell, type NavItem } from "@/components/dashboard-shell"
+import { RoleGuard } from "@/components/role-guard"
+
+const navItems: NavItem[] = [
+  { href: "/hospital", label: "Painel", icon: <Home className="h-5 w-5" /> },
+  { href: "/hospital/proposals", label: "Plantões publicados", icon: <MessageSquare className="h-5 w-5" /> },
+  { href: "/hospital/proposals/new", label: "Publicar plantão", icon: <PlusCircle className="h-5 w-5" /> },
+  { href: "/hospital/swaps", label: "Trocas de plantão", icon: <ArrowLeftRight className="h-5 w-5" /> },
+  { href: "/hospital/profile", label: "Perfil do Hospital", icon: <Building className="h-5 w-5" /> },
+]
+
+export default function HospitalLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <RoleGuard allow={["hospital"]}>
+      <DashboardShell navItems={navItems}>{children}</DashboardShell>
+    </RoleGuard>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CheckCircle, Clock, MessageSquare, PlusCircle } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { getHospitalProposals, type Proposal } from "@/lib/proposal-service"
+import { formatDuration, formatShiftDate, formatShiftTime, getShiftHours } from "@/lib/shift-timing"
+
+export default function HospitalDashboardPage() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [proposals, setProposals] = useState<Proposal[]>([])
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const fetchProposals = async () => {
+      try {
+        const fetchedProposals = await getHospitalProposals()
+        setProposals(fetchedProposals)
+      } catch (error) {
+        console.error("Error fetching hospital dashboard data:", error)
+        toast({
+          title: "Erro ao carregar dados",
+          description: "Não foi possível carregar os dados do painel. Tente novamente.",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchProposals()
+  }, [toast])
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Painel do Hospital</h1>
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    )
+  }
+
+  const pending = proposals.filter((p) => p.status === "pending")
+  const accepted = proposals.filter((p) => p.status === "accepted")
+  const upcoming = pending
+    .filter((p) => p.startAt.getTime() >= new Date().setHours(0, 0, 0, 0))
+    .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+    .slice(0, 5)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h1 className="text-3xl font-bold text-gray-900">Painel do Hospital</h1>
+        <Link href="/hospital/proposals/new">
+          <Button className="gap-2">
+            <PlusCircle className="h-4 w-4" />
+            Publicar plantão
+          </Button>
+        </Link>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="border-blue-100">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-gray-700">Publicados</CardTitle>
+            <MessageSquare className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-gray-900">{proposals.length}</div>
+            <p className="text-xs text-gray-600">Plantões publicados</p>
+          </CardContent>
+        </Card>
+
+        <Card className="border-blue-100">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-gray-700">Aguardando</CardTitle>
+            <Clock className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-gray-900">{pending.length}</div>
+            <p className="text-xs text-gray-600">Aguardando resposta de médicos</p>
+          </CardContent>
+        </Card>
+
+        <Card className="border-blue-100">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-gray-700">Preenchidos</CardTitle>
+            <CheckCircle className="h-4 w-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-gray-900">{accepted.length}</div>
+            <p className="text-xs text-gray-600">Plantões aceitos</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-gray-900">Próximos plantões em aberto</CardTitle>
+          <CardDescription>Plantões publicados que ainda não foram aceitos</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {upcoming.length > 0 ? (
+              upcoming.map((proposal, index) => (
+                <Link
+                  key={proposal.id}
+                  href={`/hospital/proposals/${proposal.id}`}
+                  className={`flex items-center justify-between ${index < upcoming.length - 1 ? "border-b pb-4" : ""}`}
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{proposal.specialty}</p>
+                    <p className="text-sm text-gray-600">{proposal.location}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium text-gray-900">{formatShiftDate(proposal)}</p>
+                    <p className="text-sm text-gray-600">
+                      {formatShiftTime(proposal)} ({formatDuration(getShiftHours(proposal))})
+                    </p>
+                  </div>
+                </Link>
+              ))
+            ) : (
+              <p className="text-center text-gray-600 py-4">Nenhum plantão em aberto</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,536 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LocateFixed, Plus, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { getCurrentUserData } from "@/lib/auth-service"
+import { getHospitalProfile, updateHospitalProfile, type HospitalProfile } from "@/lib/hospital-service"
+import { medicalSpecialties } from "@/lib/availability-service"
+import { DEFAULT_GEOFENCE_RADIUS_METERS } from "@/lib/geo"
+import { DEFAULT_ATTENDANCE_POLICY, type AttendancePolicy } from "@/lib/attendance-policy"
+import { DEFAULT_TIME_ZONE } from "@/lib/shift-timing"
+import { DEFAULT_WORK_LIMITS, type WorkLimitsPolicy } from "@/lib/work-limits"
+import { DEFAULT_CANCELLATION_POLICY, type CancellationWindow } from "@/lib/cancellation-policy"
+import { resolvePaymentTerms } from "@/lib/payment-terms"
+
+// Fusos horários brasileiros oferecidos para os horários dos plantões
+const timeZones = [
+  { value: "America/Sao_Paulo", label: "Brasília (São Paulo)" },
+  { value: "America/Manaus", label: "Amazonas (Manaus)" },
+  { value: "America/Cuiaba", label: "Mato Grosso (Cuiabá)" },
+  { value: "America/Campo_Grande", label: "Mato Grosso do Sul (Campo Grande)" },
+  { value: "America/Porto_Velho", label: "Rondônia (Porto Velho)" },
+  { value: "America/Boa_Vista", label: "Roraima (Boa Vista)" },
+  { value: "America/Rio_Branco", label: "Acre (Rio Branco)" },
+  { value: "America/Noronha", label: "Fernando de Noronha" },
+]
+
+const attendancePolicyFields: { field: keyof AttendancePolicy; label: string }[] = [
+  { field: "checkInOpensMinutesBefore", label: "Check-in liberado antes do início (min)" },
+  { field: "checkInClosesMinutesAfter", label: "Check-in encerrado após o início (min)" },
+  { field: "lateToleranceMinutes", label: "Tolerância de atraso (min)" },
+  { field: "minCheckOutElapsedMinutes", label: "Tempo mínimo até o check-out (min)" },
+  { field: "missingCheckOutGraceMinutes", label: "Prazo para check-out após o fim (min)" },
+]
+
+const workLimitFields: { field: "minRestHours" | "maxWeeklyHours"; label: string }[] = [
+  { field: "minRestHours", label: "Descanso mínimo entre plantões (h)" },
+  { field: "maxWeeklyHours", label: "Máximo de horas em 7 dias (h)" },
+]
+
+export default function HospitalProfilePage() {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  const [isLoadingProfile, setIsLoadingProfile] = useState(true)
+  const [profile, setProfile] = useState<HospitalProfile>({
+    name: "",
+    description: "",
+    founded: "",
+    employees: "",
+    specialties: [],
+  })
+
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const [savedProfile, userData] = await Promise.all([getHospitalProfile(), getCurrentUserData()])
+        if (savedProfile) {
+          setProfile(savedProfile)
+        } else if (userData) {
+          setProfile((prev) => ({ ...prev, name: userData.name }))
+        }
+      } catch (error) {
+        console.error("Error fetching hospital profile:", error)
+        toast({
+          title: "Erro ao carregar perfil",
+          description: "Não foi possível carregar os dados do hospital. Tente novamente.",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoadingProfile(false)
+      }
+    }
+
+    fetchProfile()
+  }, [toast])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      await updateHospitalProfile(profile)
+      toast({
+        title: "Perfil atualizado",
+        description: "Os dados do hospital foram salvos com sucesso.",
+      })
+    } catch (error) {
+      console.error("Error saving hospital profile:", error)
+      toast({
+        title: "Erro ao salvar",
+        description: "Ocorreu um erro ao salvar os dados do hospital.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Geolocalização indisponível",
+        description: "Seu navegador não permite obter a localização.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setProfile((prev) => ({
+          ...prev,
+          coordinates: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+        }))
+      },
+      (error) => {
+        console.error("Error getting location:", error)
+        toast({
+          title: "Erro ao obter localização",
+          description: "Verifique se você concedeu permissão de localização.",
+          variant: "destructive",
+        })
+      },
+      { enableHighAccuracy: true },
+    )
+  }
+
+  const handleCoordinateChange = (field: "latitude" | "longitude", value: string) => {
+    const current = profile.coordinates || { latitude: 0, longitude: 0 }
+    setProfile({ ...profile, coordinates: { ...current, [field]: Number(value) } })
+  }
+
+  const handlePolicyChange = (field: keyof AttendancePolicy, value: string) => {
+    // Campos em branco voltam ao padrão; o Firestore não aceita valores undefined
+    const attendancePolicy = { ...profile.attendancePolicy }
+    if (value) {
+      attendancePolicy[field] = Number(value)
+    } else {
+      delete attendancePolicy[field]
+    }
+    setProfile({ ...profile, attendancePolicy })
+  }
+
+  const handleWorkLimitChange = (field: keyof WorkLimitsPolicy, value: string) => {
+    const workLimits: Partial<WorkLimitsPolicy> = { ...profile.workLimits }
+    if (field === "enforcement") {
+      workLimits.enforcement = value as WorkLimitsPolicy["enforcement"]
+    } else if (value) {
+      workLimits[field] = Number(value)
+    } else {
+      delete workLimits[field]
+    }
+    setProfile({ ...profile, workLimits })
+  }
+
+  // Sem faixas próprias o hospital usa a política padrão; a lista vazia torna o cancelamento sempre gratuito
+  const cancellationWindows = profile.cancellationPolicy?.windows ?? DEFAULT_CANCELLATION_POLICY.windows
+
+  const setCancellationWindows = (windows: CancellationWindow[]) => {
+    setProfile({ ...profile, cancellationPolicy: { windows } })
+  }
+
+  const handleCancellationWindowChange = (index: number, field: keyof CancellationWindow, value: string) => {
+    setCancellationWindows(
+      cancellationWindows.map((rule, current) => (current === index ? { ...rule, [field]: Number(value) } : rule)),
+    )
+  }
+
+  const handleRemoveCancellationWindow = (index: number) => {
+    setCancellationWindows(cancellationWindows.filter((_, current) => current !== index))
+  }
+
+  const paymentTerms = resolvePaymentTerms(profile.paymentTerms)
+
+  const handleAddSpecialty = (specialty: string) => {
+    if (!profile.specialties.includes(specialty)) {
+      setProfile({ ...profile, specialties: [...profile.specialties, specialty] })
+    }
+  }
+
+  const handleRemoveSpecialty = (specialty: string) => {
+    setProfile({ ...profile, specialties: profile.specialties.filter((s) => s !== specialty) })
+  }
+
+  if (isLoadingProfile) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Perfil do Hospital</h1>
+        <p className="text-muted-foreground">Essas informações aparecem para os médicos nas propostas</p>
+      </div>
+
+      <Card className="max-w-3xl">
+        <CardHeader>
+          <CardTitle>Dados institucionais</CardTitle>
+          <CardDescription>Apresente seu hospital aos médicos</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Nome</Label>
+              <Input
+                id="name"
+                value={profile.name}
+                onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Sobre</Label>
+              <Textarea
+                id="description"
+                value={profile.description}
+                onChange={(e) => setProfile({ ...profile, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="cnpj">CNPJ</Label>
+                <Input
+                  id="cnpj"
+                  placeholder="00.000.000/0001-00"
+                  value={profile.cnpj || ""}
+                  onChange={(e) => setProfile({ ...profile, cnpj: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="address">Endereço da sede</Label>
+                <Input
+                  id="address"
+                  value={profile.address || ""}
+                  onChange={(e) => setProfile({ ...profile, address: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              CNPJ e endereço qualificam o hospital nos contratos assinados.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="founded">Fundado em</Label>
+                <Input
+                  id="founded"
+                  placeholder="1985"
+                  value={profile.founded}
+                  onChange={(e) => setProfile({ ...profile, founded: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="employees">Funcionários</Label>
+                <Input
+                  id="employees"
+                  placeholder="500+"
+                  value={profile.employees}
+                  onChange={(e) => setProfile({ ...profile, employees: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="timeZone">Fuso horário dos plantões</Label>
+              <Select
+                value={profile.timeZone || DEFAULT_TIME_ZONE}
+                onValueChange={(timeZone) => setProfile({ ...profile, timeZone })}
+              >
+                <SelectTrigger id="timeZone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZones.map((zone) => (
+                    <SelectItem key={zone.value} value={zone.value}>
+                      {zone.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Especialidades atendidas</Label>
+              <Select value="" onValueChange={handleAddSpecialty}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Adicionar especialidade" />
+                </SelectTrigger>
+                <SelectContent>
+                  {medicalSpecialties
+                    .filter((specialty) => !profile.specialties.includes(specialty))
+                    .map((specialty) => (
+                      <SelectItem key={specialty} value={specialty}>
+                        {specialty}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {profile.specialties.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {profile.specialties.map((specialty) => (
+                    <Badge key={specialty} className="bg-blue-100 text-blue-800 flex items-center gap-1">
+                      {specialty}
+                      <button type="button" onClick={() => handleRemoveSpecialty(specialty)}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Localização para check-in</Label>
+              <p className="text-xs text-muted-foreground">
+                Médicos só conseguem fazer check-in e check-out dentro deste raio a partir das coordenadas do hospital.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <Input
+                  type="number"
+                  step="any"
+                  placeholder="Latitude"
+                  aria-label="Latitude"
+                  value={profile.coordinates?.latitude ?? ""}
+                  onChange={(e) => handleCoordinateChange("latitude", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  step="any"
+                  placeholder="Longitude"
+                  aria-label="Longitude"
+                  value={profile.coordinates?.longitude ?? ""}
+                  onChange={(e) => handleCoordinateChange("longitude", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min={50}
+                  placeholder={`Raio (m) - padrão ${DEFAULT_GEOFENCE_RADIUS_METERS}`}
+                  aria-label="Raio permitido em metros"
+                  value={profile.geofenceRadiusMeters ?? ""}
+                  onChange={(e) =>
+                    setProfile({
+                      ...profile,
+                      geofenceRadiusMeters: e.target.value ? Number(e.target.value) : undefined,
+                    })
+                  }
+                />
+              </div>
+              <Button type="button" variant="outline" size="sm" className="gap-2" onClick={handleUseCurrentLocation}>
+                <LocateFixed className="h-4 w-4" />
+                Usar minha localização atual
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label>Horários de check-in e check-out</Label>
+              <p className="text-xs text-muted-foreground">
+                Deixe em branco para usar o padrão indicado em cada campo.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {attendancePolicyFields.map(({ field, label }) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={field} className="text-xs font-normal">
+                      {label}
+                    </Label>
+                    <Input
+                      id={field}
+                      type="number"
+                      min={0}
+                      placeholder={`Padrão: ${DEFAULT_ATTENDANCE_POLICY[field]}`}
+                      value={profile.attendancePolicy?.[field] ?? ""}
+                      onChange={(e) => handlePolicyChange(field, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Limites de jornada dos médicos</Label>
+              <p className="text-xs text-muted-foreground">
+                Conferidos quando o médico aceita um plantão, considerando todos os contratos dele.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {workLimitFields.map(({ field, label }) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={field} className="text-xs font-normal">
+                      {label}
+                    </Label>
+                    <Input
+                      id={field}
+                      type="number"
+                      min={0}
+                      placeholder={`Padrão: ${DEFAULT_WORK_LIMITS[field]}`}
+                      value={profile.workLimits?.[field] ?? ""}
+                      onChange={(e) => handleWorkLimitChange(field, e.target.value)}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label htmlFor="enforcement" className="text-xs font-normal">
+                    Quando o limite for excedido
+                  </Label>
+                  <Select
+                    value={profile.workLimits?.enforcement || DEFAULT_WORK_LIMITS.enforcement}
+                    onValueChange={(value) => handleWorkLimitChange("enforcement", value)}
+                  >
+                    <SelectTrigger id="enforcement">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="warn">Avisar o médico</SelectItem>
+                      <SelectItem value="block">Impedir o aceite</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Política de cancelamento</Label>
+              <p className="text-xs text-muted-foreground">
+                Percentual do valor do plantão cobrado do médico que cancela com menos antecedência que a indicada, ou
+                pago a ele como compensação quando o hospital cancela. Vale para os contratos assinados a partir da
+                alteração.
+              </p>
+              {cancellationWindows.map((rule, index) => (
+                <div key={index} className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label htmlFor={`cancellation-hours-${index}`} className="text-xs font-normal">
+                      Menos de (horas antes do início)
+                    </Label>
+                    <Input
+                      id={`cancellation-hours-${index}`}
+                      type="number"
+                      min={1}
+                      value={rule.hoursBefore}
+                      onChange={(e) => handleCancellationWindowChange(index, "hoursBefore", e.target.value)}
+                    />
+                  </div>
+                  <div className="flex-1 space-y-1">
+                    <Label htmlFor={`cancellation-percent-${index}`} className="text-xs font-normal">
+                      Multa (% do valor)
+                    </Label>
+                    <Input
+                      id={`cancellation-percent-${index}`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={rule.penaltyPercent}
+                      onChange={(e) => handleCancellationWindowChange(index, "penaltyPercent", e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remover faixa"
+                    onClick={() => handleRemoveCancellationWindow(index)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setCancellationWindows([...cancellationWindows, { hoursBefore: 12, penaltyPercent: 0 }])}
+              >
+                <Plus className="h-4 w-4" />
+                Adicionar faixa
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label>Prazo de pagamento</Label>
+              <p className="text-xs text-muted-foreground">
+                Contado da aprovação das horas do plantão. Aparece no contrato e no extrato do médico; vale para os
+                contratos assinados a partir da alteração.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  id="paymentTermsDays"
+                  type="number"
+                  min={0}
+                  value={paymentTerms.days}
+                  onChange={(e) =>
+                    setProfile({ ...profile, paymentTerms: { ...paymentTerms, days: Number(e.target.value) } })
+                  }
+                />
+                <Select
+                  value={paymentTerms.businessDays ? "business" : "calendar"}
+                  onValueChange={(value) =>
+                    setProfile({ ...profile, paymentTerms: { ...paymentTerms, businessDays: value === "business" } })
+                  }
+                >
+                  <SelectTrigger id="paymentTermsKind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="business">Dias úteis</SelectItem>
+                    <SelectItem value="calendar">Dias corridos</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requireSwapApproval">Trocas de plantão entre médicos</Label>
+              <Select
+                value={profile.requireSwapApproval ? "approval" : "free"}
+                onValueChange={(value) => setProfile({ ...profile, requireSwapApproval: value === "approval" })}
+              >
+                <SelectTrigger id="requireSwapApproval">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="free">O colega assume assim que aceitar</SelectItem>
+                  <SelectItem value="approval">Exigir aprovação do hospital</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Salvando..." : "Salvar perfil"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,403 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Separator } from "@/components/ui/separator"
+import { useToast } from "@/hooks/use-toast"
+import { Calendar, Clock, MapPin, Timer } from "lucide-react"
+import { ProposalForm } from "@/components/proposal-form"
+import { Forbidden } from "@/components/forbidden"
+import { DoctorMatches } from "@/components/doctor-matches"
+import { ProposalNegotiation } from "@/components/proposal-negotiation"
+import { BidList } from "@/components/shift-bids"
+import { useAuth } from "@/components/auth-provider"
+import { CancelContractDialog, CancellationSummary } from "@/components/contract-cancellation"
+import { ContractSignaturesCard } from "@/components/contract-document"
+import { ContractAmendments } from "@/components/contract-amendments"
+import { Timesheet } from "@/components/timesheet"
+import { ContractPayment } from "@/components/contract-payment"
+import { ContractRpa } from "@/components/contract-rpa"
+import { getContract, isCanceledStatus, type Contract } from "@/lib/contract-service"
+import {
+  getProposal,
+  updateProposal,
+  withdrawProposal,
+  type Proposal,
+  type ProposalInput,
+} from "@/lib/proposal-service"
+import { formatDuration, formatShiftDate, formatShiftTime, getShiftHours } from "@/lib/shift-timing"
+
+export default function HospitalProposalDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user } = useAuth()
+  const [isLoading, setIsLoading] = useState(false)
+  const [isLoadingProposal, setIsLoadingProposal] = useState(true)
+  const [isEditing, setIsEditing] = useState(false)
+  const [showWithdrawDialog, setShowWithdrawDialog] = useState(false)
+  const [proposal, setProposal] = useState<Proposal | null>(null)
+
+  useEffect(() => {
+    const fetchProposal = async () => {
+      try {
+        const fetchedProposal = await getProposal(params.id)
+        setProposal(fetchedProposal)
+      } catch (error) {
+        console.error("Error fetching proposal:", error)
+        toast({
+          title: "Erro ao carregar plantão",
+          description: "Não foi possível carregar os detalhes do plantão. Tente novamente.",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoadingProposal(false)
+      }
+    }
+
+    fetchProposal()
+  }, [params.id, toast])
+
+  const reloadProposal = async () => {
+    setProposal(await getProposal(params.id))
+  }
+
+  const handleUpdate = async (changes: ProposalInput) => {
+    setIsLoading(true)
+
+    try {
+      await updateProposal(params.id, changes)
+      // Recarrega para refletir o prazo de resposta recalculado
+      await reloadProposal()
+      setIsEditing(false)
+
+      toast({
+        title: "Plantão atualizado",
+        description: "As alterações foram salvas com sucesso.",
+      })
+    } catch (error) {
+      console.error("Error updating proposal:", error)
+      toast({
+        title: "Erro ao atualizar plantão",
+        description: "Ocorreu um erro ao salvar as alterações.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAssign = async (doctorId: string) => {
+    setIsLoading(true)
+
+    try {
+      await updateProposal(params.id, { doctorId })
+      setProposal((current) => (current ? { ...current, doctorId } : current))
+
+      toast({
+        title: "Proposta enviada",
+        description: "O médico poderá aceitar ou recusar o plantão.",
+      })
+    } catch (error) {
+      console.error("Error assigning proposal:", error)
+      toast({
+        title: "Erro ao enviar proposta",
+        description: "Ocorreu um erro ao direcionar o plantão ao médico.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleWithdraw = async () => {
+    setIsLoading(true)
+
+    try {
+      await withdrawProposal(params.id)
+
+      toast({
+        title: "Plantão retirado",
+        description: "O plantão não está mais disponível para os médicos.",
+      })
+
+      router.push("/hospital/proposals")
+    } catch (error) {
+      console.error("Error withdrawing proposal:", error)
+      toast({
+        title: "Erro ao retirar plantão",
+        description: "Ocorreu um erro ao retirar o plantão.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+      setShowWithdrawDialog(false)
+    }
+  }
+
+  if (isLoadingProposal) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Detalhes do Plantão</h1>
+          <p className="text-muted-foreground">Gerencie o plantão publicado</p>
+        </div>
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!proposal) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Detalhes do Plantão</h1>
+          <p className="text-muted-foreground">Gerencie o plantão publicado</p>
+        </div>
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-10">
+            <p className="text-muted-foreground mb-4">Plantão não encontrado.</p>
+            <Button onClick={() => router.push("/hospital/proposals")}>Voltar para plantões</Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (proposal.hospitalId !== user?.uid) {
+    return <Forbidden description="Este plantão foi publicado por outro hospital." homeHref="/hospital/proposals" />
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Detalhes do Plantão</h1>
+        <p className="text-muted-foreground">Gerencie o plantão publicado</p>
+      </div>
+
+      {isEditing ? (
+        <Card className="max-w-3xl">
+          <CardHeader>
+            <CardTitle>Editar plantão</CardTitle>
+            <CardDescription>Os médicos verão as informações atualizadas imediatamente</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProposalForm
+              initialValues={proposal}
+              timeZone={proposal.timeZone}
+              submitLabel="Salvar alterações"
+              isLoading={isLoading}
+              onSubmit={handleUpdate}
+              onCancel={() => setIsEditing(false)}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="max-w-3xl">
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle>{proposal.specialty}</CardTitle>
+                <CardDescription>
+                  {proposal.doctorId
+                    ? proposal.awardedBidId
+                      ? "Direcionada ao lance escolhido"
+                      : "Proposta direcionada"
+                    : proposal.assignmentMode === "bidding"
+                      ? "Aberta a lances dos médicos da especialidade"
+                      : "Aberta a todos os médicos (primeiro a assinar)"}
+                </CardDescription>
+              </div>
+              <Badge variant="outline">{statusLabels[proposal.status] || proposal.status}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+                <span>{formatShiftDate(proposal)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                <span>
+                  {formatShiftTime(proposal)} ({formatDuration(getShiftHours(proposal))})
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                <span>{proposal.location}</span>
+              </div>
+              {(proposal.status === "pending" || proposal.status === "negotiating") && (
+                <div className="flex items-center gap-2">
+                  <Timer className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    Resposta até{" "}
+                    {proposal.expiresAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div>
+              <h3 className="font-medium mb-2">Descrição do plantão</h3>
+              <p className="text-sm text-muted-foreground">{proposal.description || "—"}</p>
+            </div>
+
+            <div>
+              <h3 className="font-medium mb-2">Requisitos</h3>
+              <p className="text-sm text-muted-foreground">{proposal.requirements || "—"}</p>
+            </div>
+
+            <div>
+              <h3 className="font-medium mb-2">Valor</h3>
+              <p className="font-bold text-lg">R$ {proposal.value.toFixed(2)}</p>
+            </div>
+          </CardContent>
+          {proposal.status === "pending" && (
+            <CardFooter className="flex gap-2">
+              <Button className="flex-1" onClick={() => setIsEditing(true)} disabled={isLoading}>
+                Editar plantão
+              </Button>
+              <Button
+                variant="destructive"
+                className="flex-1"
+                onClick={() => setShowWithdrawDialog(true)}
+                disabled={isLoading}
+              >
+                Retirar plantão
+              </Button>
+            </CardFooter>
+          )}
+        </Card>
+      )}
+
+      <ProposalNegotiation proposal={proposal} party="hospital" onChange={reloadProposal} />
+
+      {proposal.assignmentMode === "bidding" && (!proposal.doctorId || proposal.awardedBidId) && (
+        <BidList proposal={proposal} onAwarded={reloadProposal} />
+      )}
+
+      {proposal.contractId && <HospitalContractCard contractId={proposal.contractId} />}
+
+      {proposal.status === "pending" && proposal.assignmentMode !== "bidding" && (
+        <DoctorMatches
+          proposalId={params.id}
+          assignedDoctorId={proposal.doctorId}
+          onAssign={handleAssign}
+          isAssigning={isLoading}
+        />
+      )}
+
+      <AlertDialog open={showWithdrawDialog} onOpenChange={setShowWithdrawDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Retirar plantão?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O plantão deixará de aparecer para os médicos e não poderá mais ser aceito.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleWithdraw} disabled={isLoading}>
+              {isLoading ? "Retirando..." : "Retirar plantão"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+// Contrato gerado pelo aceite, com o cancelamento pelo hospital
+function HospitalContractCard({ contractId }: { contractId: string }) {
+  const [contract, setContract] = useState<Contract | null>(null)
+  const [showCancelDialog, setShowCancelDialog] = useState(false)
+
+  const fetchContract = useCallback(async () => {
+    setContract(await getContract(contractId).catch(() => null))
+  }, [contractId])
+
+  useEffect(() => {
+    fetchContract()
+  }, [fetchContract])
+
+  if (!contract) return null
+
+  const holder = contract.holders[contract.holders.length - 1]
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Contrato</CardTitle>
+              <CardDescription>{holder?.doctorName || "Médico contratado"}</CardDescription>
+            </div>
+            <Badge variant="outline">{contractStatusLabels[contract.status]}</Badge>
+          </div>
+        </CardHeader>
+        {isCanceledStatus(contract.status) && contract.cancellation && (
+          <CardContent>
+            <CancellationSummary contract={contract} />
+          </CardContent>
+        )}
+        {contract.status === "upcoming" && !contract.checkInTime && (
+          <CardFooter>
+            <Button variant="destructive" onClick={() => setShowCancelDialog(true)}>
+              Cancelar contrato
+            </Button>
+          </CardFooter>
+        )}
+
+        <CancelContractDialog
+          contract={contract}
+          party="hospital"
+          open={showCancelDialog}
+          onOpenChange={setShowCancelDialog}
+          onCanceled={fetchContract}
+        />
+      </Card>
+      <Timesheet contract={contract} party="hospital" onChange={fetchContract} />
+      <ContractPayment contract={contract} party="hospital" onChange={fetchContract} />
+      <ContractRpa contract={contract} party="hospital" onChange={fetchContract} />
+      <ContractAmendments contract={contract} party="hospital" onChange={fetchContract} />
+      <ContractSignaturesCard contract={contract} party="hospital" onSigned={fetchContract} />
+    </div>
+  )
+}
+
+const contractStatusLabels: Record<Contract["status"], string> = {
+  upcoming: "Agendado",
+  awaiting_approval: "Horas aguardando aprovação",
+  hours_adjusted: "Ajuste aguardando o médico",
+  hours_contested: "Ajuste contestado",
+  completed: "Concluído",
+  canceled: "Cancelado pelo médico",
+  canceled_by_hospital: "Cancelado pelo hospital",
+}
+
+const statusLabels: Record<string, string> = {
+  pending: "Em aberto",
+  negotiating: "Em negociação",
+  expired: "Expirado",
+  accepted: "Aceito",
+  rejected: "Recusado",
+  withdrawn: "Retirado",
+}
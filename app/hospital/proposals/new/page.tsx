@@ -0,0 +1,72 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { ProposalForm } from "@/components/proposal-form"
+import { createProposal, type ProposalInput } from "@/lib/proposal-service"
+import { getHospitalProfile } from "@/lib/hospital-service"
+import { DEFAULT_TIME_ZONE } from "@/lib/shift-timing"
+
+export default function NewProposalPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE)
+
+  useEffect(() => {
+    getHospitalProfile()
+      .then((profile) => setTimeZone(profile?.timeZone || DEFAULT_TIME_ZONE))
+      .catch((error) => console.error("Error fetching hospital profile:", error))
+  }, [])
+
+  const handleCreate = async (proposal: ProposalInput) => {
+    setIsLoading(true)
+
+    try {
+      await createProposal(proposal)
+
+      toast({
+        title: "Plantão publicado",
+        description: "O plantão já está disponível para os médicos.",
+      })
+
+      router.push("/hospital/proposals")
+    } catch (error) {
+      console.error("Error creating proposal:", error)
+      toast({
+        title: "Erro ao publicar plantão",
+        description: "Ocorreu um erro ao publicar o plantão. Tente novamente.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Publicar plantão</h1>
+        <p className="text-muted-foreground">Descreva o plantão que seu hospital precisa preencher</p>
+      </div>
+
+      <Card className="max-w-3xl">
+        <CardHeader>
+          <CardTitle>Dados do plantão</CardTitle>
+          <CardDescription>Médicos da especialidade escolhida poderão visualizar e aceitar a proposta</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProposalForm
+            timeZone={timeZone}
+            submitLabel="Publicar plantão"
+            isLoading={isLoading}
+            onSubmit={handleCreate}
+            onCancel={() => router.push("/hospital/proposals")}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
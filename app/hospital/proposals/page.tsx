@@ -0,0 +1,211 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Badge } from "@/components/ui/badge"
+import { Calendar, Clock, MapPin, PlusCircle } from "lucide-react"
+import { getHospitalProposals, type Proposal, type ProposalStatus } from "@/lib/proposal-service"
+import { useToast } from "@/hooks/use-toast"
+import { formatDuration, formatShiftDate, formatShiftTime, getShiftHours } from "@/lib/shift-timing"
+
+const tabs: { value: ProposalStatus; label: string; empty: string }[] = [
+  { value: "pending", label: "Em aberto", empty: "Nenhum plantão em aberto." },
+  { value: "negotiating", label: "Em negociação", empty: "Nenhuma negociação em andamento." },
+  { value: "accepted", label: "Aceitos", empty: "Nenhum plantão aceito." },
+  { value: "rejected", label: "Recusados", empty: "Nenhum plantão recusado." },
+  { value: "withdrawn", label: "Retirados", empty: "Nenhum plantão retirado." },
+  { value: "expired", label: "Expirados", empty: "Nenhum plantão expirado." },
+]
+
+export default function HospitalProposalsPage() {
+  const [proposals, setProposals] = useState<Proposal[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const fetchProposals = async () => {
+      try {
+        const fetchedProposals = await getHospitalProposals()
+        setProposals(fetchedProposals.sort((a, b) => a.startAt.getTime() - b.startAt.getTime()))
+      } catch (error) {
+        console.error("Error fetching proposals:", error)
+        toast({
+          title: "Erro ao carregar plantões",
+          description: "Não foi possível carregar os plantões publicados. Tente novamente.",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchProposals()
+  }, [toast])
+
+  const header = (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+      <div>
+        <h1 className="text-3xl font-bold">Plantões publicados</h1>
+        <p className="text-muted-foreground">Acompanhe os plantões que seu hospital ofereceu</p>
+      </div>
+      <Link href="/hospital/proposals/new">
+        <Button className="gap-2">
+          <PlusCircle className="h-4 w-4" />
+          Publicar plantão
+        </Button>
+      </Link>
+    </div>
+  )
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {header}
+
+      <Tabs defaultValue="pending" className="w-full">
+        <TabsList className="grid w-full grid-cols-6">
+          {tabs.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {tabs.map((tab) => {
+          const filtered = proposals.filter((proposal) => proposal.status === tab.value)
+          return (
+            <TabsContent key={tab.value} value={tab.value}>
+              <div className="grid gap-4">
+                {filtered.map((proposal) => (
+                  <HospitalProposalCard key={proposal.id} proposal={proposal} />
+                ))}
+                {filtered.length === 0 && (
+                  <Card>
+                    <CardContent className="flex flex-col items-center justify-center py-10">
+                      <p className="text-muted-foreground mb-4">{tab.empty}</p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </TabsContent>
+          )
+        })}
+      </Tabs>
+    </div>
+  )
+}
+
+function HospitalProposalCard({ proposal }: { proposal: Proposal }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>{proposal.specialty}</CardTitle>
+            <CardDescription>
+              {proposal.doctorId
+                ? "Proposta direcionada"
+                : proposal.assignmentMode === "bidding"
+                  ? "Aberta a lances"
+                  : "Aberta a todos os médicos"}
+            </CardDescription>
+          </div>
+          <StatusBadge status={proposal.status} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+            <span>{formatShiftDate(proposal)}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <Clock className="h-4 w-4 text-muted-foreground" />
+            <span>
+              {formatShiftTime(proposal)} ({formatDuration(getShiftHours(proposal))})
+            </span>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <MapPin className="h-4 w-4 text-muted-foreground" />
+            <span>{proposal.location}</span>
+          </div>
+          <div className="mt-2 pt-2 border-t">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Valor total:</span>
+              <span className="font-bold">R$ {proposal.value.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <div className="flex gap-2 mt-4">
+            <Link href={`/hospital/proposals/${proposal.id}`} className="flex-1">
+              <Button variant={proposal.status === "pending" ? "default" : "outline"} className="w-full">
+                {proposal.status === "pending" ? "Gerenciar" : "Ver detalhes"}
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function StatusBadge({ status }: { status: ProposalStatus }) {
+  if (status === "pending") {
+    return (
+      <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
+        Em aberto
+      </Badge>
+    )
+  }
+
+  if (status === "negotiating") {
+    return (
+      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+        Em negociação
+      </Badge>
+    )
+  }
+
+  if (status === "accepted") {
+    return (
+      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+        Aceito
+      </Badge>
+    )
+  }
+
+  if (status === "expired") {
+    return (
+      <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+        Expirado
+      </Badge>
+    )
+  }
+
+  if (status === "withdrawn") {
+    return (
+      <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+        Retirado
+      </Badge>
+    )
+  }
+
+  return (
+    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+      Recusado
+    </Badge>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Calendar, Clock, MapPin } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { swapErrorMessage } from "@/components/contract-swap"
+import { approveSwap, getSwapsAwaitingApproval, rejectSwap, type ShiftSwap } from "@/lib/swap-service"
+import { formatDuration, formatShiftDate, formatShiftTime, getShiftHours } from "@/lib/shift-timing"
+
+export default function HospitalSwapsPage() {
+  const { toast } = useToast()
+  const [swaps, setSwaps] = useState<ShiftSwap[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busySwapId, setBusySwapId] = useState<string | null>(null)
+
+  const fetchSwaps = useCallback(async () => {
+    try {
+      setSwaps(await getSwapsAwaitingApproval())
+    } catch (error) {
+      console.error("Error fetching swaps:", error)
+      toast({
+        title: "Erro ao carregar trocas",
+        description: "Não foi possível carregar as trocas aguardando aprovação. Tente novamente.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchSwaps()
+  }, [fetchSwaps])
+
+  const handleDecision = async (swap: ShiftSwap, approve: boolean) => {
+    setBusySwapId(swap.id)
+    try {
+      if (approve) {
+        await approveSwap(swap.id)
+        toast({ title: "Troca aprovada", description: `O plantão passou para ${swap.claimedByName || "o colega"}.` })
+      } else {
+        await rejectSwap(swap.id)
+        toast({ title: "Troca recusada", description: `${swap.fromDoctorName || "O médico"} continua no plantão.` })
+      }
+    } catch (error) {
+      toast({
+        title: approve ? "Erro ao aprovar troca" : "Erro ao recusar troca",
+        description: swapErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setBusySwapId(null)
+      await fetchSwaps()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Trocas de plantão</h1>
+        <p className="text-muted-foreground">Aprove ou recuse as trocas combinadas entre os médicos contratados</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : swaps.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            Nenhuma troca aguardando aprovação. A exigência de aprovação é configurada no perfil do hospital.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {swaps.map((swap) => (
+            <Card key={swap.id}>
+              <CardHeader className="pb-2">
+                <CardTitle>{swap.specialty}</CardTitle>
+                <CardDescription>
+                  {swap.fromDoctorName || "Médico contratado"} → {swap.claimedByName || "colega"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <Calendar className="h-4 w-4 text-muted-foreground" />
+                  <span>{formatShiftDate(swap)}</span>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  <span>
+                    {formatShiftTime(swap)} ({formatDuration(getShiftHours(swap))})
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <MapPin className="h-4 w-4 text-muted-foreground" />
+                  <span>{swap.location}</span>
+                </div>
+                {swap.message && <p className="text-sm text-muted-foreground">&ldquo;{swap.message}&rdquo;</p>}
+                <div className="flex gap-2 pt-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => handleDecision(swap, false)}
+                    disabled={busySwapId === swap.id}
+                  >
+                    Recusar
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    onClick={() => handleDecision(swap, true)}
+                    disabled={busySwapId === swap.id}
+                  >
+                    Aprovar troca
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,7 +9,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { useToast } from "@/hooks/use-toast"
-import { loginUser, resetPassword } from "@/lib/auth-service"
+import { getCurrentUserData, homePathForRole, loginUser, resetPassword } from "@/lib/auth-service"
 import { FirebaseError } from "firebase/app"
 
 export default function LoginPage() {
@@ -28,11 +28,12 @@ export default function LoginPage() {
 
     try {
       await loginUser(email, password)
+      const userData = await getCurrentUserData()
       toast({
         title: "Bem-vindo(a)",
         description: "Login realizado com sucesso.",
       })
-      router.push("/dashboard")
+      router.push(homePathForRole(userData?.userType))
     } catch (error) {
       console.error("Login error:", error)
       let errorMessage = "Verifique suas credenciais e tente novamente."
@@ -9,7 +9,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { useToast } from "@/hooks/use-toast"
-import { registerUser } from "@/lib/auth-service"
+import { homePathForRole, registerUser } from "@/lib/auth-service"
 import { FirebaseError } from "firebase/app"
 
 export default function RegisterPage() {
@@ -98,8 +98,8 @@ export default function RegisterPage() {
         description: "Redirecionando para o dashboard...",
       })
 
-      // Redireciona para /dashboard após o cadastro
-      router.push("/dashboard")
+      // Redireciona para a área correspondente ao tipo de cadastro
+      router.push(homePathForRole(role))
     } catch (error) {
       console.error("Registration error:", error)
       let errorMessage = "Verifique os dados e tente novamente."
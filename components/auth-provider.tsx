@@ -2,16 +2,21 @@
 
 import { createContext, useContext, useEffect, useState, type ReactNode } from "react"
 import { onAuthStateChanged, type User } from "firebase/auth"
-import { auth } from "@/lib/firebase"
-import { useRouter } from "next/navigation"
+import { doc, onSnapshot } from "firebase/firestore"
+import { auth, db } from "@/lib/firebase"
+import type { UserData, UserType } from "@/lib/auth-service"
 
 interface AuthContextType {
   user: User | null
+  userData: UserData | null
+  role: UserType | null
   loading: boolean
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  userData: null,
+  role: null,
   loading: true,
 })
 
@@ -19,18 +24,48 @@ export const useAuth = () => useContext(AuthContext)
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [userData, setUserData] = useState<UserData | null>(null)
   const [loading, setLoading] = useState(true)
-  const router = useRouter()
 
   useEffect(() => {
+    let unsubscribeUserData: (() => void) | undefined
+
     const unsubscribe = onAuthStateChanged(auth, (user) => {
+      unsubscribeUserData?.()
+      unsubscribeUserData = undefined
       setUser(user)
-      setLoading(false)
+
+      if (!user) {
+        setUserData(null)
+        setLoading(false)
+        return
+      }
+
+      // Escuta o documento em vez de lê-lo uma vez: logo após o cadastro ele ainda não existe
+      setLoading(true)
+      unsubscribeUserData = onSnapshot(
+        doc(db, "users", user.uid),
+        (snapshot) => {
+          setUserData(snapshot.exists() ? (snapshot.data() as UserData) : null)
+          setLoading(false)
+        },
+        (error) => {
+          console.error("Error loading user data:", error)
+          setUserData(null)
+          setLoading(false)
+        },
+      )
     })
 
-    return () => unsubscribe()
+    return () => {
+      unsubscribeUserData?.()
+      unsubscribe()
+    }
   }, [])
 
-  return <AuthContext.Provider value={{ user, loading }}>{children}</AuthContext.Provider>
+  return (
+    <AuthContext.Provider value={{ user, userData, role: userData?.userType ?? null, loading }}>
+      {children}
+    </AuthContext.Provider>
+  )
 }
-
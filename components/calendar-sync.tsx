@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+import { CalendarPlus, Copy, Download, RefreshCw } from "lucide-react"
+import { exportCalendar, getCalendarFeedToken, rotateCalendarFeedToken } from "@/lib/calendar-service"
+
+// Exportação .ics e link de assinatura para Google Agenda, Apple Calendar e Outlook
+export function CalendarSync() {
+  const { toast } = useToast()
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const toFeedUrl = (token: string) => `${window.location.origin}/api/calendar/${token}.ics`
+
+  const handleDownload = async () => {
+    setIsLoading(true)
+    try {
+      const calendar = await exportCalendar()
+      const url = URL.createObjectURL(new Blob([calendar], { type: "text/calendar;charset=utf-8" }))
+      const link = document.createElement("a")
+      link.href = url
+      link.download = "plantoes.ics"
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error("Error exporting calendar:", error)
+      toast({
+        title: "Erro ao exportar agenda",
+        description: "Não foi possível gerar o arquivo .ics. Tente novamente.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleShowFeed = async (rotate = false) => {
+    setIsLoading(true)
+    try {
+      const token = rotate ? await rotateCalendarFeedToken() : await getCalendarFeedToken()
+      setFeedUrl(toFeedUrl(token))
+      if (rotate) {
+        toast({
+          title: "Novo link gerado",
+          description: "O link anterior deixou de funcionar. Atualize a assinatura na sua agenda.",
+        })
+      }
+    } catch (error) {
+      console.error("Error getting calendar feed:", error)
+      toast({
+        title: "Erro ao gerar link",
+        description: "Não foi possível gerar o link de assinatura.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+    await navigator.clipboard.writeText(feedUrl)
+    toast({ title: "Link copiado", description: "Cole o link na opção \"Adicionar agenda por URL\"." })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="h-5 w-5" />
+          Agenda externa
+        </CardTitle>
+        <CardDescription>
+          Veja seus plantões e disponibilidades no Google Agenda, Apple Calendar ou Outlook
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" className="gap-2" onClick={handleDownload} disabled={isLoading}>
+            <Download className="h-4 w-4" />
+            Baixar .ics
+          </Button>
+          {!feedUrl && (
+            <Button variant="outline" onClick={() => handleShowFeed()} disabled={isLoading}>
+              Assinar agenda
+            </Button>
+          )}
+        </div>
+        {feedUrl && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Link privado: quem tiver acesso a ele verá seus plantões. A agenda é atualizada automaticamente.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" title="Copiar link" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                title="Gerar novo link"
+                onClick={() => handleShowFeed(true)}
+                disabled={isLoading}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react"
+import { useToast } from "@/hooks/use-toast"
+
+export interface CameraCaptureHandle {
+  // Captura o quadro atual da câmera como PNG
+  capture: () => Promise<Blob | null>
+}
+
+// Vídeo da câmera frontal; a captura é disparada pelo componente pai via ref
+export const CameraCapture = forwardRef<CameraCaptureHandle, { active: boolean }>(function CameraCapture(
+  { active },
+  ref,
+) {
+  const { toast } = useToast()
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    if (!active) return
+
+    let stream: MediaStream | null = null
+    let cancelled = false
+
+    const startCamera = async () => {
+      try {
+        const mediaStream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "user" },
+        })
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        stream = mediaStream
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream
+        }
+      } catch (error) {
+        console.error("Error accessing camera:", error)
+        toast({
+          title: "Erro ao acessar câmera",
+          description: "Verifique se você concedeu permissão para acessar a câmera.",
+          variant: "destructive",
+        })
+      }
+    }
+
+    startCamera()
+
+    return () => {
+      cancelled = true
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [active, toast])
+
+  useImperativeHandle(ref, () => ({
+    capture: async () => {
+      const video = videoRef.current
+      const canvas = canvasRef.current
+      const context = canvas?.getContext("2d")
+      if (!video || !canvas || !context) return null
+
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      context.drawImage(video, 0, 0, canvas.width, canvas.height)
+
+      return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+    },
+  }))
+
+  return (
+    <>
+      <div className="relative w-full max-w-md h-64 bg-gray-100 rounded-lg overflow-hidden mb-4">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+      </div>
+      <canvas ref={canvasRef} className="hidden" />
+    </>
+  )
+})
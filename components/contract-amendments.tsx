@@ -0,0 +1,355 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { History } from "lucide-react"
+import {
+  WorkLimitError,
+  type AmendableField,
+  type AmendmentChange,
+  type AmendmentStatus,
+  type Contract,
+} from "@/lib/contract-service"
+import {
+  AmendmentError,
+  approveAmendment,
+  getOpenAmendment,
+  proposeAmendment,
+  rejectAmendment,
+  withdrawAmendment,
+} from "@/lib/amendment-service"
+import { buildShiftTiming, formatDuration, getShiftHours, toZonedInputValues } from "@/lib/shift-timing"
+import { describeWorkLimitIssue } from "@/lib/work-limits"
+
+type Party = "doctor" | "hospital"
+
+const partyLabels: Record<Party, string> = {
+  doctor: "Médico",
+  hospital: "Hospital",
+}
+
+const amendmentStatusLabels: Record<AmendmentStatus, string> = {
+  open: "Aguardando resposta",
+  approved: "Aprovado",
+  rejected: "Recusado",
+  withdrawn: "Retirado",
+}
+
+const fieldLabels: Record<AmendableField, string> = {
+  startAt: "Início",
+  endAt: "Término",
+  location: "Local",
+  value: "Valor",
+}
+
+const amendmentErrorMessage = (error: unknown): string => {
+  if (error instanceof WorkLimitError) {
+    const issues = error.issues.map(describeWorkLimitIssue).join(" ")
+    return `O novo horário excede os limites de jornada do hospital. ${issues}`
+  }
+  if (!(error instanceof AmendmentError)) return "O contrato foi atualizado. Recarregue a página e tente novamente."
+
+  switch (error.reason) {
+    case "not_found":
+      return "Contrato não encontrado."
+    case "not_amendable":
+      return "Este contrato não pode mais ser alterado."
+    case "pending":
+      return "Já existe uma alteração aguardando resposta."
+    case "no_changes":
+      return "Altere ao menos um dos campos."
+    case "invalid":
+      return "Verifique os novos termos: o término deve ser após o início, o valor maior que zero e o local informado."
+    case "not_open":
+      return "Esta alteração já foi respondida."
+    case "overlap": {
+      const conflict = error.conflict!
+      return `O novo horário coincide com outro plantão do médico em ${conflict.hospital}.`
+    }
+  }
+}
+
+// Aditivos do contrato: proposta de alteração, resposta da outra parte e linha do tempo das versões
+export function ContractAmendments({
+  contract,
+  party,
+  onChange,
+}: {
+  contract: Contract
+  party: Party
+  onChange: () => Promise<void>
+}) {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  const [showDialog, setShowDialog] = useState(false)
+  const [date, setDate] = useState("")
+  const [startTime, setStartTime] = useState("")
+  const [endTime, setEndTime] = useState("")
+  const [location, setLocation] = useState("")
+  const [value, setValue] = useState("")
+  const [message, setMessage] = useState("")
+
+  const openAmendment = getOpenAmendment(contract.amendments)
+  const amendable = contract.status === "upcoming" && !contract.checkOutTime
+
+  const formatChangeValue = (field: AmendableField, changeValue: AmendmentChange["from"]) => {
+    if (changeValue instanceof Date) {
+      return changeValue.toLocaleString("pt-BR", {
+        dateStyle: "short",
+        timeStyle: "short",
+        timeZone: contract.timeZone,
+      })
+    }
+    return field === "value" ? `R$ ${Number(changeValue).toFixed(2)}` : String(changeValue)
+  }
+
+  const openProposeDialog = () => {
+    // Parte dos termos atuais para facilitar o ajuste
+    const start = toZonedInputValues(contract.startAt, contract.timeZone)
+    setDate(start.day)
+    setStartTime(start.time)
+    setEndTime(toZonedInputValues(contract.endAt, contract.timeZone).time)
+    setLocation(contract.location)
+    setValue(String(contract.value))
+    setMessage("")
+    setShowDialog(true)
+  }
+
+  const run = async (action: () => Promise<void>, title: string, description: string) => {
+    setIsLoading(true)
+    try {
+      await action()
+      await onChange()
+      toast({ title, description })
+      return true
+    } catch (error) {
+      toast({
+        title: "Erro na alteração do contrato",
+        description: amendmentErrorMessage(error),
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handlePropose = async () => {
+    if (!date || !startTime || !endTime) {
+      toast({
+        title: "Dados incompletos",
+        description: "Informe a data e os horários do plantão.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const timing = buildShiftTiming(date, startTime, endTime, contract.timeZone)
+    const terms = { startAt: timing.startAt, endAt: timing.endAt, location: location.trim(), value: Number(value) }
+    const sent = await run(
+      () => proposeAmendment(contract.id!, terms, message),
+      "Alteração proposta",
+      party === "doctor" ? "O hospital será avisado para aprovar." : "O médico será avisado para aprovar.",
+    )
+    if (sent) setShowDialog(false)
+  }
+
+  const previewTiming =
+    date && startTime && endTime ? buildShiftTiming(date, startTime, endTime, contract.timeZone) : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Alterações do contrato
+        </CardTitle>
+        <CardDescription>
+          Versão atual: {contract.version}. Mudanças de horário, local ou valor só valem depois que a outra parte
+          aprova.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ol className="relative space-y-4 border-l pl-6">
+          <li>
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+            <p className="text-sm font-medium">Versão 1 · Contrato criado</p>
+            {contract.createdAt && (
+              <p className="text-xs text-muted-foreground">{contract.createdAt.toLocaleString("pt-BR")}</p>
+            )}
+          </li>
+          {contract.amendments.map((amendment, index) => (
+            <li key={index} className="space-y-1">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                  amendment.status === "approved" ? "bg-primary" : "bg-muted-foreground/40"
+                }`}
+              />
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">
+                  {amendment.version ? `Versão ${amendment.version} · ` : ""}
+                  {partyLabels[amendment.by]}
+                  {amendment.authorName && ` (${amendment.authorName})`} propôs alteração
+                </p>
+                <Badge variant="outline">{amendmentStatusLabels[amendment.status]}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {amendment.createdAt.toLocaleString("pt-BR")}
+                {amendment.respondedAt &&
+                  ` · ${amendmentStatusLabels[amendment.status].toLowerCase()} em ` +
+                    amendment.respondedAt.toLocaleString("pt-BR")}
+              </p>
+              <ul className="list-disc pl-5 text-sm">
+                {amendment.changes.map((change) => (
+                  <li key={change.field}>
+                    {fieldLabels[change.field]}: {formatChangeValue(change.field, change.from)} →{" "}
+                    <span className="font-medium">{formatChangeValue(change.field, change.to)}</span>
+                  </li>
+                ))}
+              </ul>
+              {amendment.message && <p className="text-sm text-muted-foreground">{amendment.message}</p>}
+            </li>
+          ))}
+        </ol>
+
+        {amendable && openAmendment && openAmendment.by !== party && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={() =>
+                run(() => approveAmendment(contract.id!), "Alteração aprovada", "O contrato foi atualizado.")
+              }
+              disabled={isLoading}
+            >
+              Aprovar alteração
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() =>
+                run(() => rejectAmendment(contract.id!), "Alteração recusada", "O contrato mantém os termos atuais.")
+              }
+              disabled={isLoading}
+            >
+              Recusar
+            </Button>
+          </div>
+        )}
+        {amendable && openAmendment && openAmendment.by === party && (
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm text-muted-foreground">
+              Aguardando resposta do {party === "doctor" ? "hospital" : "médico"}.
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                run(() => withdrawAmendment(contract.id!), "Alteração retirada", "O contrato mantém os termos atuais.")
+              }
+              disabled={isLoading}
+            >
+              Retirar proposta
+            </Button>
+          </div>
+        )}
+        {amendable && !openAmendment && (
+          <Button variant="outline" onClick={openProposeDialog} disabled={isLoading}>
+            Propor alteração
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Propor alteração</DialogTitle>
+            <DialogDescription>Horários no fuso do plantão ({contract.timeZone})</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="amendment-date">Data</Label>
+                <Input
+                  id="amendment-date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  disabled={!!contract.checkInTime}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="amendment-start">Início</Label>
+                <Input
+                  id="amendment-start"
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  disabled={!!contract.checkInTime}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="amendment-end">Término</Label>
+                <Input
+                  id="amendment-end"
+                  type="time"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                />
+              </div>
+            </div>
+            {previewTiming && (
+              <p className="text-xs text-muted-foreground">
+                Duração: {formatDuration(getShiftHours(previewTiming))} (atual:{" "}
+                {formatDuration(getShiftHours(contract))})
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="amendment-location">Local / setor</Label>
+              <Input id="amendment-location" value={location} onChange={(e) => setLocation(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="amendment-value">Valor (R$)</Label>
+              <Input
+                id="amendment-value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="amendment-message">Motivo</Label>
+              <Textarea
+                id="amendment-message"
+                placeholder="Explique por que o contrato precisa mudar"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)} disabled={isLoading}>
+              Cancelar
+            </Button>
+            <Button onClick={handlePropose} disabled={isLoading}>
+              {isLoading ? "Enviando..." : "Enviar para aprovação"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,154 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { CancellationError, cancelContract, previewCancellation, type Contract } from "@/lib/contract-service"
+import { describeCancellationPolicy, type CancellationAssessment } from "@/lib/cancellation-policy"
+
+const cancellationErrorMessage = (error: unknown): string => {
+  if (!(error instanceof CancellationError)) return "Ocorreu um erro ao cancelar o contrato."
+
+  switch (error.reason) {
+    case "reason_required":
+      return "Informe o motivo do cancelamento."
+    case "not_cancelable":
+      return "Este contrato não pode mais ser cancelado."
+  }
+}
+
+interface CancelContractDialogProps {
+  contract: Contract
+  party: "doctor" | "hospital"
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCanceled: () => void | Promise<void>
+}
+
+// Cancelamento com motivo obrigatório; mostra a multa (médico) ou compensação (hospital) antes de confirmar
+export function CancelContractDialog({ contract, party, open, onOpenChange, onCanceled }: CancelContractDialogProps) {
+  const { toast } = useToast()
+  const [reason, setReason] = useState("")
+  const [assessment, setAssessment] = useState<CancellationAssessment | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setReason("")
+    previewCancellation(contract)
+      .then(setAssessment)
+      .catch(() => setAssessment(null))
+  }, [open, contract])
+
+  const handleConfirm = async () => {
+    setIsLoading(true)
+    try {
+      const cancellation = await cancelContract(contract.id!, reason)
+      toast({
+        title: "Contrato cancelado",
+        description:
+          cancellation.amount > 0
+            ? party === "doctor"
+              ? `Multa de R$ ${cancellation.amount.toFixed(2)} registrada no seu extrato.`
+              : `Compensação de R$ ${cancellation.amount.toFixed(2)} devida ao médico.`
+            : "O contrato foi cancelado sem multa.",
+      })
+      onOpenChange(false)
+      await onCanceled()
+    } catch (error) {
+      toast({
+        title: "Erro ao cancelar contrato",
+        description: cancellationErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancelar contrato</DialogTitle>
+          <DialogDescription>
+            {party === "doctor"
+              ? "O hospital será avisado e o horário volta a ficar livre na sua agenda."
+              : "O médico será avisado e o plantão deixa de constar na agenda dele."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          {assessment && (
+            <div className="rounded-md border p-3 text-sm">
+              {assessment.amount > 0 ? (
+                <p className="font-medium text-red-700">
+                  {party === "doctor" ? "Multa" : "Compensação ao médico"}: R$ {assessment.amount.toFixed(2)} (
+                  {assessment.penaltyPercent}% do valor)
+                </p>
+              ) : (
+                <p className="font-medium text-green-700">Cancelamento sem multa neste momento.</p>
+              )}
+              {contract.cancellationPolicy && (
+                <ul className="mt-2 list-disc pl-5 text-muted-foreground">
+                  {describeCancellationPolicy(contract.cancellationPolicy).map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="cancellation-reason">Motivo do cancelamento</Label>
+            <Textarea
+              id="cancellation-reason"
+              placeholder="Explique por que o plantão está sendo cancelado"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Voltar
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={isLoading || !reason.trim()}>
+            {isLoading ? "Cancelando..." : "Cancelar contrato"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Detalhes de um contrato já cancelado
+export function CancellationSummary({ contract }: { contract: Contract }) {
+  const cancellation = contract.cancellation
+  if (!cancellation) return null
+
+  return (
+    <div className="space-y-1 rounded-md bg-red-50 p-3 text-sm text-red-800">
+      <p className="font-medium">
+        Cancelado pelo {cancellation.initiatedBy === "doctor" ? "médico" : "hospital"} em{" "}
+        {cancellation.canceledAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+        {cancellation.noticeHours > 0 && `, com ${Math.floor(cancellation.noticeHours)}h de antecedência`}
+      </p>
+      <p>Motivo: {cancellation.reason}</p>
+      {cancellation.amount > 0 && (
+        <p>
+          {cancellation.initiatedBy === "doctor" ? "Multa ao médico" : "Compensação ao médico"}: R${" "}
+          {cancellation.amount.toFixed(2)} ({cancellation.penaltyPercent}% do valor)
+        </p>
+      )}
+    </div>
+  )
+}
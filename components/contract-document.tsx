@@ -0,0 +1,169 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { Download, FileSignature } from "lucide-react"
+import type { Contract } from "@/lib/contract-service"
+import {
+  getContractClauses,
+  renderSignedContract,
+  type ContractTerms,
+  type SignatureParty,
+} from "@/lib/contract-document"
+import { SignatureError, signContract } from "@/lib/signature-service"
+
+const signatureErrorMessage = (error: unknown): string => {
+  if (!(error instanceof SignatureError)) return "Ocorreu um erro ao assinar o contrato."
+
+  switch (error.reason) {
+    case "not_found":
+      return "Contrato não encontrado."
+    case "unsigned":
+      return "Este contrato é anterior à assinatura eletrônica."
+    case "already_signed":
+      return "Você já assinou este contrato."
+    case "canceled":
+      return "Contratos cancelados não podem ser assinados."
+    case "document_changed":
+      return "Os termos gravados não correspondem ao documento exibido. Contate o suporte."
+  }
+}
+
+// Texto do contrato na tela, com as mesmas cláusulas do PDF
+export function ContractDocumentView({ terms }: { terms: ContractTerms }) {
+  return (
+    <div className="space-y-3 text-sm">
+      {getContractClauses(terms).map((block, index) => {
+        switch (block.kind) {
+          case "title":
+            return (
+              <h3 key={index} className="font-bold text-lg">
+                {block.text}
+              </h3>
+            )
+          case "heading":
+            return (
+              <h4 key={index} className="font-bold pt-3">
+                {block.text}
+              </h4>
+            )
+          case "bullet":
+            return (
+              <p key={index} className="pl-4 before:content-['•'] before:mr-2">
+                {block.text}
+              </p>
+            )
+          default:
+            return <p key={index}>{block.text}</p>
+        }
+      })}
+    </div>
+  )
+}
+
+const partyLabels: Record<SignatureParty, string> = {
+  doctor: "Médico",
+  hospital: "Hospital",
+}
+
+const downloadSignedContract = (contract: Contract) => {
+  const bytes = renderSignedContract(contract.terms!, contract.signatures, contract.documentHash!)
+  const url = URL.createObjectURL(new Blob([bytes], { type: "application/pdf" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `contrato-${contract.id}.pdf`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Situação das assinaturas, cópia assinada para download e o botão de assinar, se a parte ainda não assinou
+export function ContractSignaturesCard({
+  contract,
+  party,
+  onSigned,
+}: {
+  contract: Contract
+  party: SignatureParty
+  onSigned?: () => void | Promise<void>
+}) {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+
+  if (!contract.terms || !contract.documentHash) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Contrato assinado</CardTitle>
+          <CardDescription>
+            Este contrato foi aceito antes da assinatura eletrônica e não tem documento gerado.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  const canSign = !contract.signatures[party] && contract.status === "upcoming"
+
+  const handleSign = async () => {
+    setIsLoading(true)
+    try {
+      await signContract(contract.id!, contract.documentHash!)
+      toast({ title: "Contrato assinado", description: "Sua assinatura foi registrada." })
+      await onSigned?.()
+    } catch (error) {
+      toast({
+        title: "Erro ao assinar contrato",
+        description: signatureErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Contrato assinado</CardTitle>
+        <CardDescription>
+          A cópia para download inclui uma página com as evidências de cada assinatura
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {(["doctor", "hospital"] as SignatureParty[]).map((signatureParty) => {
+          const signature = contract.signatures[signatureParty]
+          return (
+            <div key={signatureParty} className="flex items-start gap-2">
+              <FileSignature className="h-4 w-4 mt-0.5 text-muted-foreground" />
+              {signature ? (
+                <p>
+                  <span className="font-medium">{partyLabels[signatureParty]}:</span> {signature.signerName}, em{" "}
+                  {signature.signedAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                  {signature.ipAddress && ` (IP ${signature.ipAddress})`}
+                </p>
+              ) : (
+                <p className="text-muted-foreground">
+                  <span className="font-medium">{partyLabels[signatureParty]}:</span> assinatura pendente
+                </p>
+              )}
+            </div>
+          )
+        })}
+        <p className="break-all text-xs text-muted-foreground">SHA-256: {contract.documentHash}</p>
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Button variant="outline" onClick={() => downloadSignedContract(contract)}>
+          <Download className="mr-2 h-4 w-4" />
+          Baixar contrato assinado
+        </Button>
+        {canSign && (
+          <Button onClick={handleSign} disabled={isLoading}>
+            {isLoading ? "Assinando..." : `Assinar como ${partyLabels[party].toLowerCase()}`}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { useTaxSettings } from "@/hooks/use-tax-settings"
+import { Wallet } from "lucide-react"
+import type { Contract } from "@/lib/contract-service"
+import { contractToLedgerEntry, ledgerStatusLabels, type LedgerStatus } from "@/lib/ledger"
+import { LedgerError, recordLedgerPayment } from "@/lib/ledger-service"
+import { describePaymentTerms, resolvePaymentTerms } from "@/lib/payment-terms"
+import { NetValue } from "@/components/net-value"
+
+export const ledgerStatusClassNames: Record<LedgerStatus, string> = {
+  due: "bg-blue-50 text-blue-700 border-blue-200",
+  overdue: "bg-red-50 text-red-700 border-red-200",
+  paid: "bg-green-50 text-green-700 border-green-200",
+}
+
+export const paymentErrorMessage = (error: unknown): string => {
+  if (!(error instanceof LedgerError)) return "Ocorreu um erro ao registrar o pagamento."
+  return error.reason === "already_paid" ? "O pagamento já foi registrado." : "Lançamento não encontrado."
+}
+
+// Pagamento de um plantão concluído: valor faturável, vencimento pelo prazo do hospital e o registro do pagamento
+export function ContractPayment({
+  contract,
+  party,
+  onChange,
+}: {
+  contract: Contract
+  party: "doctor" | "hospital"
+  onChange: () => Promise<void>
+}) {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  // Só o médico vê a estimativa, pelo regime dele
+  const tax = useTaxSettings(party === "doctor")
+
+  if (contract.status !== "completed") return null
+
+  const entry = contractToLedgerEntry(contract)
+
+  const handleRecord = async () => {
+    setIsLoading(true)
+    try {
+      await recordLedgerPayment(entry)
+      await onChange()
+      toast({
+        title: party === "hospital" ? "Pagamento registrado" : "Recebimento confirmado",
+        description: "O lançamento aparece como pago no extrato do médico.",
+      })
+    } catch (error) {
+      toast({ title: "Erro ao registrar pagamento", description: paymentErrorMessage(error), variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Pagamento
+            </CardTitle>
+            <CardDescription>
+              Prazo de {describePaymentTerms(resolvePaymentTerms(contract.paymentTerms))} após a aprovação das horas
+            </CardDescription>
+          </div>
+          <Badge variant="outline" className={ledgerStatusClassNames[entry.status]}>
+            {ledgerStatusLabels[entry.status]}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span>Valor faturável:</span>
+          <span className="font-medium">R$ {entry.amount.toFixed(2)}</span>
+        </div>
+        {party === "doctor" && (
+          <div className="rounded-md border p-3">
+            <NetValue
+              gross={entry.amount}
+              date={entry.shiftDate}
+              settings={tax.settings}
+              configured={tax.configured}
+              detailed
+            />
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span>Vencimento:</span>
+          <span>{entry.dueAt.toLocaleDateString("pt-BR")}</span>
+        </div>
+        {entry.payment && (
+          <div className="flex justify-between">
+            <span>{entry.payment.recordedBy === "hospital" ? "Pago em" : "Recebimento confirmado em"}:</span>
+            <span>{entry.payment.paidAt.toLocaleDateString("pt-BR")}</span>
+          </div>
+        )}
+      </CardContent>
+      {!entry.payment && (
+        <CardFooter>
+          <Button onClick={handleRecord} disabled={isLoading}>
+            {isLoading ? "Registrando..." : party === "hospital" ? "Registrar pagamento" : "Confirmar recebimento"}
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { useTaxSettings } from "@/hooks/use-tax-settings"
+import { Download, Receipt } from "lucide-react"
+import type { Contract } from "@/lib/contract-service"
+import { formatRpaNumber, renderRpa, type RpaReceipt } from "@/lib/rpa-document"
+import { RpaError, issueRpa } from "@/lib/rpa-service"
+
+const rpaErrorMessage = (error: unknown): string => {
+  if (!(error instanceof RpaError)) return "Ocorreu um erro ao emitir o RPA."
+
+  switch (error.reason) {
+    case "not_found":
+      return "Contrato não encontrado."
+    case "not_completed":
+      return "O RPA só pode ser emitido para plantões concluídos."
+    case "not_person":
+      return "O médico recebe como pessoa jurídica; o pagamento é feito contra nota fiscal."
+    case "already_issued":
+      return "O RPA deste plantão já foi emitido."
+  }
+}
+
+const downloadRpa = (rpa: RpaReceipt) => {
+  const url = URL.createObjectURL(new Blob([renderRpa(rpa)], { type: "application/pdf" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `rpa-${formatRpaNumber(rpa.number)}.pdf`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Recibo de pagamento a autônomo de um plantão concluído: o hospital emite, e as duas partes baixam
+export function ContractRpa({
+  contract,
+  party,
+  onChange,
+}: {
+  contract: Contract
+  party: "doctor" | "hospital"
+  onChange: () => Promise<void>
+}) {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  // Médicos PJ recebem contra nota fiscal e não têm RPA
+  const tax = useTaxSettings(party === "doctor")
+
+  if (contract.status !== "completed") return null
+  if (!contract.rpa && party === "doctor" && tax.settings.regime !== "pf") return null
+
+  const handleIssue = async () => {
+    setIsLoading(true)
+    try {
+      await issueRpa(contract.id!)
+      await onChange()
+      toast({ title: "RPA emitido", description: "O recibo fica disponível para o médico baixar." })
+    } catch (error) {
+      toast({ title: "Erro ao emitir RPA", description: rpaErrorMessage(error), variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const { rpa } = contract
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          RPA
+        </CardTitle>
+        <CardDescription>Recibo de pagamento a autônomo, para médicos que recebem como pessoa física</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {rpa ? (
+          <>
+            <div className="flex justify-between">
+              <span>Número:</span>
+              <span className="font-medium">{formatRpaNumber(rpa.number)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Emitido em:</span>
+              <span>{rpa.issuedAt.toLocaleDateString("pt-BR")}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Bruto / líquido:</span>
+              <span>
+                R$ {rpa.withholdings.gross.toFixed(2)} / R$ {rpa.withholdings.net.toFixed(2)}
+              </span>
+            </div>
+          </>
+        ) : (
+          <p className="text-muted-foreground">
+            {party === "hospital"
+              ? "Emita o RPA com as retenções de INSS, IRRF e ISS sobre o valor faturável."
+              : "O hospital ainda não emitiu o RPA deste plantão."}
+          </p>
+        )}
+      </CardContent>
+      {(rpa || party === "hospital") && (
+        <CardFooter>
+          {rpa ? (
+            <Button variant="outline" onClick={() => downloadRpa(rpa)}>
+              <Download className="mr-2 h-4 w-4" />
+              Baixar RPA
+            </Button>
+          ) : (
+            <Button onClick={handleIssue} disabled={isLoading}>
+              {isLoading ? "Emitindo..." : "Emitir RPA"}
+            </Button>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,239 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeftRight } from "lucide-react"
+import { AcceptanceError, WorkLimitError, type Contract } from "@/lib/contract-service"
+import { rankDoctorsForProposal, type DoctorMatch } from "@/lib/matching-service"
+import { cancelSwap, getSwap, offerSwap, SwapError, type ShiftSwap, type SwapStatus } from "@/lib/swap-service"
+import { describeWorkLimitIssue } from "@/lib/work-limits"
+
+const POOL = "pool"
+
+export const swapStatusLabels: Record<SwapStatus, string> = {
+  open: "Aguardando colega",
+  pending_approval: "Aguardando hospital",
+  completed: "Concluída",
+  declined: "Recusada pelo colega",
+  rejected: "Recusada pelo hospital",
+  canceled: "Cancelada",
+}
+
+export const swapErrorMessage = (error: unknown): string => {
+  if (error instanceof AcceptanceError && error.conflict) {
+    const start = error.conflict.startAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })
+    const end = error.conflict.endAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })
+    return `Já existe um plantão em ${error.conflict.hospital} de ${start} a ${end}, no mesmo horário.`
+  }
+  if (error instanceof WorkLimitError) {
+    return `O hospital não permite esta troca. ${error.issues.map(describeWorkLimitIssue).join(" ")}`
+  }
+  if (!(error instanceof SwapError)) return "Ocorreu um erro inesperado. Tente novamente."
+
+  switch (error.reason) {
+    case "not_found":
+      return "Esta troca não existe mais."
+    case "not_available":
+      return "Esta troca não está mais disponível."
+    case "already_offered":
+      return "Este plantão já tem uma oferta de troca em aberto."
+    case "started":
+      return "O plantão já começou e não pode mais ser trocado."
+    case "not_eligible":
+      return "Este plantão é de uma especialidade que não consta no seu perfil."
+  }
+}
+
+interface ContractSwapProps {
+  contract: Contract
+  onChange: () => Promise<void>
+}
+
+// Oferta do plantão a um colega e histórico de quem já o assumiu
+export function ContractSwap({ contract, onChange }: ContractSwapProps) {
+  const { toast } = useToast()
+  const [swap, setSwap] = useState<ShiftSwap | null>(null)
+  const [colleagues, setColleagues] = useState<DoctorMatch[]>([])
+  const [showOfferDialog, setShowOfferDialog] = useState(false)
+  const [target, setTarget] = useState(POOL)
+  const [message, setMessage] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!contract.activeSwapId) {
+      setSwap(null)
+      return
+    }
+    getSwap(contract.activeSwapId)
+      .then(setSwap)
+      .catch((error) => console.error("Error fetching swap:", error))
+  }, [contract.activeSwapId])
+
+  const canOffer = contract.status === "upcoming" && !contract.checkInTime && contract.startAt > new Date()
+
+  const openOfferDialog = async () => {
+    setTarget(POOL)
+    setMessage("")
+    setShowOfferDialog(true)
+    // Colegas com a especialidade e disponibilidade cadastrada para o horário do plantão
+    const matches = await rankDoctorsForProposal(contract.proposalId).catch(() => [] as DoctorMatch[])
+    setColleagues(matches.filter((match) => match.doctorId !== contract.doctorId))
+  }
+
+  const run = async (action: () => Promise<unknown>, title: string, description: string) => {
+    setIsLoading(true)
+    try {
+      await action()
+      await onChange()
+      toast({ title, description })
+      return true
+    } catch (error) {
+      console.error("Error updating shift swap:", error)
+      toast({ title: "Erro na troca de plantão", description: swapErrorMessage(error), variant: "destructive" })
+      return false
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOffer = async () => {
+    const colleague = colleagues.find((match) => match.doctorId === target)
+    const sent = await run(
+      () =>
+        offerSwap(contract.id!, {
+          toDoctorId: colleague?.doctorId || null,
+          toDoctorName: colleague?.name,
+          message,
+        }),
+      "Plantão oferecido",
+      colleague
+        ? `${colleague.name} será avisado da oferta.`
+        : "Os médicos da especialidade poderão assumir o plantão.",
+    )
+    if (sent) setShowOfferDialog(false)
+  }
+
+  const handleCancel = () => run(() => cancelSwap(swap!.id), "Oferta cancelada", "O plantão continua com você.")
+
+  const previousHolders = contract.holders.slice(0, -1)
+
+  if (!canOffer && !swap && previousHolders.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Troca de plantão
+        </CardTitle>
+        <CardDescription>Não poderá comparecer? Passe o plantão a um colega em vez de cancelar.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {swap && (swap.status === "open" || swap.status === "pending_approval") ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                Oferecido a{" "}
+                <span className="font-medium">
+                  {swap.toDoctorId ? swap.toDoctorName || "um colega" : "todos os médicos elegíveis"}
+                </span>
+              </span>
+              <Badge variant="outline">{swapStatusLabels[swap.status]}</Badge>
+            </div>
+            {swap.status === "pending_approval" && (
+              <p className="text-sm text-muted-foreground">
+                {swap.claimedByName || "Um colega"} aceitou o plantão. Aguardando aprovação do hospital.
+              </p>
+            )}
+            <Button variant="outline" onClick={handleCancel} disabled={isLoading}>
+              Cancelar oferta
+            </Button>
+          </div>
+        ) : (
+          canOffer && (
+            <Button onClick={openOfferDialog} disabled={isLoading}>
+              Passar plantão
+            </Button>
+          )
+        )}
+
+        {previousHolders.length > 0 && (
+          <div>
+            <h3 className="font-medium mb-2 text-sm">Histórico de responsáveis</h3>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              {contract.holders.map((holder, index) => (
+                <li key={`${holder.doctorId}-${index}`}>
+                  {holder.doctorName || "Médico"} · desde {holder.since.toLocaleString("pt-BR")}
+                  {holder.via === "swap" ? " (troca)" : " (aceite da proposta)"}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showOfferDialog} onOpenChange={setShowOfferDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Passar plantão</DialogTitle>
+            <DialogDescription>
+              O plantão continua com você até que um colega aceite e, se o hospital exigir, aprove a troca.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="swap-target">Oferecer a</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger id="swap-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={POOL}>Qualquer médico da especialidade</SelectItem>
+                  {colleagues.map((match) => (
+                    <SelectItem key={match.doctorId} value={match.doctorId}>
+                      {match.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                A lista mostra colegas disponíveis no horário do plantão.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swap-message">Mensagem</Label>
+              <Textarea
+                id="swap-message"
+                placeholder="Explique o motivo da troca"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowOfferDialog(false)} disabled={isLoading}>
+              Cancelar
+            </Button>
+            <Button onClick={handleOffer} disabled={isLoading}>
+              {isLoading ? "Enviando..." : "Oferecer plantão"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,99 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Star } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { rankDoctorsForProposal, type DoctorMatch } from "@/lib/matching-service"
+
+interface DoctorMatchesProps {
+  proposalId: string
+  assignedDoctorId?: string | null
+  onAssign?: (doctorId: string) => void
+  isAssigning?: boolean
+}
+
+// Lista os médicos cuja disponibilidade cobre o plantão, do mais ao menos indicado
+export function DoctorMatches({ proposalId, assignedDoctorId, onAssign, isAssigning }: DoctorMatchesProps) {
+  const { toast } = useToast()
+  const [matches, setMatches] = useState<DoctorMatch[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchMatches = async () => {
+      try {
+        setMatches(await rankDoctorsForProposal(proposalId))
+      } catch (error) {
+        console.error("Error fetching doctor matches:", error)
+        toast({
+          title: "Erro ao buscar médicos",
+          description: "Não foi possível carregar os médicos compatíveis.",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchMatches()
+  }, [proposalId, toast])
+
+  return (
+    <Card className="max-w-3xl">
+      <CardHeader>
+        <CardTitle>Médicos recomendados</CardTitle>
+        <CardDescription>
+          Disponíveis durante todo o plantão e com a especialidade exigida, ordenados por valor/hora, histórico com o
+          hospital e distância
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : matches.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">Nenhum médico disponível para este plantão.</p>
+        ) : (
+          <div className="space-y-4">
+            {matches.map((match, index) => (
+              <div
+                key={match.doctorId}
+                className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 ${index < matches.length - 1 ? "border-b pb-4" : ""}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{match.name}</p>
+                    <Badge variant="outline" className="gap-1">
+                      <Star className="h-3 w-3" />
+                      {Math.round(match.score.total * 100)}%
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Disponível {match.slot.startTime} - {match.slot.endTime}
+                    {match.hourlyRate ? ` · pede R$ ${match.hourlyRate.toFixed(2)}/hora` : ""}
+                    {` · ${match.score.completedWithHospital} plantão(ões) concluído(s) aqui`}
+                    {match.reliability && match.reliability.completionRate !== null &&
+                      ` · ${Math.round(match.reliability.completionRate * 100)}% dos plantões cumpridos`}
+                    {match.score.distanceMeters !== undefined &&
+                      ` · ${(match.score.distanceMeters / 1000).toFixed(1)} km`}
+                  </p>
+                </div>
+                {onAssign &&
+                  (assignedDoctorId === match.doctorId ? (
+                    <Badge className="bg-green-100 text-green-800">Proposta enviada</Badge>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => onAssign(match.doctorId)} disabled={isAssigning}>
+                      Enviar proposta
+                    </Button>
+                  ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,191 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { CalendarX, Link2, RefreshCw, Trash2, Upload } from "lucide-react"
+import {
+  deleteExternalCalendar,
+  importCalendarFile,
+  linkCalendarUrl,
+  syncExternalCalendar,
+  type ExternalCalendar,
+} from "@/lib/external-calendar-service"
+
+interface ExternalCalendarsProps {
+  calendars: ExternalCalendar[]
+  onChange: () => Promise<void>
+}
+
+// Importação de compromissos de outras agendas (.ics), usados como horários ocupados
+export function ExternalCalendars({ calendars, onChange }: ExternalCalendarsProps) {
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [name, setName] = useState("")
+  const [url, setUrl] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    setIsLoading(true)
+    try {
+      await action()
+      await onChange()
+      toast({ title: success })
+    } catch (error) {
+      console.error("Error updating external calendars:", error)
+      toast({ title: failure, description: "Confira o arquivo ou o link e tente novamente.", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const text = await file.text()
+    await run(
+      () => importCalendarFile(name.trim() || file.name.replace(/\.ics$/i, ""), text),
+      "Agenda importada",
+      "Erro ao importar agenda",
+    )
+    setName("")
+  }
+
+  const handleLink = async () => {
+    if (!url.trim()) return
+
+    await run(
+      () => linkCalendarUrl(name.trim() || "Agenda externa", url.trim()),
+      "Agenda vinculada",
+      "Erro ao vincular agenda",
+    )
+    setName("")
+    setUrl("")
+  }
+
+  const handleReplaceFile = async (calendar: ExternalCalendar, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const text = await file.text()
+    await run(() => syncExternalCalendar(calendar.id!, text), "Agenda atualizada", "Erro ao atualizar agenda")
+  }
+
+  return (
+    <Card className="border-blue-100">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-gray-900 text-lg sm:text-xl">
+          <CalendarX className="h-5 w-5" />
+          Outros compromissos
+        </CardTitle>
+        <CardDescription className="text-gray-600 text-sm">
+          Importe a agenda de outros hospitais ou do consultório (.ics). Esses horários ficam bloqueados para novas
+          disponibilidades e geram aviso ao aceitar plantões.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="external-calendar-name">Nome</Label>
+            <Input
+              id="external-calendar-name"
+              placeholder="Ex.: Consultório"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="external-calendar-url">Link da agenda (opcional)</Label>
+            <Input
+              id="external-calendar-url"
+              placeholder="https://... ou webcal://..."
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFile} />
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+          >
+            <Upload className="h-4 w-4" />
+            Enviar arquivo .ics
+          </Button>
+          <Button variant="outline" className="gap-2" onClick={handleLink} disabled={isLoading || !url.trim()}>
+            <Link2 className="h-4 w-4" />
+            Vincular link
+          </Button>
+        </div>
+
+        {calendars.length > 0 && (
+          <div className="space-y-3">
+            {calendars.map((calendar) => (
+              <div
+                key={calendar.id}
+                className="flex items-center justify-between border-b border-blue-100 pb-3 last:border-0 last:pb-0"
+              >
+                <div>
+                  <p className="font-medium text-gray-900 text-sm sm:text-base">{calendar.name}</p>
+                  <p className="text-xs sm:text-sm text-gray-600">
+                    {calendar.busyBlocks.length} compromisso(s)
+                    {calendar.lastSyncedAt && ` · atualizada em ${calendar.lastSyncedAt.toLocaleString("pt-BR")}`}
+                  </p>
+                </div>
+                <div className="flex">
+                  {calendar.url ? (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Sincronizar"
+                      onClick={() =>
+                        run(() => syncExternalCalendar(calendar.id!), "Agenda atualizada", "Erro ao atualizar agenda")
+                      }
+                      disabled={isLoading}
+                      className="text-gray-600 hover:text-blue-600"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button variant="ghost" size="icon" title="Enviar nova versão" asChild disabled={isLoading}>
+                      <label className="cursor-pointer text-gray-600 hover:text-blue-600">
+                        <Upload className="h-4 w-4" />
+                        <input
+                          type="file"
+                          accept=".ics,text/calendar"
+                          className="hidden"
+                          onChange={(event) => handleReplaceFile(calendar, event)}
+                        />
+                      </label>
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Remover agenda"
+                    onClick={() =>
+                      run(() => deleteExternalCalendar(calendar.id!), "Agenda removida", "Erro ao remover agenda")
+                    }
+                    disabled={isLoading}
+                    className="text-gray-600 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
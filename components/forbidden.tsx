@@ -0,0 +1,38 @@
+"use client"
+
+import Link from "next/link"
+import { ShieldAlert } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+
+interface ForbiddenProps {
+  title?: string
+  description?: string
+  homeHref: string
+}
+
+// Tela exibida quando o usuário tenta acessar uma área que não pertence ao seu perfil
+export function Forbidden({
+  title = "Acesso negado",
+  description = "Você não tem permissão para acessar esta página.",
+  homeHref,
+}: ForbiddenProps) {
+  return (
+    <div className="flex min-h-[60vh] items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardContent className="flex flex-col items-center text-center py-10 space-y-4">
+          <div className="bg-red-50 p-4 rounded-full">
+            <ShieldAlert className="h-10 w-10 text-red-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+            <p className="text-sm text-muted-foreground mt-2">{description}</p>
+          </div>
+          <Link href={homeHref}>
+            <Button>Ir para minha área</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
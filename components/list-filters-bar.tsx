@@ -0,0 +1,156 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { medicalSpecialties } from "@/lib/availability-service"
+import { parseListFilters, toListSearchParams, type ListFilters } from "@/lib/list-query"
+
+const ALL = "all"
+
+const fieldNames = ["specialty", "hospital", "location", "from", "to", "minValue", "maxValue", "sort"] as const
+
+type Draft = Record<(typeof fieldNames)[number], string>
+
+const toDraft = (filters: ListFilters): Draft => {
+  const params = toListSearchParams(filters)
+  return Object.fromEntries(fieldNames.map((name) => [name, params.get(name) || ""])) as Draft
+}
+
+interface ListFiltersBarProps {
+  // Filtros aplicados (vindos da URL); o formulário só os altera ao enviar
+  filters: ListFilters
+  onApply: (filters: ListFilters) => void
+}
+
+// Filtros e ordenação compartilhados pelas listagens de propostas e contratos
+export function ListFiltersBar({ filters, onApply }: ListFiltersBarProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(filters))
+
+  const set = (name: keyof Draft) => (value: string) => setDraft((current) => ({ ...current, [name]: value }))
+  // Combinações sem índice no Firestore ficam bloqueadas (ver resolveListFilters)
+  const keyFilter = (["specialty", "hospital", "location"] as const).find((name) => draft[name])
+  const keyLocked = (name: keyof Draft) => !!keyFilter && keyFilter !== name
+  const valueLocked = draft.sort !== "value"
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onApply(parseListFilters(new URLSearchParams(Object.entries(draft).filter(([, value]) => value))))
+  }
+
+  const handleClear = () => {
+    setDraft(toDraft({}))
+    onApply({})
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="filter-specialty">Especialidade</Label>
+              <Select
+                value={draft.specialty || ALL}
+                onValueChange={(value) => set("specialty")(value === ALL ? "" : value)}
+                disabled={keyLocked("specialty")}
+              >
+                <SelectTrigger id="filter-specialty">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas</SelectItem>
+                  {medicalSpecialties.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {item}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-hospital">Hospital</Label>
+              <Input
+                id="filter-hospital"
+                placeholder="Nome completo do hospital"
+                value={draft.hospital}
+                onChange={(e) => set("hospital")(e.target.value)}
+                disabled={keyLocked("hospital")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-location">Local</Label>
+              <Input
+                id="filter-location"
+                placeholder="Cidade, bairro ou rua"
+                value={draft.location}
+                onChange={(e) => set("location")(e.target.value)}
+                disabled={keyLocked("location")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-sort">Ordenar por</Label>
+              <Select
+                value={draft.sort || "date"}
+                onValueChange={(value) => set("sort")(value === "date" ? "" : value)}
+              >
+                <SelectTrigger id="filter-sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="date">Data do plantão</SelectItem>
+                  <SelectItem value="value">Maior valor</SelectItem>
+                  <SelectItem value="hourly_rate">Maior valor/hora</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-from">De</Label>
+              <Input id="filter-from" type="date" value={draft.from} onChange={(e) => set("from")(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-to">Até</Label>
+              <Input id="filter-to" type="date" value={draft.to} onChange={(e) => set("to")(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-min-value">Valor mínimo (R$)</Label>
+              <Input
+                id="filter-min-value"
+                type="number"
+                min="0"
+                value={draft.minValue}
+                onChange={(e) => set("minValue")(e.target.value)}
+                disabled={valueLocked}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-max-value">Valor máximo (R$)</Label>
+              <Input
+                id="filter-max-value"
+                type="number"
+                min="0"
+                value={draft.maxValue}
+                onChange={(e) => set("maxValue")(e.target.value)}
+                disabled={valueLocked}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Filtre por especialidade, hospital ou local, um de cada vez. A faixa de valor vale com a ordenação por
+            maior valor.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={handleClear}>
+              Limpar
+            </Button>
+            <Button type="submit">Filtrar</Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import Link from "next/link"
+import { estimateTaxes, taxRegimeLabels, type TaxSettings } from "@/lib/tax-calculator"
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2)}`
+
+// Valor líquido estimado de um plantão pelo regime do médico; `detailed` lista cada retenção
+export function NetValue({
+  gross,
+  date,
+  settings,
+  configured = false,
+  detailed = false,
+}: {
+  gross: number
+  date: Date
+  settings: TaxSettings
+  // Se o regime foi informado pelo médico; sem ele a estimativa detalhada pede para completar o perfil
+  configured?: boolean
+  detailed?: boolean
+}) {
+  const estimate = estimateTaxes(gross, settings, date)
+
+  if (!detailed) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Líquido estimado: <span className="font-medium text-foreground">{formatMoney(estimate.net)}</span>
+      </p>
+    )
+  }
+
+  const rows = [
+    { label: "Valor bruto", value: estimate.gross },
+    ...(settings.regime === "pf" ? [{ label: "INSS", value: -estimate.inss }] : []),
+    ...(settings.regime !== "pj_simples" ? [{ label: "IRRF", value: -estimate.irrf }] : []),
+    { label: `ISS (${estimate.issRate}%)`, value: -estimate.iss },
+  ]
+
+  return (
+    <div className="space-y-1 text-sm">
+      {rows.map((row) => (
+        <div key={row.label} className="flex justify-between">
+          <span className="text-muted-foreground">{row.label}</span>
+          <span>{formatMoney(row.value)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between font-medium">
+        <span>Líquido estimado</span>
+        <span>{formatMoney(estimate.net)}</span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {taxRegimeLabels[settings.regime]}, tabela {estimate.tableVersion}.{" "}
+        {configured ? (
+          "Estimativa; os valores retidos constam do RPA ou da nota fiscal."
+        ) : (
+          <>
+            Informe seu regime em{" "}
+            <Link href="/dashboard/profile" className="underline">
+              Perfil
+            </Link>{" "}
+            para uma estimativa mais precisa.
+          </>
+        )}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { medicalSpecialties } from "@/lib/availability-service"
+import type { AssignmentMode, ProposalInput } from "@/lib/proposal-service"
+import {
+  buildShiftTiming,
+  formatDuration,
+  getShiftHours,
+  toZonedInputValues,
+  zonedDateTime,
+} from "@/lib/shift-timing"
+import { DEFAULT_RESPONSE_LEAD_HOURS, getDefaultExpiry } from "@/lib/proposal-expiry"
+
+interface ProposalFormProps {
+  initialValues?: ProposalInput
+  // Fuso do hospital em que os horários são digitados
+  timeZone: string
+  submitLabel: string
+  isLoading: boolean
+  onSubmit: (proposal: ProposalInput) => void
+  onCancel?: () => void
+}
+
+// Formulário usado pelo hospital para publicar ou editar um plantão
+export function ProposalForm({
+  initialValues,
+  timeZone,
+  submitLabel,
+  isLoading,
+  onSubmit,
+  onCancel,
+}: ProposalFormProps) {
+  const { toast } = useToast()
+  // Ao editar, os horários são exibidos no fuso em que o plantão foi publicado
+  const zone = initialValues?.timeZone || timeZone
+  const initialStart = initialValues && toZonedInputValues(initialValues.startAt, zone)
+  const [specialty, setSpecialty] = useState(initialValues?.specialty || "")
+  const [date, setDate] = useState(initialStart?.day || "")
+  const [startTime, setStartTime] = useState(initialStart?.time || "07:00")
+  const [endTime, setEndTime] = useState(initialValues ? toZonedInputValues(initialValues.endAt, zone).time : "19:00")
+  const [location, setLocation] = useState(initialValues?.location || "")
+  const [description, setDescription] = useState(initialValues?.description || "")
+  const [requirements, setRequirements] = useState(initialValues?.requirements || "")
+  const [value, setValue] = useState(initialValues ? String(initialValues.value) : "")
+  const [assignmentMode, setAssignmentMode] = useState<AssignmentMode>(initialValues?.assignmentMode || "first_come")
+  // Prazo em branco acompanha o início do plantão (prazo padrão)
+  const [deadline, setDeadline] = useState(() => {
+    const expiresAt = initialValues?.expiresAt
+    if (!expiresAt || expiresAt.getTime() === getDefaultExpiry(initialValues.startAt).getTime()) return ""
+    const { day, time } = toZonedInputValues(expiresAt, zone)
+    return `${day}T${time}`
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const amount = Number(value)
+
+    if (!specialty || !date) {
+      toast({
+        title: "Dados incompletos",
+        description: "Informe a especialidade e a data do plantão.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Valor inválido",
+        description: "O valor do plantão deve ser maior que zero.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const timing = buildShiftTiming(date, startTime, endTime, zone)
+    const expiresAt = deadline ? zonedDateTime(deadline.slice(0, 10), deadline.slice(11, 16), zone) : null
+
+    if (expiresAt && expiresAt > timing.startAt) {
+      toast({
+        title: "Prazo inválido",
+        description: "O prazo para resposta deve terminar antes do início do plantão.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    onSubmit({
+      specialty,
+      ...timing,
+      location,
+      description,
+      requirements,
+      value: amount,
+      assignmentMode,
+      expiresAt,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="specialty">Especialidade</Label>
+        <Select value={specialty} onValueChange={setSpecialty}>
+          <SelectTrigger id="specialty">
+            <SelectValue placeholder="Selecione a especialidade" />
+          </SelectTrigger>
+          <SelectContent>
+            {medicalSpecialties.map((item) => (
+              <SelectItem key={item} value={item}>
+                {item}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="date">Data</Label>
+          <Input id="date" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="startTime">Início</Label>
+          <Input
+            id="startTime"
+            type="time"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="endTime">Término</Label>
+          <Input id="endTime" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} required />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {date && startTime && endTime
+          ? `Duração: ${formatDuration(getShiftHours(buildShiftTiming(date, startTime, endTime, zone)))}. `
+          : ""}
+        Término igual ou anterior ao início indica plantão noturno, encerrado no dia seguinte. Horários no fuso{" "}
+        {zone}.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="location">Local</Label>
+        <Input
+          id="location"
+          placeholder="Pronto-socorro, Av. Paulista, 1000 - São Paulo"
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Descrição do plantão</Label>
+        <Textarea id="description" value={description} onChange={(e) => setDescription(e.target.value)} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="requirements">Requisitos</Label>
+        <Textarea id="requirements" value={requirements} onChange={(e) => setRequirements(e.target.value)} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="value">Valor total (R$)</Label>
+        <Input
+          id="value"
+          type="number"
+          min={0}
+          step="0.01"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="assignmentMode">Preenchimento da vaga</Label>
+        <Select value={assignmentMode} onValueChange={(mode) => setAssignmentMode(mode as AssignmentMode)}>
+          <SelectTrigger id="assignmentMode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="first_come">Primeiro médico a assinar</SelectItem>
+            <SelectItem value="bidding">Receber lances e escolher</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Vale enquanto o plantão estiver aberto, sem médico direcionado. Com lances, o valor acima é a referência.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="deadline">Prazo para resposta (opcional)</Label>
+        <Input id="deadline" type="datetime-local" value={deadline} onChange={(e) => setDeadline(e.target.value)} />
+        <p className="text-xs text-muted-foreground">
+          Em branco, a proposta expira {DEFAULT_RESPONSE_LEAD_HOURS}h antes do início do plantão.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={isLoading}>
+            Cancelar
+          </Button>
+        )}
+        <Button type="submit" className="flex-1" disabled={isLoading}>
+          {isLoading ? "Salvando..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
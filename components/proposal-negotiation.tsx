@@ -0,0 +1,247 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { MessagesSquare } from "lucide-react"
+import { acceptOffer, declineOffer, getOpenOffer, submitCounterOffer } from "@/lib/negotiation-service"
+import type { OfferParty, ProposalOffer, Proposal } from "@/lib/proposal-service"
+import { isProposalExpired } from "@/lib/proposal-expiry"
+import { buildShiftTiming, formatShiftDate, formatShiftTime, toZonedInputValues } from "@/lib/shift-timing"
+
+interface ProposalNegotiationProps {
+  proposal: Proposal
+  // Parte representada por quem está vendo a página
+  party: OfferParty
+  onChange: () => Promise<void>
+  // Chamado quando o médico aceita a oferta do hospital, para seguir à assinatura do contrato
+  onAgreed?: () => void
+}
+
+const offerStatusLabels: Record<ProposalOffer["status"], string> = {
+  open: "Aguardando resposta",
+  accepted: "Aceita",
+  declined: "Recusada",
+  countered: "Contraproposta",
+}
+
+const partyLabels: Record<OfferParty, string> = {
+  doctor: "Médico",
+  hospital: "Hospital",
+}
+
+// Histórico de ofertas e ações de contraproposta, aceite e recusa
+export function ProposalNegotiation({ proposal, party, onChange, onAgreed }: ProposalNegotiationProps) {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  const [showCounterDialog, setShowCounterDialog] = useState(false)
+  const [value, setValue] = useState("")
+  const [date, setDate] = useState("")
+  const [startTime, setStartTime] = useState("")
+  const [endTime, setEndTime] = useState("")
+  const [message, setMessage] = useState("")
+
+  const openOffer = getOpenOffer(proposal.offers)
+  // Plantões abertos por lances não são negociados por contraproposta
+  const openBidding = proposal.assignmentMode === "bidding" && !proposal.doctorId
+  // Com o prazo de resposta encerrado a negociação fica só para consulta
+  const myTurn =
+    !isProposalExpired(proposal) &&
+    (openOffer ? openOffer.by !== party : party === "doctor" && proposal.status === "pending" && !openBidding)
+
+  const openCounterDialog = () => {
+    // Parte da oferta vigente (ou dos termos atuais) para facilitar o ajuste
+    const base = openOffer || proposal
+    const start = toZonedInputValues(base.startAt, proposal.timeZone)
+    setValue(String(base.value))
+    setDate(start.day)
+    setStartTime(start.time)
+    setEndTime(toZonedInputValues(base.endAt, proposal.timeZone).time)
+    setMessage("")
+    setShowCounterDialog(true)
+  }
+
+  const run = async (action: () => Promise<void>, title: string, description: string) => {
+    setIsLoading(true)
+    try {
+      await action()
+      await onChange()
+      toast({ title, description })
+      return true
+    } catch (error) {
+      console.error("Error negotiating proposal:", error)
+      toast({
+        title: "Erro na negociação",
+        description: "A proposta foi atualizada pela outra parte. Recarregue a página e tente novamente.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCounter = async () => {
+    const amount = Number(value)
+    if (!amount || amount <= 0 || !date) {
+      toast({
+        title: "Dados incompletos",
+        description: "Informe um valor maior que zero e a data do plantão.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const timing = buildShiftTiming(date, startTime, endTime, proposal.timeZone)
+    const sent = await run(
+      () => submitCounterOffer(proposal.id!, { value: amount, startAt: timing.startAt, endAt: timing.endAt, message }),
+      "Contraproposta enviada",
+      party === "doctor" ? "O hospital será avisado da sua oferta." : "O médico será avisado da sua oferta.",
+    )
+    if (sent) setShowCounterDialog(false)
+  }
+
+  const handleAccept = async () => {
+    const accepted = await run(
+      () => acceptOffer(proposal.id!),
+      "Oferta aceita",
+      party === "doctor" ? "Assine o contrato para confirmar o plantão." : "O médico já pode assinar o contrato.",
+    )
+    if (accepted && party === "doctor") onAgreed?.()
+  }
+
+  const handleDecline = () =>
+    run(() => declineOffer(proposal.id!), "Oferta recusada", "A proposta voltou às condições originais.")
+
+  if (proposal.offers.length === 0 && !myTurn) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessagesSquare className="h-5 w-5" />
+          Negociação
+        </CardTitle>
+        <CardDescription>
+          {proposal.offers.length === 0
+            ? "Não concorda com o valor ou o horário? Envie uma contraproposta ao hospital."
+            : "Histórico de ofertas deste plantão"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {proposal.offers.map((offer, index) => {
+          const terms = { ...offer, timeZone: proposal.timeZone }
+          return (
+            <div key={index} className="border-b pb-3 last:border-0 last:pb-0 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">
+                  {partyLabels[offer.by]} · {offer.createdAt.toLocaleString("pt-BR")}
+                </span>
+                <Badge variant="outline">{offerStatusLabels[offer.status]}</Badge>
+              </div>
+              <p className="text-sm">
+                <span className="font-bold">R$ {offer.value.toFixed(2)}</span> · {formatShiftDate(terms)},{" "}
+                {formatShiftTime(terms)}
+              </p>
+              {offer.message && <p className="text-sm text-muted-foreground">{offer.message}</p>}
+            </div>
+          )
+        })}
+
+        {myTurn && (
+          <div className="flex flex-wrap gap-2">
+            {openOffer && (
+              <>
+                <Button onClick={handleAccept} disabled={isLoading}>
+                  Aceitar oferta
+                </Button>
+                <Button variant="outline" onClick={handleDecline} disabled={isLoading}>
+                  Recusar oferta
+                </Button>
+              </>
+            )}
+            <Button variant="outline" onClick={openCounterDialog} disabled={isLoading}>
+              Fazer contraproposta
+            </Button>
+          </div>
+        )}
+        {openOffer && !myTurn && (
+          <p className="text-sm text-muted-foreground">
+            Aguardando resposta do {party === "doctor" ? "hospital" : "médico"}.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={showCounterDialog} onOpenChange={setShowCounterDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Contraproposta</DialogTitle>
+            <DialogDescription>Horários no fuso do plantão ({proposal.timeZone})</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="offer-value">Valor (R$)</Label>
+              <Input
+                id="offer-value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="offer-date">Data</Label>
+                <Input id="offer-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-start">Início</Label>
+                <Input
+                  id="offer-start"
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-end">Término</Label>
+                <Input id="offer-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offer-message">Mensagem</Label>
+              <Textarea
+                id="offer-message"
+                placeholder="Explique o motivo da contraproposta"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCounterDialog(false)} disabled={isLoading}>
+              Cancelar
+            </Button>
+            <Button onClick={handleCounter} disabled={isLoading}>
+              {isLoading ? "Enviando..." : "Enviar contraproposta"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
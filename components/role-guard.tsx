@@ -0,0 +1,62 @@
+"use client"
+
+import type React from "react"
+import { useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { useAuth } from "@/components/auth-provider"
+import { Forbidden } from "@/components/forbidden"
+import { homePathForRole, type UserType } from "@/lib/auth-service"
+
+interface RoleGuardProps {
+  allow: UserType[]
+  children: React.ReactNode
+}
+
+// Protege layouts e páginas: exige login e um dos perfis permitidos
+export function RoleGuard({ allow, children }: RoleGuardProps) {
+  const router = useRouter()
+  const { user, role, loading } = useAuth()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/login")
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  if (!role) {
+    return (
+      <Forbidden
+        title="Cadastro incompleto"
+        description="Não encontramos o tipo da sua conta. Entre em contato com o suporte."
+        homeHref="/"
+      />
+    )
+  }
+
+  if (!allow.includes(role)) {
+    return (
+      <Forbidden
+        description={
+          role === "hospital"
+            ? "Esta página é exclusiva para médicos. Use a área do hospital para gerenciar seus plantões."
+            : "Esta página é exclusiva para hospitais. Use a sua área de médico para ver propostas e contratos."
+        }
+        homeHref={homePathForRole(role)}
+      />
+    )
+  }
+
+  return <>{children}</>
+}
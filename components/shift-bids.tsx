@@ -0,0 +1,320 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/hooks/use-toast"
+import { Gavel } from "lucide-react"
+import {
+  awardBid,
+  getBids,
+  getMyBid,
+  MarketplaceError,
+  submitBid,
+  withdrawBid,
+  type Bid,
+  type BidStatus,
+} from "@/lib/marketplace-service"
+import type { Proposal } from "@/lib/proposal-service"
+import { isProposalExpired } from "@/lib/proposal-expiry"
+import { getShiftHours } from "@/lib/shift-timing"
+
+const bidStatusLabels: Record<BidStatus, string> = {
+  open: "Em análise",
+  won: "Escolhido",
+  lost: "Não escolhido",
+  withdrawn: "Retirado",
+}
+
+const marketplaceErrorMessage = (error: unknown): string => {
+  if (!(error instanceof MarketplaceError)) return "Ocorreu um erro inesperado. Tente novamente."
+
+  switch (error.reason) {
+    case "not_found":
+      return "Este plantão não existe mais."
+    case "not_open":
+      return "Este plantão já foi preenchido ou retirado."
+    case "expired":
+      return "O prazo para lances neste plantão terminou."
+    case "not_bidding":
+      return "Este plantão não recebe lances."
+    case "not_eligible":
+      return "Este plantão é de uma especialidade que não consta no seu perfil."
+    case "bid_closed":
+      return "Este lance não está mais em aberto."
+  }
+}
+
+// Lance do médico em um plantão aberto por lances
+export function BidPanel({ proposal, onChange }: { proposal: Proposal; onChange?: () => Promise<void> }) {
+  const { toast } = useToast()
+  const [bid, setBid] = useState<Bid | null>(null)
+  const [value, setValue] = useState("")
+  const [message, setMessage] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchBid = async () => {
+      try {
+        const fetchedBid = await getMyBid(proposal.id!)
+        setBid(fetchedBid)
+        setValue(String(fetchedBid?.value ?? proposal.value))
+        setMessage(fetchedBid?.message || "")
+      } catch (error) {
+        console.error("Error fetching bid:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchBid()
+  }, [proposal.id, proposal.value])
+
+  const open = proposal.status === "pending" && !proposal.doctorId && !isProposalExpired(proposal)
+  const hasOpenBid = bid?.status === "open"
+
+  const run = async (action: () => Promise<void>, title: string, description: string) => {
+    setIsLoading(true)
+    try {
+      await action()
+      setBid(await getMyBid(proposal.id!))
+      await onChange?.()
+      toast({ title, description })
+    } catch (error) {
+      console.error("Error updating bid:", error)
+      toast({ title: "Erro no lance", description: marketplaceErrorMessage(error), variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = () => {
+    const amount = Number(value)
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Valor inválido",
+        description: "O valor do lance deve ser maior que zero.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    run(
+      () => submitBid(proposal.id!, { value: amount, message }),
+      hasOpenBid ? "Lance atualizado" : "Lance enviado",
+      "O hospital será avisado e escolherá entre os lances recebidos.",
+    )
+  }
+
+  const handleWithdraw = () =>
+    run(
+      () => withdrawBid(proposal.id!),
+      "Lance retirado",
+      "Você pode enviar um novo lance enquanto o plantão estiver aberto.",
+    )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          Seu lance
+        </CardTitle>
+        <CardDescription>
+          Este plantão é preenchido por lances: o hospital escolhe entre os médicos interessados. Valor de referência:
+          R$ {proposal.value.toFixed(2)}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {bid && (
+          <div className="flex items-center justify-between text-sm">
+            <span>
+              Lance atual: <span className="font-bold">R$ {bid.value.toFixed(2)}</span>
+            </span>
+            <Badge variant="outline">{bidStatusLabels[bid.status]}</Badge>
+          </div>
+        )}
+
+        {open ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="bid-value">Valor pedido (R$)</Label>
+              <Input
+                id="bid-value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bid-message">Mensagem ao hospital (opcional)</Label>
+              <Textarea
+                id="bid-message"
+                placeholder="Experiência relevante, disponibilidade..."
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleSubmit} disabled={isLoading}>
+                {hasOpenBid ? "Atualizar lance" : "Enviar lance"}
+              </Button>
+              {hasOpenBid && (
+                <Button variant="outline" onClick={handleWithdraw} disabled={isLoading}>
+                  Retirar lance
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Este plantão não recebe mais lances.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface BidListProps {
+  proposal: Proposal
+  onAwarded: () => Promise<void>
+}
+
+// Lances recebidos pelo hospital, do menor ao maior valor
+export function BidList({ proposal, onAwarded }: BidListProps) {
+  const { toast } = useToast()
+  const [bids, setBids] = useState<Bid[]>([])
+  const [selected, setSelected] = useState<Bid | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchBids = async () => {
+      try {
+        setBids(await getBids(proposal.id!))
+      } catch (error) {
+        console.error("Error fetching bids:", error)
+        toast({
+          title: "Erro ao carregar lances",
+          description: "Não foi possível carregar os lances deste plantão.",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchBids()
+  }, [proposal.id, proposal.awardedBidId, toast])
+
+  const open = proposal.status === "pending" && !proposal.doctorId && !isProposalExpired(proposal)
+  const visibleBids = bids.filter((bid) => bid.status !== "withdrawn")
+  const hours = getShiftHours(proposal)
+
+  const handleAward = async () => {
+    if (!selected) return
+    setIsLoading(true)
+
+    try {
+      await awardBid(proposal.id!, selected.id)
+      await onAwarded()
+      toast({
+        title: "Lance escolhido",
+        description: `O plantão foi direcionado a ${selected.doctorName}, que poderá assinar o contrato.`,
+      })
+    } catch (error) {
+      console.error("Error awarding bid:", error)
+      toast({ title: "Erro ao escolher lance", description: marketplaceErrorMessage(error), variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+      setSelected(null)
+    }
+  }
+
+  return (
+    <Card className="max-w-3xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          Lances recebidos
+        </CardTitle>
+        <CardDescription>
+          {open
+            ? "Escolha um lance para direcionar o plantão ao médico; os demais serão encerrados"
+            : "Lances enviados para este plantão"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && bids.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : visibleBids.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">Nenhum lance recebido até agora.</p>
+        ) : (
+          <div className="space-y-4">
+            {visibleBids.map((bid, index) => (
+              <div
+                key={bid.id}
+                className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 ${index < visibleBids.length - 1 ? "border-b pb-4" : ""}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{bid.doctorName}</p>
+                    <Badge variant="outline">{bidStatusLabels[bid.status]}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {bid.crm && `CRM ${bid.crm} · `}R$ {bid.value.toFixed(2)}
+                    {hours > 0 && ` (R$ ${(bid.value / hours).toFixed(2)}/hora)`}
+                    {bid.createdAt && ` · ${bid.createdAt.toLocaleString("pt-BR")}`}
+                  </p>
+                  {bid.message && <p className="text-sm text-muted-foreground">{bid.message}</p>}
+                </div>
+                {open && bid.status === "open" && (
+                  <Button size="sm" variant="outline" onClick={() => setSelected(bid)} disabled={isLoading}>
+                    Escolher
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!selected} onOpenChange={(isOpen) => !isOpen && setSelected(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Escolher este lance?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {selected &&
+                `O plantão será direcionado a ${selected.doctorName} por R$ ${selected.value.toFixed(2)}. ` +
+                  "Os demais lances serão encerrados."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Voltar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleAward} disabled={isLoading}>
+              {isLoading ? "Processando..." : "Escolher lance"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,323 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { ClipboardCheck, Download, MapPin, ScanFace } from "lucide-react"
+import { ContractTransitionError, getBillableValue, type Contract, type HoursReviewEntry } from "@/lib/contract-service"
+import { computeAttendanceTotals, getAttendanceState, getPunchLabel, locationStatusLabels } from "@/lib/attendance-log"
+import { describeHoursReviewEntry, formatMinutes, renderTimesheet } from "@/lib/timesheet-document"
+import {
+  TimesheetError,
+  acceptTimesheetAdjustment,
+  adjustTimesheet,
+  approveTimesheet,
+  contestTimesheetAdjustment,
+  getProposedMinutes,
+  hoursReviewTurn,
+} from "@/lib/timesheet-service"
+
+type Party = HoursReviewEntry["by"]
+
+const timesheetErrorMessage = (error: unknown): string => {
+  if (error instanceof ContractTransitionError) return "O contrato mudou de situação. Recarregue a página."
+  if (!(error instanceof TimesheetError)) return "Ocorreu um erro na aprovação das horas."
+
+  switch (error.reason) {
+    case "not_found":
+      return "Contrato não encontrado."
+    case "not_reviewable":
+      return "As horas deste plantão não estão aguardando você."
+    case "justification_required":
+      return "Informe a justificativa."
+    case "invalid_minutes":
+      return "Informe um total de horas válido."
+  }
+}
+
+const downloadTimesheet = (contract: Contract) => {
+  const url = URL.createObjectURL(new Blob([renderTimesheet(contract)], { type: "application/pdf" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `folha-de-ponto-${contract.id}.pdf`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Marcações de ponto do plantão, horas previstas x trabalhadas e a aprovação das horas: o hospital aprova ou
+// ajusta com justificativa, e o médico aceita ou contesta o ajuste
+export function Timesheet({
+  contract,
+  party,
+  onChange,
+}: {
+  contract: Contract
+  party: Party
+  onChange: () => Promise<void>
+}) {
+  const { toast } = useToast()
+  const [isLoading, setIsLoading] = useState(false)
+  const [dialog, setDialog] = useState<"adjust" | "contest" | null>(null)
+  const [hours, setHours] = useState("")
+  const [minutes, setMinutes] = useState("")
+  const [justification, setJustification] = useState("")
+
+  if (contract.punches.length === 0) return null
+
+  const totals = computeAttendanceTotals(contract, contract.punches)
+  const finished = getAttendanceState(contract.punches) === "finished"
+  const myTurn = hoursReviewTurn[contract.status] === party
+  const proposedMinutes = getProposedMinutes(contract)
+
+  const run = async (action: () => Promise<void>, title: string, description: string) => {
+    setIsLoading(true)
+    try {
+      await action()
+      await onChange()
+      toast({ title, description })
+      return true
+    } catch (error) {
+      toast({
+        title: "Erro na aprovação das horas",
+        description: timesheetErrorMessage(error),
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openDialog = (mode: "adjust" | "contest") => {
+    setHours(String(Math.floor(proposedMinutes / 60)))
+    setMinutes(String(proposedMinutes % 60))
+    setJustification("")
+    setDialog(mode)
+  }
+
+  const handleSubmitDialog = async () => {
+    const done =
+      dialog === "adjust"
+        ? await run(
+            () => adjustTimesheet(contract.id!, Number(hours) * 60 + Number(minutes), justification),
+            "Horas ajustadas",
+            "O médico será avisado para aceitar ou contestar o ajuste.",
+          )
+        : await run(
+            () => contestTimesheetAdjustment(contract.id!, justification),
+            "Ajuste contestado",
+            "O hospital vai analisar a contestação.",
+          )
+    if (done) setDialog(null)
+  }
+
+  const formatTime = (date: Date) =>
+    date.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short", timeZone: contract.timeZone })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Folha de ponto
+        </CardTitle>
+        <CardDescription>
+          {finished ? "Plantão encerrado" : "Plantão em andamento: as horas contam até agora"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <ul className="space-y-2">
+          {contract.punches.map((punch, index) => (
+            <li key={index} className="flex items-start justify-between gap-4">
+              <span>
+                <span className="font-medium">{getPunchLabel(punch)}</span>
+                <span className="block text-xs text-muted-foreground">{formatTime(punch.at)}</span>
+              </span>
+              <span className="text-right text-xs text-muted-foreground">
+                {punch.location && (
+                  <span className="flex items-center justify-end gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {locationStatusLabels[punch.location.status]}
+                  </span>
+                )}
+                {punch.verification && (
+                  <span className="flex items-center justify-end gap-1">
+                    <ScanFace className="h-3 w-3" />
+                    Similaridade {Math.round(punch.verification.score * 100)}%
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="grid grid-cols-2 gap-2 rounded-md border p-3 sm:grid-cols-4">
+          <div>
+            <p className="text-xs text-muted-foreground">Previstas</p>
+            <p className="font-medium">{formatMinutes(totals.scheduledMinutes)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Trabalhadas</p>
+            <p className="font-medium">{formatMinutes(totals.workedMinutes)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Intervalos</p>
+            <p className="font-medium">{formatMinutes(totals.breakMinutes + totals.awayMinutes)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Saldo</p>
+            <p className={`font-medium ${totals.balanceMinutes < 0 ? "text-red-600" : ""}`}>
+              {formatMinutes(totals.balanceMinutes, true)}
+            </p>
+          </div>
+        </div>
+
+        {contract.hoursReview.length > 0 && (
+          <ul className="space-y-1">
+            {contract.hoursReview.map((entry, index) => (
+              <li key={index}>
+                <span className="text-xs text-muted-foreground">{formatTime(entry.at)} · </span>
+                {describeHoursReviewEntry(entry)}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {contract.status === "completed" && contract.approvedMinutes !== undefined && (
+          <p className="font-medium">
+            Horas aprovadas: {formatMinutes(contract.approvedMinutes)} · Valor faturável: R${" "}
+            {getBillableValue(contract).toFixed(2)}
+          </p>
+        )}
+        {contract.status === "awaiting_approval" && (
+          <p className="text-muted-foreground">As horas aguardam a aprovação do hospital.</p>
+        )}
+        {contract.status === "hours_adjusted" && (
+          <p className="text-muted-foreground">
+            O hospital ajustou as horas para {formatMinutes(proposedMinutes)}. O ajuste aguarda a resposta do médico.
+          </p>
+        )}
+        {contract.status === "hours_contested" && (
+          <p className="text-muted-foreground">O médico contestou o ajuste. A decisão volta para o hospital.</p>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={() => downloadTimesheet(contract)}>
+          <Download className="mr-2 h-4 w-4" />
+          Baixar folha de ponto
+        </Button>
+        {myTurn && party === "hospital" && (
+          <>
+            <Button
+              onClick={() =>
+                run(
+                  () => approveTimesheet(contract.id!),
+                  "Horas aprovadas",
+                  "As horas registradas pelo médico passam a ser faturáveis.",
+                )
+              }
+              disabled={isLoading}
+            >
+              Aprovar {formatMinutes(contract.workedMinutes || 0)}
+            </Button>
+            <Button variant="outline" onClick={() => openDialog("adjust")} disabled={isLoading}>
+              Ajustar horas
+            </Button>
+          </>
+        )}
+        {myTurn && party === "doctor" && (
+          <>
+            <Button
+              onClick={() =>
+                run(
+                  () => acceptTimesheetAdjustment(contract.id!),
+                  "Ajuste aceito",
+                  "As horas ajustadas passam a ser faturáveis.",
+                )
+              }
+              disabled={isLoading}
+            >
+              Aceitar {formatMinutes(proposedMinutes)}
+            </Button>
+            <Button variant="outline" onClick={() => openDialog("contest")} disabled={isLoading}>
+              Contestar ajuste
+            </Button>
+          </>
+        )}
+      </CardFooter>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog === "adjust" ? "Ajustar horas trabalhadas" : "Contestar ajuste"}</DialogTitle>
+            <DialogDescription>
+              {dialog === "adjust"
+                ? `As marcações registraram ${formatMinutes(contract.workedMinutes || 0)}. O médico poderá aceitar ` +
+                  "ou contestar o novo total."
+                : `Ao contestar, você pede as ${formatMinutes(contract.workedMinutes || 0)} registradas nas ` +
+                  "marcações e o hospital decide novamente."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4">
+            {dialog === "adjust" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="timesheet-hours">Horas</Label>
+                  <Input
+                    id="timesheet-hours"
+                    type="number"
+                    min="0"
+                    value={hours}
+                    onChange={(e) => setHours(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="timesheet-minutes">Minutos</Label>
+                  <Input
+                    id="timesheet-minutes"
+                    type="number"
+                    min="0"
+                    max="59"
+                    value={minutes}
+                    onChange={(e) => setMinutes(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="timesheet-justification">Justificativa</Label>
+              <Textarea
+                id="timesheet-justification"
+                placeholder={
+                  dialog === "adjust" ? "Explique por que as horas foram ajustadas" : "Explique por que discorda"
+                }
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={isLoading}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSubmitDialog} disabled={isLoading}>
+              {isLoading ? "Enviando..." : dialog === "adjust" ? "Enviar ajuste" : "Enviar contestação"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
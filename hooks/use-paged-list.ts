@@ -0,0 +1,101 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { useToast } from "@/hooks/use-toast"
+import { parseListFilters, toListSearchParams, type ListFilters, type ListPage } from "@/lib/list-query"
+
+interface PagedListOptions<T, S extends string> {
+  fetchPage: (status: S, filters: ListFilters, cursor?: string | null) => Promise<ListPage<T>>
+  statuses: readonly S[]
+  errorTitle: string
+}
+
+// Listagem paginada cujo status (aba) e filtros ficam na query string, para a visão poder ser compartilhada
+export function usePagedList<T, S extends string>({ fetchPage, statuses, errorTitle }: PagedListOptions<T, S>) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const [items, setItems] = useState<T[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+
+  const queryString = searchParams.toString()
+  const requested = searchParams.get("status") as S | null
+  const status = requested && statuses.includes(requested) ? requested : statuses[0]
+  const filters = useMemo(() => parseListFilters(new URLSearchParams(queryString)), [queryString])
+
+  useEffect(() => {
+    let canceled = false
+
+    const fetchFirstPage = async () => {
+      setIsLoading(true)
+      try {
+        const page = await fetchPage(status, filters)
+        if (canceled) return
+        setItems(page.items)
+        setNextCursor(page.nextCursor)
+      } catch (error) {
+        console.error("Error fetching list page:", error)
+        if (!canceled) {
+          toast({
+            title: errorTitle,
+            description: "Não foi possível carregar a lista. Tente novamente.",
+            variant: "destructive",
+          })
+        }
+      } finally {
+        if (!canceled) setIsLoading(false)
+      }
+    }
+
+    fetchFirstPage()
+    return () => {
+      canceled = true
+    }
+  }, [fetchPage, status, filters, errorTitle, toast])
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+    setIsLoadingMore(true)
+    try {
+      const page = await fetchPage(status, filters, nextCursor)
+      setItems((current) => [...current, ...page.items])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error("Error fetching list page:", error)
+      toast({ title: errorTitle, description: "Não foi possível carregar mais itens.", variant: "destructive" })
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  const navigate = (params: URLSearchParams) => {
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  const setStatus = (value: string) => {
+    const params = new URLSearchParams(queryString)
+    params.set("status", value)
+    navigate(params)
+  }
+
+  const applyFilters = (next: ListFilters) => navigate(toListSearchParams(next, new URLSearchParams(queryString)))
+
+  return {
+    status,
+    filters,
+    // Muda quando a URL muda; usado como key para reiniciar o formulário de filtros
+    queryString,
+    items,
+    hasMore: !!nextCursor,
+    isLoading,
+    isLoadingMore,
+    loadMore,
+    setStatus,
+    applyFilters,
+  }
+}
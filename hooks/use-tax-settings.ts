@@ -0,0 +1,32 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getDoctorProfile } from "@/lib/profile-service"
+import { DEFAULT_TAX_SETTINGS, resolveTaxSettings, type TaxSettings } from "@/lib/tax-calculator"
+
+// Regime tributário do médico logado; enquanto carrega (ou se não foi informado) vale o padrão, e
+// `configured` diz se as estimativas usam o regime escolhido por ele
+export function useTaxSettings(enabled = true) {
+  const [settings, setSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS)
+  const [configured, setConfigured] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+    let canceled = false
+
+    getDoctorProfile()
+      .then((profile) => {
+        if (canceled || !profile?.tax) return
+        setSettings(resolveTaxSettings(profile.tax))
+        setConfigured(true)
+      })
+      // Sem o perfil as estimativas seguem com o regime padrão
+      .catch((error) => console.error("Error fetching tax settings:", error))
+
+    return () => {
+      canceled = true
+    }
+  }, [enabled])
+
+  return { settings, configured }
+}
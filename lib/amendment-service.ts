@@ -0,0 +1,265 @@
+import {
+  doc,
+  getDoc,
+  increment,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type Transaction,
+} from "firebase/firestore"
+import { db, auth } from "./firebase"
+import { getCurrentUserData } from "./auth-service"
+import { getHospitalProfile } from "./hospital-service"
+import {
+  WorkLimitError,
+  toStoredWorkLimitIssue,
+  type AmendableField,
+  type AmendmentChange,
+  type AmendmentStatus,
+  type Contract,
+  type ContractAmendment,
+} from "./contract-service"
+import {
+  findOverlap,
+  getRecentBookings,
+  readScheduleBookings,
+  toStoredBookings,
+  type ScheduleBooking,
+} from "./doctor-schedule"
+import { readShiftTiming } from "./shift-timing"
+import { evaluateWorkLimits, resolveWorkLimits } from "./work-limits"
+import { getSearchFields } from "./list-query"
+import { hasAttendance } from "./attendance-log"
+
+// Novos valores propostos; campos ausentes continuam como estão
+export type AmendmentTerms = Partial<Pick<Contract, AmendableField>>
+
+// "pending": já existe um aditivo aguardando resposta; "not_open": não há aditivo que esta parte possa responder
+export type AmendmentFailure =
+  | "not_found"
+  | "not_amendable"
+  | "pending"
+  | "no_changes"
+  | "invalid"
+  | "not_open"
+  | "overlap"
+
+// Aditivo recusado pelo estado do contrato, pelos termos propostos ou por conflito na agenda do médico
+export class AmendmentError extends Error {
+  constructor(
+    public reason: AmendmentFailure,
+    public conflict?: ScheduleBooking,
+  ) {
+    super(`Contract amendment rejected (${reason})`)
+    this.name = "AmendmentError"
+  }
+}
+
+const AMENDABLE_FIELDS: AmendableField[] = ["startAt", "endAt", "location", "value"]
+
+// Aditivo aguardando resposta, quando houver
+export const getOpenAmendment = (amendments: ContractAmendment[]): ContractAmendment | null => {
+  const last = amendments[amendments.length - 1]
+  return last?.status === "open" ? last : null
+}
+
+const sameValue = (a: AmendmentChange["from"], b: AmendmentChange["to"]) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b
+
+// Campos que mudam em relação aos termos atuais, com o valor antigo e o novo
+export const diffAmendment = (current: Pick<Contract, AmendableField>, terms: AmendmentTerms): AmendmentChange[] => {
+  return AMENDABLE_FIELDS.flatMap((field) => {
+    const to = terms[field]
+    return to === undefined || sameValue(current[field], to) ? [] : [{ field, from: current[field], to }]
+  })
+}
+
+// Parte que o usuário representa no contrato
+const getParty = (data: DocumentData, uid: string): ContractAmendment["by"] => {
+  if (data.hospitalId === uid) return "hospital"
+  if (data.doctorId === uid) return "doctor"
+  throw new AmendmentError("not_found")
+}
+
+const getCurrentTerms = (data: DocumentData): Pick<Contract, AmendableField> => {
+  const { startAt, endAt } = readShiftTiming(data)
+  return { startAt, endAt, location: data.location, value: data.value }
+}
+
+// Fecha o aditivo vigente; serverTimestamp não é aceito dentro de arrays
+const closeOpenAmendment = (amendments: DocumentData[], status: AmendmentStatus, uid: string, version?: number) => {
+  return amendments.map((amendment, index) =>
+    index === amendments.length - 1 && amendment.status === "open"
+      ? {
+          ...amendment,
+          status,
+          respondedAt: Timestamp.now(),
+          respondedBy: uid,
+          ...(version !== undefined && { version }),
+        }
+      : amendment,
+  )
+}
+
+// Run an amendment step on a contract as the current user; only contracts not yet finished can change
+const amend = async (
+  contractId: string,
+  step: (
+    data: DocumentData,
+    party: ContractAmendment["by"],
+    uid: string,
+    transaction: Transaction,
+  ) => Promise<DocumentData> | DocumentData,
+): Promise<void> => {
+  const uid = auth.currentUser?.uid
+  if (!uid) throw new Error("User not authenticated")
+
+  const contractRef = doc(db, "contracts", contractId)
+  await runTransaction(db, async (transaction) => {
+    const contractDoc = await transaction.get(contractRef)
+    if (!contractDoc.exists()) throw new AmendmentError("not_found")
+
+    const data = contractDoc.data()
+    const party = getParty(data, uid)
+    if (data.status !== "upcoming") throw new AmendmentError("not_amendable")
+
+    transaction.update(contractRef, { ...(await step(data, party, uid, transaction)), updatedAt: serverTimestamp() })
+  })
+}
+
+// Propose new time, location or value for a contract; the other party has to approve it
+export const proposeAmendment = async (contractId: string, terms: AmendmentTerms, message: string): Promise<void> => {
+  try {
+    const userData = await getCurrentUserData()
+
+    await amend(contractId, (data, party, uid) => {
+      const amendments: DocumentData[] = data.amendments || []
+      if (amendments[amendments.length - 1]?.status === "open") throw new AmendmentError("pending")
+
+      const current = getCurrentTerms(data)
+      const changes = diffAmendment(current, terms)
+      if (changes.length === 0) throw new AmendmentError("no_changes")
+
+      const next = { ...current, ...terms }
+      if (next.endAt <= next.startAt || !(next.value > 0) || !next.location.trim()) {
+        throw new AmendmentError("invalid")
+      }
+      // Depois do check-in o início do plantão já aconteceu
+      if (hasAttendance(data) && changes.some((change) => change.field === "startAt")) {
+        throw new AmendmentError("invalid")
+      }
+
+      const amendment = {
+        by: party,
+        authorId: uid,
+        authorName: userData?.name || "",
+        changes,
+        message: message.trim(),
+        status: "open" as AmendmentStatus,
+        createdAt: Timestamp.now(),
+      }
+      return { amendments: [...amendments, amendment] }
+    })
+  } catch (error) {
+    console.error("Error proposing amendment:", error)
+    throw error
+  }
+}
+
+// Approve the other party's amendment: its values become the contract's and a new version is recorded
+export const approveAmendment = async (contractId: string): Promise<void> => {
+  try {
+    const contractDoc = await getDoc(doc(db, "contracts", contractId))
+    if (!contractDoc.exists()) throw new AmendmentError("not_found")
+
+    // Agenda do médico (para quem ainda não tem doctorSchedules) e limites de jornada do hospital
+    const [fallbackBookings, hospitalProfile] = await Promise.all([
+      getRecentBookings(contractDoc.data().doctorId),
+      getHospitalProfile(contractDoc.data().hospitalId),
+    ])
+    const workLimits = resolveWorkLimits(hospitalProfile?.workLimits)
+
+    await amend(contractId, async (data, party, uid, transaction) => {
+      const amendments: DocumentData[] = data.amendments || []
+      const open = amendments[amendments.length - 1]
+      if (open?.status !== "open" || open.by === party) throw new AmendmentError("not_open")
+
+      const next = getCurrentTerms(data)
+      open.changes.forEach((change: DocumentData) => {
+        Object.assign(next, { [change.field]: change.to instanceof Timestamp ? change.to.toDate() : change.to })
+      })
+      const timing = { ...next, timeZone: readShiftTiming(data).timeZone }
+
+      // Horário novo precisa caber na agenda do médico, sem contar o próprio plantão
+      const scheduleRef = doc(db, "doctorSchedules", data.doctorId)
+      const scheduleDoc = await transaction.get(scheduleRef)
+      const bookings = readScheduleBookings(scheduleDoc.data(), fallbackBookings).filter(
+        (booking) => booking.contractId !== contractId,
+      )
+      const conflict = findOverlap(bookings, timing)
+      if (conflict) throw new AmendmentError("overlap", conflict)
+
+      const workLimitIssues = evaluateWorkLimits(bookings, timing, workLimits)
+      if (workLimitIssues.length > 0 && workLimits.enforcement === "block") {
+        throw new WorkLimitError(workLimitIssues, true)
+      }
+
+      transaction.set(scheduleRef, {
+        bookings: toStoredBookings([
+          ...bookings,
+          { contractId, hospital: data.hospital, startAt: next.startAt, endAt: next.endAt },
+        ]),
+        updatedAt: serverTimestamp(),
+      })
+
+      const version = (data.version || 1) + 1
+      return {
+        startAt: next.startAt,
+        endAt: next.endAt,
+        location: next.location,
+        value: next.value,
+        ...getSearchFields({ ...timing, hospital: data.hospital, location: next.location, value: next.value }),
+        workLimitIssues: workLimitIssues.map(toStoredWorkLimitIssue),
+        version,
+        amendments: closeOpenAmendment(amendments, "approved", uid, version),
+        calendarSequence: increment(1),
+      }
+    })
+  } catch (error) {
+    console.error("Error approving amendment:", error)
+    throw error
+  }
+}
+
+// Reject the other party's amendment; the contract keeps its current terms
+export const rejectAmendment = async (contractId: string): Promise<void> => {
+  try {
+    await amend(contractId, (data, party, uid) => {
+      const amendments: DocumentData[] = data.amendments || []
+      const open = amendments[amendments.length - 1]
+      if (open?.status !== "open" || open.by === party) throw new AmendmentError("not_open")
+
+      return { amendments: closeOpenAmendment(amendments, "rejected", uid) }
+    })
+  } catch (error) {
+    console.error("Error rejecting amendment:", error)
+    throw error
+  }
+}
+
+// Withdraw one's own amendment before the other party answers
+export const withdrawAmendment = async (contractId: string): Promise<void> => {
+  try {
+    await amend(contractId, (data, party, uid) => {
+      const amendments: DocumentData[] = data.amendments || []
+      const open = amendments[amendments.length - 1]
+      if (open?.status !== "open" || open.by !== party) throw new AmendmentError("not_open")
+
+      return { amendments: closeOpenAmendment(amendments, "withdrawn", uid) }
+    })
+  } catch (error) {
+    console.error("Error withdrawing amendment:", error)
+    throw error
+  }
+}
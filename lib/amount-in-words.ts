@@ -0,0 +1,100 @@
+// Valores em reais por extenso, como exigido em contratos e recibos ("mil e duzentos reais")
+
+const UNITS = [
+  "",
+  "um",
+  "dois",
+  "três",
+  "quatro",
+  "cinco",
+  "seis",
+  "sete",
+  "oito",
+  "nove",
+  "dez",
+  "onze",
+  "doze",
+  "treze",
+  "quatorze",
+  "quinze",
+  "dezesseis",
+  "dezessete",
+  "dezoito",
+  "dezenove",
+]
+const TENS = ["", "", "vinte", "trinta", "quarenta", "cinquenta", "sessenta", "setenta", "oitenta", "noventa"]
+const HUNDREDS = [
+  "",
+  "cento",
+  "duzentos",
+  "trezentos",
+  "quatrocentos",
+  "quinhentos",
+  "seiscentos",
+  "setecentos",
+  "oitocentos",
+  "novecentos",
+]
+
+// Número de 0 a 999 por extenso ("" para zero)
+const hundredsInWords = (value: number): string => {
+  if (value === 100) return "cem"
+
+  const parts: string[] = []
+  const hundreds = Math.floor(value / 100)
+  const rest = value % 100
+  if (hundreds > 0) parts.push(HUNDREDS[hundreds])
+  if (rest >= 20) {
+    parts.push(rest % 10 > 0 ? `${TENS[Math.floor(rest / 10)]} e ${UNITS[rest % 10]}` : TENS[rest / 10])
+  } else if (rest > 0) {
+    parts.push(UNITS[rest])
+  }
+
+  return parts.join(" e ")
+}
+
+// Inteiro não negativo por extenso, até a casa dos bilhões
+export const integerInWords = (value: number): string => {
+  if (value === 0) return "zero"
+
+  const groups = [
+    { size: 1_000_000_000, singular: "bilhão", plural: "bilhões" },
+    { size: 1_000_000, singular: "milhão", plural: "milhões" },
+    { size: 1_000, singular: "mil", plural: "mil" },
+    { size: 1, singular: "", plural: "" },
+  ]
+  const words: string[] = []
+  let rest = value
+
+  groups.forEach(({ size, singular, plural }) => {
+    const count = Math.floor(rest / size)
+    rest %= size
+    if (count === 0) return
+
+    const name = size === 1 ? "" : ` ${count === 1 ? singular : plural}`
+    // "mil" dispensa o "um": mil e duzentos, não um mil e duzentos
+    const text = size === 1_000 && count === 1 ? "mil" : `${hundredsInWords(count)}${name}`
+    // O "e" liga os grupos menores que cem ou de centenas exatas: mil e vinte, dois mil e trezentos
+    const joined = words.length > 0 && (count < 100 || count % 100 === 0)
+    words.push(joined ? `e ${text}` : text)
+  })
+
+  return words.join(" ")
+}
+
+// "1200.5" -> "mil e duzentos reais e cinquenta centavos"
+export const amountInWords = (value: number): string => {
+  const cents = Math.round(Math.abs(value) * 100)
+  const reais = Math.floor(cents / 100)
+  const centavos = cents % 100
+
+  const parts: string[] = []
+  if (reais > 0 || centavos === 0) {
+    // Milhões e bilhões exatos levam "de": um milhão de reais
+    const exactMillions = reais >= 1_000_000 && reais % 1_000_000 === 0
+    parts.push(`${integerInWords(reais)}${exactMillions ? " de" : ""} ${reais === 1 ? "real" : "reais"}`)
+  }
+  if (centavos > 0) parts.push(`${integerInWords(centavos)} ${centavos === 1 ? "centavo" : "centavos"}`)
+
+  return parts.join(" e ")
+}
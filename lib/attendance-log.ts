@@ -0,0 +1,210 @@
+import type { DocumentData } from "firebase/firestore"
+import type { CapturedPosition, GeofenceStatus } from "./geo"
+import type { ShiftTiming } from "./shift-timing"
+import type { AttendanceViolation } from "./attendance-policy"
+
+// Registro de ponto do plantão: cada marcação (entrada, saída, início e fim de intervalo) com a posição e a
+// verificação facial que a liberou. Substitui os antigos campos checkInTime/checkOutTime do contrato
+
+// "out" sem "final" é uma saída temporária (ex.: transferência entre unidades); a saída final encerra o plantão
+export type PunchKind = "in" | "out" | "break_start" | "break_end"
+
+// Posição capturada na marcação, guardada para resolver contestações
+export interface LocationEvidence extends CapturedPosition {
+  status: GeofenceStatus
+  distanceMeters?: number
+}
+
+// Verificação facial (facialVerifications/{verificationId}) feita antes da marcação, com a similaridade e o mínimo
+// lidos pelo servidor no registro da verificação
+export interface PunchVerification {
+  verificationId: string
+  score: number
+  threshold: number
+}
+
+export interface AttendancePunch {
+  kind: PunchKind
+  at: Date
+  final?: boolean
+  location?: LocationEvidence
+  verification?: PunchVerification
+}
+
+export type AttendanceState = "not_started" | "working" | "on_break" | "away" | "finished"
+
+export const getAttendanceState = (punches: AttendancePunch[]): AttendanceState => {
+  const last = punches[punches.length - 1]
+  if (!last) return "not_started"
+  if (last.kind === "out") return last.final ? "finished" : "away"
+  return last.kind === "break_start" ? "on_break" : "working"
+}
+
+// Marcações aceitas em cada situação; a saída pode ser temporária ou final
+export const allowedPunches: Record<AttendanceState, PunchKind[]> = {
+  not_started: ["in"],
+  working: ["break_start", "out"],
+  on_break: ["break_end"],
+  away: ["in", "out"],
+  finished: [],
+}
+
+// Check-in/out recusado por estar fora da área do hospital
+export class GeofenceError extends Error {
+  constructor(
+    public distanceMeters: number,
+    public radiusMeters: number,
+  ) {
+    super(`Location is ${Math.round(distanceMeters)}m away from the hospital (allowed: ${radiusMeters}m)`)
+    this.name = "GeofenceError"
+  }
+}
+
+// Check-in/out recusado porque a precisão do GPS é maior que o raio da área: a posição não comprova a presença
+export class LocationAccuracyError extends Error {
+  constructor(
+    public accuracyMeters: number,
+    public radiusMeters: number,
+  ) {
+    super(`Location accuracy is ${Math.round(accuracyMeters)}m (allowed: ${radiusMeters}m)`)
+    this.name = "LocationAccuracyError"
+  }
+}
+
+// Check-in/out recusado por estar fora da janela de horário do plantão
+export class AttendanceError extends Error {
+  constructor(
+    public violation: AttendanceViolation,
+    public boundary: Date,
+  ) {
+    super(`Attendance rejected (${violation}); boundary at ${boundary.toISOString()}`)
+    this.name = "AttendanceError"
+  }
+}
+
+// Marcação de ponto fora de ordem (ex.: fim de intervalo sem intervalo iniciado)
+export class PunchError extends Error {
+  constructor(
+    public state: AttendanceState,
+    public kind: PunchKind,
+  ) {
+    super(`Punch "${kind}" not allowed while ${state}`)
+    this.name = "PunchError"
+  }
+}
+
+// "missing": entrada ou saída final sem verificação facial; "invalid": verificação de outro médico ou contrato,
+// ou reprovada; "expired": antiga demais ou já usada em outra marcação
+export type FaceCheckFailure = "missing" | "invalid" | "expired"
+
+export class FaceCheckError extends Error {
+  constructor(public reason: FaceCheckFailure) {
+    super(`Punch face verification rejected (${reason})`)
+    this.name = "FaceCheckError"
+  }
+}
+
+// Marcação enviada pelo médico
+export interface PunchInput {
+  kind: PunchKind
+  // Saída que encerra o plantão
+  final?: boolean
+  position: CapturedPosition
+  // Verificação registrada por /api/facial-verifications; o resultado é lido pelo servidor
+  verificationId?: string
+}
+
+// Recusa da marcação como a rota do servidor devolve ao navegador
+export type PunchRejection =
+  | { type: "punch"; state: AttendanceState; kind: PunchKind }
+  | { type: "attendance"; violation: AttendanceViolation; boundary: string }
+  | { type: "geofence"; distanceMeters: number; radiusMeters: number }
+  | { type: "accuracy"; accuracyMeters: number; radiusMeters: number }
+  | { type: "face"; reason: FaceCheckFailure }
+
+export const getPunchLabel = (punch: Pick<AttendancePunch, "kind" | "final">): string => {
+  switch (punch.kind) {
+    case "in":
+      return "Entrada"
+    case "break_start":
+      return "Início de intervalo"
+    case "break_end":
+      return "Fim de intervalo"
+    case "out":
+      return punch.final ? "Saída final" : "Saída temporária"
+  }
+}
+
+export const locationStatusLabels: Record<GeofenceStatus, string> = {
+  inside: "dentro da área do hospital",
+  uncertain: "limite da área (precisão baixa)",
+  outside: "fora da área do hospital",
+  unverified: "hospital sem área cadastrada",
+}
+
+const toPunch = (data: DocumentData): AttendancePunch => ({
+  kind: data.kind,
+  at: data.at.toDate(),
+  ...(data.final && { final: true }),
+  ...(data.location && { location: data.location }),
+  ...(data.verification && { verification: data.verification }),
+})
+
+// Marcações do contrato; contratos anteriores ao registro de ponto têm só check-in/check-out
+export const readAttendancePunches = (data: DocumentData): AttendancePunch[] => {
+  if (data.punches) return data.punches.map(toPunch)
+
+  const punches: AttendancePunch[] = []
+  if (data.checkInTime) {
+    punches.push({
+      kind: "in",
+      at: data.checkInTime.toDate(),
+      ...(data.checkInLocation && { location: data.checkInLocation }),
+    })
+  }
+  if (data.checkOutTime) {
+    punches.push({
+      kind: "out",
+      at: data.checkOutTime.toDate(),
+      final: true,
+      ...(data.checkOutLocation && { location: data.checkOutLocation }),
+    })
+  }
+  return punches
+}
+
+export const hasAttendance = (data: DocumentData): boolean => readAttendancePunches(data).length > 0
+
+const MINUTE = 60 * 1000
+
+export interface AttendanceTotals {
+  scheduledMinutes: number
+  workedMinutes: number
+  breakMinutes: number
+  // Saídas temporárias, fora do intervalo
+  awayMinutes: number
+  // Trabalhado menos o previsto (negativo quando faltam horas)
+  balanceMinutes: number
+}
+
+// Horas trabalhadas pelas marcações; com o plantão em andamento, o trecho aberto conta até "now"
+export const computeAttendanceTotals = (
+  shift: ShiftTiming,
+  punches: AttendancePunch[],
+  now = new Date(),
+): AttendanceTotals => {
+  const totals = { workedMinutes: 0, breakMinutes: 0, awayMinutes: 0 }
+
+  punches.forEach((punch, index) => {
+    const next = punches[index + 1]
+    const end = next ? next.at : getAttendanceState(punches) === "finished" ? punch.at : now
+    const minutes = Math.max(0, Math.round((end.getTime() - punch.at.getTime()) / MINUTE))
+
+    if (punch.kind === "in" || punch.kind === "break_end") totals.workedMinutes += minutes
+    else if (punch.kind === "break_start") totals.breakMinutes += minutes
+    else if (!punch.final) totals.awayMinutes += minutes
+  })
+
+  const scheduledMinutes = Math.round((shift.endAt.getTime() - shift.startAt.getTime()) / MINUTE)
+  return { ...totals, scheduledMinutes, balanceMinutes: totals.workedMinutes - scheduledMinutes }
+}
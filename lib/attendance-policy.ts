@@ -0,0 +1,89 @@
+import { getShiftHours, type ShiftTiming, type TimeWindow } from "./shift-timing"
+
+// Regras de horário para check-in/out de um plantão
+export interface AttendancePolicy {
+  // Antecedência máxima do check-in em relação ao início do plantão
+  checkInOpensMinutesBefore: number
+  // Último momento para o check-in, contado a partir do início do plantão
+  checkInClosesMinutesAfter: number
+  // Atraso tolerado antes de o check-in ser marcado como atrasado
+  lateToleranceMinutes: number
+  // Tempo mínimo entre o check-in e o check-out
+  minCheckOutElapsedMinutes: number
+  // Prazo após o fim do plantão para o check-out antes de o contrato ser sinalizado
+  missingCheckOutGraceMinutes: number
+}
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  checkInOpensMinutesBefore: 60,
+  checkInClosesMinutesAfter: 120,
+  lateToleranceMinutes: 15,
+  minCheckOutElapsedMinutes: 60,
+  missingCheckOutGraceMinutes: 60,
+}
+
+// Completa a política do hospital com os valores padrão
+export const resolveAttendancePolicy = (policy?: Partial<AttendancePolicy> | null): AttendancePolicy => ({
+  ...DEFAULT_ATTENDANCE_POLICY,
+  ...Object.fromEntries(Object.entries(policy || {}).filter(([, value]) => typeof value === "number")),
+})
+
+const MINUTE = 60 * 1000
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * MINUTE)
+
+// Dados do contrato usados pelas regras de horário
+export interface AttendanceShift extends ShiftTiming {
+  checkInTime?: Date
+  checkOutTime?: Date
+}
+
+// Período em que o check-in é aceito
+export const getCheckInWindow = (shift: AttendanceShift, policy: AttendancePolicy): TimeWindow | null => {
+  // Sem duração conhecida não há como aplicar a política
+  if (getShiftHours(shift) === 0) return null
+
+  return {
+    start: addMinutes(shift.startAt, -policy.checkInOpensMinutesBefore),
+    end: addMinutes(shift.startAt, policy.checkInClosesMinutesAfter),
+  }
+}
+
+// too_early/too_late: fora da janela de check-in; too_soon: check-out antes do tempo mínimo
+export type AttendanceViolation = "too_early" | "too_late" | "too_soon"
+
+export interface CheckInEvaluation {
+  violation?: AttendanceViolation
+  // Momento a partir do qual a operação é permitida (too_early/too_soon) ou em que deixou de ser (too_late)
+  boundary?: Date
+  lateMinutes: number
+}
+
+export const evaluateCheckIn = (shift: AttendanceShift, policy: AttendancePolicy, now: Date): CheckInEvaluation => {
+  const checkInWindow = getCheckInWindow(shift, policy)
+  if (!checkInWindow) return { lateMinutes: 0 }
+
+  if (now < checkInWindow.start) return { violation: "too_early", boundary: checkInWindow.start, lateMinutes: 0 }
+  if (now > checkInWindow.end) return { violation: "too_late", boundary: checkInWindow.end, lateMinutes: 0 }
+
+  return { lateMinutes: Math.max(0, Math.floor((now.getTime() - shift.startAt.getTime()) / MINUTE)) }
+}
+
+export const evaluateCheckOut = (
+  shift: AttendanceShift,
+  policy: AttendancePolicy,
+  now: Date,
+): { violation?: AttendanceViolation; boundary?: Date } => {
+  if (!shift.checkInTime) return {}
+
+  const allowedAt = addMinutes(shift.checkInTime, policy.minCheckOutElapsedMinutes)
+  if (now < allowedAt) return { violation: "too_soon", boundary: allowedAt }
+  return {}
+}
+
+// Plantão encerrado (com a tolerância) sem check-out registrado
+export const isCheckOutMissing = (shift: AttendanceShift, policy: AttendancePolicy, now: Date): boolean => {
+  if (shift.checkOutTime || getShiftHours(shift) === 0) return false
+
+  return now > addMinutes(shift.endAt, policy.missingCheckOutGraceMinutes)
+}
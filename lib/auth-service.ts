@@ -94,13 +94,10 @@ export const resetPassword = async (email: string): Promise<void> => {
   }
 }
 
-// Get current user data from Firestore
-export const getCurrentUserData = async (): Promise<UserData | null> => {
+// Get user data from Firestore
+export const getUserData = async (uid: string): Promise<UserData | null> => {
   try {
-    const user = auth.currentUser
-    if (!user) return null
-
-    const userDoc = await getDoc(doc(db, "users", user.uid))
+    const userDoc = await getDoc(doc(db, "users", uid))
     if (userDoc.exists()) {
       return userDoc.data() as UserData
     }
@@ -110,4 +107,17 @@ export const getCurrentUserData = async (): Promise<UserData | null> => {
     console.error("Error getting user data:", error)
     throw error
   }
+}
+
+// Get current user data from Firestore
+export const getCurrentUserData = async (): Promise<UserData | null> => {
+  const user = auth.currentUser
+  if (!user) return null
+
+  return getUserData(user.uid)
+}
+
+// Área inicial de cada tipo de usuário
+export const homePathForRole = (role: UserType | null | undefined): string => {
+  return role === "hospital" ? "/hospital" : "/dashboard"
 }
\ No newline at end of file
@@ -8,8 +8,11 @@ import {
   query,
   where,
   serverTimestamp,
+  type DocumentData,
 } from "firebase/firestore"
 import { db, auth } from "./firebase"
+import { OPEN_ENDED_UNTIL, addDays, expandWeeklyRecurrence, type WeeklyRecurrence } from "./recurrence"
+import { DEFAULT_TIME_ZONE, toZonedInputValues, zonedDateTime } from "./shift-timing"
 
 export interface TimeSlot {
   id?: string
@@ -18,10 +21,97 @@ export interface TimeSlot {
   startTime: string
   endTime: string
   specialties: string[] // Adicionando especialidades
+  // Preenchidos nas ocorrências geradas a partir de uma regra de recorrência
+  ruleId?: string
+  occurrenceDate?: string
   createdAt?: Date
   updatedAt?: Date
 }
 
+// Alteração de uma única ocorrência da série, indexada pelo dia (yyyy-MM-dd)
+export interface AvailabilityException {
+  deleted?: boolean
+  startTime?: string
+  endTime?: string
+  specialties?: string[]
+}
+
+// Disponibilidade recorrente, gravada uma vez e expandida em TimeSlots na leitura
+export interface AvailabilityRule extends WeeklyRecurrence {
+  id?: string
+  doctorId: string
+  startTime: string
+  endTime: string
+  specialties: string[]
+  exceptions: Record<string, AvailabilityException>
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export type AvailabilityRuleInput = Omit<AvailabilityRule, "id" | "doctorId" | "exceptions" | "createdAt" | "updatedAt">
+
+// Período expandido por getTimeSlots para as séries sem data de término
+const PAST_EXPANSION_DAYS = 30
+const FUTURE_EXPANSION_DAYS = 180
+
+export const toTimeSlot = (id: string, data: DocumentData): TimeSlot => ({
+  id,
+  doctorId: data.doctorId,
+  date: data.date.toDate(),
+  startTime: data.startTime,
+  endTime: data.endTime,
+  specialties: data.specialties || [],
+  createdAt: data.createdAt?.toDate(),
+  updatedAt: data.updatedAt?.toDate(),
+})
+
+export const toAvailabilityRule = (id: string, data: DocumentData): AvailabilityRule => ({
+  id,
+  doctorId: data.doctorId,
+  weekdays: data.weekdays || [],
+  intervalWeeks: data.intervalWeeks || 1,
+  startDate: data.startDate,
+  until: data.until && data.until !== OPEN_ENDED_UNTIL ? data.until : null,
+  startTime: data.startTime,
+  endTime: data.endTime,
+  specialties: data.specialties || [],
+  exceptions: data.exceptions || {},
+  createdAt: data.createdAt?.toDate(),
+  updatedAt: data.updatedAt?.toDate(),
+})
+
+// Dia do calendário (yyyy-MM-dd) de uma data, no fuso usado pelas disponibilidades
+const toDay = (date: Date): string => toZonedInputValues(date, DEFAULT_TIME_ZONE).day
+
+// Ocorrências da série entre os dias from e to (inclusivos), já com as exceções aplicadas
+export const expandAvailabilityRule = (rule: AvailabilityRule, from: string, to: string): TimeSlot[] => {
+  return expandWeeklyRecurrence(rule, from, to)
+    .filter((day) => !rule.exceptions[day]?.deleted)
+    .map((day) => {
+      const exception = rule.exceptions[day] || {}
+      return {
+        id: `${rule.id}_${day}`,
+        doctorId: rule.doctorId,
+        date: zonedDateTime(day, "00:00", DEFAULT_TIME_ZONE),
+        startTime: exception.startTime || rule.startTime,
+        endTime: exception.endTime || rule.endTime,
+        specialties: exception.specialties || rule.specialties,
+        ruleId: rule.id,
+        occurrenceDate: day,
+        createdAt: rule.createdAt,
+        updatedAt: rule.updatedAt,
+      }
+    })
+}
+
+// Disponibilidades avulsas mais as ocorrências das séries no período padrão de leitura
+export const withRuleOccurrences = (timeSlots: TimeSlot[], rules: AvailabilityRule[], now = new Date()): TimeSlot[] => {
+  const today = toDay(now)
+  const from = addDays(today, -PAST_EXPANSION_DAYS)
+  const to = addDays(today, FUTURE_EXPANSION_DAYS)
+  return [...timeSlots, ...rules.flatMap((rule) => expandAvailabilityRule(rule, from, to))]
+}
+
 // Add a new time slot
 export const addTimeSlot = async (
   timeSlot: Omit<TimeSlot, "id" | "doctorId" | "createdAt" | "updatedAt">,
@@ -73,37 +163,174 @@ export const deleteTimeSlot = async (id: string): Promise<void> => {
   }
 }
 
-// Get all time slots for the current doctor
-export const getTimeSlots = async (): Promise<TimeSlot[]> => {
+// Get all time slots for a doctor (defaults to the current one)
+export const getTimeSlots = async (doctorId?: string): Promise<TimeSlot[]> => {
   try {
-    const uid = auth.currentUser?.uid
+    const uid = doctorId || auth.currentUser?.uid
     if (!uid) throw new Error("User not authenticated")
 
-    const q = query(collection(db, "timeSlots"), where("doctorId", "==", uid))
-    const querySnapshot = await getDocs(q)
+    const [querySnapshot, rules] = await Promise.all([
+      getDocs(query(collection(db, "timeSlots"), where("doctorId", "==", uid))),
+      getAvailabilityRules(uid),
+    ])
 
     const timeSlots: TimeSlot[] = []
     querySnapshot.forEach((doc) => {
-      const data = doc.data()
-      timeSlots.push({
-        id: doc.id,
-        doctorId: data.doctorId,
-        date: data.date.toDate(),
-        startTime: data.startTime,
-        endTime: data.endTime,
-        specialties: data.specialties || [],
-        createdAt: data.createdAt?.toDate(),
-        updatedAt: data.updatedAt?.toDate(),
-      })
+      timeSlots.push(toTimeSlot(doc.id, doc.data()))
     })
 
-    return timeSlots
+    return withRuleOccurrences(timeSlots, rules)
   } catch (error) {
     console.error("Error getting time slots:", error)
     throw error
   }
 }
 
+// Get every doctor's time slots whose date falls within [from, to]
+export const getTimeSlotsBetween = async (from: Date, to: Date): Promise<TimeSlot[]> => {
+  try {
+    const q = query(collection(db, "timeSlots"), where("date", ">=", from), where("date", "<=", to))
+    const [querySnapshot, rulesSnapshot] = await Promise.all([
+      getDocs(q),
+      getDocs(
+        query(
+          collection(db, "availabilityRules"),
+          where("startDate", "<=", toDay(to)),
+          where("until", ">=", toDay(from)),
+        ),
+      ),
+    ])
+
+    const timeSlots: TimeSlot[] = []
+    querySnapshot.forEach((doc) => {
+      timeSlots.push(toTimeSlot(doc.id, doc.data()))
+    })
+
+    // Só as séries que começam até o fim do intervalo e terminam depois do início dele
+    rulesSnapshot.forEach((doc) => {
+      timeSlots.push(...expandAvailabilityRule(toAvailabilityRule(doc.id, doc.data()), toDay(from), toDay(to)))
+    })
+
+    return timeSlots
+  } catch (error) {
+    console.error("Error getting time slots in range:", error)
+    throw error
+  }
+}
+
+// Get a doctor's recurring availability rules (defaults to the current one)
+export const getAvailabilityRules = async (doctorId?: string): Promise<AvailabilityRule[]> => {
+  try {
+    const uid = doctorId || auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const querySnapshot = await getDocs(query(collection(db, "availabilityRules"), where("doctorId", "==", uid)))
+
+    const rules: AvailabilityRule[] = []
+    querySnapshot.forEach((doc) => {
+      rules.push(toAvailabilityRule(doc.id, doc.data()))
+    })
+
+    return rules
+  } catch (error) {
+    console.error("Error getting availability rules:", error)
+    throw error
+  }
+}
+
+// Add a recurring availability rule
+export const addAvailabilityRule = async (rule: AvailabilityRuleInput): Promise<string> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+    if (rule.weekdays.length === 0) throw new Error("Recurring availability needs at least one weekday")
+
+    const docRef = await addDoc(collection(db, "availabilityRules"), {
+      doctorId: uid,
+      weekdays: rule.weekdays,
+      intervalWeeks: rule.intervalWeeks,
+      startDate: rule.startDate,
+      until: rule.until || OPEN_ENDED_UNTIL,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      specialties: rule.specialties || [],
+      exceptions: {},
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+
+    return docRef.id
+  } catch (error) {
+    console.error("Error adding availability rule:", error)
+    throw error
+  }
+}
+
+// Update the whole series; edits made to single occurrences are kept
+export const updateAvailabilityRule = async (id: string, changes: Partial<AvailabilityRuleInput>): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    // Firestore recusa undefined: campos ausentes ficam como estão
+    const fields = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined))
+    await updateDoc(doc(db, "availabilityRules", id), {
+      ...fields,
+      ...("until" in fields && { until: fields.until || OPEN_ENDED_UNTIL }),
+      updatedAt: serverTimestamp(),
+    })
+  } catch (error) {
+    console.error("Error updating availability rule:", error)
+    throw error
+  }
+}
+
+// Delete the whole series
+export const deleteAvailabilityRule = async (id: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, "availabilityRules", id))
+  } catch (error) {
+    console.error("Error deleting availability rule:", error)
+    throw error
+  }
+}
+
+// Change a single occurrence (day in yyyy-MM-dd) without affecting the rest of the series
+export const updateAvailabilityOccurrence = async (
+  ruleId: string,
+  day: string,
+  changes: Omit<AvailabilityException, "deleted">,
+): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    await updateDoc(doc(db, "availabilityRules", ruleId), {
+      [`exceptions.${day}`]: Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+      updatedAt: serverTimestamp(),
+    })
+  } catch (error) {
+    console.error("Error updating availability occurrence:", error)
+    throw error
+  }
+}
+
+// Remove a single occurrence from the series
+export const deleteAvailabilityOccurrence = async (ruleId: string, day: string): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    await updateDoc(doc(db, "availabilityRules", ruleId), {
+      [`exceptions.${day}`]: { deleted: true },
+      updatedAt: serverTimestamp(),
+    })
+  } catch (error) {
+    console.error("Error deleting availability occurrence:", error)
+    throw error
+  }
+}
+
 // Lista de especialidades médicas comuns
 export const medicalSpecialties = [
   "Acupuntura",
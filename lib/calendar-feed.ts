@@ -0,0 +1,33 @@
+import { adminDb } from "./firebase-admin"
+import { toContract } from "./contract-service"
+import { toAvailabilityRule, toTimeSlot, withRuleOccurrences } from "./availability-service"
+import { renderDoctorCalendar } from "./calendar-service"
+
+// Feed de assinatura, lido pela rota sem usuário logado: o token identifica o médico e a leitura é feita com o
+// SDK admin, sem gravar nada
+
+// Resolve a feed token into the iCalendar document; null when the token is unknown
+export const getCalendarFeed = async (token: string): Promise<string | null> => {
+  try {
+    const feedDoc = await adminDb.collection("calendarFeeds").doc(token).get()
+    const uid = feedDoc.data()?.uid
+    if (!uid) return null
+
+    const [contracts, timeSlots, rules] = await Promise.all([
+      adminDb.collection("contracts").where("doctorId", "==", uid).get(),
+      adminDb.collection("timeSlots").where("doctorId", "==", uid).get(),
+      adminDb.collection("availabilityRules").where("doctorId", "==", uid).get(),
+    ])
+
+    return renderDoctorCalendar(
+      contracts.docs.map((snapshot) => toContract(snapshot.id, snapshot.data())),
+      withRuleOccurrences(
+        timeSlots.docs.map((snapshot) => toTimeSlot(snapshot.id, snapshot.data())),
+        rules.docs.map((snapshot) => toAvailabilityRule(snapshot.id, snapshot.data())),
+      ),
+    )
+  } catch (error) {
+    console.error("Error getting calendar feed:", error)
+    throw error
+  }
+}
@@ -0,0 +1,125 @@
+import { deleteDoc, doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import { db, auth } from "./firebase"
+import { getContracts, type Contract } from "./contract-service"
+import { getTimeSlots, type TimeSlot } from "./availability-service"
+import { buildCalendar, type IcsEvent } from "./ical"
+import { DEFAULT_TIME_ZONE, getSlotWindow } from "./shift-timing"
+
+// Eventos encerrados há mais tempo que isso ficam de fora do arquivo
+const PAST_EVENTS_DAYS = 30
+
+const CALENDAR_NAME = "Plantões"
+
+const contractStatusToIcs: Record<Contract["status"], IcsEvent["status"]> = {
+  upcoming: "CONFIRMED",
+  awaiting_approval: "CONFIRMED",
+  hours_adjusted: "CONFIRMED",
+  hours_contested: "CONFIRMED",
+  completed: "CONFIRMED",
+  canceled: "CANCELLED",
+  canceled_by_hospital: "CANCELLED",
+}
+
+const contractToEvent = (contract: Contract): IcsEvent => ({
+  uid: `contract-${contract.id}@plantao-medico`,
+  start: contract.startAt,
+  end: contract.endAt,
+  timeZone: contract.timeZone,
+  summary: `Plantão ${contract.specialty} - ${contract.hospital}`,
+  description: `Contrato de plantão em ${contract.hospital}. Valor: R$ ${contract.value.toFixed(2)}`,
+  location: contract.location,
+  status: contractStatusToIcs[contract.status],
+  sequence: contract.calendarSequence,
+  lastModified: contract.updatedAt,
+})
+
+const slotToEvent = (slot: TimeSlot): IcsEvent | null => {
+  const window = getSlotWindow(slot.date, slot.startTime, slot.endTime)
+  if (!window) return null
+
+  return {
+    uid: `availability-${slot.id}@plantao-medico`,
+    start: window.start,
+    end: window.end,
+    timeZone: DEFAULT_TIME_ZONE,
+    summary: "Disponível para plantão",
+    description: slot.specialties.length > 0 ? `Especialidades: ${slot.specialties.join(", ")}` : undefined,
+    status: "TENTATIVE",
+    transparent: true,
+    lastModified: slot.updatedAt,
+  }
+}
+
+// Contratos e disponibilidades no formato iCalendar
+export const renderDoctorCalendar = (contracts: Contract[], timeSlots: TimeSlot[], now = new Date()): string => {
+  const since = new Date(now.getTime() - PAST_EVENTS_DAYS * 24 * 60 * 60 * 1000)
+
+  const events = [
+    ...contracts.map(contractToEvent),
+    ...timeSlots.map(slotToEvent).filter((event): event is IcsEvent => event !== null),
+  ].filter((event) => event.end >= since)
+
+  return buildCalendar(events, { name: CALENDAR_NAME })
+}
+
+// Contratos e disponibilidades de um médico no formato iCalendar
+export const buildDoctorCalendar = async (doctorId: string): Promise<string> => {
+  try {
+    const [contracts, timeSlots] = await Promise.all([getContracts(doctorId), getTimeSlots(doctorId)])
+    return renderDoctorCalendar(contracts, timeSlots)
+  } catch (error) {
+    console.error("Error building doctor calendar:", error)
+    throw error
+  }
+}
+
+// Build the .ics export for the current doctor
+export const exportCalendar = async (): Promise<string> => {
+  const uid = auth.currentUser?.uid
+  if (!uid) throw new Error("User not authenticated")
+
+  return buildDoctorCalendar(uid)
+}
+
+const createFeedToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+// Get (or create) the secret token of the current doctor's subscription feed
+export const getCalendarFeedToken = async (): Promise<string> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const userDoc = await getDoc(doc(db, "users", uid))
+    const existing = userDoc.data()?.calendarFeedToken
+    if (existing) return existing
+
+    return await rotateCalendarFeedToken()
+  } catch (error) {
+    console.error("Error getting calendar feed token:", error)
+    throw error
+  }
+}
+
+// Replace the feed token, invalidating the previous subscription URL
+export const rotateCalendarFeedToken = async (): Promise<string> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const userRef = doc(db, "users", uid)
+    const previous = (await getDoc(userRef)).data()?.calendarFeedToken
+
+    const token = createFeedToken()
+    await setDoc(doc(db, "calendarFeeds", token), { uid, createdAt: serverTimestamp() })
+    await updateDoc(userRef, { calendarFeedToken: token, updatedAt: serverTimestamp() })
+    if (previous) await deleteDoc(doc(db, "calendarFeeds", previous))
+
+    return token
+  } catch (error) {
+    console.error("Error rotating calendar feed token:", error)
+    throw error
+  }
+}
@@ -0,0 +1,72 @@
+import type { ShiftTiming } from "./shift-timing"
+
+// Cancelamento a menos de hoursBefore horas do início custa penaltyPercent do valor do plantão
+export interface CancellationWindow {
+  hoursBefore: number
+  penaltyPercent: number
+}
+
+// Prazos de cancelamento do hospital; a mesma tabela define a multa do médico que cancela e a
+// compensação devida a ele quando quem cancela é o hospital
+export interface CancellationPolicy {
+  windows: CancellationWindow[]
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  windows: [
+    { hoursBefore: 72, penaltyPercent: 20 },
+    { hoursBefore: 24, penaltyPercent: 50 },
+  ],
+}
+
+// Completa a política do hospital com os valores padrão; faixas ordenadas da maior para a menor antecedência
+export const resolveCancellationPolicy = (policy?: Partial<CancellationPolicy> | null): CancellationPolicy => {
+  const windows = (policy?.windows || DEFAULT_CANCELLATION_POLICY.windows)
+    .filter((rule) => rule.hoursBefore > 0 && rule.penaltyPercent >= 0)
+    .map((rule) => ({ hoursBefore: rule.hoursBefore, penaltyPercent: Math.min(100, rule.penaltyPercent) }))
+
+  return { windows: windows.sort((a, b) => b.hoursBefore - a.hoursBefore) }
+}
+
+export interface CancellationAssessment {
+  // Antecedência do cancelamento em horas (negativa se o plantão já começou)
+  noticeHours: number
+  penaltyPercent: number
+  amount: number
+  // Faixa aplicada; ausente quando o cancelamento é gratuito
+  window?: CancellationWindow
+}
+
+const HOUR = 60 * 60 * 1000
+
+// Multa (ou compensação) de um cancelamento feito em "at"; vale a faixa de menor antecedência que o alcança
+export const evaluateCancellation = (
+  shift: Pick<ShiftTiming, "startAt"> & { value: number },
+  policy: CancellationPolicy,
+  at: Date,
+): CancellationAssessment => {
+  const noticeHours = Math.round(((shift.startAt.getTime() - at.getTime()) / HOUR) * 10) / 10
+  const rule = policy.windows.filter((candidate) => noticeHours < candidate.hoursBefore).pop()
+  const penaltyPercent = rule?.penaltyPercent || 0
+
+  return {
+    noticeHours,
+    penaltyPercent,
+    amount: Math.round(shift.value * penaltyPercent) / 100,
+    ...(rule && { window: rule }),
+  }
+}
+
+// Texto de cada faixa da política, da maior para a menor antecedência
+export const describeCancellationPolicy = (policy: CancellationPolicy): string[] => {
+  if (policy.windows.length === 0) return ["Cancelamento sem multa a qualquer momento."]
+
+  return [
+    `Sem multa com mais de ${policy.windows[0].hoursBefore}h de antecedência.`,
+    ...policy.windows.map((rule, index) => {
+      const next = policy.windows[index + 1]
+      const range = next ? `entre ${rule.hoursBefore}h e ${next.hoursBefore}h antes` : `a menos de ${rule.hoursBefore}h`
+      return `${rule.penaltyPercent}% do valor ${range} do início.`
+    }),
+  ]
+}
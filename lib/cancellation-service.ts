@@ -0,0 +1,106 @@
+import { collection, getCountFromServer, getDocs, query, where, type DocumentData } from "firebase/firestore"
+import { db, auth } from "./firebase"
+import type { PaymentRecord } from "./payment-terms"
+
+// Lançamento gerado por um cancelamento: multa cobrada do médico ("penalty") ou compensação devida
+// a ele pelo hospital ("compensation")
+export interface CancellationRecord {
+  id: string
+  contractId: string
+  doctorId: string
+  hospitalId: string
+  hospital: string
+  initiatedBy: "doctor" | "hospital"
+  kind: "penalty" | "compensation"
+  amount: number
+  penaltyPercent: number
+  noticeHours: number
+  reason: string
+  shiftStartAt: Date
+  // Quitação da multa ou pagamento da compensação
+  payment?: PaymentRecord
+  createdAt?: Date
+}
+
+export interface DoctorReliability {
+  completed: number
+  // Cancelamentos feitos pelo médico e, entre eles, os que geraram multa
+  canceledByDoctor: number
+  lateCancellations: number
+  // Parcela dos plantões encerrados que o médico cumpriu; null sem histórico
+  completionRate: number | null
+  penalties: number
+  compensations: number
+}
+
+const toCancellationRecord = (id: string, data: DocumentData): CancellationRecord => ({
+  id,
+  contractId: data.contractId,
+  doctorId: data.doctorId,
+  hospitalId: data.hospitalId,
+  hospital: data.hospital,
+  initiatedBy: data.initiatedBy,
+  kind: data.kind,
+  amount: data.amount || 0,
+  penaltyPercent: data.penaltyPercent || 0,
+  noticeHours: data.noticeHours,
+  reason: data.reason || "",
+  shiftStartAt: data.shiftStartAt.toDate(),
+  payment: data.payment ? { ...data.payment, paidAt: data.payment.paidAt.toDate() } : undefined,
+  createdAt: data.createdAt?.toDate(),
+})
+
+// Get the cancellation records of a doctor (defaults to the current one), newest first
+export const getCancellationRecords = async (doctorId?: string): Promise<CancellationRecord[]> => {
+  try {
+    const uid = doctorId || auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const querySnapshot = await getDocs(query(collection(db, "cancellationRecords"), where("doctorId", "==", uid)))
+
+    return querySnapshot.docs
+      .map((recordDoc) => toCancellationRecord(recordDoc.id, recordDoc.data()))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+  } catch (error) {
+    console.error("Error getting cancellation records:", error)
+    throw error
+  }
+}
+
+// Reliability metrics of a doctor: completed shifts against the ones they canceled, and penalty totals
+export const getDoctorReliability = async (doctorId?: string): Promise<DoctorReliability> => {
+  try {
+    const uid = doctorId || auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    // Cancelamentos anteriores aos registros contam pelo status do contrato
+    const [completed, canceled, records] = await Promise.all([
+      getCountFromServer(
+        query(collection(db, "contracts"), where("doctorId", "==", uid), where("status", "==", "completed")),
+      ),
+      getCountFromServer(
+        query(collection(db, "contracts"), where("doctorId", "==", uid), where("status", "==", "canceled")),
+      ),
+      getCancellationRecords(uid),
+    ])
+
+    const completedCount = completed.data().count
+    const canceledByDoctor = canceled.data().count
+    const total = completedCount + canceledByDoctor
+    const sum = (kind: CancellationRecord["kind"]) =>
+      records.filter((record) => record.kind === kind).reduce((amount, record) => amount + record.amount, 0)
+
+    return {
+      completed: completedCount,
+      canceledByDoctor,
+      lateCancellations: records.filter((record) => record.initiatedBy === "doctor" && record.penaltyPercent > 0)
+        .length,
+      completionRate: total > 0 ? completedCount / total : null,
+      penalties: sum("penalty"),
+      compensations: sum("compensation"),
+    }
+  } catch (error) {
+    console.error("Error getting doctor reliability:", error)
+    throw error
+  }
+}
@@ -0,0 +1,258 @@
+import type { DocumentData } from "firebase/firestore"
+import { buildPdf, sha256Hex, type PdfBlock } from "./pdf"
+import { amountInWords } from "./amount-in-words"
+import { describeCancellationPolicy, type CancellationPolicy } from "./cancellation-policy"
+import { DEFAULT_PAYMENT_TERMS, describePaymentTerms, type PaymentTerms } from "./payment-terms"
+import { formatDuration, getHourlyRate, getShiftHours, toZonedInputValues, type ShiftTiming } from "./shift-timing"
+import type { DoctorProfile } from "./profile-service"
+import type { HospitalProfile } from "./hospital-service"
+
+// Mudanças no texto das cláusulas exigem nova versão: o hash dos contratos já assinados depende dele
+export const CONTRACT_DOCUMENT_VERSION = 2
+
+// Dados do contrato congelados no aceite; o documento é sempre gerado novamente a partir deles
+export interface ContractTerms extends ShiftTiming {
+  version: number
+  hospital: { name: string; cnpj: string; address: string }
+  doctor: { name: string; cpf: string; crm: string; address: string }
+  specialty: string
+  location: string
+  description: string
+  requirements: string
+  value: number
+  cancellationPolicy: CancellationPolicy
+  // Ausente nos termos da versão 1, que usavam sempre o prazo padrão
+  paymentTerms?: PaymentTerms
+}
+
+export type SignatureParty = "doctor" | "hospital"
+
+// Evidências de uma assinatura eletrônica
+export interface ContractSignature {
+  signerId: string
+  signerName: string
+  // CPF/CRM do médico ou CNPJ do hospital
+  signerDocument: string
+  signedAt: Date
+  ipAddress: string
+  userAgent: string
+  // Hash do documento que o signatário viu ao assinar
+  documentHash: string
+}
+
+export type ContractSignatures = Partial<Record<SignatureParty, ContractSignature>>
+
+// Dados do dispositivo, lidos pelo servidor na requisição que registra a assinatura
+export type SignatureContext = Pick<ContractSignature, "ipAddress" | "userAgent">
+
+// "unsigned": contrato anterior à assinatura eletrônica; "document_changed": os termos gravados não geram
+// mais o documento que o signatário viu
+export type SignatureFailure = "not_found" | "unsigned" | "already_signed" | "canceled" | "document_changed"
+
+export class SignatureError extends Error {
+  constructor(public reason: SignatureFailure) {
+    super(`Contract signature rejected (${reason})`)
+    this.name = "SignatureError"
+  }
+}
+
+// Campos da proposta que entram no contrato
+export type ContractShift = ShiftTiming & {
+  hospital: string
+  specialty: string
+  location: string
+  description: string
+  requirements: string
+  value: number
+}
+
+export const buildContractTerms = (
+  shift: ContractShift,
+  doctorProfile: DoctorProfile | null,
+  hospitalProfile: HospitalProfile | null,
+  cancellationPolicy: CancellationPolicy,
+  paymentTerms: PaymentTerms,
+): ContractTerms => ({
+  version: CONTRACT_DOCUMENT_VERSION,
+  hospital: {
+    name: hospitalProfile?.name || shift.hospital,
+    cnpj: hospitalProfile?.cnpj || "",
+    address: hospitalProfile?.address || "",
+  },
+  doctor: {
+    name: doctorProfile?.personal?.name || "",
+    cpf: doctorProfile?.personal?.cpf || "",
+    crm: doctorProfile?.professional?.crm || "",
+    address: doctorProfile?.personal?.address || "",
+  },
+  specialty: shift.specialty,
+  startAt: shift.startAt,
+  endAt: shift.endAt,
+  timeZone: shift.timeZone,
+  location: shift.location,
+  description: shift.description || "",
+  requirements: shift.requirements || "",
+  value: shift.value,
+  cancellationPolicy: { windows: cancellationPolicy.windows.map((rule) => ({ ...rule })) },
+  paymentTerms: { ...paymentTerms },
+})
+
+export const readContractTerms = (data: DocumentData): ContractTerms => ({
+  ...(data as ContractTerms),
+  startAt: data.startAt.toDate(),
+  endAt: data.endAt.toDate(),
+})
+
+export const readContractSignatures = (data: DocumentData | undefined): ContractSignatures => {
+  const signatures: ContractSignatures = {}
+  ;(["doctor", "hospital"] as SignatureParty[]).forEach((party) => {
+    const signature = data?.[party]
+    if (signature) signatures[party] = { ...signature, signedAt: signature.signedAt?.toDate() || new Date(0) }
+  })
+  return signatures
+}
+
+// "25/12/2025 às 19:00", no fuso do plantão; sem toLocaleString para que o texto não dependa do navegador
+export const formatInstant = (instant: Date, timeZone: string): string => {
+  const { day, time } = toZonedInputValues(instant, timeZone)
+  const [year, month, date] = day.split("-")
+  return `${date}/${month}/${year} às ${time}`
+}
+
+const formatMoney = (value: number): string => `R$ ${value.toFixed(2).replace(".", ",")}`
+
+const orNotInformed = (value: string) => value || "não informado"
+
+// Cláusulas do contrato, na ordem em que aparecem no PDF e na tela
+export const getContractClauses = (terms: ContractTerms): PdfBlock[] => {
+  const { hospital, doctor } = terms
+  const hourlyRate = getHourlyRate(terms)
+  const clause = (text: string): PdfBlock => ({ kind: "heading", text })
+  const paragraph = (text: string): PdfBlock => ({ kind: "paragraph", text })
+  const bullet = (text: string): PdfBlock => ({ kind: "bullet", text })
+
+  return [
+    { kind: "title", text: "CONTRATO DE PRESTAÇÃO DE SERVIÇOS MÉDICOS" },
+    paragraph(
+      `CONTRATANTE: ${hospital.name}, inscrito no CNPJ sob o nº ${orNotInformed(hospital.cnpj)}, ` +
+        `com sede em ${orNotInformed(hospital.address)}.`,
+    ),
+    paragraph(
+      `CONTRATADO: ${orNotInformed(doctor.name)}, médico, inscrito no CRM sob o nº ${orNotInformed(doctor.crm)}, ` +
+        `CPF nº ${orNotInformed(doctor.cpf)}, residente e domiciliado em ${orNotInformed(doctor.address)}.`,
+    ),
+    clause("CLÁUSULA PRIMEIRA - OBJETO"),
+    paragraph(
+      `O presente contrato tem por objeto a prestação de serviços médicos pelo CONTRATADO ao CONTRATANTE, na ` +
+        `especialidade de ${terms.specialty}, na modalidade de plantão médico, em ${terms.location}, de ` +
+        `${formatInstant(terms.startAt, terms.timeZone)} a ${formatInstant(terms.endAt, terms.timeZone)} ` +
+        `(horário de ${terms.timeZone}), com duração total de ${formatDuration(getShiftHours(terms))}.`,
+    ),
+    ...(terms.description ? [paragraph(`Descrição do plantão: ${terms.description}`)] : []),
+    ...(terms.requirements ? [paragraph(`Requisitos: ${terms.requirements}`)] : []),
+    clause("CLÁUSULA SEGUNDA - VALOR E FORMA DE PAGAMENTO"),
+    paragraph(
+      `Pelos serviços prestados, o CONTRATANTE pagará ao CONTRATADO o valor total de ${formatMoney(terms.value)} ` +
+        `(${amountInWords(terms.value)})` +
+        (hourlyRate !== null ? `, correspondente a ${formatMoney(hourlyRate)} por hora trabalhada.` : "."),
+    ),
+    paragraph(
+      `O pagamento será realizado em até ${describePaymentTerms(terms.paymentTerms || DEFAULT_PAYMENT_TERMS)} ` +
+        "após a conclusão do plantão, mediante depósito bancário na conta indicada pelo CONTRATADO.",
+    ),
+    clause("CLÁUSULA TERCEIRA - OBRIGAÇÕES DO CONTRATADO"),
+    bullet("Comparecer ao local de trabalho no dia e horário estabelecidos;"),
+    bullet("Realizar o check-in e check-out através do aplicativo, utilizando a leitura facial;"),
+    bullet("Prestar os serviços médicos com zelo, diligência e ética profissional;"),
+    bullet("Cumprir as normas e regulamentos internos do CONTRATANTE;"),
+    bullet("Preencher corretamente os prontuários e documentos médicos;"),
+    bullet("Utilizar os equipamentos de proteção individual fornecidos pelo CONTRATANTE."),
+    clause("CLÁUSULA QUARTA - OBRIGAÇÕES DO CONTRATANTE"),
+    bullet("Fornecer as condições necessárias para a prestação dos serviços;"),
+    bullet("Fornecer os equipamentos de proteção individual;"),
+    bullet("Efetuar o pagamento na forma e prazo estabelecidos;"),
+    bullet("Fornecer alimentação durante o período de plantão."),
+    clause("CLÁUSULA QUINTA - CANCELAMENTO"),
+    paragraph(
+      "Qualquer das partes pode cancelar o plantão antes do seu início, informando o motivo. O cancelamento pelo " +
+        "CONTRATADO gera multa, e o cancelamento pelo CONTRATANTE gera compensação ao CONTRATADO, conforme a " +
+        "antecedência:",
+    ),
+    ...describeCancellationPolicy(terms.cancellationPolicy).map(bullet),
+    clause("CLÁUSULA SEXTA - DISPOSIÇÕES GERAIS"),
+    paragraph(
+      "O presente contrato não estabelece vínculo empregatício entre as partes, sendo o CONTRATADO responsável " +
+        "pelo recolhimento dos tributos incidentes sobre os valores recebidos.",
+    ),
+    clause("CLÁUSULA SÉTIMA - FORO"),
+    paragraph(
+      "Fica eleito o foro da comarca da sede do CONTRATANTE para dirimir quaisquer dúvidas ou controvérsias " +
+        "oriundas do presente contrato.",
+    ),
+    paragraph(
+      "E, por estarem assim justas e contratadas, as partes assinam o presente contrato eletronicamente, para que " +
+        "produza seus efeitos legais. Data, hora e demais evidências de cada assinatura constam da página de " +
+        "evidências.",
+    ),
+  ]
+}
+
+const documentOptions = (terms: ContractTerms) => ({
+  title: `Contrato de plantão - ${terms.hospital.name}`,
+  footer: `Contrato de prestação de serviços médicos (modelo v${terms.version})`,
+})
+
+// Documento que as partes assinam; o hash é calculado sobre estes bytes
+export const renderContractDocument = (terms: ContractTerms): Uint8Array => {
+  return buildPdf([getContractClauses(terms)], documentOptions(terms))
+}
+
+export const getContractDocumentHash = (terms: ContractTerms): Promise<string> => {
+  return sha256Hex(renderContractDocument(terms))
+}
+
+const partyLabels: Record<SignatureParty, string> = {
+  doctor: "CONTRATADO (médico)",
+  hospital: "CONTRATANTE (hospital)",
+}
+
+// Página de evidências anexada à cópia assinada
+const getEvidenceBlocks = (signatures: ContractSignatures, documentHash: string): PdfBlock[] => [
+  { kind: "title", text: "PÁGINA DE EVIDÊNCIAS DAS ASSINATURAS" },
+  {
+    kind: "paragraph",
+    text:
+      "As páginas anteriores reproduzem o documento assinado eletronicamente. O hash abaixo é calculado sobre o " +
+      "documento gerado a partir dos termos do contrato, sem esta página.",
+  },
+  { kind: "paragraph", text: `Hash SHA-256 do documento: ${documentHash}` },
+  ...(["doctor", "hospital"] as SignatureParty[]).flatMap((party): PdfBlock[] => {
+    const signature = signatures[party]
+    if (!signature) return [{ kind: "heading", text: partyLabels[party] }, { kind: "paragraph", text: "Pendente." }]
+
+    return [
+      { kind: "heading", text: partyLabels[party] },
+      { kind: "bullet", text: `Signatário: ${signature.signerName} (${orNotInformed(signature.signerDocument)})` },
+      { kind: "bullet", text: `Identificador do usuário: ${signature.signerId}` },
+      { kind: "bullet", text: `Data e hora (UTC): ${signature.signedAt.toISOString()}` },
+      { kind: "bullet", text: `Endereço IP: ${orNotInformed(signature.ipAddress)}` },
+      { kind: "bullet", text: `Navegador: ${orNotInformed(signature.userAgent)}` },
+      {
+        kind: "bullet",
+        text:
+          signature.documentHash === documentHash
+            ? "Hash do documento assinado confere com o documento acima."
+            : `Hash do documento assinado diverge: ${signature.documentHash}`,
+      },
+    ]
+  }),
+]
+
+// Cópia para download: o contrato seguido da página de evidências
+export const renderSignedContract = (
+  terms: ContractTerms,
+  signatures: ContractSignatures,
+  documentHash: string,
+): Uint8Array => {
+  return buildPdf([getContractClauses(terms), getEvidenceBlocks(signatures, documentHash)], documentOptions(terms))
+}
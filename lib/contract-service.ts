@@ -1,62 +1,491 @@
-import { collection, doc, getDoc, getDocs, query, where, addDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  getCountFromServer,
+  query,
+  where,
+  updateDoc,
+  serverTimestamp,
+  increment,
+  runTransaction,
+  arrayUnion,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type Transaction,
+} from "firebase/firestore"
 import { db, auth } from "./firebase"
+import type { Geofence } from "./geo"
+import { getHospitalGeofence, getHospitalProfile } from "./hospital-service"
+import { isCheckOutMissing, resolveAttendancePolicy, type AttendancePolicy } from "./attendance-policy"
+import { getHourlyRate, readShiftTiming, type ShiftTiming } from "./shift-timing"
+import { resolveExpiry } from "./proposal-expiry"
+import { evaluateWorkLimits, resolveWorkLimits, type WorkLimitIssue } from "./work-limits"
+import { getDoctorProfile, isEligibleForShift } from "./profile-service"
+import {
+  findOverlap,
+  getRecentBookings,
+  readScheduleBookings,
+  toStoredBookings,
+  type ScheduleBooking,
+} from "./doctor-schedule"
+import { buildListConstraints, fetchListPage, getSearchFields, type ListFilters, type ListPage } from "./list-query"
+import {
+  evaluateCancellation,
+  resolveCancellationPolicy,
+  type CancellationAssessment,
+  type CancellationPolicy,
+} from "./cancellation-policy"
+import { resolvePaymentTerms, type PaymentRecord, type PaymentTerms } from "./payment-terms"
+import { readRpaReceipt, type RpaReceipt } from "./rpa-document"
+import {
+  buildContractTerms,
+  getContractDocumentHash,
+  readContractSignatures,
+  readContractTerms,
+  type ContractShift,
+  type ContractSignatures,
+  type ContractTerms,
+} from "./contract-document"
+import { signContract } from "./signature-service"
+import {
+  AttendanceError,
+  FaceCheckError,
+  GeofenceError,
+  LocationAccuracyError,
+  PunchError,
+  hasAttendance,
+  readAttendancePunches,
+  type AttendancePunch,
+  type LocationEvidence,
+  type PunchInput,
+  type PunchRejection,
+} from "./attendance-log"
+import {
+  CANCELED_STATUSES,
+  REVIEW_STATUSES,
+  ContractTransitionError,
+  applyContractTransition,
+  canTransition,
+  isCanceledStatus,
+  isReviewStatus,
+  type ContractStatus,
+  type ContractStatusChange,
+  type TransitionFieldValues,
+} from "./contract-transitions"
 
-export type ContractStatus = "upcoming" | "completed" | "canceled"
+export {
+  CANCELED_STATUSES,
+  REVIEW_STATUSES,
+  ContractTransitionError,
+  canTransition,
+  isCanceledStatus,
+  isReviewStatus,
+  type ContractStatus,
+  type ContractStatusChange,
+}
+
+const clientFieldValues: TransitionFieldValues = { increment, serverTimestamp, arrayUnion }
+
+// Mudança de status dentro da transação, conferida pela máquina de estados (ver contract-transitions)
+export const transitionContract = (
+  transaction: Transaction,
+  ref: DocumentReference,
+  from: ContractStatus,
+  to: ContractStatus,
+  changedBy: string,
+  fields: DocumentData = {},
+): void => applyContractTransition(transaction, ref, clientFieldValues, { from, to, changedBy }, fields)
+
+// Erros do registro de ponto, definidos junto dele para a rota do servidor usar os mesmos
+export { AttendanceError, FaceCheckError, GeofenceError, LocationAccuracyError, PunchError }
+export type { LocationEvidence, PunchInput, PunchRejection }
+
+// "bidding": plantão aberto que só aceita lances; "not_eligible": especialidade fora do perfil do médico;
+// "document_changed": os termos mudaram depois que o médico abriu o contrato para assinar
+export type AcceptanceFailure =
+  | "not_found"
+  | "not_pending"
+  | "expired"
+  | "assigned"
+  | "bidding"
+  | "not_eligible"
+  | "overlap"
+  | "document_changed"
+
+export type { ScheduleBooking }
+
+// Aceite recusado: proposta indisponível ou horário já ocupado por outro contrato
+export class AcceptanceError extends Error {
+  constructor(
+    public reason: AcceptanceFailure,
+    public conflict?: ScheduleBooking,
+  ) {
+    super(`Proposal acceptance rejected (${reason})`)
+    this.name = "AcceptanceError"
+  }
+}
+
+// Aceite que excede descanso mínimo ou carga semanal; blocking indica que o hospital não permite
+// confirmar mesmo assim
+export class WorkLimitError extends Error {
+  constructor(
+    public issues: WorkLimitIssue[],
+    public blocking: boolean,
+  ) {
+    super(`Work limits exceeded (${issues.map((issue) => issue.kind).join(", ")})`)
+    this.name = "WorkLimitError"
+  }
+}
+
+export type CancellationFailure = "reason_required" | "not_cancelable"
+
+// Cancelamento recusado: sem motivo informado ou contrato que não pode mais ser cancelado
+export class CancellationError extends Error {
+  constructor(public reason: CancellationFailure) {
+    super(`Contract cancellation rejected (${reason})`)
+    this.name = "CancellationError"
+  }
+}
+
+export interface CreateContractOptions {
+  // O médico já viu os avisos de jornada e confirmou o aceite
+  acknowledgeWorkLimits?: boolean
+  // Hash do documento que o médico leu; o aceite é a assinatura dele sobre esse documento
+  documentHash: string
+}
+
+// Médico responsável pelo plantão a partir de "since"; o primeiro é quem aceitou a proposta
+export interface ContractHolder {
+  doctorId: string
+  doctorName: string
+  since: Date
+  via: "proposal" | "swap"
+  swapId?: string
+}
+
+// Quem cancelou, por quê e a multa (médico) ou compensação (hospital) calculada pela política do contrato
+export interface ContractCancellation extends CancellationAssessment {
+  initiatedBy: "doctor" | "hospital"
+  canceledBy: string
+  reason: string
+  canceledAt: Date
+}
+
+export type AmendmentStatus = "open" | "approved" | "rejected" | "withdrawn"
+
+// Campos do contrato que podem ser alterados por aditivo
+export type AmendableField = "startAt" | "endAt" | "location" | "value"
+
+export interface AmendmentChange {
+  field: AmendableField
+  from: Date | string | number
+  to: Date | string | number
+}
+
+// Aditivo proposto por uma das partes; só vale depois que a outra aprova
+export interface ContractAmendment {
+  by: "doctor" | "hospital"
+  authorId: string
+  authorName: string
+  changes: AmendmentChange[]
+  message: string
+  status: AmendmentStatus
+  createdAt: Date
+  respondedAt?: Date
+  respondedBy?: string
+  // Versão do contrato gerada pela aprovação
+  version?: number
+}
+
+export type HoursReviewAction = "approved" | "adjusted" | "accepted" | "contested"
+
+// Passo da aprovação das horas: conferência do hospital, ajuste com justificativa e resposta do médico
+export interface HoursReviewEntry {
+  by: "doctor" | "hospital"
+  authorId: string
+  action: HoursReviewAction
+  // Horas (em minutos) que esta parte considera devidas
+  minutes: number
+  justification?: string
+  at: Date
+}
+
+export interface TimesheetSignature {
+  signerId: string
+  signerName: string
+  signedAt: Date
+  workedMinutes: number
+}
 
-export interface Contract {
+export interface Contract extends ShiftTiming {
   id?: string
   proposalId: string
   doctorId: string
   hospitalId: string
   hospital: string
   specialty: string
-  date: Date
-  time: string
-  duration: string
   location: string
   value: number
   status: ContractStatus
+  statusChangedAt?: Date
+  // Mudanças de status pela máquina de estados; vazio em contratos anteriores ao histórico
+  statusHistory: ContractStatusChange[]
+  // Registro de ponto; check-in e check-out são a primeira entrada e a saída final
+  punches: AttendancePunch[]
   checkInTime?: Date
   checkOutTime?: Date
+  geofence?: Geofence
+  checkInLocation?: LocationEvidence
+  checkOutLocation?: LocationEvidence
+  // Horas trabalhadas pelas marcações, gravadas na saída final
+  workedMinutes?: number
+  // Assinatura do hospital na folha de ponto
+  timesheetSignature?: TimesheetSignature
+  hoursReview: HoursReviewEntry[]
+  // Horas aprovadas, as únicas faturáveis; ausente em contratos concluídos antes da aprovação
+  approvedMinutes?: number
+  locationFlagged?: boolean
+  attendancePolicy?: AttendancePolicy
+  lateMinutes?: number
+  late?: boolean
+  checkOutMissing?: boolean
+  calendarSequence?: number
+  // Avisos de jornada confirmados pelo médico no aceite
+  workLimitIssues?: WorkLimitIssue[]
+  // Histórico de quem assumiu o plantão (trocas entre médicos)
+  holders: ContractHolder[]
+  // Troca em andamento; enquanto houver, outra não pode ser oferecida
+  activeSwapId?: string | null
+  cancellationPolicy?: CancellationPolicy
+  paymentTerms?: PaymentTerms
+  // Pagamento do valor faturável, quando registrado
+  payment?: PaymentRecord
+  // Recibo de pagamento a autônomo, emitido pelo hospital para médicos pessoa física
+  rpa?: RpaReceipt
+  cancellation?: ContractCancellation
+  // Termos e hash do documento assinado; ausentes em contratos anteriores à assinatura eletrônica
+  terms?: ContractTerms
+  documentHash?: string
+  signatures: ContractSignatures
+  // Começa em 1 e aumenta a cada aditivo aprovado
+  version: number
+  amendments: ContractAmendment[]
   createdAt?: Date
   updatedAt?: Date
 }
 
+// Só horas aprovadas são faturáveis, pelo valor-hora do contrato. Contratos concluídos antes da aprovação de
+// horas valem o total contratado
+export const getBillableValue = (contract: Contract): number => {
+  if (contract.status !== "completed") return 0
+  const hourlyRate = getHourlyRate(contract)
+  if (contract.approvedMinutes === undefined || hourlyRate === null) return contract.value
+  return Math.round(((hourlyRate * contract.approvedMinutes) / 60) * 100) / 100
+}
+
+// Datas dos aditivos (e os horários alterados) chegam como Timestamps
+const toAmendmentValue = (value: DocumentData | string | number) =>
+  typeof value === "object" && "toDate" in value ? (value.toDate() as Date) : (value as string | number)
+
+const toContractAmendment = (data: DocumentData): ContractAmendment => ({
+  ...(data as ContractAmendment),
+  changes: data.changes.map((change: DocumentData) => ({
+    field: change.field,
+    from: toAmendmentValue(change.from),
+    to: toAmendmentValue(change.to),
+  })),
+  createdAt: data.createdAt.toDate(),
+  respondedAt: data.respondedAt?.toDate(),
+})
+
+export const toContract = (id: string, data: DocumentData): Contract => {
+  const punches = readAttendancePunches(data)
+  const checkIn = punches.find((punch) => punch.kind === "in")
+  const checkOut = punches.find((punch) => punch.kind === "out" && punch.final)
+
+  return {
+    id,
+    proposalId: data.proposalId,
+    doctorId: data.doctorId,
+    hospitalId: data.hospitalId,
+    hospital: data.hospital,
+    specialty: data.specialty,
+    ...readShiftTiming(data),
+    location: data.location,
+    value: data.value,
+    status: data.status,
+    statusChangedAt: data.statusChangedAt?.toDate(),
+    statusHistory: (data.statusHistory || []).map((change: DocumentData) => ({ ...change, at: change.at.toDate() })),
+    punches,
+    checkInTime: checkIn?.at,
+    checkOutTime: checkOut?.at,
+    geofence: data.geofence || undefined,
+    checkInLocation: checkIn?.location,
+    checkOutLocation: checkOut?.location,
+    workedMinutes: data.workedMinutes ?? undefined,
+    timesheetSignature: data.timesheetSignature
+      ? { ...data.timesheetSignature, signedAt: data.timesheetSignature.signedAt?.toDate() || new Date(0) }
+      : undefined,
+    hoursReview: (data.hoursReview || []).map((entry: DocumentData) => ({ ...entry, at: entry.at.toDate() })),
+    approvedMinutes: data.approvedMinutes ?? undefined,
+    locationFlagged: data.locationFlagged || false,
+    attendancePolicy: data.attendancePolicy || undefined,
+    lateMinutes: data.lateMinutes ?? undefined,
+    late: data.late || false,
+    checkOutMissing: data.checkOutMissing || false,
+    calendarSequence: data.calendarSequence || 0,
+    workLimitIssues: data.workLimitIssues?.map((issue: DocumentData) => ({
+      ...issue,
+      windowStart: issue.windowStart?.toDate(),
+    })),
+    // Contratos anteriores às trocas só tiveram o médico que aceitou a proposta
+    holders: data.holders
+      ? data.holders.map((holder: DocumentData) => ({ ...holder, since: holder.since.toDate() }))
+      : [{ doctorId: data.doctorId, doctorName: "", since: data.createdAt?.toDate() || new Date(0), via: "proposal" }],
+    activeSwapId: data.activeSwapId ?? null,
+    cancellationPolicy: data.cancellationPolicy || undefined,
+    paymentTerms: data.paymentTerms || undefined,
+    payment: data.payment ? { ...data.payment, paidAt: data.payment.paidAt.toDate() } : undefined,
+    rpa: data.rpa ? readRpaReceipt(data.rpa) : undefined,
+    cancellation: data.cancellation
+      ? { ...data.cancellation, canceledAt: data.cancellation.canceledAt?.toDate() || new Date(0) }
+      : undefined,
+    terms: data.terms ? readContractTerms(data.terms) : undefined,
+    documentHash: data.documentHash || undefined,
+    signatures: readContractSignatures(data.signatures),
+    version: data.version || 1,
+    amendments: (data.amendments || []).map(toContractAmendment),
+    createdAt: data.createdAt?.toDate(),
+    updatedAt: data.updatedAt?.toDate(),
+  }
+}
+
 // Create a new contract from a proposal
-export const createContract = async (proposalId: string): Promise<string> => {
+export const createContract = async (proposalId: string, options: CreateContractOptions): Promise<string> => {
   try {
     const uid = auth.currentUser?.uid
     if (!uid) throw new Error("User not authenticated")
 
-    // Get the proposal
-    const proposalDoc = await getDoc(doc(db, "proposals", proposalId))
-    if (!proposalDoc.exists()) throw new Error("Proposal not found")
-
-    const proposal = proposalDoc.data()
-
-    // Create the contract
-    const contractRef = await addDoc(collection(db, "contracts"), {
-      proposalId,
-      doctorId: uid,
-      hospitalId: proposal.hospitalId,
-      hospital: proposal.hospital,
-      specialty: proposal.specialty,
-      date: proposal.date,
-      time: proposal.time,
-      duration: proposal.duration,
-      location: proposal.location,
-      value: proposal.value,
-      status: "upcoming" as ContractStatus,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
-    })
+    const proposalRef = doc(db, "proposals", proposalId)
+    const proposalDoc = await getDoc(proposalRef)
+    if (!proposalDoc.exists()) throw new AcceptanceError("not_found")
+
+    // A área e as regras de horário do check-in acompanham o contrato, mesmo que o hospital
+    // altere o cadastro depois
+    const hospitalProfile = await getHospitalProfile(proposalDoc.data().hospitalId)
+    const geofence = getHospitalGeofence(hospitalProfile) || getHospitalGeofence(proposalDoc.data().hospitalProfile)
+    const attendancePolicy = resolveAttendancePolicy(hospitalProfile?.attendancePolicy)
+    const workLimits = resolveWorkLimits(hospitalProfile?.workLimits)
+    const cancellationPolicy = resolveCancellationPolicy(hospitalProfile?.cancellationPolicy)
+    const paymentTerms = resolvePaymentTerms(hospitalProfile?.paymentTerms)
+
+    // Contratos anteriores à agenda do médico entram nela na primeira reserva
+    const [existingBookings, doctorProfile] = await Promise.all([getRecentBookings(uid), getDoctorProfile(uid)])
+
+    const contractRef = doc(collection(db, "contracts"))
+    const scheduleRef = doc(db, "doctorSchedules", uid)
+
+    // Proposta, agenda e contrato mudam juntos: se outro aceite gravar antes, a transação é refeita
+    await runTransaction(db, async (transaction) => {
+      const [currentProposal, scheduleDoc] = await Promise.all([
+        transaction.get(proposalRef),
+        transaction.get(scheduleRef),
+      ])
+      if (!currentProposal.exists()) throw new AcceptanceError("not_found")
+
+      const proposal = currentProposal.data()
+      if (proposal.status !== "pending") throw new AcceptanceError("not_pending")
+      if (proposal.contractId || (proposal.doctorId && proposal.doctorId !== uid)) {
+        throw new AcceptanceError("assigned")
+      }
+      // Plantão aberto: quem assinar primeiro fica com ele, desde que tenha a especialidade
+      if (!proposal.doctorId) {
+        if (proposal.assignmentMode === "bidding") throw new AcceptanceError("bidding")
+        if (!isEligibleForShift(doctorProfile, proposal.specialty)) throw new AcceptanceError("not_eligible")
+      }
 
-    // Update the proposal status
-    await updateDoc(doc(db, "proposals", proposalId), {
-      status: "accepted",
-      updatedAt: serverTimestamp(),
+      const timing = readShiftTiming(proposal)
+      // O job de expiração roda periodicamente; o prazo também é conferido aqui
+      if (resolveExpiry(proposal.expiresAt?.toDate(), timing.startAt) <= new Date()) {
+        throw new AcceptanceError("expired")
+      }
+
+      const bookings = readScheduleBookings(scheduleDoc.data(), existingBookings)
+      const conflict = findOverlap(bookings, timing)
+      if (conflict) throw new AcceptanceError("overlap", conflict)
+
+      const workLimitIssues = evaluateWorkLimits(bookings, timing, workLimits)
+      if (workLimitIssues.length > 0 && (workLimits.enforcement === "block" || !options.acknowledgeWorkLimits)) {
+        throw new WorkLimitError(workLimitIssues, workLimits.enforcement === "block")
+      }
+
+      // O documento é gerado de novo com os dados atuais; se não for o que o médico leu, ele precisa reler
+      const terms = buildContractTerms(
+        { ...proposal, ...timing } as ContractShift,
+        doctorProfile,
+        hospitalProfile,
+        cancellationPolicy,
+        paymentTerms,
+      )
+      const documentHash = await getContractDocumentHash(terms)
+      if (documentHash !== options.documentHash) throw new AcceptanceError("document_changed")
+
+      const booking: ScheduleBooking = {
+        contractId: contractRef.id,
+        hospital: proposal.hospital,
+        startAt: timing.startAt,
+        endAt: timing.endAt,
+      }
+
+      transaction.set(contractRef, {
+        proposalId,
+        doctorId: uid,
+        hospitalId: proposal.hospitalId,
+        hospital: proposal.hospital,
+        specialty: proposal.specialty,
+        startAt: timing.startAt,
+        endAt: timing.endAt,
+        timeZone: timing.timeZone,
+        location: proposal.location,
+        value: proposal.value,
+        ...getSearchFields({
+          ...timing,
+          hospital: proposal.hospital,
+          location: proposal.location,
+          value: proposal.value,
+        }),
+        geofence,
+        attendancePolicy,
+        cancellationPolicy,
+        paymentTerms,
+        status: "upcoming" as ContractStatus,
+        ...(workLimitIssues.length > 0 && { workLimitIssues: workLimitIssues.map(toStoredWorkLimitIssue) }),
+        holders: [
+          { doctorId: uid, doctorName: doctorProfile?.personal?.name || "", since: Timestamp.now(), via: "proposal" },
+        ],
+        terms,
+        documentHash,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+      transaction.update(proposalRef, {
+        status: "accepted",
+        doctorId: uid,
+        contractId: contractRef.id,
+        updatedAt: serverTimestamp(),
+      })
+      transaction.set(scheduleRef, {
+        bookings: toStoredBookings([...bookings, booking]),
+        updatedAt: serverTimestamp(),
+      })
     })
 
+    // A assinatura é registrada pelo servidor, que grava o IP e o navegador da requisição
+    await signContract(contractRef.id, options.documentHash)
+
     return contractRef.id
   } catch (error) {
     console.error("Error creating contract:", error)
@@ -64,10 +493,26 @@ export const createContract = async (proposalId: string): Promise<string> => {
   }
 }
 
-// Get all contracts for the current doctor
-export const getContracts = async (): Promise<Contract[]> => {
+export const toStoredWorkLimitIssue = (issue: WorkLimitIssue) => ({
+  kind: issue.kind,
+  hours: issue.hours,
+  limit: issue.limit,
+  ...(issue.windowStart && { windowStart: Timestamp.fromDate(issue.windowStart) }),
+})
+
+// Plantão encerrado sem check-out: o job flag-missing-check-outs grava a marca; até ele rodar, a leitura só a
+// calcula em memória
+const withMissingCheckOut = (contract: Contract): Contract => {
+  if (contract.status !== "upcoming" || contract.checkOutMissing) return contract
+
+  const policy = resolveAttendancePolicy(contract.attendancePolicy)
+  return isCheckOutMissing(contract, policy, new Date()) ? { ...contract, checkOutMissing: true } : contract
+}
+
+// Get all contracts for a doctor (defaults to the current one)
+export const getContracts = async (doctorId?: string): Promise<Contract[]> => {
   try {
-    const uid = auth.currentUser?.uid
+    const uid = doctorId || auth.currentUser?.uid
     if (!uid) throw new Error("User not authenticated")
 
     const q = query(collection(db, "contracts"), where("doctorId", "==", uid))
@@ -75,59 +520,91 @@ export const getContracts = async (): Promise<Contract[]> => {
 
     const contracts: Contract[] = []
     querySnapshot.forEach((doc) => {
-      const data = doc.data()
-      contracts.push({
-        id: doc.id,
-        proposalId: data.proposalId,
-        doctorId: data.doctorId,
-        hospitalId: data.hospitalId,
-        hospital: data.hospital,
-        specialty: data.specialty,
-        date: data.date.toDate(),
-        time: data.time,
-        duration: data.duration,
-        location: data.location,
-        value: data.value,
-        status: data.status,
-        checkInTime: data.checkInTime?.toDate(),
-        checkOutTime: data.checkOutTime?.toDate(),
-        createdAt: data.createdAt?.toDate(),
-        updatedAt: data.updatedAt?.toDate(),
-      })
+      contracts.push(toContract(doc.id, doc.data()))
     })
 
-    return contracts
+    return contracts.map(withMissingCheckOut)
   } catch (error) {
     console.error("Error getting contracts:", error)
     throw error
   }
 }
 
+// Get one page of the current doctor's contracts with the given status, filtered and sorted in Firestore
+export const getContractPage = async (
+  status: ContractStatus,
+  filters: ListFilters = {},
+  cursor?: string | null,
+): Promise<ListPage<Contract>> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    // "canceled" lista os cancelamentos das duas partes e "awaiting_approval", todas as etapas da aprovação
+    const statusConstraint =
+      status === "canceled"
+        ? where("status", "in", CANCELED_STATUSES)
+        : status === "awaiting_approval"
+          ? where("status", "in", REVIEW_STATUSES)
+          : where("status", "==", status)
+    const page = await fetchListPage(
+      "contracts",
+      [where("doctorId", "==", uid), statusConstraint, ...buildListConstraints(filters)],
+      cursor,
+      toContract,
+    )
+
+    return { ...page, items: page.items.map(withMissingCheckOut) }
+  } catch (error) {
+    console.error("Error getting contract page:", error)
+    throw error
+  }
+}
+
+// Count a doctor's completed contracts per hospital
+export const getCompletedContractCountsByHospital = async (doctorId: string): Promise<Map<string, number>> => {
+  try {
+    const q = query(collection(db, "contracts"), where("doctorId", "==", doctorId), where("status", "==", "completed"))
+    const querySnapshot = await getDocs(q)
+
+    const counts = new Map<string, number>()
+    querySnapshot.forEach((doc) => {
+      const { hospitalId } = doc.data()
+      counts.set(hospitalId, (counts.get(hospitalId) || 0) + 1)
+    })
+
+    return counts
+  } catch (error) {
+    console.error("Error counting completed contracts:", error)
+    throw error
+  }
+}
+
+// Count the contracts a doctor completed with a hospital
+export const countCompletedContracts = async (doctorId: string, hospitalId: string): Promise<number> => {
+  try {
+    const snapshot = await getCountFromServer(
+      query(
+        collection(db, "contracts"),
+        where("doctorId", "==", doctorId),
+        where("hospitalId", "==", hospitalId),
+        where("status", "==", "completed"),
+      ),
+    )
+    return snapshot.data().count
+  } catch (error) {
+    console.error("Error counting completed contracts:", error)
+    throw error
+  }
+}
+
 // Get a specific contract
 export const getContract = async (id: string): Promise<Contract | null> => {
   try {
     const contractDoc = await getDoc(doc(db, "contracts", id))
 
     if (contractDoc.exists()) {
-      const data = contractDoc.data()
-      return {
-        id: contractDoc.id,
-        proposalId: data.proposalId,
-        doctorId: data.doctorId,
-        hospitalId: data.hospitalId,
-        hospital: data.hospital,
-        specialty: data.specialty,
-        date: data.date.toDate(),
-        time: data.time,
-        duration: data.duration,
-        location: data.location,
-        value: data.value,
-        status: data.status,
-        checkInTime: data.checkInTime?.toDate(),
-        checkOutTime: data.checkOutTime?.toDate(),
-        createdAt: data.createdAt?.toDate(),
-        updatedAt: data.updatedAt?.toDate(),
-      }
+      return withMissingCheckOut(toContract(contractDoc.id, contractDoc.data()))
     }
 
     return null
@@ -137,43 +614,153 @@ export const getContract = async (id: string): Promise<Contract | null> => {
   }
 }
 
-// Update contract status
-export const updateContractStatus = async (id: string, status: ContractStatus): Promise<void> => {
+// Política gravada no contrato (ou a atual do hospital, para contratos antigos)
+const getCancellationPolicy = async (data: {
+  cancellationPolicy?: Partial<CancellationPolicy>
+  hospitalId: string
+}): Promise<CancellationPolicy> => {
+  if (data.cancellationPolicy) return resolveCancellationPolicy(data.cancellationPolicy)
+  return resolveCancellationPolicy((await getHospitalProfile(data.hospitalId))?.cancellationPolicy)
+}
+
+// Multa ou compensação que o cancelamento geraria agora, para exibir antes da confirmação
+export const previewCancellation = async (contract: Contract): Promise<CancellationAssessment> => {
   try {
-    await updateDoc(doc(db, "contracts", id), {
-      status,
-      updatedAt: serverTimestamp(),
-    })
+    return evaluateCancellation(contract, await getCancellationPolicy(contract), new Date())
   } catch (error) {
-    console.error("Error updating contract status:", error)
+    console.error("Error previewing contract cancellation:", error)
     throw error
   }
 }
 
-// Record check-in
-export const recordCheckIn = async (id: string): Promise<void> => {
+// Cancel an upcoming contract as its doctor or hospital. The notice given decides the penalty charged to the
+// doctor or the compensation owed to them, recorded in cancellationRecords
+export const cancelContract = async (id: string, reason: string): Promise<ContractCancellation> => {
   try {
-    await updateDoc(doc(db, "contracts", id), {
-      checkInTime: serverTimestamp(),
-      updatedAt: serverTimestamp(),
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+    if (!reason.trim()) throw new CancellationError("reason_required")
+
+    const contractRef = doc(db, "contracts", id)
+    const contractDoc = await getDoc(contractRef)
+    if (!contractDoc.exists()) throw new Error("Contract not found")
+
+    const policy = await getCancellationPolicy({
+      cancellationPolicy: contractDoc.data().cancellationPolicy,
+      hospitalId: contractDoc.data().hospitalId,
+    })
+    const recordRef = doc(collection(db, "cancellationRecords"))
+
+    return await runTransaction(db, async (transaction) => {
+      const current = await transaction.get(contractRef)
+      if (!current.exists()) throw new Error("Contract not found")
+
+      const data = current.data()
+      const initiatedBy = data.doctorId === uid ? "doctor" : data.hospitalId === uid ? "hospital" : null
+      if (!initiatedBy) throw new Error("Contract belongs to another user")
+      if (data.status !== "upcoming" || hasAttendance(data)) throw new CancellationError("not_cancelable")
+
+      // Contrato cancelado libera o horário na agenda do médico
+      const scheduleRef = doc(db, "doctorSchedules", data.doctorId)
+      const scheduleDoc = await transaction.get(scheduleRef)
+
+      const timing = readShiftTiming(data)
+      const assessment = evaluateCancellation({ startAt: timing.startAt, value: data.value }, policy, new Date())
+      const cancellation: ContractCancellation = {
+        ...assessment,
+        initiatedBy,
+        canceledBy: uid,
+        reason: reason.trim(),
+        canceledAt: new Date(),
+      }
+
+      const to = initiatedBy === "doctor" ? "canceled" : "canceled_by_hospital"
+      transitionContract(transaction, contractRef, data.status, to, uid, {
+        cancellation: {
+          noticeHours: cancellation.noticeHours,
+          penaltyPercent: cancellation.penaltyPercent,
+          amount: cancellation.amount,
+          ...(cancellation.window && { window: cancellation.window }),
+          initiatedBy,
+          canceledBy: uid,
+          reason: cancellation.reason,
+          canceledAt: Timestamp.fromDate(cancellation.canceledAt),
+        },
+        activeSwapId: null,
+      })
+      if (scheduleDoc.exists()) {
+        transaction.update(scheduleRef, {
+          bookings: (scheduleDoc.data().bookings || []).filter((booking: DocumentData) => booking.contractId !== id),
+          updatedAt: serverTimestamp(),
+        })
+      }
+      // Oferta de troca em aberto deixa de valer junto com o contrato
+      if (data.activeSwapId) {
+        transaction.update(doc(db, "shiftSwaps", data.activeSwapId), {
+          status: "canceled",
+          resolvedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        })
+      }
+      // Todo cancelamento fica registrado, mesmo sem valor, para as métricas de confiabilidade
+      transaction.set(recordRef, {
+        contractId: id,
+        doctorId: data.doctorId,
+        hospitalId: data.hospitalId,
+        hospital: data.hospital,
+        initiatedBy,
+        kind: initiatedBy === "doctor" ? "penalty" : "compensation",
+        amount: cancellation.amount,
+        penaltyPercent: cancellation.penaltyPercent,
+        noticeHours: cancellation.noticeHours,
+        reason: cancellation.reason,
+        shiftStartAt: timing.startAt,
+        createdAt: serverTimestamp(),
+      })
+
+      return cancellation
     })
   } catch (error) {
-    console.error("Error recording check-in:", error)
+    console.error("Error canceling contract:", error)
     throw error
   }
 }
 
-// Record check-out
-export const recordCheckOut = async (id: string): Promise<void> => {
+// Recusa devolvida pela rota do servidor, convertida de volta nos erros de attendance-log
+const fromPunchRejection = (rejection: PunchRejection): Error => {
+  switch (rejection.type) {
+    case "punch":
+      return new PunchError(rejection.state, rejection.kind)
+    case "attendance":
+      return new AttendanceError(rejection.violation, new Date(rejection.boundary))
+    case "geofence":
+      return new GeofenceError(rejection.distanceMeters, rejection.radiusMeters)
+    case "accuracy":
+      return new LocationAccuracyError(rejection.accuracyMeters, rejection.radiusMeters)
+    case "face":
+      return new FaceCheckError(rejection.reason)
+  }
+}
+
+// Record an attendance punch through the server, which checks the time window, the order of the punches and the
+// position against the hospital area (see punch-service)
+export const recordPunch = async (id: string, input: PunchInput): Promise<void> => {
   try {
-    await updateDoc(doc(db, "contracts", id), {
-      checkOutTime: serverTimestamp(),
-      status: "completed" as ContractStatus,
-      updatedAt: serverTimestamp(),
+    const user = auth.currentUser
+    if (!user) throw new Error("User not authenticated")
+
+    const response = await fetch(`/api/contracts/${encodeURIComponent(id)}/punches`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await user.getIdToken()}` },
+      body: JSON.stringify(input),
     })
+    if (!response.ok) {
+      const rejection: PunchRejection | undefined = (await response.json().catch(() => null))?.rejection
+      if (rejection) throw fromPunchRejection(rejection)
+      throw new Error(`Failed to record punch (${response.status})`)
+    }
   } catch (error) {
-    console.error("Error recording check-out:", error)
+    console.error("Error recording punch:", error)
     throw error
   }
 }
-
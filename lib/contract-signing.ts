@@ -0,0 +1,69 @@
+import { FieldValue } from "firebase-admin/firestore"
+import { adminDb } from "./firebase-admin"
+import { isCanceledStatus } from "./contract-transitions"
+import {
+  SignatureError,
+  getContractDocumentHash,
+  readContractSignatures,
+  readContractTerms,
+  type SignatureContext,
+  type SignatureParty,
+} from "./contract-document"
+
+// Assinaturas registradas pela rota do servidor, com o SDK admin: IP e navegador vêm da própria requisição, e o
+// documento assinado é gerado de novo a partir dos termos gravados
+
+// Sign the contract as its doctor or its hospital. documentHash is the hash of the document the signer was shown
+export const signContract = async (
+  uid: string,
+  contractId: string,
+  documentHash: string,
+  context: SignatureContext,
+): Promise<SignatureParty> => {
+  try {
+    const contractRef = adminDb.collection("contracts").doc(contractId)
+    const hospitalProfileRef = adminDb.collection("hospitalProfiles").doc(uid)
+
+    return await adminDb.runTransaction(async (transaction) => {
+      const contractDoc = await transaction.get(contractRef)
+      const data = contractDoc.data()
+      // Os termos identificam o médico que aceitou a proposta, mesmo depois de uma troca de plantão
+      const acceptingDoctorId = data?.holders?.[0]?.doctorId || data?.doctorId
+      const party: SignatureParty | null =
+        acceptingDoctorId === uid ? "doctor" : data?.hospitalId === uid ? "hospital" : null
+      if (!data || !party) throw new SignatureError("not_found")
+
+      if (!data.terms || !data.documentHash) throw new SignatureError("unsigned")
+      if (readContractSignatures(data.signatures)[party]) throw new SignatureError("already_signed")
+      if (isCanceledStatus(data.status)) throw new SignatureError("canceled")
+
+      const terms = readContractTerms(data.terms)
+      if (documentHash !== data.documentHash || (await getContractDocumentHash(terms)) !== data.documentHash) {
+        throw new SignatureError("document_changed")
+      }
+
+      const hospitalProfile = party === "hospital" ? (await transaction.get(hospitalProfileRef)).data() : undefined
+
+      const signer =
+        party === "doctor"
+          ? { signerName: terms.doctor.name, signerDocument: `CPF ${terms.doctor.cpf} · CRM ${terms.doctor.crm}` }
+          : { signerName: hospitalProfile?.name || terms.hospital.name, signerDocument: `CNPJ ${terms.hospital.cnpj}` }
+
+      transaction.update(contractRef, {
+        [`signatures.${party}`]: {
+          signerId: uid,
+          ...signer,
+          signedAt: FieldValue.serverTimestamp(),
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          documentHash: data.documentHash,
+        },
+        updatedAt: FieldValue.serverTimestamp(),
+      })
+      return party
+    })
+  } catch (error) {
+    console.error("Error signing contract:", error)
+    throw error
+  }
+}
@@ -0,0 +1,90 @@
+// Máquina de estados do contrato, sem depender de um SDK do Firebase: as mudanças de status feitas no
+// navegador (contract-service) e nas rotas do servidor (punch-service) passam pelas mesmas regras e gravam o
+// mesmo histórico
+
+// "canceled": cancelado pelo médico; "canceled_by_hospital": cancelado pelo hospital.
+// Depois da saída final as horas passam pela aprovação do hospital: "awaiting_approval" (hospital confere),
+// "hours_adjusted" (médico aceita ou contesta o ajuste) e "hours_contested" (hospital decide)
+export type ContractStatus =
+  | "upcoming"
+  | "awaiting_approval"
+  | "hours_adjusted"
+  | "hours_contested"
+  | "completed"
+  | "canceled"
+  | "canceled_by_hospital"
+
+export const CANCELED_STATUSES: ContractStatus[] = ["canceled", "canceled_by_hospital"]
+
+export const isCanceledStatus = (status: ContractStatus) => CANCELED_STATUSES.includes(status)
+
+export const REVIEW_STATUSES: ContractStatus[] = ["awaiting_approval", "hours_adjusted", "hours_contested"]
+
+export const isReviewStatus = (status: ContractStatus) => REVIEW_STATUSES.includes(status)
+
+// Único caminho de mudança de status do contrato
+const contractTransitions: Record<ContractStatus, ContractStatus[]> = {
+  upcoming: ["awaiting_approval", "canceled", "canceled_by_hospital"],
+  awaiting_approval: ["completed", "hours_adjusted"],
+  hours_adjusted: ["completed", "hours_contested"],
+  hours_contested: ["completed", "hours_adjusted"],
+  completed: [],
+  canceled: [],
+  canceled_by_hospital: [],
+}
+
+export const canTransition = (from: ContractStatus, to: ContractStatus) => contractTransitions[from].includes(to)
+
+// Mudança de status fora da ordem do contrato (ex.: concluir um plantão que ainda não terminou)
+export class ContractTransitionError extends Error {
+  constructor(
+    public from: ContractStatus,
+    public to: ContractStatus,
+  ) {
+    super(`Contract cannot go from "${from}" to "${to}"`)
+    this.name = "ContractTransitionError"
+  }
+}
+
+// Entrada do histórico de status do contrato
+export interface ContractStatusChange {
+  from: ContractStatus
+  to: ContractStatus
+  changedBy: string
+  at: Date
+}
+
+// Valores especiais do SDK em uso (cliente ou admin)
+export interface TransitionFieldValues {
+  increment: (n: number) => unknown
+  serverTimestamp: () => unknown
+  arrayUnion: (...elements: unknown[]) => unknown
+}
+
+// Transação de qualquer um dos SDKs; a transição só precisa do update
+export interface TransitionTransaction<Ref> {
+  update(ref: Ref, data: { [field: string]: unknown }): unknown
+}
+
+// Grava a mudança de status na transação, junto com os demais campos do passo, depois de conferir a máquina de
+// estados
+export const applyContractTransition = <Ref>(
+  transaction: TransitionTransaction<Ref>,
+  ref: Ref,
+  fieldValues: TransitionFieldValues,
+  change: Omit<ContractStatusChange, "at">,
+  fields: { [field: string]: unknown } = {},
+): void => {
+  if (!canTransition(change.from, change.to)) throw new ContractTransitionError(change.from, change.to)
+
+  transaction.update(ref, {
+    ...fields,
+    status: change.to,
+    statusChangedAt: fieldValues.serverTimestamp(),
+    // serverTimestamp não é aceito dentro de arrays
+    statusHistory: fieldValues.arrayUnion({ ...change, at: new Date() }),
+    // Faz as agendas assinadas substituírem o evento
+    calendarSequence: fieldValues.increment(1),
+    updatedAt: fieldValues.serverTimestamp(),
+  })
+}
@@ -0,0 +1,73 @@
+import { collection, getDocs, query, where, Timestamp, type DocumentData } from "firebase/firestore"
+import { db } from "./firebase"
+import { readShiftTiming, type ShiftTiming } from "./shift-timing"
+
+// Agenda do médico (doctorSchedules/{uid}): plantões assumidos, lida e gravada nas transações de aceite e troca
+// para que dois aceites simultâneos não reservem o mesmo horário
+
+// Plantão já reservado na agenda do médico, usado para explicar um conflito
+export interface ScheduleBooking {
+  contractId: string
+  hospital: string
+  startAt: Date
+  endAt: Date
+}
+
+// Só os últimos 7 dias de plantões encerrados ainda contam para os limites de jornada
+const BOOKING_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+const toScheduleBooking = (data: DocumentData): ScheduleBooking => ({
+  contractId: data.contractId,
+  hospital: data.hospital,
+  startAt: data.startAt.toDate(),
+  endAt: data.endAt.toDate(),
+})
+
+const fromScheduleBooking = (booking: ScheduleBooking) => ({
+  contractId: booking.contractId,
+  hospital: booking.hospital,
+  startAt: Timestamp.fromDate(booking.startAt),
+  endAt: Timestamp.fromDate(booking.endAt),
+})
+
+// Reservas gravadas na agenda; sem documento, as obtidas dos contratos (getRecentBookings)
+export const readScheduleBookings = (
+  schedule: DocumentData | undefined,
+  fallback: ScheduleBooking[],
+): ScheduleBooking[] => {
+  return schedule ? (schedule.bookings || []).map(toScheduleBooking) : fallback
+}
+
+// Reservas no formato do Firestore, sem as que já saíram da janela de retenção
+export const toStoredBookings = (bookings: ScheduleBooking[]) => {
+  const keepSince = new Date(Date.now() - BOOKING_RETENTION_MS)
+  return bookings.filter((booking) => booking.endAt > keepSince).map(fromScheduleBooking)
+}
+
+// Reserva que ocupa parte do horário do plantão
+export const findOverlap = (bookings: ScheduleBooking[], timing: ShiftTiming): ScheduleBooking | undefined => {
+  return bookings.find((booking) => booking.startAt < timing.endAt && timing.startAt < booking.endAt)
+}
+
+// Contratos do médico ainda relevantes para a agenda (futuros e encerrados nos últimos 7 dias)
+export const getRecentBookings = async (doctorId: string): Promise<ScheduleBooking[]> => {
+  const q = query(
+    collection(db, "contracts"),
+    where("doctorId", "==", doctorId),
+    where("status", "in", ["upcoming", "awaiting_approval", "hours_adjusted", "hours_contested", "completed"]),
+  )
+  const querySnapshot = await getDocs(q)
+  const keepSince = new Date(Date.now() - BOOKING_RETENTION_MS)
+
+  const bookings = querySnapshot.docs.map((contractDoc) => {
+    const timing = readShiftTiming(contractDoc.data())
+    return {
+      contractId: contractDoc.id,
+      hospital: contractDoc.data().hospital,
+      startAt: timing.startAt,
+      endAt: timing.endAt,
+    }
+  })
+
+  return bookings.filter((booking) => booking.endAt > keepSince)
+}
@@ -0,0 +1,201 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  updateDoc,
+  deleteDoc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+} from "firebase/firestore"
+import { db, auth } from "./firebase"
+import { parseBusyPeriods } from "./ical"
+import { DEFAULT_TIME_ZONE } from "./shift-timing"
+
+// Bloco ocupado importado de uma agenda externa (outro hospital, consultório...)
+export interface BusyBlock {
+  start: Date
+  end: Date
+  summary: string
+}
+
+export interface ExternalCalendar {
+  id?: string
+  doctorId: string
+  name: string
+  // Endereço assinado (https/webcal); null quando o arquivo foi enviado manualmente
+  url: string | null
+  busyBlocks: BusyBlock[]
+  lastSyncedAt?: Date
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export interface BusyConflict {
+  calendarName: string
+  block: BusyBlock
+}
+
+// Janela de eventos guardada a cada importação
+const PAST_IMPORT_DAYS = 1
+const FUTURE_IMPORT_DAYS = 180
+// Mantém o documento bem abaixo do limite de 1 MiB do Firestore
+const MAX_BUSY_BLOCKS = 2000
+
+const toExternalCalendar = (id: string, data: DocumentData): ExternalCalendar => ({
+  id,
+  doctorId: data.doctorId,
+  name: data.name,
+  url: data.url ?? null,
+  busyBlocks: (data.busyBlocks || []).map((block: DocumentData) => ({
+    start: block.start.toDate(),
+    end: block.end.toDate(),
+    summary: block.summary,
+  })),
+  lastSyncedAt: data.lastSyncedAt?.toDate(),
+  createdAt: data.createdAt?.toDate(),
+  updatedAt: data.updatedAt?.toDate(),
+})
+
+// Converte o conteúdo .ics nos blocos gravados no Firestore
+const parseBusyBlocks = (text: string) => {
+  if (!text.includes("BEGIN:VCALENDAR")) {
+    throw new Error("Invalid iCalendar file")
+  }
+
+  const now = Date.now()
+  const periods = parseBusyPeriods(text, {
+    from: new Date(now - PAST_IMPORT_DAYS * 24 * 60 * 60 * 1000),
+    to: new Date(now + FUTURE_IMPORT_DAYS * 24 * 60 * 60 * 1000),
+    defaultTimeZone: DEFAULT_TIME_ZONE,
+  })
+
+  return periods.slice(0, MAX_BUSY_BLOCKS).map((period) => ({
+    start: Timestamp.fromDate(period.start),
+    end: Timestamp.fromDate(period.end),
+    summary: period.summary,
+  }))
+}
+
+// Baixa a agenda pelo servidor, já que os provedores não liberam CORS
+const fetchCalendarText = async (url: string): Promise<string> => {
+  const user = auth.currentUser
+  if (!user) throw new Error("User not authenticated")
+
+  const response = await fetch("/api/external-calendar", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${await user.getIdToken()}` },
+    body: JSON.stringify({ url }),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch calendar (${response.status})`)
+  }
+
+  return response.text()
+}
+
+// Import an uploaded .ics file as a new external calendar
+export const importCalendarFile = async (name: string, text: string): Promise<string> => {
+  try {
+    const user = auth.currentUser
+    if (!user) throw new Error("User not authenticated")
+
+    const docRef = await addDoc(collection(db, "externalCalendars"), {
+      doctorId: user.uid,
+      name,
+      url: null,
+      busyBlocks: parseBusyBlocks(text),
+      lastSyncedAt: serverTimestamp(),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+
+    return docRef.id
+  } catch (error) {
+    console.error("Error importing calendar file:", error)
+    throw error
+  }
+}
+
+// Link a calendar by URL; it is fetched now and again on every sync
+export const linkCalendarUrl = async (name: string, url: string): Promise<string> => {
+  try {
+    const user = auth.currentUser
+    if (!user) throw new Error("User not authenticated")
+
+    const text = await fetchCalendarText(url)
+    const docRef = await addDoc(collection(db, "externalCalendars"), {
+      doctorId: user.uid,
+      name,
+      url,
+      busyBlocks: parseBusyBlocks(text),
+      lastSyncedAt: serverTimestamp(),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+
+    return docRef.id
+  } catch (error) {
+    console.error("Error linking calendar URL:", error)
+    throw error
+  }
+}
+
+// Re-fetch a linked calendar; uploaded files must be replaced with a new upload
+export const syncExternalCalendar = async (id: string, text?: string): Promise<void> => {
+  try {
+    const calendarRef = doc(db, "externalCalendars", id)
+    const calendarDoc = await getDoc(calendarRef)
+    if (!calendarDoc.exists()) throw new Error("Calendar not found")
+
+    const url = calendarDoc.data().url
+    const content = text ?? (url ? await fetchCalendarText(url) : null)
+    if (content === null) throw new Error("Calendar has no URL to sync from")
+
+    await updateDoc(calendarRef, {
+      busyBlocks: parseBusyBlocks(content),
+      lastSyncedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+  } catch (error) {
+    console.error("Error syncing external calendar:", error)
+    throw error
+  }
+}
+
+export const deleteExternalCalendar = async (id: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, "externalCalendars", id))
+  } catch (error) {
+    console.error("Error deleting external calendar:", error)
+    throw error
+  }
+}
+
+export const getExternalCalendars = async (doctorId?: string): Promise<ExternalCalendar[]> => {
+  try {
+    const uid = doctorId || auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const q = query(collection(db, "externalCalendars"), where("doctorId", "==", uid))
+    const querySnapshot = await getDocs(q)
+
+    return querySnapshot.docs.map((calendarDoc) => toExternalCalendar(calendarDoc.id, calendarDoc.data()))
+  } catch (error) {
+    console.error("Error getting external calendars:", error)
+    throw error
+  }
+}
+
+// Compromissos importados que se sobrepõem ao intervalo [start, end)
+export const findBusyConflicts = (calendars: ExternalCalendar[], start: Date, end: Date): BusyConflict[] => {
+  return calendars.flatMap((calendar) =>
+    calendar.busyBlocks
+      .filter((block) => block.start < end && start < block.end)
+      .map((block) => ({ calendarName: calendar.name, block })),
+  )
+}
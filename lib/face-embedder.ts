@@ -0,0 +1,69 @@
+// Geração de embeddings faciais, isolada atrás de uma interface para que a verificação
+// possa usar o modelo real no navegador ou um stub determinístico em testes
+
+export interface FaceEmbedder {
+  // Retorna o embedding do rosto encontrado na imagem, ou null se nenhum rosto for detectado
+  embed(image: Blob): Promise<number[] | null>
+}
+
+// Pesos copiados de @vladmandic/face-api para public/ por scripts/copy-face-models.mjs
+const FACE_MODELS_URL = process.env.NEXT_PUBLIC_FACE_MODELS_URL || "/models/face-api"
+
+type FaceApi = typeof import("@vladmandic/face-api")
+
+let faceApiPromise: Promise<FaceApi> | null = null
+
+// Carrega a biblioteca e os modelos uma única vez, apenas quando a verificação é usada
+const loadFaceApi = (): Promise<FaceApi> => {
+  if (!faceApiPromise) {
+    faceApiPromise = (async () => {
+      const faceapi = await import("@vladmandic/face-api")
+      await Promise.all([
+        faceapi.nets.tinyFaceDetector.loadFromUri(FACE_MODELS_URL),
+        faceapi.nets.faceLandmark68TinyNet.loadFromUri(FACE_MODELS_URL),
+        faceapi.nets.faceRecognitionNet.loadFromUri(FACE_MODELS_URL),
+      ])
+      return faceapi
+    })().catch((error) => {
+      faceApiPromise = null
+      throw error
+    })
+  }
+
+  return faceApiPromise
+}
+
+// Modelo local (TensorFlow.js no navegador) que gera descritores de 128 dimensões
+export const faceApiEmbedder: FaceEmbedder = {
+  async embed(image: Blob) {
+    const faceapi = await loadFaceApi()
+    const element = await faceapi.bufferToImage(image)
+
+    const result = await faceapi
+      .detectSingleFace(element, new faceapi.TinyFaceDetectorOptions({ inputSize: 416, scoreThreshold: 0.5 }))
+      .withFaceLandmarks(true)
+      .withFaceDescriptor()
+
+    return result ? Array.from(result.descriptor) : null
+  },
+}
+
+// Stub determinístico: a mesma imagem sempre gera o mesmo embedding, e imagens vazias
+// simulam a ausência de rosto
+export const createStubFaceEmbedder = (dimensions = 128): FaceEmbedder => ({
+  async embed(image: Blob) {
+    const bytes = new Uint8Array(await image.arrayBuffer())
+    if (bytes.length === 0) return null
+
+    // FNV-1a dos bytes como semente de um gerador pseudoaleatório simples
+    let seed = 2166136261
+    for (const byte of bytes) {
+      seed = Math.imul(seed ^ byte, 16777619) >>> 0
+    }
+
+    return Array.from({ length: dimensions }, () => {
+      seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0
+      return seed / 0xffffffff - 0.5
+    })
+  },
+})
@@ -0,0 +1,40 @@
+// Comparação de embeddings faciais, sem SDK: roda na rota do servidor que registra a verificação
+
+// Similaridade mínima (0 a 1) para aceitar a verificação; pode ser ajustada por ambiente
+export const DEFAULT_FACE_MATCH_THRESHOLD = Number(process.env.NEXT_PUBLIC_FACE_MATCH_THRESHOLD) || 0.45
+
+// Por quanto tempo uma verificação aprovada libera a marcação de ponto
+export const FACE_VERIFICATION_MAX_AGE_MS = 10 * 60 * 1000
+
+// Tamanho dos descritores gerados pelo modelo (ver face-embedder)
+export const FACE_EMBEDDING_DIMENSIONS = 128
+
+export type FaceVerificationReason = "match" | "below_threshold" | "no_face_detected" | "not_enrolled"
+
+export interface FaceVerificationResult {
+  verified: boolean
+  score: number
+  threshold: number
+  reason: FaceVerificationReason
+  // Registro da tentativa em facialVerifications, citado como evidência no registro de ponto
+  verificationId?: string
+}
+
+// Similaridade derivada da distância euclidiana entre descritores (1 = idênticos)
+export const faceSimilarity = (a: number[], b: number[]): number => {
+  const distance = Math.sqrt(a.reduce((sum, value, index) => sum + (value - b[index]) ** 2, 0))
+  return Math.max(0, 1 - distance)
+}
+
+// Compara o embedding da captura (null quando nenhum rosto foi detectado) com os de referência
+export const matchFace = (
+  embedding: number[] | null,
+  references: number[][],
+  threshold: number = DEFAULT_FACE_MATCH_THRESHOLD,
+): Omit<FaceVerificationResult, "verificationId"> => {
+  if (references.length === 0) return { verified: false, score: 0, threshold, reason: "not_enrolled" }
+  if (!embedding) return { verified: false, score: 0, threshold, reason: "no_face_detected" }
+
+  const score = Math.max(...references.map((reference) => faceSimilarity(embedding, reference)))
+  return { verified: score >= threshold, score, threshold, reason: score >= threshold ? "match" : "below_threshold" }
+}
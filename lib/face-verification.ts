@@ -0,0 +1,59 @@
+import { FieldValue, type DocumentData } from "firebase-admin/firestore"
+import { adminDb } from "./firebase-admin"
+import { FACE_VERIFICATION_MAX_AGE_MS, matchFace, type FaceVerificationResult } from "./face-match"
+import type { FaceCheckFailure } from "./attendance-log"
+
+// Verificações faciais registradas pelo servidor, com o SDK admin: o navegador só envia o embedding da captura,
+// e a comparação com as fotos de referência e o registro em facialVerifications acontecem aqui
+
+export interface FaceVerificationInput {
+  contractId: string | null
+  // null quando o modelo não encontrou rosto na captura
+  embedding: number[] | null
+  // Captura enviada pelo médico ao Storage, em facialVerifications/<uid>/
+  imagePath: string
+}
+
+// Compare a capture with the doctor's reference embeddings and record the attempt
+export const recordFaceVerification = async (
+  uid: string,
+  input: FaceVerificationInput,
+): Promise<FaceVerificationResult> => {
+  try {
+    const facialDataDoc = await adminDb.collection("facialData").doc(uid).get()
+    const references: number[][] = (facialDataDoc.data()?.embeddings || []).map(
+      (reference: DocumentData) => reference.values,
+    )
+    const result = matchFace(input.embedding, references)
+
+    const verificationRef = await adminDb.collection("facialVerifications").add({
+      uid,
+      contractId: input.contractId,
+      imagePath: input.imagePath,
+      ...result,
+      createdAt: FieldValue.serverTimestamp(),
+    })
+
+    return { ...result, verificationId: verificationRef.id }
+  } catch (error) {
+    console.error("Error recording face verification:", error)
+    throw error
+  }
+}
+
+// Confere a verificação citada na marcação; null quando ela pode liberar o ponto
+export const checkPunchVerification = (
+  data: DocumentData | undefined,
+  uid: string,
+  contractId: string,
+  now: Date,
+): FaceCheckFailure | null => {
+  if (!data) return "invalid"
+  if (data.uid !== uid || data.contractId !== contractId || data.verified !== true) return "invalid"
+
+  const createdAt: Date | undefined = data.createdAt?.toDate()
+  if (!createdAt || now.getTime() - createdAt.getTime() > FACE_VERIFICATION_MAX_AGE_MS || data.usedAt) {
+    return "expired"
+  }
+  return null
+}
@@ -1,6 +1,22 @@
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage"
 import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
 import { db, storage, auth } from "./firebase"
+import { faceApiEmbedder, type FaceEmbedder } from "./face-embedder"
+import type { FaceVerificationResult } from "./face-match"
+
+export {
+  DEFAULT_FACE_MATCH_THRESHOLD,
+  faceSimilarity,
+  type FaceVerificationReason,
+  type FaceVerificationResult,
+} from "./face-match"
+
+let embedder: FaceEmbedder = faceApiEmbedder
+
+// Troca o gerador de embeddings (ex.: createStubFaceEmbedder() em testes)
+export const setFaceEmbedder = (faceEmbedder: FaceEmbedder): void => {
+  embedder = faceEmbedder
+}
 
 // Upload facial recognition data
 export const uploadFacialData = async (imageBlob: Blob): Promise<string> => {
@@ -21,7 +37,7 @@ export const uploadFacialData = async (imageBlob: Blob): Promise<string> => {
 
     if (facialDataDoc.exists()) {
       await updateDoc(facialDataRef, {
-        imageUrls: [...facialDataDoc.data().imageUrls, downloadURL],
+        imageUrls: [...(facialDataDoc.data().imageUrls || []), downloadURL],
         updatedAt: serverTimestamp(),
       })
     } else {
@@ -40,19 +56,79 @@ export const uploadFacialData = async (imageBlob: Blob): Promise<string> => {
   }
 }
 
-// Verify facial recognition (mock implementation)
-export const verifyFacialRecognition = async (imageBlob: Blob): Promise<boolean> => {
+// Enroll reference photos: stores one embedding per photo in which a face was found
+export const enrollFace = async (images: Blob[]): Promise<number> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const embeddings: { values: number[] }[] = []
+    for (const image of images) {
+      const values = await embedder.embed(image)
+      if (values) {
+        await uploadFacialData(image)
+        embeddings.push({ values })
+      }
+    }
+
+    if (embeddings.length === 0) throw new Error("No face detected in the reference photos")
+
+    // O Firestore não aceita arrays aninhados, por isso cada embedding fica em um objeto
+    await updateDoc(doc(db, "facialData", uid), {
+      embeddings,
+      enrolledAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+
+    return embeddings.length
+  } catch (error) {
+    console.error("Error enrolling face:", error)
+    throw error
+  }
+}
+
+// Check whether the current doctor already has reference embeddings
+export const isFaceEnrolled = async (): Promise<boolean> => {
   try {
-    // In a real implementation, this would call a facial recognition API
-    // For this MVP, we'll just return true to simulate successful verification
+    const uid = auth.currentUser?.uid
+    if (!uid) return false
+
+    const facialDataDoc = await getDoc(doc(db, "facialData", uid))
+    return facialDataDoc.exists() && (facialDataDoc.data().embeddings || []).length > 0
+  } catch (error) {
+    console.error("Error checking face enrollment:", error)
+    throw error
+  }
+}
+
+// Verify a capture against the enrolled reference embeddings. The embedding is generated here, but the
+// comparison and the facialVerifications record are made by the server, so a punch can cite the result
+export const verifyFacialRecognition = async (
+  imageBlob: Blob,
+  options: { contractId?: string } = {},
+): Promise<FaceVerificationResult> => {
+  try {
+    const user = auth.currentUser
+    if (!user) throw new Error("User not authenticated")
+
+    const embedding = await embedder.embed(imageBlob)
 
     // Upload the verification attempt for audit purposes
-    await uploadFacialData(imageBlob)
+    const storageRef = ref(storage, `facialVerifications/${user.uid}/${Date.now()}`)
+    await uploadBytes(storageRef, imageBlob)
 
-    return true
+    const response = await fetch("/api/facial-verifications", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await user.getIdToken()}` },
+      body: JSON.stringify({ contractId: options.contractId || null, embedding, imagePath: storageRef.fullPath }),
+    })
+    if (!response.ok) {
+      throw new Error(`Failed to verify face (${response.status})`)
+    }
+
+    return (await response.json()) as FaceVerificationResult
   } catch (error) {
     console.error("Error verifying facial recognition:", error)
     throw error
   }
 }
-
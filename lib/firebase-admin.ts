@@ -0,0 +1,32 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp } from "firebase-admin/app"
+import { getAuth, type DecodedIdToken } from "firebase-admin/auth"
+import { getFirestore } from "firebase-admin/firestore"
+
+// SDK admin, só para as rotas do servidor (feed de calendário, jobs, migrações e validações). Credenciais da
+// conta de serviço em FIREBASE_SERVICE_ACCOUNT (JSON); sem ela, as credenciais padrão do ambiente
+const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT
+
+const app = getApps().length
+  ? getApp()
+  : initializeApp({
+      credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+      projectId: "clinic-b51d7",
+    })
+
+const adminAuth = getAuth(app)
+const adminDb = getFirestore(app)
+
+// Usuário da requisição, pelo ID token do Firebase em "Authorization: Bearer <token>"; null se ausente ou inválido
+export const getRequestUser = async (request: Request): Promise<DecodedIdToken | null> => {
+  const match = /^Bearer (.+)$/.exec(request.headers.get("authorization") || "")
+  if (!match) return null
+
+  try {
+    return await adminAuth.verifyIdToken(match[1])
+  } catch (error) {
+    console.error("Error verifying ID token:", error)
+    return null
+  }
+}
+
+export { adminAuth, adminDb }
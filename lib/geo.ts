@@ -0,0 +1,62 @@
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+const EARTH_RADIUS_METERS = 6_371_000
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Distância em linha reta entre dois pontos (fórmula de Haversine)
+export const distanceInMeters = (a: Coordinates, b: Coordinates): number => {
+  const dLat = toRadians(b.latitude - a.latitude)
+  const dLon = toRadians(b.longitude - a.longitude)
+  const lat1 = toRadians(a.latitude)
+  const lat2 = toRadians(b.latitude)
+
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h))
+}
+
+// Área em torno do hospital onde o check-in/out é aceito
+export interface Geofence extends Coordinates {
+  radiusMeters: number
+}
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 300
+
+// Posição informada pelo navegador no momento do check-in/out
+export interface CapturedPosition extends Coordinates {
+  accuracy: number
+}
+
+// inside: dentro do raio; uncertain: fora do raio, mas dentro da margem de precisão do GPS;
+// outside: fora mesmo considerando a precisão; unverified: contrato sem geofence configurada
+export type GeofenceStatus = "inside" | "uncertain" | "outside" | "unverified"
+
+export interface GeofenceCheck {
+  status: GeofenceStatus
+  distanceMeters?: number
+}
+
+export const checkGeofence = (fence: Geofence | null | undefined, position: CapturedPosition): GeofenceCheck => {
+  if (!fence) return { status: "unverified" }
+
+  const distanceMeters = distanceInMeters(fence, position)
+  if (distanceMeters <= fence.radiusMeters) return { status: "inside", distanceMeters }
+  if (distanceMeters - (position.accuracy || 0) <= fence.radiusMeters) return { status: "uncertain", distanceMeters }
+  return { status: "outside", distanceMeters }
+}
+
+// Geofence do hospital, quando as coordenadas já foram cadastradas
+export const getHospitalGeofence = (
+  profile: { coordinates?: Coordinates; geofenceRadiusMeters?: number } | null | undefined,
+): Geofence | null => {
+  if (!profile?.coordinates) return null
+
+  return {
+    latitude: profile.coordinates.latitude,
+    longitude: profile.coordinates.longitude,
+    radiusMeters: profile.geofenceRadiusMeters || DEFAULT_GEOFENCE_RADIUS_METERS,
+  }
+}
@@ -0,0 +1,79 @@
+import { deleteField, doc, getDoc, setDoc, updateDoc } from "firebase/firestore"
+import { db, auth } from "./firebase"
+import type { Coordinates } from "./geo"
+import type { AttendancePolicy } from "./attendance-policy"
+import type { WorkLimitsPolicy } from "./work-limits"
+import type { CancellationPolicy } from "./cancellation-policy"
+import type { PaymentTerms } from "./payment-terms"
+
+// A geofence é calculada em geo, que também roda nas rotas do servidor
+export { getHospitalGeofence } from "./geo"
+
+export interface HospitalProfile {
+  name: string
+  description: string
+  founded: string
+  employees: string
+  specialties: string[]
+  // Qualificação do contratante nos contratos
+  cnpj?: string
+  address?: string
+  coordinates?: Coordinates
+  geofenceRadiusMeters?: number
+  attendancePolicy?: Partial<AttendancePolicy>
+  workLimits?: Partial<WorkLimitsPolicy>
+  cancellationPolicy?: Partial<CancellationPolicy>
+  paymentTerms?: Partial<PaymentTerms>
+  // Trocas de plantão entre médicos só valem depois da aprovação do hospital
+  requireSwapApproval?: boolean
+  timeZone?: string
+}
+
+// Get hospital profile
+export const getHospitalProfile = async (hospitalId?: string): Promise<HospitalProfile | null> => {
+  try {
+    const uid = hospitalId || auth.currentUser?.uid
+    if (!uid) return null
+
+    const profileDoc = await getDoc(doc(db, "hospitalProfiles", uid))
+    if (profileDoc.exists()) {
+      return profileDoc.data() as HospitalProfile
+    }
+
+    return null
+  } catch (error) {
+    console.error("Error getting hospital profile:", error)
+    throw error
+  }
+}
+
+// Create or update hospital profile
+export const updateHospitalProfile = async (profile: HospitalProfile): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const profileRef = doc(db, "hospitalProfiles", uid)
+    const profileDoc = await getDoc(profileRef)
+
+    // O Firestore não aceita campos undefined (ex.: raio da geofence deixado em branco)
+    const fields = Object.fromEntries(Object.entries(profile).filter(([, value]) => value !== undefined))
+
+    if (profileDoc.exists()) {
+      await updateDoc(profileRef, {
+        ...(profile.geofenceRadiusMeters === undefined && { geofenceRadiusMeters: deleteField() }),
+        ...fields,
+        updatedAt: new Date(),
+      })
+    } else {
+      await setDoc(profileRef, {
+        uid,
+        ...fields,
+        updatedAt: new Date(),
+      })
+    }
+  } catch (error) {
+    console.error("Error updating hospital profile:", error)
+    throw error
+  }
+}
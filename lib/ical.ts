@@ -0,0 +1,331 @@
+// Geração de arquivos iCalendar (RFC 5545) para Google Agenda, Apple Calendar e Outlook
+import { toZonedInputValues, zonedDateTime } from "./shift-timing"
+
+export type IcsEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED"
+
+export interface IcsEvent {
+  uid: string
+  start: Date
+  end: Date
+  // Fuso usado em DTSTART/DTEND; sem VTIMEZONE conhecido, os horários vão em UTC
+  timeZone?: string
+  summary: string
+  description?: string
+  location?: string
+  status: IcsEventStatus
+  // Incrementado a cada alteração para que os clientes substituam a versão anterior
+  sequence?: number
+  // Disponibilidades não bloqueiam a agenda (TRANSP:TRANSPARENT)
+  transparent?: boolean
+  lastModified?: Date
+}
+
+const PRODUCT_ID = "-//Sistema Plantao Medico//Agenda//PT-BR"
+
+// Definições de fuso incluídas no arquivo; São Paulo não tem horário de verão desde 2019
+const VTIMEZONES: Record<string, string[]> = {
+  "America/Sao_Paulo": [
+    "BEGIN:VTIMEZONE",
+    "TZID:America/Sao_Paulo",
+    "X-LIC-LOCATION:America/Sao_Paulo",
+    "BEGIN:STANDARD",
+    "TZOFFSETFROM:-0300",
+    "TZOFFSETTO:-0300",
+    "TZNAME:-03",
+    "DTSTART:19700101T000000",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ],
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+const formatUtc = (date: Date): string => {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  )
+}
+
+const formatDateProperty = (name: string, date: Date, timeZone?: string): string => {
+  if (!timeZone || !VTIMEZONES[timeZone]) return `${name}:${formatUtc(date)}`
+
+  const { day, time } = toZonedInputValues(date, timeZone)
+  return `${name};TZID=${timeZone}:${day.replace(/-/g, "")}T${time.replace(":", "")}00`
+}
+
+// Escapa os caracteres especiais de campos de texto
+const escapeText = (value: string): string => {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+}
+
+// Quebra linhas com mais de 75 octetos, continuando com um espaço
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+
+  const parts: string[] = []
+  let current = ""
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = ""
+    }
+    current += char
+  }
+  parts.push(current)
+
+  return parts.join("\r\n ")
+}
+
+const eventLines = (event: IcsEvent, stamp: Date): string[] => [
+  "BEGIN:VEVENT",
+  `UID:${event.uid}`,
+  `DTSTAMP:${formatUtc(stamp)}`,
+  formatDateProperty("DTSTART", event.start, event.timeZone),
+  formatDateProperty("DTEND", event.end, event.timeZone),
+  `SUMMARY:${escapeText(event.summary)}`,
+  ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+  ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+  `STATUS:${event.status}`,
+  `SEQUENCE:${event.sequence || 0}`,
+  `TRANSP:${event.transparent ? "TRANSPARENT" : "OPAQUE"}`,
+  ...(event.lastModified ? [`LAST-MODIFIED:${formatUtc(event.lastModified)}`] : []),
+  "END:VEVENT",
+]
+
+// Monta o VCALENDAR completo, com as definições de fuso usadas pelos eventos
+export const buildCalendar = (events: IcsEvent[], options: { name: string; stamp?: Date }): string => {
+  const stamp = options.stamp || new Date()
+  const timeZones = Array.from(new Set(events.map((event) => event.timeZone))).filter(
+    (timeZone): timeZone is string => !!timeZone && !!VTIMEZONES[timeZone],
+  )
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...timeZones.flatMap((timeZone) => VTIMEZONES[timeZone]),
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    "END:VCALENDAR",
+  ]
+
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
+
+// Compromisso ocupado lido de uma agenda externa
+export interface IcsBusyPeriod {
+  start: Date
+  end: Date
+  summary: string
+}
+
+interface IcsProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Desfaz a quebra de linhas e separa nome, parâmetros e valor de cada propriedade
+const parseProperties = (text: string): IcsProperty[] => {
+  const lines = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n")
+
+  return lines
+    .filter((line) => line.includes(":"))
+    .map((line) => {
+      const separator = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+      const [name, ...params] = line.slice(0, separator).split(";")
+      return {
+        name: name.toUpperCase(),
+        params: Object.fromEntries(
+          params.map((param) => {
+            const [key, value = ""] = param.split("=")
+            return [key.toUpperCase(), value.replace(/^"|"$/g, "")]
+          }),
+        ),
+        value: line.slice(separator + 1),
+      }
+    })
+}
+
+const unescapeText = (value: string): string => {
+  return value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1")
+}
+
+const isSupportedTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// DATE (dia inteiro), DATE-TIME em UTC, com TZID ou flutuante (interpretado no fuso padrão)
+const parseDateValue = (property: IcsProperty, defaultTimeZone: string): { date: Date; allDay: boolean } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim())
+  if (!match) return null
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  if (!hour) {
+    return { date: zonedDateTime(`${year}-${month}-${day}`, "00:00", defaultTimeZone), allDay: true }
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)), allDay: false }
+  }
+
+  const tzid = property.params.TZID
+  const timeZone = tzid && isSupportedTimeZone(tzid) ? tzid : defaultTimeZone
+  const date = zonedDateTime(`${year}-${month}-${day}`, `${hour}:${minute}`, timeZone)
+  return { date: new Date(date.getTime() + Number(second) * 1000), allDay: false }
+}
+
+// DURATION no formato P1DT2H30M / PT45M / P1W
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) return null
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part || "0")
+  const total =
+    (((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 * 1000 +
+    Number(seconds) * 1000
+  return sign === "-" ? -total : total
+}
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+
+// Limite de dias percorridos na expansão, para regras com INTERVAL enorme ou DTSTART muito antigo
+const MAX_RECURRENCE_DAYS = 100000
+
+// Inícios das ocorrências de uma regra RRULE simples (DAILY/WEEKLY com INTERVAL, BYDAY, UNTIL e COUNT) até `to`;
+// sem COUNT, os dias antes de `from` não precisam ser percorridos
+const expandRecurrence = (rule: string, start: Date, timeZone: string, from: Date, to: Date): Date[] | null => {
+  const parts = Object.fromEntries(rule.split(";").map((part) => part.split("=") as [string, string]))
+  const frequency = parts.FREQ
+  if (frequency !== "DAILY" && frequency !== "WEEKLY") return null
+
+  const interval = Math.max(1, Number(parts.INTERVAL) || 1)
+  const count = parts.COUNT ? Number(parts.COUNT) : Number.POSITIVE_INFINITY
+  const untilValue = parts.UNTIL ? parseDateValue({ name: "UNTIL", params: {}, value: parts.UNTIL }, timeZone) : null
+  const until = untilValue ? Math.min(untilValue.date.getTime(), to.getTime()) : to.getTime()
+  // Dias desconhecidos são descartados; sem nenhum válido a regra não é suportada
+  const byDay = parts.BYDAY
+    ? parts.BYDAY.split(",")
+        .map((day) => ICS_WEEKDAYS.indexOf(day.slice(-2)))
+        .filter((weekday) => weekday >= 0)
+    : null
+  if (byDay && byDay.length === 0) return null
+
+  // Avança dia a dia no fuso do evento, preservando o horário local de início
+  const toEpochDay = (day: string) => Math.floor(Date.parse(`${day}T00:00:00Z`) / DAY_MS)
+  const { day: firstDay, time } = toZonedInputValues(start, timeZone)
+  const firstEpochDay = toEpochDay(firstDay)
+  const firstWeekStart = firstEpochDay - new Date(firstEpochDay * DAY_MS).getUTCDay()
+  // Dias antes de `from` só contam para o COUNT; sem COUNT nem precisam ser percorridos. O alinhamento do
+  // INTERVAL conta a partir do primeiro dia, então começar depois dele não o altera
+  const fromEpochDay = toEpochDay(toZonedInputValues(from, timeZone).day) - 1
+  const loopStart = parts.COUNT ? firstEpochDay : Math.max(firstEpochDay, fromEpochDay)
+  const lastEpochDay = Math.min(
+    toEpochDay(toZonedInputValues(new Date(until), timeZone).day),
+    loopStart + MAX_RECURRENCE_DAYS,
+  )
+
+  const starts: Date[] = []
+  let matched = 0
+  for (let epochDay = loopStart; epochDay <= lastEpochDay && matched < count; epochDay++) {
+    const weekday = new Date(epochDay * DAY_MS).getUTCDay()
+    const offset = epochDay - firstEpochDay
+    const matches =
+      frequency === "DAILY"
+        ? offset % interval === 0 && (!byDay || byDay.includes(weekday))
+        : Math.floor((epochDay - weekday - firstWeekStart) / 7) % interval === 0 &&
+          (byDay ? byDay.includes(weekday) : weekday === new Date(firstEpochDay * DAY_MS).getUTCDay())
+    if (!matches) continue
+
+    matched++
+    if (epochDay < fromEpochDay) continue
+    const occurrence = zonedDateTime(new Date(epochDay * DAY_MS).toISOString().slice(0, 10), time, timeZone)
+    if (occurrence.getTime() > until) break
+    starts.push(occurrence)
+  }
+
+  return starts
+}
+
+// Lê os eventos ocupados de um arquivo .ics dentro do intervalo [from, to]. Eventos cancelados ou
+// marcados como livres são ignorados; recorrências não suportadas contam só a primeira ocorrência
+export const parseBusyPeriods = (
+  text: string,
+  options: { from: Date; to: Date; defaultTimeZone: string },
+): IcsBusyPeriod[] => {
+  const periods: IcsBusyPeriod[] = []
+  let event: IcsProperty[] | null = null
+
+  for (const property of parseProperties(text)) {
+    if (property.name === "BEGIN" && property.value.toUpperCase() === "VEVENT") {
+      event = []
+      continue
+    }
+    if (property.name === "END" && property.value.toUpperCase() === "VEVENT" && event) {
+      periods.push(...eventToBusyPeriods(event, options))
+      event = null
+      continue
+    }
+    event?.push(property)
+  }
+
+  return periods.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+const eventToBusyPeriods = (
+  event: IcsProperty[],
+  options: { from: Date; to: Date; defaultTimeZone: string },
+): IcsBusyPeriod[] => {
+  const get = (name: string) => event.find((property) => property.name === name)
+
+  if (get("STATUS")?.value.toUpperCase() === "CANCELLED") return []
+  if (get("TRANSP")?.value.toUpperCase() === "TRANSPARENT") return []
+
+  const startProperty = get("DTSTART")
+  const start = startProperty && parseDateValue(startProperty, options.defaultTimeZone)
+  if (!start) return []
+
+  const endProperty = get("DTEND")
+  const end = endProperty && parseDateValue(endProperty, options.defaultTimeZone)
+  const duration = get("DURATION") ? parseDuration(get("DURATION")!.value) : null
+  const length = end
+    ? end.date.getTime() - start.date.getTime()
+    : duration ?? (start.allDay ? DAY_MS : 0)
+  if (length <= 0) return []
+
+  const timeZone =
+    startProperty.params.TZID && isSupportedTimeZone(startProperty.params.TZID)
+      ? startProperty.params.TZID
+      : options.defaultTimeZone
+  const rule = get("RRULE")?.value
+  const excluded = new Set(
+    event
+      .filter((property) => property.name === "EXDATE")
+      .flatMap((property) =>
+        property.value.split(",").map((value) => parseDateValue({ ...property, value }, options.defaultTimeZone)),
+      )
+      .filter((value): value is { date: Date; allDay: boolean } => !!value)
+      .map((value) => value.date.getTime()),
+  )
+
+  // Ocorrências que começam antes de `from` ainda podem alcançá-lo pela duração
+  const expandFrom = new Date(options.from.getTime() - length)
+  const starts = (rule && expandRecurrence(rule, start.date, timeZone, expandFrom, options.to)) || [start.date]
+  const summary = unescapeText(get("SUMMARY")?.value || "Compromisso")
+
+  return starts
+    .filter((occurrence) => !excluded.has(occurrence.getTime()))
+    .map((occurrence) => ({ start: occurrence, end: new Date(occurrence.getTime() + length), summary }))
+    .filter((period) => period.end > options.from && period.start < options.to)
+}
@@ -0,0 +1,51 @@
+import { adminDb } from "../firebase-admin"
+import { readShiftTiming } from "../shift-timing"
+import { isProposalExpired, resolveExpiry } from "../proposal-expiry"
+
+// Limite de operações por lote do Firestore
+const BATCH_SIZE = 400
+
+export interface ExpireProposalsReport {
+  dryRun: boolean
+  checked: number
+  expired: string[]
+}
+
+// Marca como "expired" as propostas pendentes ou em negociação cujo prazo de resposta passou
+export const expireProposals = async (
+  options: { dryRun?: boolean; now?: Date } = {},
+): Promise<ExpireProposalsReport> => {
+  try {
+    const now = options.now || new Date()
+    // Roda no servidor, sem usuário logado: lê e grava com o SDK admin
+    const querySnapshot = await adminDb.collection("proposals").where("status", "in", ["pending", "negotiating"]).get()
+
+    // Propostas antigas não têm expiresAt gravado; o prazo padrão é calculado a partir do início
+    const expired = querySnapshot.docs
+      .filter((snapshot) => {
+        const data = snapshot.data()
+        const expiresAt = resolveExpiry(data.expiresAt?.toDate(), readShiftTiming(data).startAt)
+        return isProposalExpired({ status: data.status, expiresAt }, now)
+      })
+      .map((snapshot) => snapshot.id)
+
+    if (!options.dryRun) {
+      for (let index = 0; index < expired.length; index += BATCH_SIZE) {
+        const batch = adminDb.batch()
+        expired.slice(index, index + BATCH_SIZE).forEach((id) => {
+          batch.update(adminDb.collection("proposals").doc(id), {
+            status: "expired",
+            expiredAt: now,
+            updatedAt: now,
+          })
+        })
+        await batch.commit()
+      }
+    }
+
+    return { dryRun: !!options.dryRun, checked: querySnapshot.size, expired }
+  } catch (error) {
+    console.error("Error expiring proposals:", error)
+    throw error
+  }
+}
@@ -0,0 +1,54 @@
+import { adminDb } from "../firebase-admin"
+import { readShiftTiming } from "../shift-timing"
+import { readAttendancePunches } from "../attendance-log"
+import { isCheckOutMissing, resolveAttendancePolicy } from "../attendance-policy"
+
+// Limite de operações por lote do Firestore
+const BATCH_SIZE = 400
+
+export interface FlagMissingCheckOutsReport {
+  dryRun: boolean
+  checked: number
+  flagged: string[]
+}
+
+// Marca checkOutMissing nos contratos em andamento cujo plantão terminou (com a tolerância) sem saída final
+export const flagMissingCheckOuts = async (
+  options: { dryRun?: boolean; now?: Date } = {},
+): Promise<FlagMissingCheckOutsReport> => {
+  try {
+    const now = options.now || new Date()
+    // Roda no servidor, sem usuário logado: lê e grava com o SDK admin
+    const querySnapshot = await adminDb
+      .collection("contracts")
+      .where("status", "==", "upcoming")
+      .where("endAt", "<=", now)
+      .get()
+
+    const flagged = querySnapshot.docs
+      .filter((snapshot) => {
+        const data = snapshot.data()
+        if (data.checkOutMissing) return false
+
+        const checkOut = readAttendancePunches(data).find((punch) => punch.kind === "out" && punch.final)
+        const shift = { ...readShiftTiming(data), checkOutTime: checkOut?.at }
+        return isCheckOutMissing(shift, resolveAttendancePolicy(data.attendancePolicy), now)
+      })
+      .map((snapshot) => snapshot.id)
+
+    if (!options.dryRun) {
+      for (let index = 0; index < flagged.length; index += BATCH_SIZE) {
+        const batch = adminDb.batch()
+        flagged.slice(index, index + BATCH_SIZE).forEach((id) => {
+          batch.update(adminDb.collection("contracts").doc(id), { checkOutMissing: true, updatedAt: now })
+        })
+        await batch.commit()
+      }
+    }
+
+    return { dryRun: !!options.dryRun, checked: querySnapshot.size, flagged }
+  } catch (error) {
+    console.error("Error flagging missing check-outs:", error)
+    throw error
+  }
+}
@@ -0,0 +1,71 @@
+import { doc, getDoc, serverTimestamp, Timestamp, updateDoc } from "firebase/firestore"
+import { db, auth } from "./firebase"
+import { getContracts } from "./contract-service"
+import { getCancellationRecords } from "./cancellation-service"
+import { cancellationToLedgerEntry, contractToLedgerEntry, type LedgerEntry } from "./ledger"
+
+// "already_paid": o pagamento já foi registrado por uma das partes
+export type LedgerFailure = "not_found" | "already_paid"
+
+export class LedgerError extends Error {
+  constructor(public reason: LedgerFailure) {
+    super(`Payment record rejected (${reason})`)
+    this.name = "LedgerError"
+  }
+}
+
+// Ledger of a doctor (defaults to the current one): completed shifts and cancellation penalties/compensations,
+// newest shift first
+export const getDoctorLedger = async (doctorId?: string): Promise<LedgerEntry[]> => {
+  try {
+    const uid = doctorId || auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const [contracts, records] = await Promise.all([getContracts(uid), getCancellationRecords(uid)])
+    const contractsById = new Map(contracts.map((contract) => [contract.id, contract]))
+    const now = new Date()
+
+    const entries = [
+      ...contracts
+        .filter((contract) => contract.status === "completed")
+        .map((contract) => contractToLedgerEntry(contract, now)),
+      // Cancelamentos gratuitos ficam de fora
+      ...records
+        .filter((record) => record.amount > 0)
+        .map((record) => cancellationToLedgerEntry(record, contractsById.get(record.contractId) || null, now)),
+    ]
+
+    return entries.sort((a, b) => b.shiftDate.getTime() - a.shiftDate.getTime())
+  } catch (error) {
+    console.error("Error getting doctor ledger:", error)
+    throw error
+  }
+}
+
+// Record that an entry was paid: the hospital paying it or the doctor confirming they received it
+export const recordLedgerPayment = async (
+  entry: Pick<LedgerEntry, "source" | "sourceId">,
+  paidAt = new Date(),
+): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const ref = doc(db, entry.source === "contract" ? "contracts" : "cancellationRecords", entry.sourceId)
+    const snapshot = await getDoc(ref)
+    if (!snapshot.exists()) throw new LedgerError("not_found")
+
+    const data = snapshot.data()
+    const recordedBy = data.hospitalId === uid ? "hospital" : data.doctorId === uid ? "doctor" : null
+    if (!recordedBy) throw new LedgerError("not_found")
+    if (data.payment) throw new LedgerError("already_paid")
+
+    await updateDoc(ref, {
+      payment: { paidAt: Timestamp.fromDate(paidAt), recordedBy, recordedById: uid },
+      updatedAt: serverTimestamp(),
+    })
+  } catch (error) {
+    console.error("Error recording payment:", error)
+    throw error
+  }
+}
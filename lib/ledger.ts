@@ -0,0 +1,268 @@
+import { buildPdf, type PdfBlock } from "./pdf"
+import { DEFAULT_TIME_ZONE, toZonedInputValues } from "./shift-timing"
+import { getPaymentDueDate, resolvePaymentTerms, type PaymentRecord } from "./payment-terms"
+import { getBillableValue, type Contract } from "./contract-service"
+import type { CancellationRecord } from "./cancellation-service"
+import { estimateTaxes, sumTaxEstimates, type TaxSettings, type TaxTotals } from "./tax-calculator"
+
+// Extrato financeiro do médico: plantões concluídos (valor faturável) e os lançamentos de cancelamento
+
+export type LedgerEntryKind = "shift" | "penalty" | "compensation"
+
+export type LedgerStatus = "due" | "overdue" | "paid"
+
+export interface LedgerEntry {
+  // "contract-{id}" ou "cancellation-{id}"
+  id: string
+  source: "contract" | "cancellation"
+  sourceId: string
+  contractId: string
+  kind: LedgerEntryKind
+  hospitalId: string
+  hospital: string
+  description: string
+  shiftDate: Date
+  timeZone: string
+  // Positivo: a receber pelo médico; negativo: multa devida por ele
+  amount: number
+  dueAt: Date
+  status: LedgerStatus
+  payment?: PaymentRecord
+}
+
+export const getLedgerStatus = (dueAt: Date, payment: PaymentRecord | undefined, now: Date): LedgerStatus => {
+  if (payment) return "paid"
+  return dueAt < now ? "overdue" : "due"
+}
+
+// Plantão concluído; o prazo conta da aprovação das horas (ou do fim do plantão, nos contratos anteriores a ela)
+export const contractToLedgerEntry = (contract: Contract, now = new Date()): LedgerEntry => {
+  const approval = contract.hoursReview[contract.hoursReview.length - 1]
+  const dueAt = getPaymentDueDate(resolvePaymentTerms(contract.paymentTerms), approval ? approval.at : contract.endAt)
+
+  return {
+    id: `contract-${contract.id}`,
+    source: "contract",
+    sourceId: contract.id!,
+    contractId: contract.id!,
+    kind: "shift",
+    hospitalId: contract.hospitalId,
+    hospital: contract.hospital,
+    description: `Plantão ${contract.specialty}`,
+    shiftDate: contract.startAt,
+    timeZone: contract.timeZone,
+    amount: getBillableValue(contract),
+    dueAt,
+    status: getLedgerStatus(dueAt, contract.payment, now),
+    ...(contract.payment && { payment: contract.payment }),
+  }
+}
+
+// Multa ou compensação de um cancelamento, com o prazo de pagamento do contrato cancelado
+export const cancellationToLedgerEntry = (
+  record: CancellationRecord,
+  contract: Pick<Contract, "paymentTerms" | "timeZone"> | null,
+  now = new Date(),
+): LedgerEntry => {
+  const penalty = record.kind === "penalty"
+  const dueAt = getPaymentDueDate(resolvePaymentTerms(contract?.paymentTerms), record.createdAt || record.shiftStartAt)
+
+  return {
+    id: `cancellation-${record.id}`,
+    source: "cancellation",
+    sourceId: record.id,
+    contractId: record.contractId,
+    kind: record.kind,
+    hospitalId: record.hospitalId,
+    hospital: record.hospital,
+    description: penalty ? "Multa por cancelamento" : "Compensação por cancelamento do hospital",
+    shiftDate: record.shiftStartAt,
+    timeZone: contract?.timeZone || DEFAULT_TIME_ZONE,
+    amount: penalty ? -record.amount : record.amount,
+    dueAt,
+    status: getLedgerStatus(dueAt, record.payment, now),
+    ...(record.payment && { payment: record.payment }),
+  }
+}
+
+// Competência "2025-03": mês do plantão, no fuso dele
+export const getLedgerMonth = (entry: LedgerEntry): string => {
+  return toZonedInputValues(entry.shiftDate, entry.timeZone).day.slice(0, 7)
+}
+
+export interface LedgerFilters {
+  hospitalId?: string
+  status?: LedgerStatus
+  // Competências "AAAA-MM", inclusive
+  from?: string
+  to?: string
+}
+
+export const filterLedger = (entries: LedgerEntry[], filters: LedgerFilters): LedgerEntry[] => {
+  return entries.filter((entry) => {
+    const month = getLedgerMonth(entry)
+    return (
+      (!filters.hospitalId || entry.hospitalId === filters.hospitalId) &&
+      (!filters.status || entry.status === filters.status) &&
+      (!filters.from || month >= filters.from) &&
+      (!filters.to || month <= filters.to)
+    )
+  })
+}
+
+export interface LedgerTotals {
+  // Plantões e compensações
+  earned: number
+  penalties: number
+  paid: number
+  // Ainda não pago (líquido das multas em aberto), e dele o que já venceu
+  outstanding: number
+  overdue: number
+}
+
+export interface MonthlyLedgerTotals extends LedgerTotals {
+  month: string
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+export const sumLedger = (entries: LedgerEntry[]): LedgerTotals => {
+  const totals = entries.reduce(
+    (sum, entry) => ({
+      earned: sum.earned + Math.max(0, entry.amount),
+      penalties: sum.penalties + Math.max(0, -entry.amount),
+      paid: sum.paid + (entry.status === "paid" ? entry.amount : 0),
+      outstanding: sum.outstanding + (entry.status !== "paid" ? entry.amount : 0),
+      overdue: sum.overdue + (entry.status === "overdue" ? entry.amount : 0),
+    }),
+    { earned: 0, penalties: 0, paid: 0, outstanding: 0, overdue: 0 },
+  )
+  return {
+    earned: roundCents(totals.earned),
+    penalties: roundCents(totals.penalties),
+    paid: roundCents(totals.paid),
+    outstanding: roundCents(totals.outstanding),
+    overdue: roundCents(totals.overdue),
+  }
+}
+
+// Totais por competência, da mais recente para a mais antiga
+export const summarizeLedgerByMonth = (entries: LedgerEntry[]): MonthlyLedgerTotals[] => {
+  const byMonth = new Map<string, LedgerEntry[]>()
+  entries.forEach((entry) => {
+    const month = getLedgerMonth(entry)
+    byMonth.set(month, [...(byMonth.get(month) || []), entry])
+  })
+
+  return Array.from(byMonth, ([month, monthEntries]) => ({ month, ...sumLedger(monthEntries) })).sort((a, b) =>
+    b.month.localeCompare(a.month),
+  )
+}
+
+// Retenções estimadas sobre os ganhos (multas não entram): a tabela mensal se aplica ao total pago por cada
+// hospital na competência, por isso os valores são somados por hospital e mês antes da estimativa
+export const estimateLedgerTaxes = (entries: LedgerEntry[], settings: TaxSettings): TaxTotals => {
+  const groups = new Map<string, LedgerEntry[]>()
+  entries
+    .filter((entry) => entry.amount > 0)
+    .forEach((entry) => {
+      const key = `${getLedgerMonth(entry)}|${entry.hospitalId}`
+      groups.set(key, [...(groups.get(key) || []), entry])
+    })
+
+  return sumTaxEstimates(
+    Array.from(groups.values(), (group) =>
+      estimateTaxes(group.reduce((sum, entry) => sum + entry.amount, 0), settings, group[0].shiftDate),
+    ),
+  )
+}
+
+export const ledgerKindLabels: Record<LedgerEntryKind, string> = {
+  shift: "Plantão",
+  penalty: "Multa",
+  compensation: "Compensação",
+}
+
+export const ledgerStatusLabels: Record<LedgerStatus, string> = {
+  due: "A receber",
+  overdue: "Em atraso",
+  paid: "Pago",
+}
+
+// "03/2025"
+export const formatLedgerMonth = (month: string): string => {
+  const [year, monthNumber] = month.split("-")
+  return `${monthNumber}/${year}`
+}
+
+const formatDay = (date: Date, timeZone: string): string => {
+  const [year, month, day] = toZonedInputValues(date, timeZone).day.split("-")
+  return `${day}/${month}/${year}`
+}
+
+const formatMoney = (value: number): string => `R$ ${value.toFixed(2).replace(".", ",")}`
+
+// CSV para o contador: ";" como separador e vírgula decimal, como o Excel em português espera
+export const ledgerToCsv = (entries: LedgerEntry[]): string => {
+  const quote = (value: string) => (/[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+  const header = ["Competência", "Data do plantão", "Hospital", "Descrição", "Tipo", "Valor", "Vencimento", "Situação"]
+  const rows = entries.map((entry) => [
+    formatLedgerMonth(getLedgerMonth(entry)),
+    formatDay(entry.shiftDate, entry.timeZone),
+    entry.hospital,
+    entry.description,
+    ledgerKindLabels[entry.kind],
+    entry.amount.toFixed(2).replace(".", ","),
+    formatDay(entry.dueAt, entry.timeZone),
+    entry.payment
+      ? `${ledgerStatusLabels.paid} em ${formatDay(entry.payment.paidAt, entry.timeZone)}`
+      : ledgerStatusLabels[entry.status],
+  ])
+
+  // BOM para o Excel reconhecer o UTF-8
+  return "\uFEFF" + [header, ...rows].map((row) => row.map(quote).join(";")).join("\r\n")
+}
+
+// Extrato em PDF: totais por competência seguidos dos lançamentos
+export const renderLedgerStatement = (
+  entries: LedgerEntry[],
+  options: { doctorName: string; period: string },
+): Uint8Array => {
+  const totals = sumLedger(entries)
+  const blocks: PdfBlock[] = [
+    { kind: "title", text: "EXTRATO FINANCEIRO" },
+    { kind: "paragraph", text: `Médico: ${options.doctorName || "não informado"}` },
+    { kind: "paragraph", text: `Período: ${options.period}` },
+    { kind: "heading", text: "RESUMO" },
+    { kind: "bullet", text: `Plantões e compensações: ${formatMoney(totals.earned)}` },
+    { kind: "bullet", text: `Multas: ${formatMoney(totals.penalties)}` },
+    { kind: "bullet", text: `Pago: ${formatMoney(totals.paid)}` },
+    { kind: "bullet", text: `A receber: ${formatMoney(totals.outstanding)}` },
+    { kind: "bullet", text: `Em atraso: ${formatMoney(totals.overdue)}` },
+    { kind: "heading", text: "TOTAIS POR COMPETÊNCIA" },
+    ...summarizeLedgerByMonth(entries).map(
+      (month): PdfBlock => ({
+        kind: "bullet",
+        text:
+          `${formatLedgerMonth(month.month)}: ganhos ${formatMoney(month.earned)}, ` +
+          `multas ${formatMoney(month.penalties)}, pago ${formatMoney(month.paid)}, ` +
+          `a receber ${formatMoney(month.outstanding)}`,
+      }),
+    ),
+    { kind: "heading", text: "LANÇAMENTOS" },
+    ...(entries.length === 0 ? [{ kind: "paragraph" as const, text: "Nenhum lançamento no período." }] : []),
+    ...entries.map(
+      (entry): PdfBlock => ({
+        kind: "bullet",
+        text:
+          `${formatDay(entry.shiftDate, entry.timeZone)} - ${entry.hospital} - ${entry.description}: ` +
+          `${formatMoney(entry.amount)}, vencimento ${formatDay(entry.dueAt, entry.timeZone)}, ` +
+          (entry.payment
+            ? `pago em ${formatDay(entry.payment.paidAt, entry.timeZone)}`
+            : ledgerStatusLabels[entry.status].toLowerCase()),
+      }),
+    ),
+  ]
+
+  return buildPdf([blocks], { title: "Extrato financeiro", footer: `Extrato financeiro - ${options.period}` })
+}
@@ -0,0 +1,176 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  type DocumentData,
+  type QueryConstraint,
+} from "firebase/firestore"
+import { db } from "./firebase"
+import { getHourlyRate, type ShiftTiming } from "./shift-timing"
+
+// Filtros e paginação das listagens de propostas e contratos
+
+export type ListSort = "date" | "value" | "hourly_rate"
+
+export interface ListFilters {
+  specialty?: string
+  hospital?: string
+  from?: Date
+  // Exclusivo: plantões que começam antes desta data
+  to?: Date
+  minValue?: number
+  maxValue?: number
+  // Bairro, cidade ou parte do endereço
+  location?: string
+  sort?: ListSort
+}
+
+export interface ListPage<T> {
+  items: T[]
+  // Id do último documento da página; null quando não há mais resultados
+  nextCursor: string | null
+}
+
+export const LIST_PAGE_SIZE = 10
+
+// "São Paulo - SP" -> "sao paulo sp"
+export const normalizeSearchText = (text: string): string => {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+// Palavras e trechos (separados por vírgula ou hífen) do endereço, para busca com array-contains
+const getLocationTerms = (location: string): string[] => {
+  const segments = location.split(/[,;/\-\u2013]/).map(normalizeSearchText).filter(Boolean)
+  const words = segments.flatMap((segment) => segment.split(" ")).filter((word) => word.length > 1)
+  return [...new Set([...segments, ...words])].slice(0, 50)
+}
+
+// Campos derivados gravados junto do plantão para permitir filtrar e ordenar no Firestore
+export const getSearchFields = (shift: ShiftTiming & { hospital: string; location: string; value: number }) => ({
+  hospitalKey: normalizeSearchText(shift.hospital || ""),
+  locationTerms: getLocationTerms(shift.location || ""),
+  hourlyRate: getHourlyRate(shift) ?? 0,
+})
+
+// Só as combinações cobertas por firestore.indexes.json chegam ao Firestore: um filtro por vez entre
+// especialidade, hospital e local, e faixa de valor só com a ordenação por valor
+export const resolveListFilters = (filters: ListFilters): ListFilters => {
+  const { specialty, hospital, location, minValue, maxValue, ...rest } = filters
+  const key = specialty ? { specialty } : hospital ? { hospital } : location ? { location } : {}
+  const valueRange = filters.sort === "value" ? { minValue, maxValue } : {}
+
+  return { ...rest, ...key, ...valueRange }
+}
+
+// Restrições de consulta para os filtros; a ordenação vem por último
+export const buildListConstraints = (listFilters: ListFilters): QueryConstraint[] => {
+  const filters = resolveListFilters(listFilters)
+  const constraints: QueryConstraint[] = []
+
+  if (filters.specialty) constraints.push(where("specialty", "==", filters.specialty))
+  if (filters.hospital) constraints.push(where("hospitalKey", "==", normalizeSearchText(filters.hospital)))
+  if (filters.location) {
+    constraints.push(where("locationTerms", "array-contains", normalizeSearchText(filters.location)))
+  }
+  if (filters.from) constraints.push(where("startAt", ">=", filters.from))
+  if (filters.to) constraints.push(where("startAt", "<", filters.to))
+  if (filters.minValue) constraints.push(where("value", ">=", filters.minValue))
+  if (filters.maxValue) constraints.push(where("value", "<=", filters.maxValue))
+
+  if (filters.sort === "value") constraints.push(orderBy("value", "desc"))
+  else if (filters.sort === "hourly_rate") constraints.push(orderBy("hourlyRate", "desc"))
+  else constraints.push(orderBy("startAt", "asc"))
+
+  return constraints
+}
+
+// Busca uma página da coleção a partir do documento do cursor
+export const fetchListPage = async <T>(
+  collectionName: string,
+  constraints: QueryConstraint[],
+  cursor: string | null | undefined,
+  toItem: (id: string, data: DocumentData) => T,
+  pageSize: number = LIST_PAGE_SIZE,
+): Promise<ListPage<T>> => {
+  const cursorDoc = cursor ? await getDoc(doc(db, collectionName, cursor)) : null
+  // Um documento a mais indica se existe próxima página
+  const q = query(
+    collection(db, collectionName),
+    ...constraints,
+    ...(cursorDoc?.exists() ? [startAfter(cursorDoc)] : []),
+    limit(pageSize + 1),
+  )
+  const querySnapshot = await getDocs(q)
+  const docs = querySnapshot.docs.slice(0, pageSize)
+
+  return {
+    items: docs.map((snapshot) => toItem(snapshot.id, snapshot.data())),
+    nextCursor: querySnapshot.docs.length > pageSize ? docs[docs.length - 1].id : null,
+  }
+}
+
+const parseDay = (value: string | null): Date | undefined => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined
+  return new Date(`${value}T00:00`)
+}
+
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+const formatDay = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const parseAmount = (value: string | null): number | undefined => {
+  const amount = Number(value)
+  return value && amount > 0 ? amount : undefined
+}
+
+// Filtros lidos da query string (?specialty=...&from=2025-01-01&to=2025-01-31&sort=value)
+export const parseListFilters = (params: URLSearchParams): ListFilters => {
+  const to = parseDay(params.get("to"))
+  const sort = params.get("sort")
+
+  return resolveListFilters({
+    specialty: params.get("specialty") || undefined,
+    hospital: params.get("hospital") || undefined,
+    from: parseDay(params.get("from")),
+    // Na URL a data final é inclusiva
+    to: to && addDays(to, 1),
+    minValue: parseAmount(params.get("minValue")),
+    maxValue: parseAmount(params.get("maxValue")),
+    location: params.get("location") || undefined,
+    sort: sort === "value" || sort === "hourly_rate" ? sort : undefined,
+  })
+}
+
+// Inverso de parseListFilters; mantém os demais parâmetros (ex.: status)
+export const toListSearchParams = (filters: ListFilters, base?: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(base)
+  const values: Record<string, string | undefined> = {
+    specialty: filters.specialty,
+    hospital: filters.hospital,
+    from: filters.from && formatDay(filters.from),
+    to: filters.to && formatDay(addDays(filters.to, -1)),
+    minValue: filters.minValue?.toString(),
+    maxValue: filters.maxValue?.toString(),
+    location: filters.location,
+    sort: filters.sort,
+  }
+
+  Object.entries(values).forEach(([key, value]) => (value ? params.set(key, value) : params.delete(key)))
+  return params
+}
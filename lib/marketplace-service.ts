@@ -0,0 +1,277 @@
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  writeBatch,
+  type DocumentData,
+} from "firebase/firestore"
+import { db, auth } from "./firebase"
+import { getCurrentUserData } from "./auth-service"
+import { getDoctorProfile, isEligibleForShift } from "./profile-service"
+import { getOpenProposals, type AssignmentMode, type Proposal, type ProposalStatus } from "./proposal-service"
+import { resolveExpiry } from "./proposal-expiry"
+import { getHourlyRate, readShiftTiming } from "./shift-timing"
+import { getSearchFields } from "./list-query"
+
+export type BidStatus = "open" | "won" | "lost" | "withdrawn"
+
+// Lance de um médico por um plantão aberto; o id do documento é o uid do médico (um lance por médico)
+export interface Bid {
+  id: string
+  proposalId: string
+  doctorId: string
+  doctorName: string
+  crm: string
+  value: number
+  message: string
+  status: BidStatus
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export type BidTerms = Pick<Bid, "value" | "message">
+
+// "not_open": plantão já preenchido, retirado ou direcionado a um médico
+export type MarketplaceFailure = "not_found" | "not_open" | "expired" | "not_bidding" | "not_eligible" | "bid_closed"
+
+// Lance ou escolha recusados pelo estado atual do plantão
+export class MarketplaceError extends Error {
+  constructor(public reason: MarketplaceFailure) {
+    super(`Marketplace action rejected (${reason})`)
+    this.name = "MarketplaceError"
+  }
+}
+
+export interface MarketplaceFilters {
+  specialty?: string
+  from?: Date
+  to?: Date
+  minValue?: number
+  // Busca por hospital ou local
+  search?: string
+  assignmentMode?: AssignmentMode
+}
+
+export type MarketplaceSort = "date" | "value" | "hourly_rate"
+
+// Motivo pelo qual o plantão não aceita mais lances, conferido dentro das transações
+const getClosedReason = (data: DocumentData): MarketplaceFailure | null => {
+  if (data.status !== "pending" || data.doctorId || data.contractId) return "not_open"
+  if (data.assignmentMode !== "bidding") return "not_bidding"
+  if (resolveExpiry(data.expiresAt?.toDate(), readShiftTiming(data).startAt) <= new Date()) return "expired"
+  return null
+}
+
+const bidsCollection = (proposalId: string) => collection(db, "proposals", proposalId, "bids")
+
+const toBid = (proposalId: string, id: string, data: DocumentData): Bid => ({
+  id,
+  proposalId,
+  doctorId: data.doctorId,
+  doctorName: data.doctorName || "",
+  crm: data.crm || "",
+  value: data.value,
+  message: data.message || "",
+  status: data.status,
+  createdAt: data.createdAt?.toDate(),
+  updatedAt: data.updatedAt?.toDate(),
+})
+
+// Get the open shifts of the current doctor's specialties, earliest first
+export const getOpenShifts = async (): Promise<Proposal[]> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const profile = await getDoctorProfile(uid)
+    const specialties = profile?.professional?.specialties || []
+    if (specialties.length === 0) return []
+
+    const shifts = await getOpenProposals(specialties)
+    return shifts.sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+  } catch (error) {
+    console.error("Error getting open shifts:", error)
+    throw error
+  }
+}
+
+// Filtros da página de plantões abertos, aplicados sobre a lista já carregada
+export const filterOpenShifts = (shifts: Proposal[], filters: MarketplaceFilters): Proposal[] => {
+  const search = filters.search?.trim().toLowerCase()
+
+  return shifts.filter(
+    (shift) =>
+      (!filters.specialty || shift.specialty === filters.specialty) &&
+      (!filters.assignmentMode || shift.assignmentMode === filters.assignmentMode) &&
+      (!filters.from || shift.startAt >= filters.from) &&
+      (!filters.to || shift.startAt < filters.to) &&
+      (!filters.minValue || shift.value >= filters.minValue) &&
+      (!search || `${shift.hospital} ${shift.location}`.toLowerCase().includes(search)),
+  )
+}
+
+export const sortOpenShifts = (shifts: Proposal[], sort: MarketplaceSort): Proposal[] => {
+  const sorted = [...shifts]
+  if (sort === "value") return sorted.sort((a, b) => b.value - a.value)
+  if (sort === "hourly_rate") return sorted.sort((a, b) => (getHourlyRate(b) ?? 0) - (getHourlyRate(a) ?? 0))
+  return sorted.sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+}
+
+// Get the bids on a shift, lowest value first (hospital view)
+export const getBids = async (proposalId: string): Promise<Bid[]> => {
+  try {
+    const querySnapshot = await getDocs(bidsCollection(proposalId))
+    const bids = querySnapshot.docs.map((bidDoc) => toBid(proposalId, bidDoc.id, bidDoc.data()))
+
+    return bids.sort((a, b) => a.value - b.value)
+  } catch (error) {
+    console.error("Error getting bids:", error)
+    throw error
+  }
+}
+
+// Get the current doctor's bid on a shift, if any
+export const getMyBid = async (proposalId: string): Promise<Bid | null> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const bidDoc = await getDoc(doc(db, "proposals", proposalId, "bids", uid))
+    return bidDoc.exists() ? toBid(proposalId, bidDoc.id, bidDoc.data()) : null
+  } catch (error) {
+    console.error("Error getting bid:", error)
+    throw error
+  }
+}
+
+// Get every bid sent by the current doctor
+export const getMyBids = async (): Promise<Bid[]> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const q = query(collectionGroup(db, "bids"), where("doctorId", "==", uid))
+    const querySnapshot = await getDocs(q)
+
+    return querySnapshot.docs.map((bidDoc) => toBid(bidDoc.ref.parent.parent!.id, bidDoc.id, bidDoc.data()))
+  } catch (error) {
+    console.error("Error getting doctor bids:", error)
+    throw error
+  }
+}
+
+// Send or update the current doctor's bid on an open shift
+export const submitBid = async (proposalId: string, terms: BidTerms): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+    if (!(terms.value > 0)) throw new Error("Bid value must be positive")
+
+    const [userData, profile] = await Promise.all([getCurrentUserData(), getDoctorProfile(uid)])
+    if (userData?.userType !== "doctor") throw new Error("Only doctors can bid on shifts")
+
+    const proposalRef = doc(db, "proposals", proposalId)
+    const bidRef = doc(db, "proposals", proposalId, "bids", uid)
+
+    // A proposta é lida na transação para que um lance não entre depois da escolha do hospital
+    await runTransaction(db, async (transaction) => {
+      const [proposalDoc, bidDoc] = await Promise.all([transaction.get(proposalRef), transaction.get(bidRef)])
+      if (!proposalDoc.exists()) throw new MarketplaceError("not_found")
+
+      const data = proposalDoc.data()
+      const closed = getClosedReason(data)
+      if (closed) throw new MarketplaceError(closed)
+      if (!isEligibleForShift(profile, data.specialty)) throw new MarketplaceError("not_eligible")
+
+      transaction.set(bidRef, {
+        doctorId: uid,
+        doctorName: userData.name,
+        crm: profile?.professional?.crm || "",
+        value: terms.value,
+        message: terms.message.trim(),
+        status: "open" as BidStatus,
+        createdAt: bidDoc.exists() ? bidDoc.data().createdAt : serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+    })
+  } catch (error) {
+    console.error("Error submitting bid:", error)
+    throw error
+  }
+}
+
+// Withdraw the current doctor's open bid
+export const withdrawBid = async (proposalId: string): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const bidRef = doc(db, "proposals", proposalId, "bids", uid)
+    await runTransaction(db, async (transaction) => {
+      const bidDoc = await transaction.get(bidRef)
+      if (!bidDoc.exists() || bidDoc.data().status !== "open") throw new MarketplaceError("bid_closed")
+
+      transaction.update(bidRef, { status: "withdrawn" as BidStatus, updatedAt: serverTimestamp() })
+    })
+  } catch (error) {
+    console.error("Error withdrawing bid:", error)
+    throw error
+  }
+}
+
+// Choose a bid: the shift is directed to its doctor at the bid value, and the doctor signs the contract
+export const awardBid = async (proposalId: string, bidId: string): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const proposalRef = doc(db, "proposals", proposalId)
+    const bidRef = doc(db, "proposals", proposalId, "bids", bidId)
+
+    // Proposta e lance mudam juntos; dois cliques (ou duas abas) não escolhem dois médicos
+    await runTransaction(db, async (transaction) => {
+      const [proposalDoc, bidDoc] = await Promise.all([transaction.get(proposalRef), transaction.get(bidRef)])
+      if (!proposalDoc.exists()) throw new MarketplaceError("not_found")
+      if (proposalDoc.data().hospitalId !== uid) throw new Error("Proposal belongs to another hospital")
+
+      const closed = getClosedReason(proposalDoc.data())
+      if (closed) throw new MarketplaceError(closed)
+      if (!bidDoc.exists() || bidDoc.data().status !== "open") throw new MarketplaceError("bid_closed")
+
+      const proposal = proposalDoc.data()
+      transaction.update(proposalRef, {
+        doctorId: bidDoc.data().doctorId,
+        value: bidDoc.data().value,
+        ...getSearchFields({
+          ...readShiftTiming(proposal),
+          hospital: proposal.hospital,
+          location: proposal.location,
+          value: bidDoc.data().value,
+        }),
+        awardedBidId: bidId,
+        status: "pending" as ProposalStatus,
+        updatedAt: serverTimestamp(),
+      })
+      transaction.update(bidRef, { status: "won" as BidStatus, updatedAt: serverTimestamp() })
+    })
+
+    // Demais lances encerrados depois: transações do cliente não fazem consultas
+    const openBids = await getDocs(query(bidsCollection(proposalId), where("status", "==", "open")))
+    if (openBids.empty) return
+
+    const batch = writeBatch(db)
+    openBids.forEach((bidDoc) =>
+      batch.update(bidDoc.ref, { status: "lost" as BidStatus, updatedAt: serverTimestamp() }),
+    )
+    await batch.commit()
+  } catch (error) {
+    console.error("Error awarding bid:", error)
+    throw error
+  }
+}
@@ -0,0 +1,196 @@
+import { auth } from "./firebase"
+import { getTimeSlots, getTimeSlotsBetween, type TimeSlot } from "./availability-service"
+import { countCompletedContracts, getCompletedContractCountsByHospital } from "./contract-service"
+import { getDoctorProfile, type DoctorProfile } from "./profile-service"
+import { getHospitalProfile } from "./hospital-service"
+import { getPendingProposals, getProposal, type Proposal } from "./proposal-service"
+import { getUserData } from "./auth-service"
+import { distanceInMeters } from "./geo"
+import { getDoctorReliability, type DoctorReliability } from "./cancellation-service"
+import { getHourlyRate, getShiftHours, getShiftWindow, getSlotWindow, windowCovers, type TimeWindow } from "./shift-timing"
+
+// Peso de cada critério na nota final (somam 1)
+const WEIGHTS = {
+  rate: 0.4,
+  history: 0.3,
+  distance: 0.3,
+}
+
+// Contratos concluídos com o hospital a partir dos quais o histórico vale nota máxima
+const HISTORY_SATURATION = 5
+
+// Distância a partir da qual o critério de proximidade zera
+const MAX_DISTANCE_METERS = 50_000
+
+// Nota usada quando não há dados para avaliar um critério
+const NEUTRAL_SCORE = 0.5
+
+export interface MatchScore {
+  total: number
+  rate: number
+  history: number
+  distance: number
+  completedWithHospital: number
+  distanceMeters?: number
+}
+
+export interface DoctorMatch {
+  doctorId: string
+  name: string
+  hourlyRate?: number
+  slot: TimeSlot
+  score: MatchScore
+  // Sem as métricas (ex.: falha na consulta) a recomendação continua valendo
+  reliability: DoctorReliability | null
+}
+
+export interface ProposalMatch {
+  proposal: Proposal
+  slot: TimeSlot
+  score: MatchScore
+}
+
+// A especialidade pode vir tanto da disponibilidade quanto do perfil profissional
+const hasSpecialty = (specialty: string, slot: TimeSlot, profile: DoctorProfile | null): boolean => {
+  return slot.specialties.includes(specialty) || !!profile?.professional?.specialties?.includes(specialty)
+}
+
+// Disponibilidades que cobrem o plantão inteiro
+const getCoveringSlots = (slots: TimeSlot[], shift: TimeWindow): TimeSlot[] => {
+  return slots.filter((slot) => {
+    const window = getSlotWindow(slot.date, slot.startTime, slot.endTime)
+    return !!window && windowCovers(window, shift)
+  })
+}
+
+const scoreMatch = (
+  proposal: Proposal,
+  profile: DoctorProfile | null,
+  completedWithHospital: number,
+  hospitalCoordinates = proposal.hospitalProfile?.coordinates,
+): MatchScore => {
+  // Valor/hora oferecido comparado ao valor/hora pedido pelo médico
+  const offeredRate = getHourlyRate(proposal)
+  const askedRate = profile?.financial?.hourlyRate
+  const rate = askedRate && offeredRate !== null ? Math.min(1, offeredRate / askedRate) : NEUTRAL_SCORE
+
+  const history = Math.min(1, completedWithHospital / HISTORY_SATURATION)
+
+  const doctorCoordinates = profile?.personal?.coordinates
+  const distanceMeters =
+    doctorCoordinates && hospitalCoordinates ? distanceInMeters(doctorCoordinates, hospitalCoordinates) : undefined
+  const distance =
+    distanceMeters === undefined ? NEUTRAL_SCORE : Math.max(0, 1 - distanceMeters / MAX_DISTANCE_METERS)
+
+  return {
+    total: rate * WEIGHTS.rate + history * WEIGHTS.history + distance * WEIGHTS.distance,
+    rate,
+    history,
+    distance,
+    completedWithHospital,
+    distanceMeters,
+  }
+}
+
+// Ranked list of doctors whose availability covers a proposal, for the hospital that published it
+export const rankDoctorsForProposal = async (proposalId: string): Promise<DoctorMatch[]> => {
+  try {
+    const proposal = await getProposal(proposalId)
+    if (!proposal) throw new Error("Proposal not found")
+
+    if (getShiftHours(proposal) === 0) return []
+    const shift = getShiftWindow(proposal)
+
+    // Disponibilidades do dia anterior podem atravessar a meia-noite e cobrir o plantão
+    const from = new Date(shift.start.getTime() - 24 * 60 * 60 * 1000)
+    const to = new Date(shift.end)
+
+    const [slots, hospitalProfile] = await Promise.all([
+      getTimeSlotsBetween(from, to),
+      getHospitalProfile(proposal.hospitalId),
+    ])
+
+    const slotsByDoctor = new Map<string, TimeSlot[]>()
+    slots.forEach((slot) => {
+      slotsByDoctor.set(slot.doctorId, [...(slotsByDoctor.get(slot.doctorId) || []), slot])
+    })
+
+    const matches = await Promise.all(
+      Array.from(slotsByDoctor.entries()).map(async ([doctorId, doctorSlots]): Promise<DoctorMatch | null> => {
+        const coveringSlots = getCoveringSlots(doctorSlots, shift)
+        if (!coveringSlots.length) return null
+
+        const [profile, reliability] = await Promise.all([
+          getDoctorProfile(doctorId),
+          getDoctorReliability(doctorId).catch(() => null),
+        ])
+        // Primeira disponibilidade que cobre o plantão e atende a especialidade
+        const slot = coveringSlots.find((candidate) => hasSpecialty(proposal.specialty, candidate, profile))
+        if (!slot) return null
+
+        // Histórico com o hospital contado só para os médicos que atendem o plantão
+        const [completedWithHospital, userData] = await Promise.all([
+          countCompletedContracts(doctorId, proposal.hospitalId),
+          profile?.personal?.name ? null : getUserData(doctorId),
+        ])
+        const name = profile?.personal?.name || userData?.name || "Médico"
+
+        return {
+          doctorId,
+          name,
+          hourlyRate: profile?.financial?.hourlyRate,
+          slot,
+          reliability,
+          score: scoreMatch(
+            proposal,
+            profile,
+            completedWithHospital,
+            hospitalProfile?.coordinates || proposal.hospitalProfile?.coordinates,
+          ),
+        }
+      }),
+    )
+
+    return matches
+      .filter((match): match is DoctorMatch => match !== null)
+      .sort((a, b) => b.score.total - a.score.total)
+  } catch (error) {
+    console.error("Error ranking doctors for proposal:", error)
+    throw error
+  }
+}
+
+// "Recomendadas para você": pending proposals that fit the current doctor's availability
+export const getRecommendedProposals = async (): Promise<ProposalMatch[]> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const [slots, profile, proposals, completedByHospital] = await Promise.all([
+      getTimeSlots(),
+      getDoctorProfile(uid),
+      getPendingProposals(),
+      getCompletedContractCountsByHospital(uid),
+    ])
+
+    const candidates = proposals
+      .filter((proposal) => !proposal.doctorId || proposal.doctorId === uid)
+      .map((proposal) => {
+        const coveringSlots = getShiftHours(proposal) > 0 ? getCoveringSlots(slots, getShiftWindow(proposal)) : []
+        const slot = coveringSlots.find((candidate) => hasSpecialty(proposal.specialty, candidate, profile))
+        return { proposal, slot }
+      })
+      .filter((candidate): candidate is { proposal: Proposal; slot: TimeSlot } => !!candidate.slot)
+
+    return candidates
+      .map(({ proposal, slot }) => ({
+        proposal,
+        slot,
+        score: scoreMatch(proposal, profile, completedByHospital.get(proposal.hospitalId) || 0),
+      }))
+      .sort((a, b) => b.score.total - a.score.total)
+  } catch (error) {
+    console.error("Error getting recommended proposals:", error)
+    throw error
+  }
+}
@@ -0,0 +1,58 @@
+import { FieldValue } from "firebase-admin/firestore"
+import { adminDb } from "../firebase-admin"
+import { readAttendancePunches } from "../attendance-log"
+
+// Limite de operações por lote do Firestore
+const BATCH_SIZE = 400
+
+export interface AttendancePunchesMigrationReport {
+  dryRun: boolean
+  migrated: number
+  alreadyMigrated: number
+}
+
+// Converte checkInTime/checkOutTime (e as posições) dos contratos antigos em marcações do registro de ponto
+export const migrateAttendancePunches = async (
+  options: { dryRun?: boolean } = {},
+): Promise<AttendancePunchesMigrationReport> => {
+  try {
+    const report: AttendancePunchesMigrationReport = { dryRun: !!options.dryRun, migrated: 0, alreadyMigrated: 0 }
+    const updates: { id: string; fields: Record<string, unknown> }[] = []
+
+    const querySnapshot = await adminDb.collection("contracts").get()
+    querySnapshot.forEach((snapshot) => {
+      const data = snapshot.data()
+      if (data.punches || (!data.checkInTime && !data.checkOutTime)) {
+        report.alreadyMigrated++
+        return
+      }
+
+      updates.push({
+        id: snapshot.id,
+        fields: {
+          punches: readAttendancePunches(data),
+          checkInTime: FieldValue.delete(),
+          checkOutTime: FieldValue.delete(),
+          checkInLocation: FieldValue.delete(),
+          checkOutLocation: FieldValue.delete(),
+        },
+      })
+    })
+
+    if (!report.dryRun) {
+      for (let index = 0; index < updates.length; index += BATCH_SIZE) {
+        const batch = adminDb.batch()
+        updates.slice(index, index + BATCH_SIZE).forEach(({ id, fields }) => {
+          batch.update(adminDb.collection("contracts").doc(id), fields)
+        })
+        await batch.commit()
+      }
+    }
+
+    report.migrated = updates.length
+    return report
+  } catch (error) {
+    console.error("Error migrating attendance punches:", error)
+    throw error
+  }
+}
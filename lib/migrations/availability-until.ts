@@ -0,0 +1,47 @@
+import { adminDb } from "../firebase-admin"
+import { OPEN_ENDED_UNTIL } from "../recurrence"
+
+// Limite de operações por lote do Firestore
+const BATCH_SIZE = 400
+
+export interface AvailabilityUntilMigrationReport {
+  dryRun: boolean
+  migrated: number
+  alreadyMigrated: number
+}
+
+// Grava o término sentinela nas séries sem data de término, que antes ficavam com until null e não entram na
+// consulta de getTimeSlotsBetween
+export const migrateAvailabilityUntil = async (
+  options: { dryRun?: boolean } = {},
+): Promise<AvailabilityUntilMigrationReport> => {
+  try {
+    const report: AvailabilityUntilMigrationReport = { dryRun: !!options.dryRun, migrated: 0, alreadyMigrated: 0 }
+    const ids: string[] = []
+
+    const querySnapshot = await adminDb.collection("availabilityRules").get()
+    querySnapshot.forEach((snapshot) => {
+      if (snapshot.data().until) {
+        report.alreadyMigrated++
+        return
+      }
+      ids.push(snapshot.id)
+    })
+
+    if (!report.dryRun) {
+      for (let index = 0; index < ids.length; index += BATCH_SIZE) {
+        const batch = adminDb.batch()
+        ids.slice(index, index + BATCH_SIZE).forEach((id) => {
+          batch.update(adminDb.collection("availabilityRules").doc(id), { until: OPEN_ENDED_UNTIL })
+        })
+        await batch.commit()
+      }
+    }
+
+    report.migrated = ids.length
+    return report
+  } catch (error) {
+    console.error("Error migrating availability until:", error)
+    throw error
+  }
+}
@@ -0,0 +1,62 @@
+import { adminDb } from "../firebase-admin"
+import { readShiftTiming } from "../shift-timing"
+import { resolveExpiry } from "../proposal-expiry"
+import { getSearchFields } from "../list-query"
+
+// Coleções listadas com filtros e ordenação no Firestore
+const COLLECTIONS = ["proposals", "contracts"] as const
+
+// Limite de operações por lote do Firestore
+const BATCH_SIZE = 400
+
+export interface SearchFieldsMigrationReport {
+  dryRun: boolean
+  migrated: number
+  alreadyMigrated: number
+}
+
+// Preenche hospitalKey/locationTerms/hourlyRate e, nas propostas antigas, o expiresAt usado pelas abas em aberto
+export const migrateSearchFields = async (options: { dryRun?: boolean } = {}): Promise<SearchFieldsMigrationReport> => {
+  try {
+    const report: SearchFieldsMigrationReport = { dryRun: !!options.dryRun, migrated: 0, alreadyMigrated: 0 }
+    const updates: { path: [string, string]; fields: Record<string, unknown> }[] = []
+
+    for (const name of COLLECTIONS) {
+      const querySnapshot = await adminDb.collection(name).get()
+
+      querySnapshot.forEach((snapshot) => {
+        const data = snapshot.data()
+        const missingExpiry = name === "proposals" && !data.expiresAt
+        if (data.locationTerms && typeof data.hourlyRate === "number" && !missingExpiry) {
+          report.alreadyMigrated++
+          return
+        }
+
+        const timing = readShiftTiming(data)
+        updates.push({
+          path: [name, snapshot.id],
+          fields: {
+            ...getSearchFields({ ...timing, hospital: data.hospital, location: data.location, value: data.value }),
+            ...(missingExpiry && { expiresAt: resolveExpiry(null, timing.startAt) }),
+          },
+        })
+      })
+    }
+
+    if (!report.dryRun) {
+      for (let index = 0; index < updates.length; index += BATCH_SIZE) {
+        const batch = adminDb.batch()
+        updates.slice(index, index + BATCH_SIZE).forEach(({ path: [name, id], fields }) => {
+          batch.update(adminDb.collection(name).doc(id), fields)
+        })
+        await batch.commit()
+      }
+    }
+
+    report.migrated = updates.length
+    return report
+  } catch (error) {
+    console.error("Error migrating search fields:", error)
+    throw error
+  }
+}
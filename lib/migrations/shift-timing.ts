@@ -0,0 +1,62 @@
+import { adminDb } from "../firebase-admin"
+import { DEFAULT_TIME_ZONE, legacyShiftTiming } from "../shift-timing"
+
+// Coleções que guardavam o horário como date + time + duration em texto
+const COLLECTIONS = ["proposals", "contracts"] as const
+
+// Limite de operações por lote do Firestore
+const BATCH_SIZE = 400
+
+export interface ShiftTimingMigrationReport {
+  dryRun: boolean
+  migrated: number
+  alreadyMigrated: number
+  // Documentos cujo horário não pôde ser interpretado (ex.: duration "noturno") e exigem correção manual
+  skipped: { collection: string; id: string; time?: string; duration?: string }[]
+}
+
+// Preenche startAt/endAt/timeZone a partir dos campos antigos; os campos antigos são mantidos
+export const migrateShiftTiming = async (options: { dryRun?: boolean } = {}): Promise<ShiftTimingMigrationReport> => {
+  try {
+    const report: ShiftTimingMigrationReport = { dryRun: !!options.dryRun, migrated: 0, alreadyMigrated: 0, skipped: [] }
+    const updates: { path: [string, string]; fields: Record<string, unknown> }[] = []
+
+    for (const name of COLLECTIONS) {
+      const querySnapshot = await adminDb.collection(name).get()
+
+      querySnapshot.forEach((snapshot) => {
+        const data = snapshot.data()
+        if (data.startAt && data.endAt) {
+          report.alreadyMigrated++
+          return
+        }
+
+        const timing = data.date
+          ? legacyShiftTiming(data.date.toDate(), data.time, data.duration, data.timeZone || DEFAULT_TIME_ZONE)
+          : null
+        if (!timing) {
+          report.skipped.push({ collection: name, id: snapshot.id, time: data.time, duration: data.duration })
+          return
+        }
+
+        updates.push({ path: [name, snapshot.id], fields: { ...timing, shiftTimingMigratedAt: new Date() } })
+      })
+    }
+
+    if (!report.dryRun) {
+      for (let index = 0; index < updates.length; index += BATCH_SIZE) {
+        const batch = adminDb.batch()
+        updates.slice(index, index + BATCH_SIZE).forEach(({ path: [name, id], fields }) => {
+          batch.update(adminDb.collection(name).doc(id), fields)
+        })
+        await batch.commit()
+      }
+    }
+
+    report.migrated = updates.length
+    return report
+  } catch (error) {
+    console.error("Error migrating shift timing:", error)
+    throw error
+  }
+}
@@ -0,0 +1,163 @@
+import { doc, runTransaction, serverTimestamp, Timestamp, type DocumentData } from "firebase/firestore"
+import { db, auth } from "./firebase"
+import type { OfferParty, ProposalOffer, ProposalStatus } from "./proposal-service"
+import { resolveExpiry } from "./proposal-expiry"
+import { readShiftTiming } from "./shift-timing"
+import { getSearchFields } from "./list-query"
+import { getCurrentUserData } from "./auth-service"
+import { getDoctorProfile, isEligibleForShift } from "./profile-service"
+
+// Valor e horário propostos por uma das partes, com uma mensagem opcional
+export type OfferTerms = Pick<ProposalOffer, "value" | "startAt" | "endAt" | "message">
+
+// Oferta aguardando resposta, quando houver
+export const getOpenOffer = (offers: ProposalOffer[]): ProposalOffer | null => {
+  const last = offers[offers.length - 1]
+  return last?.status === "open" ? last : null
+}
+
+// Parte que o usuário representa na proposta
+const getParty = (data: DocumentData, uid: string): OfferParty => (data.hospitalId === uid ? "hospital" : "doctor")
+
+// Ofertas como estão no Firestore (Timestamps); serverTimestamp não é aceito dentro de arrays
+const getStoredOffers = (data: DocumentData): DocumentData[] => data.offers || []
+
+const getStoredOpenOffer = (offers: DocumentData[]): DocumentData | null => {
+  const last = offers[offers.length - 1]
+  return last?.status === "open" ? last : null
+}
+
+// Fecha a oferta vigente com o status informado
+const closeOpenOffer = (offers: DocumentData[], status: ProposalOffer["status"]): DocumentData[] => {
+  return offers.map((offer, index) =>
+    index === offers.length - 1 && offer.status === "open" ? { ...offer, status, respondedAt: Timestamp.now() } : offer,
+  )
+}
+
+// Run a negotiation step on a proposal as the current user
+const negotiate = async (
+  proposalId: string,
+  step: (data: DocumentData, party: OfferParty, uid: string) => DocumentData,
+): Promise<void> => {
+  const uid = auth.currentUser?.uid
+  if (!uid) throw new Error("User not authenticated")
+
+  // Quem não é o hospital do plantão só negocia como médico, e só plantões da sua especialidade
+  const [userData, profile] = await Promise.all([getCurrentUserData(), getDoctorProfile(uid)])
+
+  const proposalRef = doc(db, "proposals", proposalId)
+  await runTransaction(db, async (transaction) => {
+    const proposalDoc = await transaction.get(proposalRef)
+    if (!proposalDoc.exists()) throw new Error("Proposal not found")
+
+    const data = proposalDoc.data()
+    const party = getParty(data, uid)
+    if (party === "doctor") {
+      if (userData?.userType !== "doctor") throw new Error("Only doctors can negotiate shifts")
+      if (data.doctorId && data.doctorId !== uid) throw new Error("Proposal belongs to another doctor")
+      if (!isEligibleForShift(profile, data.specialty)) throw new Error("Doctor is not eligible for this shift")
+    }
+    if (resolveExpiry(data.expiresAt?.toDate(), readShiftTiming(data).startAt) <= new Date()) {
+      throw new Error("Proposal has expired")
+    }
+
+    transaction.update(proposalRef, { ...step(data, party, uid), updatedAt: serverTimestamp() })
+  })
+}
+
+// Propose a different value and/or time; the doctor opens the negotiation, after that each side counters in turn
+export const submitCounterOffer = async (proposalId: string, terms: OfferTerms): Promise<void> => {
+  try {
+    if (!(terms.value > 0)) throw new Error("Offer value must be positive")
+    if (terms.endAt <= terms.startAt) throw new Error("Offer must end after it starts")
+
+    await negotiate(proposalId, (data, party, uid) => {
+      const offers = getStoredOffers(data)
+      const openOffer = getStoredOpenOffer(offers)
+      const starting = party === "doctor" && data.status === "pending"
+
+      if (!starting && (data.status !== "negotiating" || !openOffer || openOffer.by === party)) {
+        throw new Error("It is not this party's turn to make an offer")
+      }
+      // Em plantões por lances a negociação de valor acontece pelos lances
+      if (starting && !data.doctorId && data.assignmentMode === "bidding") {
+        throw new Error("Open bidding shifts take bids instead of counter-offers")
+      }
+
+      const offer = {
+        by: party,
+        authorId: uid,
+        value: terms.value,
+        startAt: Timestamp.fromDate(terms.startAt),
+        endAt: Timestamp.fromDate(terms.endAt),
+        message: terms.message.trim(),
+        status: "open",
+        createdAt: Timestamp.now(),
+      }
+
+      return {
+        offers: [...closeOpenOffer(offers, "countered"), offer],
+        status: "negotiating" as ProposalStatus,
+        // A proposta fica reservada ao médico enquanto a negociação estiver aberta
+        ...(starting && { doctorId: uid, listedDoctorId: data.doctorId ?? null }),
+      }
+    })
+  } catch (error) {
+    console.error("Error submitting counter-offer:", error)
+    throw error
+  }
+}
+
+// Accept the other side's offer: its terms become the proposal's and the doctor can sign the contract
+export const acceptOffer = async (proposalId: string): Promise<void> => {
+  try {
+    await negotiate(proposalId, (data, party) => {
+      const offers = getStoredOffers(data)
+      const openOffer = getStoredOpenOffer(offers)
+      if (data.status !== "negotiating" || !openOffer || openOffer.by === party) {
+        throw new Error("There is no offer to accept")
+      }
+
+      return {
+        offers: closeOpenOffer(offers, "accepted"),
+        value: openOffer.value,
+        startAt: openOffer.startAt,
+        endAt: openOffer.endAt,
+        ...getSearchFields({
+          ...readShiftTiming({ ...data, startAt: openOffer.startAt, endAt: openOffer.endAt }),
+          hospital: data.hospital,
+          location: data.location,
+          value: openOffer.value,
+        }),
+        status: "pending" as ProposalStatus,
+        listedDoctorId: null,
+      }
+    })
+  } catch (error) {
+    console.error("Error accepting offer:", error)
+    throw error
+  }
+}
+
+// Decline the other side's offer; the proposal goes back to its original terms and audience
+export const declineOffer = async (proposalId: string): Promise<void> => {
+  try {
+    await negotiate(proposalId, (data, party) => {
+      const offers = getStoredOffers(data)
+      const openOffer = getStoredOpenOffer(offers)
+      if (data.status !== "negotiating" || !openOffer || openOffer.by === party) {
+        throw new Error("There is no offer to decline")
+      }
+
+      return {
+        offers: closeOpenOffer(offers, "declined"),
+        status: "pending" as ProposalStatus,
+        doctorId: data.listedDoctorId ?? null,
+        listedDoctorId: null,
+      }
+    })
+  } catch (error) {
+    console.error("Error declining offer:", error)
+    throw error
+  }
+}
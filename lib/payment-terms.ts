@@ -0,0 +1,49 @@
+import { integerInWords } from "./amount-in-words"
+
+// Prazo de pagamento do hospital, contado da conclusão do plantão (aprovação das horas)
+export interface PaymentTerms {
+  days: number
+  // Dias úteis (segunda a sexta) ou corridos
+  businessDays: boolean
+}
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = {
+  days: 5,
+  businessDays: true,
+}
+
+// Completa o prazo do hospital com os valores padrão
+export const resolvePaymentTerms = (terms?: Partial<PaymentTerms> | null): PaymentTerms => ({
+  days: terms?.days !== undefined && terms.days >= 0 ? Math.round(terms.days) : DEFAULT_PAYMENT_TERMS.days,
+  businessDays: terms?.businessDays ?? DEFAULT_PAYMENT_TERMS.businessDays,
+})
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Data limite do pagamento; em dias úteis, sábados e domingos (no UTC) não contam
+export const getPaymentDueDate = (terms: PaymentTerms, from: Date): Date => {
+  if (!terms.businessDays) return new Date(from.getTime() + terms.days * DAY)
+
+  let due = from
+  let remaining = terms.days
+  while (remaining > 0) {
+    due = new Date(due.getTime() + DAY)
+    const weekDay = due.getUTCDay()
+    if (weekDay !== 0 && weekDay !== 6) remaining--
+  }
+  return due
+}
+
+// "5 (cinco) dias úteis"
+export const describePaymentTerms = (terms: PaymentTerms): string => {
+  const unit = terms.days === 1 ? "dia" : "dias"
+  const kind = terms.businessDays ? (terms.days === 1 ? "útil" : "úteis") : terms.days === 1 ? "corrido" : "corridos"
+  return `${terms.days} (${integerInWords(terms.days)}) ${unit} ${kind}`
+}
+
+// Pagamento registrado pelo hospital (pago) ou pelo médico (recebido)
+export interface PaymentRecord {
+  paidAt: Date
+  recordedBy: "doctor" | "hospital"
+  recordedById: string
+}
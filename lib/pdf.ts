@@ -0,0 +1,206 @@
+// Geração de PDFs simples (texto em Helvetica, página A4) para contratos e comprovantes.
+// A saída é determinística: os mesmos blocos geram sempre os mesmos bytes, o que permite conferir o hash
+// de um documento gerando-o novamente
+
+export type PdfBlockKind = "title" | "heading" | "paragraph" | "bullet" | "small"
+
+export interface PdfBlock {
+  kind: PdfBlockKind
+  text: string
+}
+
+// Cada seção começa em uma nova página
+export type PdfSection = PdfBlock[]
+
+export interface PdfOptions {
+  title: string
+  // Texto do rodapé de todas as páginas, antes do número da página
+  footer?: string
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56
+const FOOTER_Y = 32
+const BULLET_INDENT = 14
+
+const styles: Record<PdfBlockKind, { font: "F1" | "F2"; size: number; spaceBefore: number }> = {
+  title: { font: "F2", size: 14, spaceBefore: 0 },
+  heading: { font: "F2", size: 11, spaceBefore: 12 },
+  paragraph: { font: "F1", size: 10, spaceBefore: 6 },
+  bullet: { font: "F1", size: 10, spaceBefore: 2 },
+  small: { font: "F1", size: 8, spaceBefore: 4 },
+}
+
+// Larguras da Helvetica (1/1000 em) dos caracteres 32 a 126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+]
+
+// A Helvetica-Bold é um pouco mais larga; a margem evita que linhas em negrito ultrapassem a página
+const BOLD_FACTOR = 1.08
+
+// Caracteres fora do Latin-1 que existem na WinAnsiEncoding
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+}
+
+// Texto como bytes WinAnsi (um caractere por byte); o que não existe na codificação vira "?"
+const toWinAnsi = (text: string): string => {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0)
+      if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char])
+      if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return char
+      return "?"
+    })
+    .join("")
+}
+
+const charWidth = (char: string): number => {
+  const code = char.charCodeAt(0)
+  if (code >= 32 && code <= 126) return HELVETICA_WIDTHS[code - 32]
+  // Letras acentuadas têm a largura da letra base
+  const base = char.normalize("NFD").charCodeAt(0)
+  if (base >= 32 && base <= 126) return HELVETICA_WIDTHS[base - 32]
+  return 556
+}
+
+const textWidth = (text: string, font: "F1" | "F2", size: number): number => {
+  const units = Array.from(text).reduce((sum, char) => sum + charWidth(char), 0)
+  return (units * size * (font === "F2" ? BOLD_FACTOR : 1)) / 1000
+}
+
+// Quebra o texto em linhas que cabem na largura; palavras maiores que a linha são cortadas
+const wrapText = (text: string, font: "F1" | "F2", size: number, width: number): string[] => {
+  const lines: string[] = []
+  let current = ""
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word
+    if (textWidth(candidate, font, size) <= width) {
+      current = candidate
+      return
+    }
+    if (current) lines.push(current)
+
+    current = word
+    while (textWidth(current, font, size) > width) {
+      let cut = current.length - 1
+      while (cut > 1 && textWidth(current.slice(0, cut), font, size) > width) cut--
+      lines.push(current.slice(0, cut))
+      current = current.slice(cut)
+    }
+  })
+  if (current) lines.push(current)
+
+  return lines.length > 0 ? lines : [""]
+}
+
+const escapeString = (text: string): string => text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)")
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100)
+
+const textCommand = (font: "F1" | "F2", size: number, x: number, y: number, text: string): string => {
+  return `BT /${font} ${size} Tf ${formatNumber(x)} ${formatNumber(y)} Td (${escapeString(toWinAnsi(text))}) Tj ET`
+}
+
+// Distribui os blocos em páginas e devolve o conteúdo (operadores de texto) de cada uma
+const layoutPages = (sections: PdfSection[], options: PdfOptions): string[] => {
+  const pages: string[][] = []
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN
+  let y = 0
+
+  const newPage = () => {
+    pages.push([])
+    y = PAGE_HEIGHT - MARGIN
+  }
+
+  sections.forEach((section) => {
+    newPage()
+    section.forEach((block, index) => {
+      const style = styles[block.kind]
+      const indent = block.kind === "bullet" ? BULLET_INDENT : 0
+      const lineHeight = style.size * 1.4
+      const lines = wrapText(block.text, style.font, style.size, contentWidth - indent)
+
+      if (index > 0) y -= style.spaceBefore
+      // Títulos não ficam sozinhos no pé da página
+      const keepTogether = block.kind === "heading" || block.kind === "title" ? 3 : 1
+      if (y - lineHeight * keepTogether < MARGIN) newPage()
+
+      lines.forEach((line, lineIndex) => {
+        if (y - lineHeight < MARGIN) newPage()
+        y -= lineHeight
+        const page = pages[pages.length - 1]
+        if (block.kind === "bullet" && lineIndex === 0) {
+          page.push(textCommand(style.font, style.size, MARGIN, y, "•"))
+        }
+        page.push(textCommand(style.font, style.size, MARGIN + indent, y, line))
+      })
+    })
+  })
+
+  return pages.map((commands, index) => {
+    const footer = `${options.footer ? `${options.footer} · ` : ""}Página ${index + 1}`
+    return [...commands, textCommand("F1", 8, MARGIN, FOOTER_Y, footer)].join("\n")
+  })
+}
+
+// Monta o arquivo PDF (objetos, tabela xref e trailer) a partir das seções
+export const buildPdf = (sections: PdfSection[], options: PdfOptions): Uint8Array => {
+  const pageContents = layoutPages(sections, options)
+  const objects: string[] = []
+  const pageIds = pageContents.map((_, index) => 6 + index * 2)
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>"
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+  objects[5] = `<< /Title (${escapeString(toWinAnsi(options.title))}) /Producer (Plantao Medico) >>`
+  pageContents.forEach((content, index) => {
+    const pageId = pageIds[index]
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+  })
+
+  // Comentário com bytes acima de 127 indica aos leitores que o arquivo é binário
+  let output = "%PDF-1.4\n%âãÏÓ\n"
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  // Todo o conteúdo já está em WinAnsi: cada caractere corresponde a um byte
+  return Uint8Array.from(output, (char) => char.charCodeAt(0))
+}
+
+// SHA-256 (hexadecimal) dos bytes de um documento
+export const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
@@ -1,6 +1,8 @@
 import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore"
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage"
 import { db, storage, auth } from "./firebase"
+import type { Coordinates } from "./geo"
+import type { TaxSettings } from "./tax-calculator"
 
 export interface PersonalInfo {
   name: string
@@ -11,6 +13,7 @@ export interface PersonalInfo {
   gender: string
   address: string
   photoURL?: string
+  coordinates?: Coordinates
 }
 
 export interface ProfessionalInfo {
@@ -37,6 +40,8 @@ export interface DoctorProfile {
   personal: PersonalInfo
   professional: ProfessionalInfo
   financial: FinancialInfo
+  // Regime de recebimento, usado nas estimativas de valor líquido
+  tax?: TaxSettings
   updatedAt: Date
 }
 
@@ -58,6 +63,11 @@ export const getDoctorProfile = async (userId?: string): Promise<DoctorProfile |
   }
 }
 
+// Só médicos com a especialidade do plantão no perfil podem assumi-lo, negociá-lo ou dar lances
+export const isEligibleForShift = (profile: DoctorProfile | null, specialty: string): boolean => {
+  return !!profile?.professional?.specialties?.includes(specialty)
+}
+
 // Create or update personal info
 export const updatePersonalInfo = async (personalInfo: PersonalInfo): Promise<void> => {
   try {
@@ -145,6 +155,36 @@ export const updateFinancialInfo = async (financialInfo: FinancialInfo): Promise
   }
 }
 
+// Create or update the tax regime used for net value estimates
+export const updateTaxSettings = async (taxSettings: TaxSettings): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const profileRef = doc(db, "doctorProfiles", uid)
+    const profileDoc = await getDoc(profileRef)
+
+    if (profileDoc.exists()) {
+      await updateDoc(profileRef, {
+        tax: taxSettings,
+        updatedAt: new Date(),
+      })
+    } else {
+      await setDoc(profileRef, {
+        uid,
+        personal: {},
+        professional: {},
+        financial: {},
+        tax: taxSettings,
+        updatedAt: new Date(),
+      })
+    }
+  } catch (error) {
+    console.error("Error updating tax settings:", error)
+    throw error
+  }
+}
+
 // Upload profile photo
 export const uploadProfilePhoto = async (file: File): Promise<string> => {
   try {
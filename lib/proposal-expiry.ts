@@ -0,0 +1,37 @@
+// Prazo para o médico responder a uma proposta
+
+// Sem prazo definido pelo hospital, a proposta expira este tempo antes do início do plantão
+export const DEFAULT_RESPONSE_LEAD_HOURS = 2
+
+const HOUR = 60 * 60 * 1000
+const MINUTE = 60 * 1000
+
+export const getDefaultExpiry = (startAt: Date): Date => {
+  return new Date(startAt.getTime() - DEFAULT_RESPONSE_LEAD_HOURS * HOUR)
+}
+
+// Prazo efetivo: o informado pelo hospital, limitado ao início do plantão
+export const resolveExpiry = (expiresAt: Date | null | undefined, startAt: Date): Date => {
+  if (!expiresAt) return getDefaultExpiry(startAt)
+  return expiresAt > startAt ? startAt : expiresAt
+}
+
+// Propostas ainda em aberto cujo prazo já passou
+export const isProposalExpired = (
+  proposal: { status: string; expiresAt: Date },
+  now: Date = new Date(),
+): boolean => {
+  return (proposal.status === "pending" || proposal.status === "negotiating") && proposal.expiresAt <= now
+}
+
+// "2d 4h" / "3h 20min" / "15min"
+export const formatTimeLeft = (expiresAt: Date, now: Date = new Date()): string => {
+  const totalMinutes = Math.max(0, Math.floor((expiresAt.getTime() - now.getTime()) / MINUTE))
+  const days = Math.floor(totalMinutes / (24 * 60))
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60)
+  const minutes = totalMinutes % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}min`
+  return `${minutes}min`
+}
@@ -1,35 +1,128 @@
-import { collection, doc, getDoc, getDocs, query, where, updateDoc, serverTimestamp } from "firebase/firestore"
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  addDoc,
+  updateDoc,
+  serverTimestamp,
+  type DocumentData,
+} from "firebase/firestore"
 import { db, auth } from "./firebase"
+import { getCurrentUserData } from "./auth-service"
+import { getHospitalProfile, type HospitalProfile } from "./hospital-service"
+import { readShiftTiming, type ShiftTiming } from "./shift-timing"
+import { resolveExpiry } from "./proposal-expiry"
+import { buildListConstraints, fetchListPage, getSearchFields, type ListFilters, type ListPage } from "./list-query"
 
-export type ProposalStatus = "pending" | "accepted" | "rejected"
+export type { HospitalProfile }
 
-export interface HospitalProfile {
-  name: string
-  description: string
-  founded: string
-  employees: string
-  specialties: string[]
+export type ProposalStatus = "pending" | "negotiating" | "accepted" | "rejected" | "withdrawn" | "expired"
+
+export type OfferParty = "doctor" | "hospital"
+
+// Plantões abertos: "first_come" fica com o primeiro médico elegível que assinar; em "bidding" os médicos
+// enviam lances e o hospital escolhe
+export type AssignmentMode = "first_come" | "bidding"
+
+// "countered": substituída por uma nova oferta da outra parte
+export type OfferStatus = "open" | "accepted" | "declined" | "countered"
+
+// Oferta feita durante a negociação de um plantão; a última da lista é a vigente
+export interface ProposalOffer {
+  by: OfferParty
+  authorId: string
+  value: number
+  startAt: Date
+  endAt: Date
+  message: string
+  status: OfferStatus
+  createdAt: Date
+  respondedAt?: Date
 }
 
-export interface Proposal {
+export interface Proposal extends ShiftTiming {
   id?: string
   doctorId: string
   hospitalId: string
   hospital: string
   specialty: string
-  date: Date
-  time: string
-  duration: string
   location: string
   description: string
   requirements: string
   value: number
   status: ProposalStatus
   hospitalProfile: HospitalProfile
+  // Contrato gerado no aceite
+  contractId?: string | null
+  assignmentMode: AssignmentMode
+  // Lance escolhido pelo hospital (id = médico que o enviou)
+  awardedBidId?: string | null
+  // Histórico da negociação de valor/horário
+  offers: ProposalOffer[]
+  // Médico a quem a proposta era direcionada antes da negociação (null = aberta a todos)
+  listedDoctorId?: string | null
+  // Prazo para o médico responder; depois dele a proposta passa a "expired"
+  expiresAt: Date
+  expiredAt?: Date
   createdAt?: Date
   updatedAt?: Date
 }
 
+// Campos que o hospital preenche ao publicar ou editar um plantão
+export type ProposalInput = Pick<
+  Proposal,
+  "specialty" | "startAt" | "endAt" | "timeZone" | "location" | "description" | "requirements" | "value"
+> & {
+  doctorId?: string | null
+  assignmentMode?: AssignmentMode
+  // null/ausente usa o prazo padrão, contado a partir do início do plantão
+  expiresAt?: Date | null
+}
+
+const toProposal = (id: string, data: DocumentData): Proposal => {
+  const timing = readShiftTiming(data)
+
+  return {
+    id,
+    doctorId: data.doctorId,
+    hospitalId: data.hospitalId,
+    hospital: data.hospital,
+    specialty: data.specialty,
+    ...timing,
+    location: data.location,
+    description: data.description,
+    requirements: data.requirements,
+    value: data.value,
+    status: data.status,
+    hospitalProfile: data.hospitalProfile,
+    contractId: data.contractId ?? null,
+    assignmentMode: data.assignmentMode === "bidding" ? "bidding" : "first_come",
+    awardedBidId: data.awardedBidId ?? null,
+    offers: (data.offers || []).map(
+      (offer: DocumentData): ProposalOffer => ({
+        by: offer.by,
+        authorId: offer.authorId,
+        value: offer.value,
+        startAt: offer.startAt.toDate(),
+        endAt: offer.endAt.toDate(),
+        message: offer.message || "",
+        status: offer.status,
+        createdAt: offer.createdAt.toDate(),
+        respondedAt: offer.respondedAt?.toDate(),
+      }),
+    ),
+    listedDoctorId: data.listedDoctorId ?? null,
+    // Propostas anteriores ao prazo de resposta usam o padrão
+    expiresAt: resolveExpiry(data.expiresAt?.toDate(), timing.startAt),
+    expiredAt: data.expiredAt?.toDate(),
+    createdAt: data.createdAt?.toDate(),
+    updatedAt: data.updatedAt?.toDate(),
+  }
+}
+
 // Get all proposals for the current doctor
 export const getProposals = async (): Promise<Proposal[]> => {
   try {
@@ -42,25 +135,7 @@ export const getProposals = async (): Promise<Proposal[]> => {
 
     const proposals: Proposal[] = []
     querySnapshot.forEach((doc) => {
-      const data = doc.data()
-      proposals.push({
-        id: doc.id,
-        doctorId: data.doctorId,
-        hospitalId: data.hospitalId,
-        hospital: data.hospital,
-        specialty: data.specialty,
-        date: data.date.toDate(),
-        time: data.time,
-        duration: data.duration,
-        location: data.location,
-        description: data.description,
-        requirements: data.requirements,
-        value: data.value,
-        status: data.status,
-        hospitalProfile: data.hospitalProfile,
-        createdAt: data.createdAt?.toDate(),
-        updatedAt: data.updatedAt?.toDate(),
-      })
+      proposals.push(toProposal(doc.id, doc.data()))
     })
 
     return proposals
@@ -70,31 +145,55 @@ export const getProposals = async (): Promise<Proposal[]> => {
   }
 }
 
+// Get one page of the current doctor's proposals with the given status, filtered and sorted in Firestore
+export const getProposalPage = async (
+  status: ProposalStatus,
+  filters: ListFilters = {},
+  cursor?: string | null,
+): Promise<ListPage<Proposal>> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const constraints = [where("doctorId", "==", uid), where("status", "==", status)]
+    // Propostas vencidas saem das abas em aberto mesmo antes de o job de expiração rodar
+    if (status === "pending" || status === "negotiating") constraints.push(where("expiresAt", ">", new Date()))
+
+    return await fetchListPage("proposals", [...constraints, ...buildListConstraints(filters)], cursor, toProposal)
+  } catch (error) {
+    console.error("Error getting proposal page:", error)
+    throw error
+  }
+}
+
+// Get all proposals published by the current hospital
+export const getHospitalProposals = async (): Promise<Proposal[]> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const q = query(collection(db, "proposals"), where("hospitalId", "==", uid))
+    const querySnapshot = await getDocs(q)
+
+    const proposals: Proposal[] = []
+    querySnapshot.forEach((doc) => {
+      proposals.push(toProposal(doc.id, doc.data()))
+    })
+
+    return proposals
+  } catch (error) {
+    console.error("Error getting hospital proposals:", error)
+    throw error
+  }
+}
+
 // Get a specific proposal
 export const getProposal = async (id: string): Promise<Proposal | null> => {
   try {
     const proposalDoc = await getDoc(doc(db, "proposals", id))
 
     if (proposalDoc.exists()) {
-      const data = proposalDoc.data()
-      return {
-        id: proposalDoc.id,
-        doctorId: data.doctorId,
-        hospitalId: data.hospitalId,
-        hospital: data.hospital,
-        specialty: data.specialty,
-        date: data.date.toDate(),
-        time: data.time,
-        duration: data.duration,
-        location: data.location,
-        description: data.description,
-        requirements: data.requirements,
-        value: data.value,
-        status: data.status,
-        hospitalProfile: data.hospitalProfile,
-        createdAt: data.createdAt?.toDate(),
-        updatedAt: data.updatedAt?.toDate(),
-      }
+      return toProposal(proposalDoc.id, proposalDoc.data())
     }
 
     return null
@@ -104,6 +203,108 @@ export const getProposal = async (id: string): Promise<Proposal | null> => {
   }
 }
 
+// Publish a new proposal as the current hospital
+export const createProposal = async (proposal: ProposalInput): Promise<string> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const userData = await getCurrentUserData()
+    if (userData?.userType !== "hospital") throw new Error("Only hospitals can publish proposals")
+
+    // Sem perfil cadastrado, o card do contratante mostra ao menos o nome do hospital
+    const hospitalProfile: HospitalProfile = (await getHospitalProfile(uid)) || {
+      name: userData.name,
+      description: "",
+      founded: "",
+      employees: "",
+      specialties: [],
+    }
+
+    const docRef = await addDoc(collection(db, "proposals"), {
+      doctorId: proposal.doctorId || null,
+      hospitalId: uid,
+      hospital: userData.name,
+      specialty: proposal.specialty,
+      startAt: proposal.startAt,
+      endAt: proposal.endAt,
+      timeZone: proposal.timeZone,
+      location: proposal.location,
+      description: proposal.description,
+      requirements: proposal.requirements,
+      value: proposal.value,
+      assignmentMode: proposal.assignmentMode || "first_come",
+      expiresAt: resolveExpiry(proposal.expiresAt, proposal.startAt),
+      ...getSearchFields({ ...proposal, hospital: userData.name }),
+      status: "pending" as ProposalStatus,
+      hospitalProfile,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+
+    return docRef.id
+  } catch (error) {
+    console.error("Error creating proposal:", error)
+    throw error
+  }
+}
+
+// Update a pending proposal owned by the current hospital
+export const updateProposal = async (id: string, proposal: Partial<ProposalInput>): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const proposalDoc = await getDoc(doc(db, "proposals", id))
+    if (!proposalDoc.exists()) throw new Error("Proposal not found")
+    if (proposalDoc.data().hospitalId !== uid) throw new Error("Proposal belongs to another hospital")
+    if (proposalDoc.data().status !== "pending") throw new Error("Only pending proposals can be edited")
+
+    // Prazo de resposta recalculado quando o horário ou o prazo mudam
+    const { expiresAt, ...changes } = proposal
+    const current = proposalDoc.data()
+    const timing = { ...readShiftTiming(current), ...changes }
+    const startAt = timing.startAt
+
+    await updateDoc(doc(db, "proposals", id), {
+      ...changes,
+      ...getSearchFields({
+        ...timing,
+        hospital: current.hospital,
+        location: timing.location ?? current.location,
+        value: timing.value ?? current.value,
+      }),
+      ...((proposal.startAt || expiresAt !== undefined) && { expiresAt: resolveExpiry(expiresAt, startAt) }),
+      ...(proposal.doctorId !== undefined && { doctorId: proposal.doctorId || null }),
+      updatedAt: serverTimestamp(),
+    })
+  } catch (error) {
+    console.error("Error updating proposal:", error)
+    throw error
+  }
+}
+
+// Withdraw a pending proposal so doctors can no longer accept it
+export const withdrawProposal = async (id: string): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const proposalDoc = await getDoc(doc(db, "proposals", id))
+    if (!proposalDoc.exists()) throw new Error("Proposal not found")
+    if (proposalDoc.data().hospitalId !== uid) throw new Error("Proposal belongs to another hospital")
+    if (proposalDoc.data().status !== "pending") throw new Error("Only pending proposals can be withdrawn")
+
+    await updateDoc(doc(db, "proposals", id), {
+      status: "withdrawn" as ProposalStatus,
+      updatedAt: serverTimestamp(),
+    })
+  } catch (error) {
+    console.error("Error withdrawing proposal:", error)
+    throw error
+  }
+}
+
 // Update proposal status
 export const updateProposalStatus = async (id: string, status: ProposalStatus): Promise<void> => {
   try {
@@ -117,6 +318,24 @@ export const updateProposalStatus = async (id: string, status: ProposalStatus):
   }
 }
 
+// Get every pending proposal
+export const getPendingProposals = async (): Promise<Proposal[]> => {
+  try {
+    const q = query(collection(db, "proposals"), where("status", "==", "pending"))
+    const querySnapshot = await getDocs(q)
+
+    const proposals: Proposal[] = []
+    querySnapshot.forEach((doc) => {
+      proposals.push(toProposal(doc.id, doc.data()))
+    })
+
+    return proposals
+  } catch (error) {
+    console.error("Error getting pending proposals:", error)
+    throw error
+  }
+}
+
 // Buscar propostas compatíveis com as especialidades do médico
 export const getMatchingProposals = async (specialty: string): Promise<Proposal[]> => {
   try {
@@ -134,22 +353,9 @@ export const getMatchingProposals = async (specialty: string): Promise<Proposal[
       // Verificar se a proposta já não foi atribuída a outro médico
       if (!data.doctorId || data.doctorId === uid) {
         proposals.push({
-          id: doc.id,
+          ...toProposal(doc.id, data),
           doctorId: uid, // Atribuir ao médico atual
-          hospitalId: data.hospitalId,
-          hospital: data.hospital,
-          specialty: data.specialty,
-          date: data.date.toDate(),
-          time: data.time,
-          duration: data.duration,
-          location: data.location,
-          description: data.description,
-          requirements: data.requirements,
-          value: data.value,
           status: "pending",
-          hospitalProfile: data.hospitalProfile,
-          createdAt: data.createdAt?.toDate(),
-          updatedAt: data.updatedAt?.toDate(),
         })
       }
     })
@@ -161,3 +367,32 @@ export const getMatchingProposals = async (specialty: string): Promise<Proposal[
   }
 }
 
+// Plantões abertos (sem médico definido) das especialidades informadas, ainda dentro do prazo de resposta
+export const getOpenProposals = async (specialties: string[]): Promise<Proposal[]> => {
+  try {
+    // O operador "in" aceita no máximo 30 valores
+    const chunks: string[][] = []
+    for (let i = 0; i < specialties.length; i += 30) chunks.push(specialties.slice(i, i + 30))
+
+    const snapshots = await Promise.all(
+      chunks.map((chunk) =>
+        getDocs(
+          query(
+            collection(db, "proposals"),
+            where("status", "==", "pending"),
+            where("doctorId", "==", null),
+            where("specialty", "in", chunk),
+          ),
+        ),
+      ),
+    )
+
+    const now = new Date()
+    return snapshots
+      .flatMap((snapshot) => snapshot.docs.map((proposalDoc) => toProposal(proposalDoc.id, proposalDoc.data())))
+      .filter((proposal) => !proposal.contractId && proposal.expiresAt > now)
+  } catch (error) {
+    console.error("Error getting open proposals:", error)
+    throw error
+  }
+}
@@ -0,0 +1,168 @@
+import { FieldValue } from "firebase-admin/firestore"
+import { adminDb } from "./firebase-admin"
+import type { HospitalProfile } from "./hospital-service"
+import { evaluateCheckIn, evaluateCheckOut, resolveAttendancePolicy } from "./attendance-policy"
+import { checkGeofence, getHospitalGeofence, type Geofence } from "./geo"
+import { readShiftTiming } from "./shift-timing"
+import { applyContractTransition, type TransitionFieldValues } from "./contract-transitions"
+import { checkPunchVerification } from "./face-verification"
+import {
+  AttendanceError,
+  FaceCheckError,
+  GeofenceError,
+  LocationAccuracyError,
+  PunchError,
+  allowedPunches,
+  computeAttendanceTotals,
+  getAttendanceState,
+  readAttendancePunches,
+  type AttendancePunch,
+  type LocationEvidence,
+  type PunchInput,
+  type PunchVerification,
+} from "./attendance-log"
+
+const adminFieldValues: TransitionFieldValues = {
+  increment: FieldValue.increment,
+  serverTimestamp: FieldValue.serverTimestamp,
+  arrayUnion: FieldValue.arrayUnion,
+}
+
+// Registro de ponto feito pela rota do servidor, com o SDK admin: a posição, o horário e a ordem das marcações
+// são conferidos aqui, e não no navegador do médico
+
+// Record an attendance punch for the doctor of the contract. The first entry follows the check-in window and the
+// final exit the minimum elapsed time; both need a recent face verification of the doctor for this contract and
+// must happen inside the hospital area, with a GPS accuracy that fits in the geofence radius
+export const recordPunch = async (uid: string, id: string, input: PunchInput): Promise<void> => {
+  try {
+    const contractRef = adminDb.collection("contracts").doc(id)
+    const contractDoc = await contractRef.get()
+    if (!contractDoc.exists) throw new Error("Contract not found")
+    if (contractDoc.data()!.doctorId !== uid) throw new Error("Contract belongs to another doctor")
+
+    // Regras de horário e geofence gravadas no contrato (ou as atuais do hospital, para contratos antigos)
+    const { attendancePolicy, geofence, hospitalId } = contractDoc.data()!
+    const hospitalProfile =
+      attendancePolicy && geofence
+        ? null
+        : ((await adminDb.collection("hospitalProfiles").doc(hospitalId).get()).data() as HospitalProfile | undefined)
+    const policy = resolveAttendancePolicy(attendancePolicy || hospitalProfile?.attendancePolicy)
+    const fence: Geofence | null = geofence || getHospitalGeofence(hospitalProfile)
+
+    // A tentativa recusada pela localização também fica registrada, então ela sai da transação como resultado
+    const rejection = await adminDb.runTransaction(async (transaction) => {
+      const current = await transaction.get(contractRef)
+      if (!current.exists) throw new Error("Contract not found")
+
+      const data = current.data()!
+      if (data.doctorId !== uid) throw new Error("Contract belongs to another doctor")
+
+      // Horário do plantão e marcações, com a entrada e a saída final como check-in e check-out
+      const currentPunches = readAttendancePunches(data)
+      const contract = {
+        ...readShiftTiming(data),
+        checkInTime: currentPunches.find((punch) => punch.kind === "in")?.at,
+        checkOutTime: currentPunches.find((punch) => punch.kind === "out" && punch.final)?.at,
+      }
+      const state = data.status === "upcoming" ? getAttendanceState(currentPunches) : "finished"
+      if (!allowedPunches[state].includes(input.kind)) throw new PunchError(state, input.kind)
+
+      const checkIn = state === "not_started"
+      const checkOut = input.kind === "out" && !!input.final
+      const now = new Date()
+
+      const checkInTiming = checkIn ? evaluateCheckIn(contract, policy, now) : null
+      if (checkInTiming?.violation) throw new AttendanceError(checkInTiming.violation, checkInTiming.boundary!)
+      if (checkOut) {
+        const timing = evaluateCheckOut(contract, policy, now)
+        if (timing.violation) throw new AttendanceError(timing.violation, timing.boundary!)
+      }
+
+      // A verificação facial é registrada pelo servidor (ver face-verification) e libera uma única marcação
+      const verificationRef = input.verificationId
+        ? adminDb.collection("facialVerifications").doc(input.verificationId)
+        : null
+      if (!verificationRef && (checkIn || checkOut)) throw new FaceCheckError("missing")
+      // Só o que foi conferido no registro da verificação vira evidência na marcação
+      let verification: PunchVerification | undefined
+      if (verificationRef) {
+        const verificationData = (await transaction.get(verificationRef)).data()
+        const failure = checkPunchVerification(verificationData, uid, id, now)
+        if (failure) throw new FaceCheckError(failure)
+        verification = {
+          verificationId: verificationRef.id,
+          score: verificationData!.score,
+          threshold: verificationData!.threshold,
+        }
+      }
+
+      const check = checkGeofence(fence, input.position)
+      const location: LocationEvidence = {
+        latitude: input.position.latitude,
+        longitude: input.position.longitude,
+        accuracy: input.position.accuracy,
+        status: check.status,
+        ...(check.distanceMeters !== undefined && { distanceMeters: check.distanceMeters }),
+      }
+
+      // Entrada e saída final precisam estar na área; nas demais marcações a posição só fica registrada.
+      // Uma precisão maior que o raio não comprova a presença, mesmo que o ponto caia dentro da área
+      if (fence && (checkIn || checkOut)) {
+        const error =
+          check.status === "outside"
+            ? new GeofenceError(check.distanceMeters!, fence.radiusMeters)
+            : input.position.accuracy > fence.radiusMeters
+              ? new LocationAccuracyError(input.position.accuracy, fence.radiusMeters)
+              : null
+        if (error) {
+          transaction.update(contractRef, {
+            rejectedLocationAttempts: FieldValue.arrayUnion({ ...location, kind: input.kind, attemptedAt: now }),
+            updatedAt: FieldValue.serverTimestamp(),
+          })
+          return error
+        }
+      }
+
+      const punch: AttendancePunch = {
+        kind: input.kind,
+        at: now,
+        ...(checkOut && { final: true }),
+        location,
+        ...(verification && { verification }),
+      }
+      const punches = [...currentPunches, punch]
+      const fields = {
+        // Contratos anteriores ao registro de ponto têm o check-in convertido em marcação
+        punches,
+        locationFlagged: !!data.locationFlagged || location.status !== "inside",
+        ...(checkInTiming && {
+          lateMinutes: checkInTiming.lateMinutes,
+          late: checkInTiming.lateMinutes > policy.lateToleranceMinutes,
+        }),
+        updatedAt: FieldValue.serverTimestamp(),
+      }
+
+      // Saída final leva as horas para a aprovação do hospital
+      if (checkOut) {
+        applyContractTransition(
+          transaction,
+          contractRef,
+          adminFieldValues,
+          { from: data.status, to: "awaiting_approval", changedBy: uid },
+          { ...fields, workedMinutes: computeAttendanceTotals(contract, punches, now).workedMinutes },
+        )
+      } else {
+        transaction.update(contractRef, fields)
+      }
+      if (verificationRef) {
+        transaction.update(verificationRef, { usedAt: FieldValue.serverTimestamp(), punchKind: input.kind })
+      }
+      return null
+    })
+    if (rejection) throw rejection
+  } catch (error) {
+    console.error("Error recording punch:", error)
+    throw error
+  }
+}
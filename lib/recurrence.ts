@@ -0,0 +1,63 @@
+// Regras de recorrência semanais, expandidas em dias do calendário no formato yyyy-MM-dd
+
+export interface WeeklyRecurrence {
+  // Dias da semana (0 = domingo ... 6 = sábado)
+  weekdays: number[]
+  // 1 = toda semana, 2 = semana sim, semana não...
+  intervalWeeks: number
+  // Primeiro dia da série (yyyy-MM-dd)
+  startDate: string
+  // Último dia da série (yyyy-MM-dd); null repete indefinidamente
+  until: string | null
+}
+
+// Término gravado no Firestore para as séries sem data de término, para que elas entrem nas consultas por
+// "until >= dia"; na leitura volta a ser null
+export const OPEN_ENDED_UNTIL = "9999-12-31"
+
+const DAY = 24 * 60 * 60 * 1000
+
+const toEpochDay = (day: string): number => Math.floor(Date.parse(`${day}T00:00:00Z`) / DAY)
+
+const fromEpochDay = (epochDay: number): string => new Date(epochDay * DAY).toISOString().slice(0, 10)
+
+export const addDays = (day: string, days: number): string => fromEpochDay(toEpochDay(day) + days)
+
+export const weekdayOf = (day: string): number => new Date(toEpochDay(day) * DAY).getUTCDay()
+
+// Segunda-feira da semana do dia; semanas começam na segunda para que sábado e domingo
+// fiquem no mesmo fim de semana
+const weekStart = (epochDay: number): number => {
+  const weekday = new Date(epochDay * DAY).getUTCDay()
+  return epochDay - ((weekday + 6) % 7)
+}
+
+// Dias da série dentro do intervalo [from, to], ambos inclusivos
+export const expandWeeklyRecurrence = (rule: WeeklyRecurrence, from: string, to: string): string[] => {
+  const interval = Math.max(1, Math.floor(rule.intervalWeeks || 1))
+  const anchor = weekStart(toEpochDay(rule.startDate))
+  const first = Math.max(toEpochDay(rule.startDate), toEpochDay(from))
+  const last = Math.min(rule.until ? toEpochDay(rule.until) : Number.POSITIVE_INFINITY, toEpochDay(to))
+
+  const days: string[] = []
+  for (let epochDay = first; epochDay <= last; epochDay++) {
+    const weekIndex = Math.round((weekStart(epochDay) - anchor) / 7)
+    if (weekIndex % interval !== 0) continue
+    if (!rule.weekdays.includes(new Date(epochDay * DAY).getUTCDay())) continue
+    days.push(fromEpochDay(epochDay))
+  }
+
+  return days
+}
+
+const weekdayNames = ["domingo", "segunda", "terça", "quarta", "quinta", "sexta", "sábado"]
+
+// "Toda semana: terça e quinta até 31/12/2026" / "A cada 2 semanas: sábado e domingo"
+export const describeWeeklyRecurrence = (rule: WeeklyRecurrence): string => {
+  const names = [...rule.weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map((day) => weekdayNames[day])
+  const list = names.length > 1 ? `${names.slice(0, -1).join(", ")} e ${names[names.length - 1]}` : names[0] || ""
+  const frequency = rule.intervalWeeks > 1 ? `A cada ${rule.intervalWeeks} semanas: ${list}` : `Toda semana: ${list}`
+  const until = rule.until ? ` até ${rule.until.split("-").reverse().join("/")}` : ""
+
+  return `${frequency}${until}`
+}
@@ -0,0 +1,80 @@
+import type { DocumentData } from "firebase/firestore"
+import { buildPdf, type PdfBlock } from "./pdf"
+import { amountInWords } from "./amount-in-words"
+import { formatInstant, type ContractTerms } from "./contract-document"
+import { toZonedInputValues } from "./shift-timing"
+import type { TaxEstimate } from "./tax-calculator"
+
+// Recibo de Pagamento Autônomo de um plantão concluído, para médicos que recebem como pessoa física. Os dados
+// ficam gravados no contrato na emissão e o PDF é sempre gerado novamente a partir deles
+export interface RpaReceipt {
+  // Sequencial por hospital
+  number: number
+  issuedAt: Date
+  issuedById: string
+  hospital: ContractTerms["hospital"]
+  doctor: ContractTerms["doctor"]
+  description: string
+  // Início do plantão e o fuso dele, para a competência e as datas do recibo
+  shiftDate: Date
+  timeZone: string
+  withholdings: Pick<TaxEstimate, "tableVersion" | "gross" | "inss" | "irrf" | "iss" | "issRate" | "net">
+}
+
+export const readRpaReceipt = (data: DocumentData): RpaReceipt => ({
+  ...(data as RpaReceipt),
+  issuedAt: data.issuedAt.toDate(),
+  shiftDate: data.shiftDate.toDate(),
+})
+
+// "000042"
+export const formatRpaNumber = (number: number): string => String(number).padStart(6, "0")
+
+const formatMoney = (value: number): string => `R$ ${value.toFixed(2).replace(".", ",")}`
+
+const orNotInformed = (value: string) => value || "não informado"
+
+export const getRpaBlocks = (rpa: RpaReceipt): PdfBlock[] => {
+  const { hospital, doctor, withholdings } = rpa
+  const [year, month] = toZonedInputValues(rpa.shiftDate, rpa.timeZone).day.split("-")
+  const paragraph = (text: string): PdfBlock => ({ kind: "paragraph", text })
+  const bullet = (text: string): PdfBlock => ({ kind: "bullet", text })
+
+  return [
+    { kind: "title", text: `RECIBO DE PAGAMENTO A AUTÔNOMO - RPA Nº ${formatRpaNumber(rpa.number)}` },
+    { kind: "heading", text: "CONTRATANTE" },
+    paragraph(`${hospital.name}, CNPJ nº ${orNotInformed(hospital.cnpj)}, ${orNotInformed(hospital.address)}.`),
+    { kind: "heading", text: "PRESTADOR DE SERVIÇOS" },
+    paragraph(
+      `${orNotInformed(doctor.name)}, médico, CRM nº ${orNotInformed(doctor.crm)}, CPF nº ` +
+        `${orNotInformed(doctor.cpf)}, residente em ${orNotInformed(doctor.address)}.`,
+    ),
+    { kind: "heading", text: "SERVIÇO PRESTADO" },
+    paragraph(rpa.description),
+    paragraph(`Competência: ${month}/${year}`),
+    { kind: "heading", text: "VALORES" },
+    bullet(`Valor bruto dos serviços: ${formatMoney(withholdings.gross)}`),
+    bullet(`(-) INSS retido (contribuinte individual): ${formatMoney(withholdings.inss)}`),
+    bullet(`(-) IRRF retido: ${formatMoney(withholdings.irrf)}`),
+    bullet(`(-) ISS retido (${withholdings.issRate}%): ${formatMoney(withholdings.iss)}`),
+    bullet(`Valor líquido: ${formatMoney(withholdings.net)}`),
+    paragraph(
+      `Recebi de ${hospital.name} a importância líquida de ${formatMoney(withholdings.net)} ` +
+        `(${amountInWords(withholdings.net)}), referente aos serviços descritos acima, dando plena quitação.`,
+    ),
+    paragraph(`Emitido em ${formatInstant(rpa.issuedAt, rpa.timeZone)} (horário de ${rpa.timeZone}).`),
+    paragraph("_______________________________________"),
+    paragraph(orNotInformed(doctor.name)),
+    {
+      kind: "small",
+      text: `Retenções calculadas pela tabela ${withholdings.tableVersion}, sobre o valor deste plantão.`,
+    },
+  ]
+}
+
+export const renderRpa = (rpa: RpaReceipt): Uint8Array => {
+  return buildPdf([getRpaBlocks(rpa)], {
+    title: `RPA ${formatRpaNumber(rpa.number)} - ${rpa.hospital.name}`,
+    footer: `Recibo de Pagamento a Autônomo nº ${formatRpaNumber(rpa.number)}`,
+  })
+}
@@ -0,0 +1,96 @@
+import { doc, runTransaction, serverTimestamp, Timestamp } from "firebase/firestore"
+import { db, auth } from "./firebase"
+import { getBillableValue, getContract } from "./contract-service"
+import { getDoctorProfile } from "./profile-service"
+import { getHospitalProfile } from "./hospital-service"
+import { formatInstant } from "./contract-document"
+import { formatMinutes } from "./timesheet-document"
+import { estimateTaxes, resolveTaxSettings } from "./tax-calculator"
+import type { RpaReceipt } from "./rpa-document"
+
+// "not_person": o médico recebe como PJ, contra nota fiscal; "already_issued": o contrato já tem RPA
+export type RpaFailure = "not_found" | "not_completed" | "not_person" | "already_issued"
+
+export class RpaError extends Error {
+  constructor(public reason: RpaFailure) {
+    super(`RPA issue rejected (${reason})`)
+    this.name = "RpaError"
+  }
+}
+
+// Issue the RPA of a completed contract as its hospital: numbered in the hospital's sequence, with the current
+// hospital and doctor data and the withholdings for the doctor's regime, stored on the contract
+export const issueRpa = async (contractId: string): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const contract = await getContract(contractId)
+    if (!contract || contract.hospitalId !== uid) throw new RpaError("not_found")
+    if (contract.status !== "completed") throw new RpaError("not_completed")
+    if (contract.rpa) throw new RpaError("already_issued")
+
+    const [doctorProfile, hospitalProfile] = await Promise.all([
+      getDoctorProfile(contract.doctorId),
+      getHospitalProfile(uid),
+    ])
+    const taxSettings = resolveTaxSettings(doctorProfile?.tax)
+    if (taxSettings.regime !== "pf") throw new RpaError("not_person")
+
+    // Dados atuais dos cadastros; na falta deles, os do contrato assinado
+    const terms = contract.terms
+    const hospital = {
+      name: hospitalProfile?.name || terms?.hospital.name || contract.hospital,
+      cnpj: hospitalProfile?.cnpj || terms?.hospital.cnpj || "",
+      address: hospitalProfile?.address || terms?.hospital.address || "",
+    }
+    const doctor = {
+      name: doctorProfile?.personal?.name || terms?.doctor.name || "",
+      cpf: doctorProfile?.personal?.cpf || terms?.doctor.cpf || "",
+      crm: doctorProfile?.professional?.crm || terms?.doctor.crm || "",
+      address: doctorProfile?.personal?.address || terms?.doctor.address || "",
+    }
+
+    const estimate = estimateTaxes(getBillableValue(contract), taxSettings, contract.startAt)
+    const withholdings: RpaReceipt["withholdings"] = {
+      tableVersion: estimate.tableVersion,
+      gross: estimate.gross,
+      inss: estimate.inss,
+      irrf: estimate.irrf,
+      iss: estimate.iss,
+      issRate: estimate.issRate,
+      net: estimate.net,
+    }
+    const description =
+      `Serviços médicos em regime de plantão, especialidade ${contract.specialty}, em ${contract.location}, de ` +
+      `${formatInstant(contract.startAt, contract.timeZone)} a ${formatInstant(contract.endAt, contract.timeZone)}` +
+      (contract.approvedMinutes !== undefined ? `, com ${formatMinutes(contract.approvedMinutes)} aprovadas.` : ".")
+
+    const contractRef = doc(db, "contracts", contractId)
+    const sequenceRef = doc(db, "rpaSequences", uid)
+    await runTransaction(db, async (transaction) => {
+      const [contractDoc, sequenceDoc] = await Promise.all([transaction.get(contractRef), transaction.get(sequenceRef)])
+      if (!contractDoc.exists()) throw new RpaError("not_found")
+      if (contractDoc.data().rpa) throw new RpaError("already_issued")
+
+      const number = (sequenceDoc.data()?.last || 0) + 1
+      const rpa = {
+        number,
+        issuedAt: Timestamp.now(),
+        issuedById: uid,
+        hospital,
+        doctor,
+        description,
+        shiftDate: Timestamp.fromDate(contract.startAt),
+        timeZone: contract.timeZone,
+        withholdings,
+      }
+
+      transaction.set(sequenceRef, { last: number, updatedAt: serverTimestamp() })
+      transaction.update(contractRef, { rpa, updatedAt: serverTimestamp() })
+    })
+  } catch (error) {
+    console.error("Error issuing RPA:", error)
+    throw error
+  }
+}
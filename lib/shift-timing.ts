@@ -0,0 +1,203 @@
+// Utilitários para interpretar os horários de plantões e disponibilidades
+
+export interface TimeWindow {
+  start: Date
+  end: Date
+}
+
+// Início e fim absolutos de um plantão, com o fuso do hospital usado para exibir os horários
+export interface ShiftTiming {
+  startAt: Date
+  endAt: Date
+  timeZone: string
+}
+
+export const DEFAULT_TIME_ZONE = "America/Sao_Paulo"
+
+const HOUR = 60 * 60 * 1000
+
+// Aceita "12h", "12", "12 horas" ou "12h30"; retorna NaN quando não há número
+export const parseDurationHours = (duration: string): number => {
+  const match = /^\s*(\d+(?:[.,]\d+)?)\s*(?:h(?:oras?)?)?\s*(\d{1,2})?/i.exec(duration || "")
+  if (!match) return Number.NaN
+
+  const hours = Number(match[1].replace(",", "."))
+  const minutes = match[2] ? Number(match[2]) : 0
+  return hours + minutes / 60
+}
+
+// Minutos desde a meia-noite para um horário "HH:mm"
+export const parseTimeOfDay = (time: string): number => {
+  const match = /(\d{1,2}):(\d{2})/.exec(time || "")
+  if (!match) return Number.NaN
+  return Number(match[1]) * 60 + Number(match[2])
+}
+
+// Data e hora de um instante no fuso informado
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant)
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  }
+}
+
+// Diferença entre o horário local do fuso e o UTC, em milissegundos
+const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = getZonedParts(instant, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+// Instante correspondente ao dia (yyyy-MM-dd) e aos minutos desde a meia-noite no fuso informado
+const zonedMinutesToInstant = (day: string, minutes: number, timeZone: string): Date => {
+  const [year, month, date] = day.split("-").map(Number)
+  const guess = Date.UTC(year, month - 1, date, 0, minutes)
+
+  // Recalcula o deslocamento no instante encontrado para acertar as transições de horário de verão
+  const first = guess - getTimeZoneOffset(new Date(guess), timeZone)
+  return new Date(guess - getTimeZoneOffset(new Date(first), timeZone))
+}
+
+// Instante correspondente a um dia (yyyy-MM-dd) e horário (HH:mm) no fuso informado
+export const zonedDateTime = (day: string, time: string, timeZone: string): Date => {
+  return zonedMinutesToInstant(day, parseTimeOfDay(time), timeZone)
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+// Dia (yyyy-MM-dd) e horário (HH:mm) de um instante no fuso informado, no formato dos inputs
+export const toZonedInputValues = (instant: Date, timeZone: string): { day: string; time: string } => {
+  const parts = getZonedParts(instant, timeZone)
+  return {
+    day: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  }
+}
+
+// Dia civil de uma data gravada como meia-noite, no fuso informado
+const toZonedDay = (date: Date, timeZone: string): string => toZonedInputValues(date, timeZone).day
+
+// Plantão a partir do dia e dos horários de início e término; término igual ou anterior ao
+// início atravessa a meia-noite
+export const buildShiftTiming = (day: string, startTime: string, endTime: string, timeZone: string): ShiftTiming => {
+  const startMinutes = parseTimeOfDay(startTime)
+  let endMinutes = parseTimeOfDay(endTime)
+  if (endMinutes <= startMinutes) endMinutes += 24 * 60
+
+  return {
+    startAt: zonedMinutesToInstant(day, startMinutes, timeZone),
+    endAt: zonedMinutesToInstant(day, endMinutes, timeZone),
+    timeZone,
+  }
+}
+
+// Converte os campos antigos (date + time + duration em texto); null quando não são interpretáveis
+export const legacyShiftTiming = (
+  date: Date,
+  time: string,
+  duration: string,
+  timeZone = DEFAULT_TIME_ZONE,
+): ShiftTiming | null => {
+  const startMinutes = parseTimeOfDay(time)
+  const hours = parseDurationHours(duration)
+  if (Number.isNaN(startMinutes) || Number.isNaN(hours) || hours <= 0) return null
+
+  const startAt = zonedMinutesToInstant(toZonedDay(date, timeZone), startMinutes, timeZone)
+  return { startAt, endAt: new Date(startAt.getTime() + hours * HOUR), timeZone }
+}
+
+// Lê o horário de um documento do Firestore; documentos ainda não migrados são convertidos a partir
+// dos campos antigos e, se nem isso for possível, ficam com duração zero a partir de "date"
+export const readShiftTiming = (data: {
+  startAt?: { toDate(): Date }
+  endAt?: { toDate(): Date }
+  timeZone?: string
+  date?: { toDate(): Date }
+  time?: string
+  duration?: string
+}): ShiftTiming => {
+  if (data.startAt && data.endAt) {
+    return { startAt: data.startAt.toDate(), endAt: data.endAt.toDate(), timeZone: data.timeZone || DEFAULT_TIME_ZONE }
+  }
+
+  const date = data.date?.toDate() || new Date(0)
+  return (
+    legacyShiftTiming(date, data.time || "", data.duration || "", data.timeZone) || {
+      startAt: date,
+      endAt: date,
+      timeZone: data.timeZone || DEFAULT_TIME_ZONE,
+    }
+  )
+}
+
+export const getShiftWindow = (shift: ShiftTiming): TimeWindow => ({ start: shift.startAt, end: shift.endAt })
+
+// Duração do plantão em horas (0 quando o horário não pôde ser determinado)
+export const getShiftHours = (shift: ShiftTiming): number => {
+  return Math.max(0, (shift.endAt.getTime() - shift.startAt.getTime()) / HOUR)
+}
+
+// Valor por hora; null quando a duração é desconhecida
+export const getHourlyRate = (shift: ShiftTiming & { value: number }): number | null => {
+  const hours = getShiftHours(shift)
+  return hours > 0 ? shift.value / hours : null
+}
+
+// "12h" ou "12h30"
+export const formatDuration = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60)
+  const minutes = totalMinutes % 60
+  return `${Math.floor(totalMinutes / 60)}h${minutes ? pad(minutes) : ""}`
+}
+
+export const formatShiftDate = (shift: ShiftTiming): string => {
+  return shift.startAt.toLocaleDateString("pt-BR", { timeZone: shift.timeZone })
+}
+
+// "19:00 - 07:00 (+1)", no fuso do hospital
+export const formatShiftTime = (shift: ShiftTiming): string => {
+  const start = toZonedInputValues(shift.startAt, shift.timeZone)
+  const end = toZonedInputValues(shift.endAt, shift.timeZone)
+  const days = Math.round(
+    (Date.parse(`${end.day}T00:00:00Z`) - Date.parse(`${start.day}T00:00:00Z`)) / (24 * HOUR),
+  )
+
+  return `${start.time} - ${end.time}${days > 0 ? ` (+${days})` : ""}`
+}
+
+// Janela de uma disponibilidade; término igual ou anterior ao início atravessa a meia-noite
+export const getSlotWindow = (
+  date: Date,
+  startTime: string,
+  endTime: string,
+  timeZone = DEFAULT_TIME_ZONE,
+): TimeWindow | null => {
+  if (Number.isNaN(parseTimeOfDay(startTime)) || Number.isNaN(parseTimeOfDay(endTime))) return null
+
+  const shift = buildShiftTiming(toZonedDay(date, timeZone), startTime, endTime, timeZone)
+  return { start: shift.startAt, end: shift.endAt }
+}
+
+export const windowCovers = (outer: TimeWindow, inner: TimeWindow): boolean => {
+  return outer.start <= inner.start && outer.end >= inner.end
+}
+
+export const windowsOverlap = (a: TimeWindow, b: TimeWindow): boolean => {
+  return a.start < b.end && b.start < a.end
+}
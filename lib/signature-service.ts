@@ -0,0 +1,71 @@
+import { auth } from "./firebase"
+import { getDoctorProfile } from "./profile-service"
+import { getHospitalProfile } from "./hospital-service"
+import { resolveCancellationPolicy } from "./cancellation-policy"
+import { resolvePaymentTerms } from "./payment-terms"
+import {
+  SignatureError,
+  buildContractTerms,
+  getContractDocumentHash,
+  type ContractShift,
+  type ContractTerms,
+  type SignatureFailure,
+} from "./contract-document"
+
+export { SignatureError, type SignatureFailure }
+
+export interface ContractDocument {
+  terms: ContractTerms
+  documentHash: string
+}
+
+// Documento que o médico (atual) assina ao aceitar a proposta; createContract gera o mesmo a partir dos
+// mesmos dados e confere o hash
+export const prepareContractDocument = async (
+  proposal: ContractShift & { hospitalId: string },
+): Promise<ContractDocument> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const [doctorProfile, hospitalProfile] = await Promise.all([
+      getDoctorProfile(uid),
+      getHospitalProfile(proposal.hospitalId),
+    ])
+    const terms = buildContractTerms(
+      proposal,
+      doctorProfile,
+      hospitalProfile,
+      resolveCancellationPolicy(hospitalProfile?.cancellationPolicy),
+      resolvePaymentTerms(hospitalProfile?.paymentTerms),
+    )
+
+    return { terms, documentHash: await getContractDocumentHash(terms) }
+  } catch (error) {
+    console.error("Error preparing contract document:", error)
+    throw error
+  }
+}
+
+// Assinatura do médico ou do hospital, registrada pela rota do servidor com o IP e o navegador da requisição.
+// documentHash é o hash do documento exibido ao signatário
+export const signContract = async (contractId: string, documentHash: string): Promise<void> => {
+  try {
+    const user = auth.currentUser
+    if (!user) throw new Error("User not authenticated")
+
+    const response = await fetch(`/api/contracts/${encodeURIComponent(contractId)}/signatures`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await user.getIdToken()}` },
+      body: JSON.stringify({ documentHash }),
+    })
+    if (!response.ok) {
+      const reason: SignatureFailure | undefined = (await response.json().catch(() => null))?.reason
+      if (reason) throw new SignatureError(reason)
+      throw new Error(`Failed to sign contract (${response.status})`)
+    }
+  } catch (error) {
+    console.error("Error signing contract:", error)
+    throw error
+  }
+}
@@ -0,0 +1,524 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  where,
+  type DocumentData,
+  type Transaction,
+} from "firebase/firestore"
+import { db, auth } from "./firebase"
+import { getCurrentUserData } from "./auth-service"
+import { getDoctorProfile, isEligibleForShift } from "./profile-service"
+import { getHospitalProfile } from "./hospital-service"
+import { AcceptanceError, WorkLimitError, toStoredWorkLimitIssue, type CreateContractOptions } from "./contract-service"
+import {
+  findOverlap,
+  getRecentBookings,
+  readScheduleBookings,
+  toStoredBookings,
+  type ScheduleBooking,
+} from "./doctor-schedule"
+import { hasAttendance } from "./attendance-log"
+import { readShiftTiming, type ShiftTiming } from "./shift-timing"
+import { evaluateWorkLimits, resolveWorkLimits, type WorkLimitIssue, type WorkLimitsPolicy } from "./work-limits"
+
+// "pending_approval": um colega aceitou e o hospital ainda precisa aprovar
+export type SwapStatus = "open" | "pending_approval" | "completed" | "declined" | "rejected" | "canceled"
+
+// Oferta de um plantão já contratado a um colega (ou a todos os médicos elegíveis)
+export interface ShiftSwap extends ShiftTiming {
+  id: string
+  contractId: string
+  proposalId: string
+  hospitalId: string
+  hospital: string
+  specialty: string
+  location: string
+  value: number
+  fromDoctorId: string
+  fromDoctorName: string
+  // null = qualquer médico com a especialidade do plantão
+  toDoctorId: string | null
+  toDoctorName: string
+  message: string
+  requiresApproval: boolean
+  status: SwapStatus
+  claimedBy: string | null
+  claimedByName: string
+  createdAt?: Date
+  updatedAt?: Date
+  resolvedAt?: Date
+}
+
+export interface SwapOfferInput {
+  toDoctorId?: string | null
+  toDoctorName?: string
+  message: string
+}
+
+export type SwapFailure = "not_found" | "not_available" | "already_offered" | "started" | "not_eligible"
+
+// Troca recusada pelo estado atual do contrato ou da oferta
+export class SwapError extends Error {
+  constructor(public reason: SwapFailure) {
+    super(`Shift swap rejected (${reason})`)
+    this.name = "SwapError"
+  }
+}
+
+const toSwap = (id: string, data: DocumentData): ShiftSwap => ({
+  id,
+  contractId: data.contractId,
+  proposalId: data.proposalId,
+  hospitalId: data.hospitalId,
+  hospital: data.hospital,
+  specialty: data.specialty,
+  ...readShiftTiming(data),
+  location: data.location,
+  value: data.value,
+  fromDoctorId: data.fromDoctorId,
+  fromDoctorName: data.fromDoctorName || "",
+  toDoctorId: data.toDoctorId ?? null,
+  toDoctorName: data.toDoctorName || "",
+  message: data.message || "",
+  requiresApproval: !!data.requiresApproval,
+  status: data.status,
+  claimedBy: data.claimedBy ?? null,
+  claimedByName: data.claimedByName || "",
+  createdAt: data.createdAt?.toDate(),
+  updatedAt: data.updatedAt?.toDate(),
+  resolvedAt: data.resolvedAt?.toDate(),
+})
+
+// Offer an upcoming contract of the current doctor to a colleague or to the eligible pool
+export const offerSwap = async (contractId: string, offer: SwapOfferInput): Promise<string> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+    if (offer.toDoctorId === uid) throw new Error("Cannot offer a shift to yourself")
+
+    const contractRef = doc(db, "contracts", contractId)
+    const contractDoc = await getDoc(contractRef)
+    if (!contractDoc.exists()) throw new SwapError("not_found")
+
+    // A regra de aprovação vale como estava quando a troca foi oferecida
+    const [userData, hospitalProfile] = await Promise.all([
+      getCurrentUserData(),
+      getHospitalProfile(contractDoc.data().hospitalId),
+    ])
+    const swapRef = doc(collection(db, "shiftSwaps"))
+
+    await runTransaction(db, async (transaction) => {
+      const current = await transaction.get(contractRef)
+      if (!current.exists()) throw new SwapError("not_found")
+
+      const contract = current.data()
+      if (contract.doctorId !== uid) throw new Error("Contract belongs to another doctor")
+      if (contract.status !== "upcoming" || hasAttendance(contract)) throw new SwapError("not_available")
+      if (contract.activeSwapId) throw new SwapError("already_offered")
+
+      const timing = readShiftTiming(contract)
+      if (timing.startAt <= new Date()) throw new SwapError("started")
+
+      transaction.set(swapRef, {
+        contractId,
+        proposalId: contract.proposalId,
+        hospitalId: contract.hospitalId,
+        hospital: contract.hospital,
+        specialty: contract.specialty,
+        startAt: timing.startAt,
+        endAt: timing.endAt,
+        timeZone: timing.timeZone,
+        location: contract.location,
+        value: contract.value,
+        fromDoctorId: uid,
+        fromDoctorName: userData?.name || "",
+        toDoctorId: offer.toDoctorId || null,
+        toDoctorName: offer.toDoctorId ? offer.toDoctorName || "" : "",
+        message: offer.message.trim(),
+        requiresApproval: !!hospitalProfile?.requireSwapApproval,
+        status: "open" as SwapStatus,
+        claimedBy: null,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      })
+      transaction.update(contractRef, { activeSwapId: swapRef.id, updatedAt: serverTimestamp() })
+    })
+
+    return swapRef.id
+  } catch (error) {
+    console.error("Error offering shift swap:", error)
+    throw error
+  }
+}
+
+// Get the swaps offered to the current doctor: directed ones and open ones in their specialties
+export const getSwapOffers = async (): Promise<ShiftSwap[]> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const profile = await getDoctorProfile(uid)
+    const specialties = profile?.professional?.specialties || []
+
+    const [directed, pool] = await Promise.all([
+      getDocs(query(collection(db, "shiftSwaps"), where("toDoctorId", "==", uid), where("status", "==", "open"))),
+      specialties.length > 0
+        ? getDocs(
+            query(
+              collection(db, "shiftSwaps"),
+              where("toDoctorId", "==", null),
+              where("status", "==", "open"),
+              where("specialty", "in", specialties.slice(0, 30)),
+            ),
+          )
+        : null,
+    ])
+
+    const now = new Date()
+    return [...directed.docs, ...(pool?.docs || [])]
+      .map((swapDoc) => toSwap(swapDoc.id, swapDoc.data()))
+      .filter((swap) => swap.fromDoctorId !== uid && swap.startAt > now)
+      .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+  } catch (error) {
+    console.error("Error getting swap offers:", error)
+    throw error
+  }
+}
+
+// Get the swaps offered or claimed by the current doctor
+export const getMySwaps = async (): Promise<ShiftSwap[]> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const [offered, claimed] = await Promise.all([
+      getDocs(query(collection(db, "shiftSwaps"), where("fromDoctorId", "==", uid))),
+      getDocs(query(collection(db, "shiftSwaps"), where("claimedBy", "==", uid))),
+    ])
+
+    return [...offered.docs, ...claimed.docs]
+      .map((swapDoc) => toSwap(swapDoc.id, swapDoc.data()))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+  } catch (error) {
+    console.error("Error getting doctor swaps:", error)
+    throw error
+  }
+}
+
+// Get the swaps waiting for the current hospital's approval
+export const getSwapsAwaitingApproval = async (): Promise<ShiftSwap[]> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const q = query(
+      collection(db, "shiftSwaps"),
+      where("hospitalId", "==", uid),
+      where("status", "==", "pending_approval"),
+    )
+    const querySnapshot = await getDocs(q)
+
+    return querySnapshot.docs
+      .map((swapDoc) => toSwap(swapDoc.id, swapDoc.data()))
+      .sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+  } catch (error) {
+    console.error("Error getting swaps awaiting approval:", error)
+    throw error
+  }
+}
+
+// Get a specific swap
+export const getSwap = async (id: string): Promise<ShiftSwap | null> => {
+  try {
+    const swapDoc = await getDoc(doc(db, "shiftSwaps", id))
+    return swapDoc.exists() ? toSwap(swapDoc.id, swapDoc.data()) : null
+  } catch (error) {
+    console.error("Error getting swap:", error)
+    throw error
+  }
+}
+
+// Colega que assume o plantão, com a agenda obtida dos contratos caso ainda não tenha doctorSchedules
+interface Claimer {
+  uid: string
+  name: string
+  fallbackBookings: ScheduleBooking[]
+}
+
+// Dados lidos fora da transação: colega, regras de jornada do hospital e elegibilidade
+const prepareClaim = async (swapId: string, claimerId: string, claimerName?: string) => {
+  const swapDoc = await getDoc(doc(db, "shiftSwaps", swapId))
+  if (!swapDoc.exists()) throw new SwapError("not_found")
+
+  const [hospitalProfile, profile, fallbackBookings] = await Promise.all([
+    getHospitalProfile(swapDoc.data().hospitalId),
+    getDoctorProfile(claimerId),
+    getRecentBookings(claimerId),
+  ])
+  if (!isEligibleForShift(profile, swapDoc.data().specialty)) throw new SwapError("not_eligible")
+
+  const claimer: Claimer = { uid: claimerId, name: claimerName ?? profile?.personal?.name ?? "", fallbackBookings }
+  return {
+    contractId: swapDoc.data().contractId as string,
+    claimer,
+    workLimits: resolveWorkLimits(hospitalProfile?.workLimits),
+  }
+}
+
+// Lê e valida oferta e contrato dentro da transação
+const readSwapAndContract = async (transaction: Transaction, swapId: string, contractId: string) => {
+  const [swapDoc, contractDoc] = await Promise.all([
+    transaction.get(doc(db, "shiftSwaps", swapId)),
+    transaction.get(doc(db, "contracts", contractId)),
+  ])
+  if (!swapDoc.exists() || !contractDoc.exists()) throw new SwapError("not_found")
+
+  const swap = swapDoc.data()
+  const contract = contractDoc.data()
+  // O contrato pode ter sido cancelado ou iniciado depois da oferta
+  if (
+    contract.status !== "upcoming" ||
+    hasAttendance(contract) ||
+    contract.doctorId !== swap.fromDoctorId ||
+    contract.activeSwapId !== swapId
+  ) {
+    throw new SwapError("not_available")
+  }
+  if (readShiftTiming(contract).startAt <= new Date()) throw new SwapError("started")
+
+  return { swap, contract }
+}
+
+// Horário livre e limites de jornada do colega; devolve as reservas atuais e os avisos aceitos
+const checkClaimerSchedule = async (
+  transaction: Transaction,
+  contractId: string,
+  contract: DocumentData,
+  claimer: Claimer,
+  workLimits: WorkLimitsPolicy,
+  acknowledgeWorkLimits: boolean,
+): Promise<{ bookings: ScheduleBooking[]; workLimitIssues: WorkLimitIssue[] }> => {
+  const schedule = await transaction.get(doc(db, "doctorSchedules", claimer.uid))
+  const bookings = readScheduleBookings(schedule.data(), claimer.fallbackBookings).filter(
+    (booking) => booking.contractId !== contractId,
+  )
+
+  const timing = readShiftTiming(contract)
+  const conflict = findOverlap(bookings, timing)
+  if (conflict) throw new AcceptanceError("overlap", conflict)
+
+  const workLimitIssues = evaluateWorkLimits(bookings, timing, workLimits)
+  if (workLimitIssues.length > 0 && (workLimits.enforcement === "block" || !acknowledgeWorkLimits)) {
+    throw new WorkLimitError(workLimitIssues, workLimits.enforcement === "block")
+  }
+
+  return { bookings, workLimitIssues }
+}
+
+// Passa o contrato ao colega: agendas dos dois médicos, histórico de responsáveis e evento das agendas assinadas.
+// Todas as leituras da transação precisam acontecer antes desta função
+const transferContract = (
+  transaction: Transaction,
+  swapId: string,
+  contractId: string,
+  contract: DocumentData,
+  fromSchedule: DocumentData | undefined,
+  claimer: Claimer,
+  { bookings, workLimitIssues }: { bookings: ScheduleBooking[]; workLimitIssues: WorkLimitIssue[] },
+) => {
+  const timing = readShiftTiming(contract)
+  const holders = contract.holders || [
+    { doctorId: contract.doctorId, doctorName: "", since: contract.createdAt || Timestamp.now(), via: "proposal" },
+  ]
+  const holder = { doctorId: claimer.uid, doctorName: claimer.name, since: Timestamp.now(), via: "swap", swapId }
+
+  transaction.update(doc(db, "contracts", contractId), {
+    doctorId: claimer.uid,
+    holders: [...holders, holder],
+    activeSwapId: null,
+    workLimitIssues: workLimitIssues.map(toStoredWorkLimitIssue),
+    calendarSequence: increment(1),
+    updatedAt: serverTimestamp(),
+  })
+  if (fromSchedule) {
+    transaction.update(doc(db, "doctorSchedules", contract.doctorId), {
+      bookings: (fromSchedule.bookings || []).filter((booking: DocumentData) => booking.contractId !== contractId),
+      updatedAt: serverTimestamp(),
+    })
+  }
+  transaction.set(doc(db, "doctorSchedules", claimer.uid), {
+    bookings: toStoredBookings([
+      ...bookings,
+      { contractId, hospital: contract.hospital, startAt: timing.startAt, endAt: timing.endAt },
+    ]),
+    updatedAt: serverTimestamp(),
+  })
+  transaction.update(doc(db, "shiftSwaps", swapId), {
+    status: "completed" as SwapStatus,
+    resolvedAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  })
+}
+
+// Accept a swap as the colleague; the contract moves right away unless the hospital must approve it
+export const claimSwap = async (
+  swapId: string,
+  options: Omit<CreateContractOptions, "documentHash"> = {},
+): Promise<SwapStatus> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const userData = await getCurrentUserData()
+    const { contractId, claimer, workLimits } = await prepareClaim(swapId, uid, userData?.name)
+
+    return await runTransaction(db, async (transaction) => {
+      const { swap, contract } = await readSwapAndContract(transaction, swapId, contractId)
+      if (swap.status !== "open") throw new SwapError("not_available")
+      if (swap.fromDoctorId === uid || (swap.toDoctorId && swap.toDoctorId !== uid)) {
+        throw new Error("Swap was offered to another doctor")
+      }
+
+      const fromSchedule = await transaction.get(doc(db, "doctorSchedules", contract.doctorId))
+      const { bookings, workLimitIssues } = await checkClaimerSchedule(
+        transaction,
+        contractId,
+        contract,
+        claimer,
+        workLimits,
+        !!options.acknowledgeWorkLimits,
+      )
+
+      if (swap.requiresApproval) {
+        transaction.update(doc(db, "shiftSwaps", swapId), {
+          status: "pending_approval" as SwapStatus,
+          claimedBy: uid,
+          claimedByName: claimer.name,
+          acknowledgedWorkLimits: workLimitIssues.length > 0,
+          updatedAt: serverTimestamp(),
+        })
+        return "pending_approval" as SwapStatus
+      }
+
+      transaction.update(doc(db, "shiftSwaps", swapId), { claimedBy: uid, claimedByName: claimer.name })
+      transferContract(transaction, swapId, contractId, contract, fromSchedule.data(), claimer, {
+        bookings,
+        workLimitIssues,
+      })
+      return "completed" as SwapStatus
+    })
+  } catch (error) {
+    console.error("Error claiming shift swap:", error)
+    throw error
+  }
+}
+
+// Approve a claimed swap as the hospital; the colleague's schedule is checked again
+export const approveSwap = async (swapId: string): Promise<void> => {
+  try {
+    const uid = auth.currentUser?.uid
+    if (!uid) throw new Error("User not authenticated")
+
+    const swapDoc = await getDoc(doc(db, "shiftSwaps", swapId))
+    if (!swapDoc.exists()) throw new SwapError("not_found")
+    if (swapDoc.data().hospitalId !== uid) throw new Error("Swap belongs to another hospital")
+    if (!swapDoc.data().claimedBy) throw new SwapError("not_available")
+
+    const { contractId, claimer, workLimits } = await prepareClaim(
+      swapId,
+      swapDoc.data().claimedBy,
+      swapDoc.data().claimedByName,
+    )
+
+    await runTransaction(db, async (transaction) => {
+      const { swap, contract } = await readSwapAndContract(transaction, swapId, contractId)
+      if (swap.status !== "pending_approval" || swap.claimedBy !== claimer.uid) throw new SwapError("not_available")
+
+      const fromSchedule = await transaction.get(doc(db, "doctorSchedules", contract.doctorId))
+      const { bookings, workLimitIssues } = await checkClaimerSchedule(
+        transaction,
+        contractId,
+        contract,
+        claimer,
+        workLimits,
+        !!swap.acknowledgedWorkLimits,
+      )
+
+      transferContract(transaction, swapId, contractId, contract, fromSchedule.data(), claimer, {
+        bookings,
+        workLimitIssues,
+      })
+    })
+  } catch (error) {
+    console.error("Error approving shift swap:", error)
+    throw error
+  }
+}
+
+// Encerra a oferta sem trocar o médico; o contrato volta a aceitar novas ofertas
+const closeSwap = async (
+  swapId: string,
+  status: SwapStatus,
+  canClose: (swap: DocumentData, uid: string) => boolean,
+): Promise<void> => {
+  const uid = auth.currentUser?.uid
+  if (!uid) throw new Error("User not authenticated")
+
+  const swapRef = doc(db, "shiftSwaps", swapId)
+  await runTransaction(db, async (transaction) => {
+    const swapDoc = await transaction.get(swapRef)
+    if (!swapDoc.exists()) throw new SwapError("not_found")
+
+    const swap = swapDoc.data()
+    if (!canClose(swap, uid)) throw new SwapError("not_available")
+
+    const contractRef = doc(db, "contracts", swap.contractId)
+    const contractDoc = await transaction.get(contractRef)
+
+    transaction.update(swapRef, { status, resolvedAt: serverTimestamp(), updatedAt: serverTimestamp() })
+    if (contractDoc.exists() && contractDoc.data().activeSwapId === swapId) {
+      transaction.update(contractRef, { activeSwapId: null, updatedAt: serverTimestamp() })
+    }
+  })
+}
+
+// Decline a swap offered directly to the current doctor
+export const declineSwap = async (swapId: string): Promise<void> => {
+  try {
+    await closeSwap(swapId, "declined", (swap, uid) => swap.status === "open" && swap.toDoctorId === uid)
+  } catch (error) {
+    console.error("Error declining shift swap:", error)
+    throw error
+  }
+}
+
+// Withdraw a swap offered by the current doctor while nobody has taken it over
+export const cancelSwap = async (swapId: string): Promise<void> => {
+  try {
+    await closeSwap(
+      swapId,
+      "canceled",
+      (swap, uid) => swap.fromDoctorId === uid && (swap.status === "open" || swap.status === "pending_approval"),
+    )
+  } catch (error) {
+    console.error("Error canceling shift swap:", error)
+    throw error
+  }
+}
+
+// Reject a claimed swap as the hospital; the original doctor keeps the shift
+export const rejectSwap = async (swapId: string): Promise<void> => {
+  try {
+    await closeSwap(swapId, "rejected", (swap, uid) => swap.hospitalId === uid && swap.status === "pending_approval")
+  } catch (error) {
+    console.error("Error rejecting shift swap:", error)
+    throw error
+  }
+}
@@ -0,0 +1,116 @@
+import { getTaxTable, type TaxTable } from "./tax-tables"
+
+// Como o médico recebe: como autônomo via RPA ou pela própria empresa, emitindo nota fiscal
+export type TaxRegime = "pf" | "pj_simples" | "pj_presumido"
+
+export interface TaxSettings {
+  regime: TaxRegime
+  // Alíquota de ISS do município, em %; sem ela vale a padrão da tabela
+  issRate?: number
+  // Dependentes deduzidos do IRRF (só na pessoa física)
+  dependents: number
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  regime: "pf",
+  dependents: 0,
+}
+
+const TAX_REGIMES: TaxRegime[] = ["pf", "pj_simples", "pj_presumido"]
+
+// Completa as configurações do médico com os valores padrão
+export const resolveTaxSettings = (settings?: Partial<TaxSettings> | null): TaxSettings => ({
+  regime: settings?.regime && TAX_REGIMES.includes(settings.regime) ? settings.regime : DEFAULT_TAX_SETTINGS.regime,
+  ...(typeof settings?.issRate === "number" && { issRate: settings.issRate }),
+  dependents:
+    typeof settings?.dependents === "number" && settings.dependents >= 0
+      ? Math.floor(settings.dependents)
+      : DEFAULT_TAX_SETTINGS.dependents,
+})
+
+export const taxRegimeLabels: Record<TaxRegime, string> = {
+  pf: "Pessoa física (RPA)",
+  pj_simples: "PJ optante pelo Simples Nacional (nota fiscal)",
+  pj_presumido: "PJ no lucro presumido (nota fiscal)",
+}
+
+export interface TaxEstimate {
+  regime: TaxRegime
+  // Versão da tabela usada
+  tableVersion: string
+  gross: number
+  inss: number
+  irrf: number
+  iss: number
+  // Alíquota de ISS aplicada, em %
+  issRate: number
+  net: number
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+// ISS informado pelo médico, limitado às alíquotas permitidas
+const getIssRate = (table: TaxTable, settings: TaxSettings): number => {
+  if (settings.issRate === undefined) return table.iss.defaultRate
+  return Math.min(table.iss.maxRate, Math.max(table.iss.minRate, settings.issRate))
+}
+
+// IRRF mensal da pessoa física: tabela progressiva sobre o valor menos o INSS e os dependentes (ou o
+// desconto simplificado, se maior), e a redução da tabela sobre os rendimentos
+const getPersonIrrf = (table: TaxTable, gross: number, inss: number, dependents: number): number => {
+  const { irrf } = table
+  const deductions = Math.max(inss + dependents * irrf.dependentDeduction, irrf.simplifiedDiscount)
+  const base = Math.max(0, gross - deductions)
+  const bracket = irrf.brackets.find((item) => item.upTo === null || base <= item.upTo)!
+  const tax = Math.max(0, base * bracket.rate - bracket.deduction)
+
+  const { reduction } = irrf
+  if (!reduction || gross > reduction.partialUpTo) return tax
+  if (gross <= reduction.fullUpTo) return 0
+  return Math.max(0, tax - Math.max(0, reduction.base - reduction.factor * gross))
+}
+
+// Estimativa das retenções sobre o valor de um plantão, como se fosse o único pago pelo hospital no mês
+export const estimateTaxes = (gross: number, settings: TaxSettings, date = new Date()): TaxEstimate => {
+  const table = getTaxTable(date)
+  const issRate = getIssRate(table, settings)
+  const amount = Math.max(0, gross)
+
+  const inss = settings.regime === "pf" ? roundCents(Math.min(amount, table.inss.ceiling) * table.inss.rate) : 0
+  // Optantes pelo Simples Nacional não sofrem retenção de IRRF
+  const irrfDue =
+    settings.regime === "pf"
+      ? getPersonIrrf(table, amount, inss, settings.dependents)
+      : settings.regime === "pj_presumido"
+        ? amount * table.irrf.pjRate
+        : 0
+  const irrf = irrfDue < table.irrf.minimumWithholding ? 0 : roundCents(irrfDue)
+  const iss = roundCents((amount * issRate) / 100)
+
+  return {
+    regime: settings.regime,
+    tableVersion: table.version,
+    gross: roundCents(amount),
+    inss,
+    irrf,
+    iss,
+    issRate,
+    net: roundCents(amount - inss - irrf - iss),
+  }
+}
+
+export type TaxTotals = Pick<TaxEstimate, "gross" | "inss" | "irrf" | "iss" | "net">
+
+// Soma de estimativas, para os totais do extrato
+export const sumTaxEstimates = (estimates: TaxTotals[]): TaxTotals => {
+  return estimates.reduce(
+    (sum, estimate) => ({
+      gross: roundCents(sum.gross + estimate.gross),
+      inss: roundCents(sum.inss + estimate.inss),
+      irrf: roundCents(sum.irrf + estimate.irrf),
+      iss: roundCents(sum.iss + estimate.iss),
+      net: roundCents(sum.net + estimate.net),
+    }),
+    { gross: 0, inss: 0, irrf: 0, iss: 0, net: 0 },
+  )
+}
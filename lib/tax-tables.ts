@@ -0,0 +1,120 @@
+// Tabelas de retenção na fonte por vigência; mudanças de alíquota ou faixa entram como uma nova versão,
+// e os cálculos usam a vigente na data do plantão
+
+export interface IrrfBracket {
+  // Limite superior da base de cálculo mensal; null na última faixa
+  upTo: number | null
+  rate: number
+  deduction: number
+}
+
+// Redução do IRRF mensal (Lei 15.270/2025): zera o imposto até fullUpTo e reduz em
+// base - factor x rendimentos até partialUpTo
+export interface IrrfReduction {
+  fullUpTo: number
+  partialUpTo: number
+  base: number
+  factor: number
+}
+
+export interface TaxTable {
+  version: string
+  // "AAAA-MM-DD", inclusive
+  validFrom: string
+  // Contribuinte individual com retenção pela empresa: alíquota até o teto do salário de contribuição
+  inss: { rate: number; ceiling: number }
+  irrf: {
+    brackets: IrrfBracket[]
+    dependentDeduction: number
+    // Desconto simplificado mensal, usado quando maior que as deduções legais
+    simplifiedDiscount: number
+    reduction?: IrrfReduction
+    // Serviços profissionais prestados por PJ (art. 714 do RIR/2018)
+    pjRate: number
+    // Retenções abaixo disso não são feitas (art. 67 da Lei 9.430/1996)
+    minimumWithholding: number
+  }
+  // Alíquotas de ISS permitidas (LC 116/2003) e a usada quando o médico não informa a do município
+  iss: { minRate: number; maxRate: number; defaultRate: number }
+}
+
+const IRRF_2024_BRACKETS: IrrfBracket[] = [
+  { upTo: 2259.2, rate: 0, deduction: 0 },
+  { upTo: 2826.65, rate: 0.075, deduction: 169.44 },
+  { upTo: 3751.05, rate: 0.15, deduction: 381.44 },
+  { upTo: 4664.68, rate: 0.225, deduction: 662.77 },
+  { upTo: null, rate: 0.275, deduction: 896 },
+]
+
+const IRRF_2025_BRACKETS: IrrfBracket[] = [
+  { upTo: 2428.8, rate: 0, deduction: 0 },
+  { upTo: 2826.65, rate: 0.075, deduction: 182.16 },
+  { upTo: 3751.05, rate: 0.15, deduction: 394.16 },
+  { upTo: 4664.68, rate: 0.225, deduction: 675.49 },
+  { upTo: null, rate: 0.275, deduction: 908.73 },
+]
+
+const ISS_RATES = { minRate: 2, maxRate: 5, defaultRate: 5 }
+
+// Da mais antiga para a mais recente
+export const TAX_TABLES: TaxTable[] = [
+  {
+    version: "2024-02",
+    validFrom: "2024-02-01",
+    inss: { rate: 0.11, ceiling: 7786.02 },
+    irrf: {
+      brackets: IRRF_2024_BRACKETS,
+      dependentDeduction: 189.59,
+      simplifiedDiscount: 564.8,
+      pjRate: 0.015,
+      minimumWithholding: 10,
+    },
+    iss: ISS_RATES,
+  },
+  {
+    version: "2025-01",
+    validFrom: "2025-01-01",
+    inss: { rate: 0.11, ceiling: 8157.41 },
+    irrf: {
+      brackets: IRRF_2024_BRACKETS,
+      dependentDeduction: 189.59,
+      simplifiedDiscount: 564.8,
+      pjRate: 0.015,
+      minimumWithholding: 10,
+    },
+    iss: ISS_RATES,
+  },
+  {
+    version: "2025-05",
+    validFrom: "2025-05-01",
+    inss: { rate: 0.11, ceiling: 8157.41 },
+    irrf: {
+      brackets: IRRF_2025_BRACKETS,
+      dependentDeduction: 189.59,
+      simplifiedDiscount: 607.2,
+      pjRate: 0.015,
+      minimumWithholding: 10,
+    },
+    iss: ISS_RATES,
+  },
+  {
+    version: "2026-01",
+    validFrom: "2026-01-01",
+    inss: { rate: 0.11, ceiling: 8475.55 },
+    irrf: {
+      brackets: IRRF_2025_BRACKETS,
+      dependentDeduction: 189.59,
+      simplifiedDiscount: 607.2,
+      reduction: { fullUpTo: 5000, partialUpTo: 7350, base: 978.62, factor: 0.133145 },
+      pjRate: 0.015,
+      minimumWithholding: 10,
+    },
+    iss: ISS_RATES,
+  },
+]
+
+// Tabela vigente na data; antes da primeira versão usa a mais antiga
+export const getTaxTable = (date: Date): TaxTable => {
+  const day = date.toISOString().slice(0, 10)
+  return TAX_TABLES.reduce((current, table) => (table.validFrom <= day ? table : current), TAX_TABLES[0])
+}
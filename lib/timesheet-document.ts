@@ -0,0 +1,95 @@
+import { buildPdf, type PdfBlock } from "./pdf"
+import { formatInstant } from "./contract-document"
+import { formatDuration } from "./shift-timing"
+import { computeAttendanceTotals, getPunchLabel, locationStatusLabels } from "./attendance-log"
+import type { Contract, HoursReviewEntry } from "./contract-service"
+
+// Minutos como "8h30"; o saldo leva sinal
+export const formatMinutes = (minutes: number, signed = false): string => {
+  const sign = minutes < 0 ? "-" : signed ? "+" : ""
+  return `${sign}${formatDuration(Math.abs(minutes) / 60)}`
+}
+
+// "Hospital ajustou para 7h30: ..."
+export const describeHoursReviewEntry = (entry: HoursReviewEntry): string => {
+  const hours = formatMinutes(entry.minutes)
+  const text = {
+    approved: `Hospital aprovou ${hours}`,
+    adjusted: `Hospital ajustou para ${hours}`,
+    accepted: `Médico aceitou ${hours}`,
+    contested: `Médico contestou o ajuste, pedindo ${hours}`,
+  }[entry.action]
+  return entry.justification ? `${text}: ${entry.justification}` : text
+}
+
+// Folha de ponto do plantão: marcações com as evidências, horas previstas x trabalhadas e a assinatura do hospital
+export const getTimesheetBlocks = (contract: Contract, now = new Date()): PdfBlock[] => {
+  const totals = computeAttendanceTotals(contract, contract.punches, now)
+  const doctorName = contract.terms?.doctor.name
+
+  return [
+    { kind: "title", text: "FOLHA DE PONTO DO PLANTÃO" },
+    { kind: "paragraph", text: `Contratante: ${contract.hospital}` },
+    ...(doctorName ? [{ kind: "paragraph" as const, text: `Médico: ${doctorName}` }] : []),
+    { kind: "paragraph", text: `Especialidade: ${contract.specialty} · Local: ${contract.location}` },
+    {
+      kind: "paragraph",
+      text:
+        `Plantão previsto: ${formatInstant(contract.startAt, contract.timeZone)} a ` +
+        `${formatInstant(contract.endAt, contract.timeZone)} (horário de ${contract.timeZone})`,
+    },
+    { kind: "heading", text: "MARCAÇÕES" },
+    ...(contract.punches.length === 0 ? [{ kind: "paragraph" as const, text: "Nenhuma marcação registrada." }] : []),
+    ...contract.punches.map((punch): PdfBlock => {
+      const evidence = [
+        punch.location &&
+          `local ${locationStatusLabels[punch.location.status]}` +
+            (punch.location.distanceMeters !== undefined ? ` (${Math.round(punch.location.distanceMeters)} m)` : ""),
+        punch.verification && `verificação facial ${Math.round(punch.verification.score * 100)}%`,
+      ].filter(Boolean)
+      return {
+        kind: "bullet",
+        text:
+          `${formatInstant(punch.at, contract.timeZone)} - ${getPunchLabel(punch)}` +
+          (evidence.length > 0 ? `: ${evidence.join(", ")}` : ""),
+      }
+    }),
+    { kind: "heading", text: "TOTAIS" },
+    { kind: "bullet", text: `Horas previstas: ${formatMinutes(totals.scheduledMinutes)}` },
+    { kind: "bullet", text: `Horas trabalhadas: ${formatMinutes(totals.workedMinutes)}` },
+    { kind: "bullet", text: `Intervalos: ${formatMinutes(totals.breakMinutes)}` },
+    ...(totals.awayMinutes > 0
+      ? [{ kind: "bullet" as const, text: `Saídas temporárias: ${formatMinutes(totals.awayMinutes)}` }]
+      : []),
+    { kind: "bullet", text: `Saldo: ${formatMinutes(totals.balanceMinutes, true)}` },
+    { kind: "heading", text: "APROVAÇÃO DAS HORAS" },
+    ...contract.hoursReview.map(
+      (entry): PdfBlock => ({
+        kind: "bullet",
+        text: `${formatInstant(entry.at, contract.timeZone)} - ${describeHoursReviewEntry(entry)}`,
+      }),
+    ),
+    {
+      kind: "paragraph",
+      text:
+        contract.approvedMinutes !== undefined
+          ? `Horas aprovadas (faturáveis): ${formatMinutes(contract.approvedMinutes)}.`
+          : "Horas ainda não aprovadas.",
+    },
+    {
+      kind: "paragraph",
+      text: contract.timesheetSignature
+        ? `Folha de ponto assinada por ${contract.timesheetSignature.signerName} em ` +
+          `${formatInstant(contract.timesheetSignature.signedAt, contract.timeZone)}, com ` +
+          `${formatMinutes(contract.timesheetSignature.workedMinutes)} trabalhadas.`
+        : "Pendente de assinatura do hospital.",
+    },
+  ]
+}
+
+export const renderTimesheet = (contract: Contract): Uint8Array => {
+  return buildPdf([getTimesheetBlocks(contract)], {
+    title: `Folha de ponto - ${contract.hospital}`,
+    footer: `Folha de ponto do contrato ${contract.id}`,
+  })
+}
@@ -0,0 +1,156 @@
+import { doc, runTransaction, serverTimestamp, Timestamp, type DocumentData } from "firebase/firestore"
+import { db, auth } from "./firebase"
+import { getCurrentUserData } from "./auth-service"
+import { transitionContract, type ContractStatus, type HoursReviewEntry } from "./contract-service"
+
+// "not_reviewable": o contrato não está aguardando esta parte; "justification_required": ajuste ou contestação
+// sem justificativa
+export type TimesheetFailure = "not_found" | "not_reviewable" | "justification_required" | "invalid_minutes"
+
+export class TimesheetError extends Error {
+  constructor(public reason: TimesheetFailure) {
+    super(`Timesheet review rejected (${reason})`)
+    this.name = "TimesheetError"
+  }
+}
+
+type ReviewParty = HoursReviewEntry["by"]
+
+// De quem é a vez em cada etapa da aprovação das horas
+export const hoursReviewTurn: Partial<Record<ContractStatus, ReviewParty>> = {
+  awaiting_approval: "hospital",
+  hours_contested: "hospital",
+  hours_adjusted: "doctor",
+}
+
+export const reviewStatusLabels: Partial<Record<ContractStatus, string>> = {
+  awaiting_approval: "Horas em aprovação",
+  hours_adjusted: "Horas ajustadas",
+  hours_contested: "Ajuste contestado",
+}
+
+// Minutos da última proposta de horas: o ajuste do hospital ou, antes dele, o que as marcações registraram
+export const getProposedMinutes = (data: { workedMinutes?: number; hoursReview?: { minutes: number }[] }) => {
+  const last = data.hoursReview?.[data.hoursReview.length - 1]
+  return last ? last.minutes : data.workedMinutes || 0
+}
+
+interface ReviewStep {
+  to: ContractStatus
+  action: HoursReviewEntry["action"]
+  minutes: number
+  justification?: string
+}
+
+// Run one hours review step as the party whose turn it is; the status change goes through the state machine
+const review = async (
+  contractId: string,
+  party: ReviewParty,
+  step: (data: DocumentData) => ReviewStep,
+): Promise<void> => {
+  const uid = auth.currentUser?.uid
+  if (!uid) throw new Error("User not authenticated")
+
+  // Nome de quem assina a folha de ponto pelo hospital
+  const userData = party === "hospital" ? await getCurrentUserData() : null
+  const contractRef = doc(db, "contracts", contractId)
+
+  await runTransaction(db, async (transaction) => {
+    const contractDoc = await transaction.get(contractRef)
+    if (!contractDoc.exists()) throw new TimesheetError("not_found")
+
+    const data = contractDoc.data()
+    if (data[party === "hospital" ? "hospitalId" : "doctorId"] !== uid) throw new TimesheetError("not_found")
+    if (hoursReviewTurn[data.status as ContractStatus] !== party) throw new TimesheetError("not_reviewable")
+
+    const { to, action, minutes, justification } = step(data)
+    // serverTimestamp não é aceito dentro de arrays
+    const entry = {
+      by: party,
+      authorId: uid,
+      action,
+      minutes,
+      ...(justification && { justification }),
+      at: Timestamp.now(),
+    }
+
+    transitionContract(transaction, contractRef, data.status, to, uid, {
+      hoursReview: [...(data.hoursReview || []), entry],
+      ...(to === "completed" && { approvedMinutes: minutes }),
+      // Conferência ou ajuste do hospital assina a folha de ponto com as horas que ele reconhece
+      ...(party === "hospital" && {
+        timesheetSignature: {
+          signerId: uid,
+          signerName: userData?.name || data.hospital,
+          signedAt: serverTimestamp(),
+          workedMinutes: minutes,
+        },
+      }),
+    })
+  })
+}
+
+const requireJustification = (justification: string): string => {
+  if (!justification.trim()) throw new TimesheetError("justification_required")
+  return justification.trim()
+}
+
+// Hospital approves the hours as they stand: the punches or, after a contest, the doctor's recorded hours
+export const approveTimesheet = async (contractId: string): Promise<void> => {
+  try {
+    await review(contractId, "hospital", (data) => ({
+      to: "completed",
+      action: "approved",
+      minutes: data.workedMinutes || 0,
+    }))
+  } catch (error) {
+    console.error("Error approving timesheet:", error)
+    throw error
+  }
+}
+
+// Hospital adjusts the worked hours; the doctor has to accept or contest the new total
+export const adjustTimesheet = async (contractId: string, minutes: number, justification: string): Promise<void> => {
+  try {
+    if (!Number.isInteger(minutes) || minutes < 0) throw new TimesheetError("invalid_minutes")
+
+    await review(contractId, "hospital", () => ({
+      to: "hours_adjusted",
+      action: "adjusted",
+      minutes,
+      justification: requireJustification(justification),
+    }))
+  } catch (error) {
+    console.error("Error adjusting timesheet:", error)
+    throw error
+  }
+}
+
+// Doctor accepts the hospital's adjustment, which becomes the billable hours
+export const acceptTimesheetAdjustment = async (contractId: string): Promise<void> => {
+  try {
+    await review(contractId, "doctor", (data) => ({
+      to: "completed",
+      action: "accepted",
+      minutes: getProposedMinutes(data),
+    }))
+  } catch (error) {
+    console.error("Error accepting timesheet adjustment:", error)
+    throw error
+  }
+}
+
+// Doctor contests the adjustment, claiming the hours recorded by the punches; the hospital decides again
+export const contestTimesheetAdjustment = async (contractId: string, justification: string): Promise<void> => {
+  try {
+    await review(contractId, "doctor", (data) => ({
+      to: "hours_contested",
+      action: "contested",
+      minutes: data.workedMinutes || 0,
+      justification: requireJustification(justification),
+    }))
+  } catch (error) {
+    console.error("Error contesting timesheet adjustment:", error)
+    throw error
+  }
+}
@@ -0,0 +1,109 @@
+import type { ShiftTiming } from "./shift-timing"
+
+// Limites de jornada aplicados ao aceitar um plantão
+export interface WorkLimitsPolicy {
+  // Descanso mínimo entre o fim de um plantão e o início do próximo
+  minRestHours: number
+  // Máximo de horas em qualquer período de 7 dias corridos
+  maxWeeklyHours: number
+  // "warn" deixa o médico aceitar após confirmar; "block" impede o aceite
+  enforcement: "warn" | "block"
+}
+
+export const DEFAULT_WORK_LIMITS: WorkLimitsPolicy = {
+  minRestHours: 11,
+  maxWeeklyHours: 60,
+  enforcement: "warn",
+}
+
+// Completa a política do hospital com os valores padrão
+export const resolveWorkLimits = (policy?: Partial<WorkLimitsPolicy> | null): WorkLimitsPolicy => ({
+  minRestHours: typeof policy?.minRestHours === "number" ? policy.minRestHours : DEFAULT_WORK_LIMITS.minRestHours,
+  maxWeeklyHours:
+    typeof policy?.maxWeeklyHours === "number" ? policy.maxWeeklyHours : DEFAULT_WORK_LIMITS.maxWeeklyHours,
+  enforcement: policy?.enforcement === "block" ? "block" : "warn",
+})
+
+export type WorkPeriod = Pick<ShiftTiming, "startAt" | "endAt">
+
+// "rest": descanso (hours) abaixo do mínimo (limit); "weekly_hours": total em 7 dias (hours) acima do máximo
+export interface WorkLimitIssue {
+  kind: "rest" | "weekly_hours"
+  hours: number
+  limit: number
+  // Início dos 7 dias com a maior carga, no caso de "weekly_hours"
+  windowStart?: Date
+}
+
+const HOUR = 60 * 60 * 1000
+const WEEK = 7 * 24 * HOUR
+
+const roundHours = (ms: number) => Math.round((ms / HOUR) * 10) / 10
+
+// Horas trabalhadas dentro de [from, from + 7 dias)
+export const getRollingWeekHours = (periods: WorkPeriod[], from: Date): number => {
+  const to = from.getTime() + WEEK
+  const total = periods.reduce((sum, period) => {
+    const start = Math.max(period.startAt.getTime(), from.getTime())
+    const end = Math.min(period.endAt.getTime(), to)
+    return sum + Math.max(0, end - start)
+  }, 0)
+
+  return roundHours(total)
+}
+
+// Maior carga em 7 dias corridos entre as janelas que alcançam o plantão; o máximo sempre
+// ocorre numa janela que começa no início ou termina no fim de algum plantão
+const getPeakWeek = (periods: WorkPeriod[], shift: WorkPeriod): { hours: number; windowStart: Date } => {
+  const candidates = periods
+    .flatMap((period) => [period.startAt.getTime(), period.endAt.getTime() - WEEK])
+    .filter((start) => start < shift.endAt.getTime() && start + WEEK > shift.startAt.getTime())
+
+  return candidates.reduce(
+    (peak, start) => {
+      const hours = getRollingWeekHours(periods, new Date(start))
+      return hours > peak.hours ? { hours, windowStart: new Date(start) } : peak
+    },
+    { hours: 0, windowStart: shift.startAt },
+  )
+}
+
+// Confere descanso mínimo e carga semanal do novo plantão contra os já assumidos
+export const evaluateWorkLimits = (
+  existing: WorkPeriod[],
+  shift: WorkPeriod,
+  policy: WorkLimitsPolicy,
+): WorkLimitIssue[] => {
+  const issues: WorkLimitIssue[] = []
+
+  const rests = existing.map((period) =>
+    period.endAt <= shift.startAt
+      ? shift.startAt.getTime() - period.endAt.getTime()
+      : Math.max(0, period.startAt.getTime() - shift.endAt.getTime()),
+  )
+  const shortestRest = Math.min(...rests)
+  if (rests.length > 0 && shortestRest < policy.minRestHours * HOUR) {
+    issues.push({ kind: "rest", hours: roundHours(shortestRest), limit: policy.minRestHours })
+  }
+
+  const peak = getPeakWeek([...existing, shift], shift)
+  if (peak.hours > policy.maxWeeklyHours) {
+    issues.push({
+      kind: "weekly_hours",
+      hours: peak.hours,
+      limit: policy.maxWeeklyHours,
+      windowStart: peak.windowStart,
+    })
+  }
+
+  return issues
+}
+
+// Texto exibido ao médico para cada limite excedido
+export const describeWorkLimitIssue = (issue: WorkLimitIssue): string => {
+  if (issue.kind === "rest") {
+    return `Descanso de apenas ${issue.hours}h entre plantões (mínimo: ${issue.limit}h).`
+  }
+  const since = issue.windowStart ? ` a partir de ${issue.windowStart.toLocaleDateString("pt-BR")}` : ""
+  return `${issue.hours}h de plantão em 7 dias${since} (máximo: ${issue.limit}h).`
+}
@@ -0,0 +1,26 @@
+// Copia os pesos do reconhecimento facial para public/, de onde o navegador os carrega
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..")
+const source = join(root, "node_modules", "@vladmandic", "face-api", "model")
+const target = join(root, "public", "models", "face-api")
+
+// Apenas os modelos usados em lib/face-embedder.ts
+const models = ["tiny_face_detector_model", "face_landmark_68_tiny_model", "face_recognition_model"]
+
+if (!existsSync(source)) {
+  console.warn("@vladmandic/face-api not installed; skipping face model copy")
+  process.exit(0)
+}
+
+mkdirSync(target, { recursive: true })
+
+for (const file of readdirSync(source)) {
+  if (models.some((model) => file.startsWith(model))) {
+    copyFileSync(join(source, file), join(target, file))
+  }
+}
+
+console.log(`Face models copied to ${target}`)
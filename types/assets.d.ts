@@ -0,0 +1,2 @@
+// Declarações dos imports de imagem (ex.: o logo em SVG); o next-env.d.ts gerado pelo Next não é versionado
+/// <reference types="next/image-types/global" />